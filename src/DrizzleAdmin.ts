@@ -2,15 +2,29 @@ import { Hono } from "hono";
 import { eq, getTableColumns } from "drizzle-orm";
 import type { DrizzleAdminConfig } from "@/config.ts";
 import { validateAdminUsersTable } from "@/auth/contract.ts";
+import { validateAuditLogTable } from "@/audit/contract.ts";
+import { validateVersionsTable } from "@/versions/contract.ts";
+import { validateApiTokensTable } from "@/apiTokens/contract.ts";
+import { validateTwoFactorTable } from "@/twoFactor/contract.ts";
+import { resolveLoginThrottle, type LoginThrottle } from "@/loginAttempts/throttle.ts";
+import { endAdminSessions, resolveSessions, type Sessions } from "@/sessions/lifecycle.ts";
 import { postgresqlAdapter } from "@/dialects/postgresql.ts";
 import { loadResources, validateResources } from "@/resources/loader.ts";
 import type { ResourceDefinition } from "@/resources/types.ts";
 import { createAuthRoutes } from "@/routes/auth.ts";
 import { createCrudRoutes } from "@/routes/crud.ts";
-import { authMiddleware } from "@/auth/middleware.ts";
-import { loginPage } from "@/views/login.ts";
+import { createAuditRoutes } from "@/routes/audit.ts";
+import { createAccountRoutes } from "@/routes/account.ts";
+import { createTwoFactorRoutes } from "@/routes/twoFactor.ts";
+import { createApiDocsRoutes, createApiRoutes } from "@/routes/api.ts";
+import { createPasswordRoutes } from "@/routes/passwords.ts";
+import { createInviteRoutes } from "@/routes/invitations.ts";
+import { authMiddleware, getAdmin, twoFactorSetupMiddleware } from "@/auth/middleware.ts";
+import { can } from "@/auth/permissions.ts";
+import { loginPage, twoFactorLoginPage } from "@/views/login.ts";
 import { hashPassword } from "@/auth/password.ts";
 import { adminUrl } from "@/utils/url.ts";
+import { trustProxyMiddleware } from "@/utils/request.ts";
 
 /**
  * The main admin panel class that sets up routes, authentication, and CRUD
@@ -42,6 +56,9 @@ export class DrizzleAdmin {
   private app: Hono;
   private resources: ResourceDefinition[] = [];
   private basePath: string;
+  private loginThrottle: LoginThrottle;
+  private sessions: Sessions | undefined;
+  private publicUrl: string | undefined;
 
   /** Creates a new DrizzleAdmin instance with the given configuration. */
   constructor(config: DrizzleAdminConfig) {
@@ -60,7 +77,56 @@ export class DrizzleAdmin {
     }
     this.basePath = raw.endsWith('/') ? raw.slice(0, -1) : raw;
 
-    validateAdminUsersTable(config.adminUsers);
+    validateAdminUsersTable(config.adminUsers, config.roleColumn);
+    if (config.auditLog) {
+      validateAuditLogTable(config.auditLog.table);
+    }
+    if (config.versionsTable) {
+      validateVersionsTable(config.versionsTable);
+    }
+    if (config.apiTokensTable) {
+      if (!config.api) {
+        throw new Error("apiTokensTable requires the JSON API; set `api: true`");
+      }
+      validateApiTokensTable(config.apiTokensTable);
+    }
+    if (config.twoFactor) {
+      validateTwoFactorTable(config.twoFactor.table);
+    }
+    for (const option of ["maxFailuresPerEmail", "maxFailuresPerIp", "lockoutSeconds"] as const) {
+      const value = config.loginThrottle?.[option];
+      if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+        throw new Error(`loginThrottle.${option} must be a positive integer. Got: ${value}`);
+      }
+    }
+    this.loginThrottle = resolveLoginThrottle(config.loginThrottle);
+    if (config.sessions) {
+      if (!config.sessions.store) {
+        throw new Error("sessions.store is required; use createTableSessionStore() or createMemorySessionStore()");
+      }
+      for (const option of ["idleTimeoutSeconds", "maxAgeSeconds"] as const) {
+        const value = config.sessions[option];
+        if (value !== undefined && !(Number.isInteger(value) && value > 0)) {
+          throw new Error(`sessions.${option} must be a positive integer. Got: ${value}`);
+        }
+      }
+    }
+    this.sessions = resolveSessions(config.sessions);
+    if (config.mailer) {
+      if (!config.publicUrl) {
+        throw new Error("mailer requires publicUrl, the origin that links in emails point to");
+      }
+      if (!/^https?:\/\/[^\s/]+/.test(config.publicUrl)) {
+        throw new Error(`publicUrl must be an http or https URL. Got: "${config.publicUrl}"`);
+      }
+      this.publicUrl = config.publicUrl.replace(/\/+$/, "");
+    }
+    if (config.inviteRoles && !config.mailer) {
+      throw new Error("inviteRoles requires a mailer to send invitations; configure `mailer`");
+    }
+    if (config.inviteRoles && !config.roleColumn) {
+      throw new Error("inviteRoles requires roleColumn to give invited admins their roles; configure `roleColumn`");
+    }
 
     if (config.dialect !== "postgresql") {
       throw new Error(`Dialect "${config.dialect}" is not yet supported`);
@@ -80,7 +146,17 @@ export class DrizzleAdmin {
       );
     }
 
-    const validationErrors = validateResources(resources);
+    const validationErrors = validateResources(resources, postgresqlAdapter);
+    if (!this.config.versionsTable) {
+      for (const resource of resources.filter((r) => r.options.versioning)) {
+        validationErrors.push(`Resource "${resource.tableName}" enables versioning but no versionsTable is configured`);
+      }
+    }
+    if (this.config.api) {
+      for (const resource of resources.filter((r) => r.routePath === "api" || r.routePath === "api-docs")) {
+        validationErrors.push(`Resource path "${resource.routePath}" is reserved for the JSON API; disable \`api\` or rename the table`);
+      }
+    }
     if (validationErrors.length > 0) {
       for (const error of validationErrors) {
         console.error(`[DrizzleAdmin] ${error}`);
@@ -102,23 +178,141 @@ export class DrizzleAdmin {
   private setupRoutes(): void {
     const adapter = postgresqlAdapter;
 
+    if (this.config.trustProxy) {
+      this.app.use("/*", trustProxyMiddleware());
+    }
+
     const authRoutes = createAuthRoutes({
       db: this.config.db,
       adminUsers: this.config.adminUsers,
       sessionSecret: this.config.sessionSecret,
       basePath: this.basePath,
-      renderLogin: (props) => loginPage(props),
+      roleColumn: this.config.roleColumn,
+      twoFactor: this.config.twoFactor,
+      loginThrottle: this.loginThrottle,
+      auditLog: this.config.auditLog,
+      sessions: this.sessions,
+      renderLogin: (props) => loginPage({ ...props, canResetPassword: !!this.config.mailer }),
+      renderTwoFactor: (props) => twoFactorLoginPage(props),
     });
     this.app.route("/", authRoutes);
 
-    this.app.use("/*", authMiddleware(this.config.sessionSecret, this.basePath));
+    if (this.config.mailer) {
+      const passwordRoutes = createPasswordRoutes({
+        db: this.config.db,
+        adminUsers: this.config.adminUsers,
+        sessionSecret: this.config.sessionSecret,
+        basePath: this.basePath,
+        mailer: this.config.mailer,
+        publicUrl: this.publicUrl!,
+        loginThrottle: this.loginThrottle,
+        sessions: this.sessions,
+      });
+      this.app.route("/", passwordRoutes);
+    }
+
+    // Registered before the cookie session middleware, which would redirect API clients to the login page
+    if (this.config.api) {
+      const apiRoutes = createApiRoutes({
+        db: this.config.db,
+        adminUsers: this.config.adminUsers,
+        roleColumn: this.config.roleColumn,
+        adapter,
+        sessionSecret: this.config.sessionSecret,
+        resources: this.resources,
+        basePath: this.basePath,
+        auditLog: this.config.auditLog,
+        versionsTable: this.config.versionsTable,
+        apiTokensTable: this.config.apiTokensTable,
+        twoFactor: this.config.twoFactor,
+        loginThrottle: this.loginThrottle,
+        sessions: this.sessions,
+      });
+      this.app.route("/api", apiRoutes);
+    }
+
+    this.app.use("/*", authMiddleware(this.config.sessionSecret, this.basePath, this.sessions));
+
+    // Admins who must set up two-factor authentication can reach only its page until they do
+    if (this.config.twoFactor) {
+      const twoFactorRoutes = createTwoFactorRoutes({
+        db: this.config.db,
+        adminUsers: this.config.adminUsers,
+        twoFactor: this.config.twoFactor,
+        loginThrottle: this.loginThrottle,
+        sessionSecret: this.config.sessionSecret,
+        allResources: this.resources,
+        basePath: this.basePath,
+        auditLog: this.config.auditLog,
+        sessions: this.sessions,
+      });
+      this.app.route("/", twoFactorRoutes);
+      this.app.use("/*", twoFactorSetupMiddleware(this.basePath));
+    }
 
     this.app.get("/", (c) => {
       if (this.resources.length === 0) {
         return c.text("No resources configured");
       }
-      return c.redirect(adminUrl(this.basePath, `/${this.resources[0].routePath}`));
+      const admin = getAdmin(c);
+      const first = this.resources.find((resource) => can(admin, resource, "read"));
+      if (!first) {
+        return c.text("You do not have access to any resources", 403);
+      }
+      return c.redirect(adminUrl(this.basePath, `/${first.routePath}`));
+    });
+
+    if (this.config.api) {
+      const apiDocsRoutes = createApiDocsRoutes({
+        adapter,
+        resources: this.resources,
+        basePath: this.basePath,
+        auditLog: this.config.auditLog,
+      });
+      this.app.route("/", apiDocsRoutes);
+    }
+
+    const accountRoutes = createAccountRoutes({
+      db: this.config.db,
+      adminUsers: this.config.adminUsers,
+      sessionSecret: this.config.sessionSecret,
+      allResources: this.resources,
+      basePath: this.basePath,
+      auditLog: this.config.auditLog,
+      apiTokensTable: this.config.apiTokensTable,
+      twoFactor: this.config.twoFactor,
+      loginThrottle: this.loginThrottle,
+      sessions: this.sessions,
+      invitations: this.config.inviteRoles ? { roles: this.config.inviteRoles } : undefined,
     });
+    this.app.route("/", accountRoutes);
+
+    if (this.config.mailer && this.config.inviteRoles) {
+      const inviteRoutes = createInviteRoutes({
+        db: this.config.db,
+        adminUsers: this.config.adminUsers,
+        sessionSecret: this.config.sessionSecret,
+        allResources: this.resources,
+        basePath: this.basePath,
+        mailer: this.config.mailer,
+        publicUrl: this.publicUrl!,
+        roleColumn: this.config.roleColumn!,
+        roles: this.config.inviteRoles,
+        auditLog: this.config.auditLog,
+      });
+      this.app.route("/", inviteRoutes);
+    }
+
+    if (this.config.auditLog) {
+      const auditRoutes = createAuditRoutes({
+        db: this.config.db,
+        adapter,
+        auditLog: this.config.auditLog,
+        allResources: this.resources,
+        basePath: this.basePath,
+      });
+      this.app.route("/", auditRoutes);
+    }
 
     for (const resource of this.resources) {
       const crudRoutes = createCrudRoutes({
@@ -128,6 +322,8 @@ export class DrizzleAdmin {
         sessionSecret: this.config.sessionSecret,
         allResources: this.resources,
         basePath: this.basePath,
+        auditLog: this.config.auditLog,
+        versionsTable: this.config.versionsTable,
       });
       this.app.route(`/${resource.routePath}`, crudRoutes);
     }
@@ -170,6 +366,19 @@ export class DrizzleAdmin {
     console.log(`Created admin user: ${email}`);
   }
 
+  /**
+   * Signs an admin out of every session, such as after their password was
+   * changed outside the admin panel. Requires `sessions`.
+   *
+   * @param adminId - ID of the admin in the admin users table.
+   */
+  async revokeSessions(adminId: number): Promise<void> {
+    if (!this.sessions) {
+      throw new Error("revokeSessions requires server-side sessions; configure `sessions`");
+    }
+    await endAdminSessions(this.sessions, adminId);
+  }
+
   /** Returns the underlying Hono app instance for custom route mounting. */
   getApp(): Hono {
     return this.app;
@@ -21,6 +21,8 @@ vi.mock('@/dialects/postgresql.ts', () => ({
 }))
 
 import { DrizzleAdmin } from '@/DrizzleAdmin.ts'
+import { createMemorySessionStore } from '@/sessions/store.ts'
+import { createConsoleMailer } from '@/mail/mailer.ts'
 
 function makeAdminUsers() {
   return {
@@ -75,6 +77,39 @@ describe('DrizzleAdmin', () => {
     }).toThrow()
   })
 
+  it('throws when a login throttle limit is not a positive integer', () => {
+    expect(() => new DrizzleAdmin(makeConfig({ loginThrottle: { maxFailuresPerEmail: 0 } }))).toThrow(
+      'loginThrottle.maxFailuresPerEmail must be a positive integer'
+    )
+    expect(() => new DrizzleAdmin(makeConfig({ loginThrottle: { lockoutSeconds: 1.5 } }))).toThrow(
+      'loginThrottle.lockoutSeconds must be a positive integer'
+    )
+  })
+
+  it('throws when sessions have no store or an invalid timeout', () => {
+    expect(() => new DrizzleAdmin(makeConfig({ sessions: {} as DrizzleAdminConfig['sessions'] }))).toThrow(
+      'sessions.store is required'
+    )
+    expect(() => new DrizzleAdmin(makeConfig({ sessions: { store: createMemorySessionStore(), idleTimeoutSeconds: -1 } }))).toThrow(
+      'sessions.idleTimeoutSeconds must be a positive integer'
+    )
+  })
+
+  it('throws when a mailer has no valid publicUrl, or inviteRoles no mailer or roleColumn', () => {
+    const mailer = createConsoleMailer()
+    expect(() => new DrizzleAdmin(makeConfig({ mailer }))).toThrow('mailer requires publicUrl')
+    expect(() => new DrizzleAdmin(makeConfig({ mailer, publicUrl: 'example.com' }))).toThrow(
+      'publicUrl must be an http or https URL. Got: "example.com"'
+    )
+    expect(() => new DrizzleAdmin(makeConfig({ inviteRoles: ['owner'] }))).toThrow('inviteRoles requires a mailer')
+    expect(() => new DrizzleAdmin(makeConfig({ mailer, publicUrl: 'https://example.com/', inviteRoles: ['owner'] }))).toThrow('inviteRoles requires roleColumn')
+    expect(() => new DrizzleAdmin(makeConfig({ mailer, publicUrl: 'https://example.com/' }))).not.toThrow()
+  })
+
+  it('refuses to revoke sessions when sessions are not configured', async () => {
+    await expect(new DrizzleAdmin(makeConfig()).revokeSessions(1)).rejects.toThrow('configure `sessions`')
+  })
+
   it('returns empty resources before initialization', () => {
     const admin = new DrizzleAdmin(makeConfig())
     expect(admin.getResources()).toEqual([])
@@ -1,10 +1,16 @@
-import { describe, it, expect, vi, beforeAll } from 'vitest'
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest'
 import { Hono } from 'hono'
+import type { SQL } from 'drizzle-orm'
 import type { PgTable } from 'drizzle-orm/pg-core'
 import type { AnyPgDatabase } from '@/types.ts'
 import type { DrizzleAdminConfig } from '@/config.ts'
 import type { ResourceDefinition } from '@/resources/types.ts'
 import { createToken } from '@/auth/jwt.ts'
+import { generateCsrfToken } from '@/auth/csrf.ts'
+import { hashPassword } from '@/auth/password.ts'
+import { totpCode, totpStep } from '@/auth/totp.ts'
+import { createMemorySessionStore } from '@/sessions/store.ts'
+import type { MailMessage } from '@/mail/mailer.ts'
 
 // --- Mocks ---
 
@@ -32,8 +38,16 @@ const postsResource: ResourceDefinition = {
 vi.mock('drizzle-orm', () => ({
   getTableColumns: (table: Record<string, unknown>) =>
     (table as Record<string, unknown>)._columns ?? {},
-  eq: () => {},
-  sql: (strings: TemplateStringsArray) => strings.join(''),
+  eq: () => ({}),
+  and: () => ({}),
+  or: () => ({}),
+  lt: () => ({}),
+  isNull: () => ({}),
+  isNotNull: () => ({}),
+  asc: () => {},
+  desc: () => {},
+  sql: (strings: TemplateStringsArray) => ({ sql: strings.join(''), mapWith: () => ({}) }),
+  getTableName: () => 'admin_users',
 }))
 
 vi.mock('@/resources/loader.ts', () => ({
@@ -85,6 +99,7 @@ function makeMockDb() {
     chain.select = () => chain
     chain.from = () => chain
     chain.where = () => chain
+    chain.orderBy = () => chain
     chain.limit = () => chain
     chain.offset = () => chain
     chain.insert = () => chain
@@ -99,21 +114,25 @@ function makeMockDb() {
     return chain
   }
 
-  return {
+  const db = {
     select: (arg?: unknown) => {
       const chain = chainable()
       // If select is called with { count: ... }, return count result
       if (arg && typeof arg === 'object' && 'count' in arg) {
-        chain.from = () => ({
+        const countResult: Record<string, unknown> = {
           then: (resolve: (v: unknown) => void) => resolve([{ count: 1 }]),
-        })
+        }
+        countResult.where = () => countResult
+        chain.from = () => countResult
       }
       return chain
     },
     insert: () => chainable(),
     update: () => chainable(),
     delete: () => chainable(),
-  } as unknown as AnyPgDatabase
+    transaction: (fn: (tx: unknown) => unknown) => fn(db),
+  }
+  return db as unknown as AnyPgDatabase
 }
 
 function makeConfig(overrides: Partial<DrizzleAdminConfig> = {}): DrizzleAdminConfig {
@@ -127,8 +146,58 @@ function makeConfig(overrides: Partial<DrizzleAdminConfig> = {}): DrizzleAdminCo
   }
 }
 
-async function makeAuthCookie(): Promise<string> {
-  const token = await createToken({ adminId: 1, email: 'admin@test.com' }, SESSION_SECRET)
+interface RecordedWrite {
+  table: unknown
+  values: unknown
+}
+
+// A mock db that records inserts, updates and deletes, and answers selects from the
+// given tables with their rows instead of the default post
+function makeRecordingDb(rows: Map<unknown, unknown[]>) {
+  const base = makeMockDb() as unknown as Record<string, (...args: unknown[]) => Record<string, unknown>>
+  const inserts: RecordedWrite[] = []
+  const updates: RecordedWrite[] = []
+  const deletes: unknown[] = []
+  const db: Record<string, unknown> = {
+    ...base,
+    select: (arg?: unknown) => {
+      const chain = base.select!(arg)
+      if (!arg) {
+        const from = chain.from as (table: unknown) => unknown
+        chain.from = (table: unknown) => {
+          if (rows.has(table)) chain.then = (resolve: (v: unknown) => void) => resolve(rows.get(table))
+          return from(table)
+        }
+      }
+      return chain
+    },
+    insert: (table: unknown) => {
+      const chain = base.insert!(table)
+      chain.values = (values: unknown) => {
+        for (const value of [values].flat()) inserts.push({ table, values: value })
+        return chain
+      }
+      return chain
+    },
+    update: (table: unknown) => {
+      const chain = base.update!(table)
+      chain.set = (values: unknown) => {
+        updates.push({ table, values })
+        return chain
+      }
+      return chain
+    },
+    delete: (table: unknown) => {
+      deletes.push(table)
+      return base.delete!(table)
+    },
+    transaction: (fn: (tx: unknown) => unknown) => fn(db),
+  }
+  return { db: db as unknown as AnyPgDatabase, inserts, updates, deletes }
+}
+
+async function makeAuthCookie(roles?: string[]): Promise<string> {
+  const token = await createToken({ adminId: 1, email: 'admin@test.com', roles }, SESSION_SECRET)
   return `admin_session=${token}`
 }
 
@@ -232,6 +301,181 @@ describe('Routing integration with basePath', () => {
       const html = await res.text()
       expect(html).toContain('/admin/posts')
     })
+
+    it('POST /admin/posts re-renders the form with 422 when validation fails', async () => {
+      postsResource.options.validate = (values) => (values.title === '' ? { title: 'is required' } : undefined)
+      try {
+        const csrf = await generateCsrfToken(SESSION_SECRET)
+        const res = await parentApp.request('/admin/posts', {
+          method: 'POST',
+          headers: {
+            Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({ _csrf: csrf, title: '' }),
+        })
+        expect(res.status).toBe(422)
+        const html = await res.text()
+        expect(html).toContain('is required')
+        expect(html).toContain('Please correct the errors below.')
+      } finally {
+        delete postsResource.options.validate
+      }
+    })
+  })
+
+  describe('CRUD hooks (authenticated)', () => {
+    it('POST /admin/posts shows the error of a throwing before-hook on the form', async () => {
+      postsResource.options.hooks = {
+        beforeCreate: () => {
+          throw new Error('Titles must be unique per author')
+        },
+      }
+      try {
+        const csrf = await generateCsrfToken(SESSION_SECRET)
+        const res = await parentApp.request('/admin/posts', {
+          method: 'POST',
+          headers: {
+            Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({ _csrf: csrf, title: 'Hello' }),
+        })
+        expect(res.status).toBe(422)
+        const html = await res.text()
+        expect(html).toContain('Titles must be unique per author')
+        expect(html).toContain('value="Hello"')
+      } finally {
+        delete postsResource.options.hooks
+      }
+    })
+
+    it('POST /admin/posts/1?_method=DELETE flashes the error of a throwing beforeDelete hook', async () => {
+      postsResource.options.hooks = {
+        beforeDelete: () => {
+          throw new Error('Published posts cannot be deleted')
+        },
+      }
+      try {
+        const res = await parentApp.request('/admin/posts/1?_method=DELETE', {
+          method: 'POST',
+          headers: { Cookie: await makeAuthCookie() },
+          redirect: 'manual',
+        })
+        expect(res.status).toBe(302)
+        expect(res.headers.get('Location')).toBe('/admin/posts/1')
+        expect(decodeURIComponent(res.headers.get('set-cookie') ?? '')).toContain('Published posts cannot be deleted')
+      } finally {
+        delete postsResource.options.hooks
+      }
+    })
+  })
+
+  describe('CRUD permissions (authenticated)', () => {
+    it('returns 403 for operations the admin roles do not allow', async () => {
+      postsResource.options.permissions = { create: ['editor'], delete: ['admin'] }
+      try {
+        const viewer = await makeAuthCookie(['viewer'])
+        const newRes = await parentApp.request('/admin/posts/new', { headers: { Cookie: viewer } })
+        expect(newRes.status).toBe(403)
+
+        const deleteRes = await parentApp.request('/admin/posts/1?_method=DELETE', {
+          method: 'POST',
+          headers: { Cookie: viewer },
+        })
+        expect(deleteRes.status).toBe(403)
+
+        const indexRes = await parentApp.request('/admin/posts', { headers: { Cookie: viewer } })
+        expect(indexRes.status).toBe(200)
+        expect(await indexRes.text()).not.toContain('Create New')
+      } finally {
+        delete postsResource.options.permissions
+      }
+    })
+
+    it('allows operations to admins with a permitted role', async () => {
+      postsResource.options.permissions = { create: ['editor'] }
+      try {
+        const res = await parentApp.request('/admin/posts/new', {
+          headers: { Cookie: await makeAuthCookie(['editor']) },
+        })
+        expect(res.status).toBe(200)
+      } finally {
+        delete postsResource.options.permissions
+      }
+    })
+  })
+
+  describe('CRUD policies (authenticated)', () => {
+    it('renders a 403 page through the layout when canView denies the record', async () => {
+      postsResource.options.policy = { canView: () => false }
+      try {
+        const res = await parentApp.request('/admin/posts/1', { headers: { Cookie: await makeAuthCookie() } })
+        expect(res.status).toBe(403)
+        const html = await res.text()
+        expect(html).toContain('Forbidden | DrizzleAdmin')
+        expect(html).not.toContain('Test Post')
+      } finally {
+        delete postsResource.options.policy
+      }
+    })
+
+    it('returns 403 for updates and deletes the policy denies', async () => {
+      postsResource.options.policy = { canUpdate: () => false, canDelete: () => false }
+      try {
+        const csrf = await generateCsrfToken(SESSION_SECRET)
+        const updateRes = await parentApp.request('/admin/posts/1?_method=PUT', {
+          method: 'POST',
+          headers: {
+            Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({ _csrf: csrf, title: 'Changed' }),
+        })
+        expect(updateRes.status).toBe(403)
+
+        const deleteRes = await parentApp.request('/admin/posts/1?_method=DELETE', {
+          method: 'POST',
+          headers: { Cookie: await makeAuthCookie() },
+        })
+        expect(deleteRes.status).toBe(403)
+
+        const showRes = await parentApp.request('/admin/posts/1', { headers: { Cookie: await makeAuthCookie() } })
+        const html = await showRes.text()
+        expect(html).not.toContain('/admin/posts/1/edit')
+      } finally {
+        delete postsResource.options.policy
+      }
+    })
+  })
+
+  describe('Collection actions (authenticated)', () => {
+    it('passes handlers a context that renders pages in the admin layout', async () => {
+      postsResource.options.collectionActions = [{
+        name: 'Render Page',
+        handler: async (c, _db, context) => {
+          const content = `<p>${context.actionUrl}|${context.csrfToken}|${context.listParams.q}</p>`
+          return c.html(context.renderPage('Custom', content))
+        },
+      }]
+      try {
+        const csrf = await generateCsrfToken(SESSION_SECRET)
+        const res = await parentApp.request('/admin/posts/actions/render-page', {
+          method: 'POST',
+          headers: {
+            Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`,
+            'Content-Type': 'application/x-www-form-urlencoded',
+          },
+          body: new URLSearchParams({ _csrf: csrf, _query: 'q=hello' }),
+        })
+        expect(res.status).toBe(200)
+        const html = await res.text()
+        expect(html).toContain('Custom | DrizzleAdmin')
+        expect(html).toContain(`/admin/posts/actions/render-page|${csrf}|hello`)
+      } finally {
+        delete postsResource.options.collectionActions
+      }
+    })
   })
 
   describe('CSRF cookie path in sub-app', () => {
@@ -243,6 +487,1356 @@ describe('Routing integration with basePath', () => {
   })
 })
 
+describe('Audit log', () => {
+  const auditTable = {
+    _columns: {
+      id: {}, adminId: {}, adminEmail: {}, resource: {}, recordId: {}, action: {}, changes: {}, ip: {}, createdAt: {},
+    },
+  } as unknown as PgTable
+  const auditRows = [{
+    id: 1,
+    adminId: 1,
+    adminEmail: 'admin@test.com',
+    resource: 'posts',
+    recordId: '1',
+    action: 'update',
+    changes: { title: { from: 'Old title', to: 'Test Post' } },
+    ip: null,
+    createdAt: new Date(),
+  }]
+  const rows = new Map<unknown, unknown[]>([[auditTable, auditRows]])
+  const { db, inserts } = makeRecordingDb(rows)
+  let app: Hono
+
+  beforeAll(async () => {
+    const admin = new DrizzleAdmin(makeConfig({ db, auditLog: { table: auditTable, roles: ['auditor'] }, trustProxy: true }))
+    app = (await admin.build()).app
+  })
+
+  it('records updates with the changed fields, admin and IP', async () => {
+    inserts.length = 0
+    const csrf = await generateCsrfToken(SESSION_SECRET)
+    const res = await app.request('/posts/1?_method=PUT', {
+      method: 'POST',
+      headers: {
+        Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-Forwarded-For': '203.0.113.7, 10.0.0.1',
+      },
+      body: new URLSearchParams({ _csrf: csrf, title: 'Changed' }),
+    })
+    expect(res.status).toBe(302)
+    expect(inserts.filter(insert => insert.table === auditTable).map(insert => insert.values)).toEqual([expect.objectContaining({
+      adminId: 1,
+      adminEmail: 'admin@test.com',
+      resource: 'posts',
+      recordId: '1',
+      action: 'update',
+      ip: '203.0.113.7',
+    })])
+  })
+
+  it('runs member actions and their audit entry in one transaction', async () => {
+    const transaction = vi.spyOn(db, 'transaction')
+    const handles: unknown[] = []
+    postsResource.options.memberActions = [{ name: 'Publish', handler: async (_id, tx) => { handles.push(tx) } }]
+    try {
+      inserts.length = 0
+      const csrf = await generateCsrfToken(SESSION_SECRET)
+      const res = await app.request('/posts/1/actions/publish', {
+        method: 'POST',
+        headers: { Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ _csrf: csrf }),
+      })
+      expect(res.status).toBe(302)
+      expect(transaction).toHaveBeenCalledTimes(1)
+      expect(handles).toHaveLength(1)
+      expect(inserts.map(insert => insert.values)).toEqual([expect.objectContaining({ action: 'Publish', recordId: '1' })])
+    } finally {
+      transaction.mockRestore()
+      delete postsResource.options.memberActions
+    }
+  })
+
+  it('leaves recording to collection actions that audit themselves', async () => {
+    postsResource.options.collectionActions = [{
+      name: 'Sync',
+      auditsItself: true,
+      handler: async (c, db, context) => {
+        if ((await c.req.parseBody()).step === 'run') await context.audit(db, { recordId: null, action: 'Sync', changes: null })
+        return c.html(context.renderPage('Sync', '<p>Done</p>'))
+      },
+    }]
+    try {
+      const csrf = await generateCsrfToken(SESSION_SECRET)
+      const run = async (body: Record<string, string>) => app.request('/posts/actions/sync', {
+        method: 'POST',
+        headers: { Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+        body: new URLSearchParams({ _csrf: csrf, ...body }),
+      })
+
+      inserts.length = 0
+      expect((await run({})).status).toBe(200)
+      expect(inserts).toEqual([])
+
+      expect((await run({ step: 'run' })).status).toBe(200)
+      expect(inserts.map(insert => insert.values)).toEqual([expect.objectContaining({ action: 'Sync', recordId: null })])
+    } finally {
+      delete postsResource.options.collectionActions
+    }
+  })
+
+  it('records the connection address rather than proxy headers without trustProxy', async () => {
+    const direct = (await new DrizzleAdmin(makeConfig({ db, auditLog: { table: auditTable } })).build()).app
+    inserts.length = 0
+    const csrf = await generateCsrfToken(SESSION_SECRET)
+    await direct.request('/posts/1?_method=PUT', {
+      method: 'POST',
+      headers: {
+        Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-Forwarded-For': '203.0.113.7',
+      },
+      body: new URLSearchParams({ _csrf: csrf, title: 'Changed' }),
+    }, { incoming: { socket: { remoteAddress: '192.0.2.1' } } })
+    expect(inserts.filter(insert => insert.table === auditTable).map(insert => insert.values))
+      .toEqual([expect.objectContaining({ action: 'update', ip: '192.0.2.1' })])
+  })
+
+  it('shows the Audit Log page and record history to admins with an allowed role', async () => {
+    const cookie = await makeAuthCookie(['auditor'])
+    const res = await app.request('/audit-log', { headers: { Cookie: cookie } })
+    expect(res.status).toBe(200)
+    const html = await res.text()
+    expect(html).toContain('Audit Log | DrizzleAdmin')
+    expect(html).toContain('Old title')
+
+    const showHtml = await (await app.request('/posts/1', { headers: { Cookie: cookie } })).text()
+    expect(showHtml).toContain('aria-label="History"')
+    expect(showHtml).toContain('href="/audit-log"')
+  })
+
+  it('lists the changes of records outside the policy without their values', async () => {
+    const cookie = await makeAuthCookie(['auditor'])
+    const auditPage = async () => (await app.request('/audit-log', { headers: { Cookie: cookie } })).text()
+    try {
+      postsResource.options.policy = { canView: (_admin, record) => record.title !== 'Test Post' }
+      let html = await auditPage()
+      expect(html).toContain('href="/posts/1"')
+      expect(html).not.toContain('Old title')
+
+      postsResource.options.policy = { scopeQuery: () => ({}) as SQL }
+      rows.set(mockPostsTable, [])
+      html = await auditPage()
+      expect(html).toContain('href="/posts/1"')
+      expect(html).not.toContain('Old title')
+    } finally {
+      rows.delete(mockPostsTable)
+      delete postsResource.options.policy
+    }
+  })
+
+  it('hides the Audit Log page and record history from other admins', async () => {
+    const cookie = await makeAuthCookie()
+    const res = await app.request('/audit-log', { headers: { Cookie: cookie } })
+    expect(res.status).toBe(403)
+
+    const showHtml = await (await app.request('/posts/1', { headers: { Cookie: cookie } })).text()
+    expect(showHtml).not.toContain('aria-label="History"')
+    expect(showHtml).not.toContain('href="/audit-log"')
+  })
+})
+
+describe('Record versioning', () => {
+  const versionsTable = {
+    _columns: {
+      id: {}, resource: {}, recordId: {}, event: {}, snapshot: {}, adminId: {}, adminEmail: {}, createdAt: {},
+    },
+  } as unknown as PgTable
+  const versionRows = [{
+    id: 3,
+    resource: 'posts',
+    recordId: '1',
+    event: 'update',
+    snapshot: { id: 1, title: 'Old title', createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' },
+    adminId: 1,
+    adminEmail: 'admin@test.com',
+    createdAt: new Date(),
+  }]
+  const rows = new Map<unknown, unknown[]>([[versionsTable, versionRows]])
+  const { db, inserts, updates } = makeRecordingDb(rows)
+  let app: Hono
+
+  beforeAll(async () => {
+    postsResource.options.versioning = true
+    const admin = new DrizzleAdmin(makeConfig({ db, versionsTable }))
+    app = (await admin.build()).app
+  })
+
+  afterAll(() => {
+    delete postsResource.options.versioning
+  })
+
+  async function post(path: string, body: Record<string, string> = {}) {
+    const csrf = await generateCsrfToken(SESSION_SECRET)
+    return app.request(path, {
+      method: 'POST',
+      headers: {
+        Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ _csrf: csrf, ...body }),
+    })
+  }
+
+  it('refuses to start when no versionsTable is configured', async () => {
+    postsResource.options.versioning = true
+    const admin = new DrizzleAdmin(makeConfig())
+    await expect(admin.build()).rejects.toThrow('Invalid resource configuration')
+  })
+
+  it('snapshots the previous row on update and delete', async () => {
+    inserts.length = 0
+    expect((await post('/posts/1?_method=PUT', { title: 'Changed' })).status).toBe(302)
+    expect((await post('/posts/1?_method=DELETE')).status).toBe(302)
+
+    const snapshots = inserts.filter(insert => insert.table === versionsTable).map(insert => insert.values)
+    expect(snapshots).toEqual([
+      expect.objectContaining({ resource: 'posts', recordId: '1', event: 'update', snapshot: expect.objectContaining({ title: 'Test Post' }) }),
+      expect.objectContaining({ resource: 'posts', recordId: '1', event: 'delete', snapshot: expect.objectContaining({ title: 'Test Post' }) }),
+    ])
+  })
+
+  it('links the Versions page from the show page', async () => {
+    const html = await (await app.request('/posts/1', { headers: { Cookie: await makeAuthCookie() } })).text()
+    expect(html).toContain('href="/posts/1/versions"')
+
+    const res = await app.request('/posts/1/versions', { headers: { Cookie: await makeAuthCookie() } })
+    expect(res.status).toBe(200)
+    const versionsHtml = await res.text()
+    expect(versionsHtml).toContain('Old title')
+    expect(versionsHtml).toContain('action="/posts/1/versions/3/revert"')
+  })
+
+  it('reverts an existing record, keeping its current values as a version', async () => {
+    inserts.length = 0
+    updates.length = 0
+    const res = await post('/posts/1/versions/3/revert')
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/posts/1')
+    expect(inserts).toEqual([{ table: versionsTable, values: expect.objectContaining({ event: 'revert' }) }])
+    expect(updates).toEqual([{
+      table: mockPostsTable,
+      values: expect.objectContaining({ title: 'Old title', createdAt: new Date('2024-01-01T00:00:00.000Z') }),
+    }])
+    expect(updates[0]!.values).not.toHaveProperty('id')
+  })
+
+  it('re-inserts a deleted record', async () => {
+    inserts.length = 0
+    rows.set(mockPostsTable, [])
+    try {
+      expect((await post('/posts/1/versions/3/revert')).status).toBe(302)
+      expect(inserts).toEqual([{ table: mockPostsTable, values: expect.objectContaining({ id: 1, title: 'Old title' }) }])
+    } finally {
+      rows.delete(mockPostsTable)
+    }
+  })
+
+  it('returns 403 when a scoped admin restores a deleted record outside the scope', async () => {
+    inserts.length = 0
+    rows.set(mockPostsTable, [])
+    postsResource.options.policy = { scopeQuery: () => ({}) as SQL }
+    try {
+      expect((await post('/posts/1/versions/3/revert')).status).toBe(403)
+    } finally {
+      rows.delete(mockPostsTable)
+      delete postsResource.options.policy
+    }
+  })
+
+  it('returns 403 when the policy hides the deleted record being restored', async () => {
+    inserts.length = 0
+    rows.set(mockPostsTable, [])
+    postsResource.options.policy = { canView: (_admin, record) => record.title !== 'Old title' }
+    try {
+      expect((await post('/posts/1/versions/3/revert')).status).toBe(403)
+      expect(inserts).toEqual([])
+    } finally {
+      rows.delete(mockPostsTable)
+      delete postsResource.options.policy
+    }
+  })
+
+  it('refuses to revert a record in the Trash', async () => {
+    updates.length = 0
+    rows.set(mockPostsTable, [{ id: 1, title: 'Test Post', deletedAt: new Date() }])
+    postsResource.options.softDelete = { column: 'deletedAt' }
+    try {
+      const res = await post('/posts/1/versions/3/revert')
+      expect(res.headers.get('Location')).toBe('/posts/1/versions')
+      expect(decodeURIComponent(res.headers.get('set-cookie') ?? '')).toContain('Restore it before reverting it.')
+      expect(updates).toEqual([])
+
+      const html = await (await app.request('/posts/1/versions', { headers: { Cookie: await makeAuthCookie() } })).text()
+      expect(html).not.toContain('action="/posts/1/versions/3/revert"')
+    } finally {
+      rows.delete(mockPostsTable)
+      delete postsResource.options.softDelete
+    }
+  })
+
+  it('refuses reverts to values the resource no longer accepts', async () => {
+    postsResource.options.validate = (values) => (values.title === 'Old title' ? { title: 'is too short' } : undefined)
+    updates.length = 0
+    try {
+      const res = await post('/posts/1/versions/3/revert')
+      expect(res.headers.get('Location')).toBe('/posts/1/versions')
+      expect(decodeURIComponent(res.headers.get('set-cookie') ?? '')).toContain('Failed to revert: Title is too short.')
+      expect(updates).toEqual([])
+    } finally {
+      delete postsResource.options.validate
+    }
+  })
+
+  it('runs the update hooks on revert', async () => {
+    const afterUpdate = vi.fn()
+    postsResource.options.hooks = {
+      beforeUpdate: (values) => ({ ...values, title: `${values.title} (restored)` }),
+      afterUpdate,
+    }
+    updates.length = 0
+    try {
+      expect((await post('/posts/1/versions/3/revert')).status).toBe(302)
+      expect(updates).toEqual([{ table: mockPostsTable, values: expect.objectContaining({ title: 'Old title (restored)' }) }])
+      expect(afterUpdate).toHaveBeenCalledOnce()
+    } finally {
+      delete postsResource.options.hooks
+    }
+  })
+
+  it('rejects reverts without a valid CSRF token', async () => {
+    updates.length = 0
+    const res = await app.request('/posts/1/versions/3/revert', {
+      method: 'POST',
+      headers: { Cookie: await makeAuthCookie() },
+    })
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/posts/1/versions')
+    expect(updates).toEqual([])
+  })
+
+  it('returns 404 for unknown versions', async () => {
+    expect((await post('/posts/1/versions/99/revert')).status).toBe(404)
+  })
+})
+
+describe('Soft delete', () => {
+  const { db, updates, deletes } = makeRecordingDb(new Map())
+  let app: Hono
+
+  beforeAll(async () => {
+    postsResource.options.softDelete = { column: 'deletedAt' }
+    const admin = new DrizzleAdmin(makeConfig({ db }))
+    app = (await admin.build()).app
+  })
+
+  afterAll(() => {
+    delete postsResource.options.softDelete
+  })
+
+  async function post(path: string) {
+    const csrf = await generateCsrfToken(SESSION_SECRET)
+    return app.request(path, {
+      method: 'POST',
+      headers: {
+        Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ _csrf: csrf }),
+    })
+  }
+
+  it('stamps the column instead of deleting', async () => {
+    updates.length = 0
+    deletes.length = 0
+    const res = await post('/posts/1?_method=DELETE')
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/posts')
+    expect(deletes).toEqual([])
+    expect(updates).toEqual([{ table: mockPostsTable, values: { deletedAt: expect.any(Date) } }])
+  })
+
+  it('shows All and Trash tabs on the index', async () => {
+    const html = await (await app.request('/posts', { headers: { Cookie: await makeAuthCookie() } })).text()
+    expect(html).toContain('href="/posts?scope=all"')
+    expect(html).toContain('href="/posts?scope=trash"')
+  })
+
+  it('restores a trashed record', async () => {
+    updates.length = 0
+    const res = await post('/posts/1/restore')
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/posts?scope=trash')
+    expect(updates).toEqual([{ table: mockPostsTable, values: { deletedAt: null } }])
+  })
+
+  it('permanently deletes a trashed record', async () => {
+    deletes.length = 0
+    const res = await post('/posts/1/purge')
+    expect(res.status).toBe(302)
+    expect(deletes).toEqual([mockPostsTable])
+  })
+
+  it('runs the update hooks on restore and the delete hooks on permanent delete', async () => {
+    const afterUpdate = vi.fn()
+    const afterDelete = vi.fn()
+    postsResource.options.hooks = {
+      beforeUpdate: (values) => ({ ...values, title: 'Restored' }),
+      afterUpdate,
+      afterDelete,
+    }
+    updates.length = 0
+    try {
+      expect((await post('/posts/1/restore')).status).toBe(302)
+      expect(updates).toEqual([{ table: mockPostsTable, values: { deletedAt: null, title: 'Restored' } }])
+      expect(afterUpdate).toHaveBeenCalledOnce()
+
+      expect((await post('/posts/1/purge')).status).toBe(302)
+      expect(afterDelete).toHaveBeenCalledOnce()
+    } finally {
+      delete postsResource.options.hooks
+    }
+  })
+
+  it('keeps a trashed record when a before-hook throws', async () => {
+    postsResource.options.hooks = {
+      beforeUpdate: () => { throw new Error('Locked') },
+      beforeDelete: () => { throw new Error('Locked') },
+    }
+    updates.length = 0
+    deletes.length = 0
+    try {
+      const restore = await post('/posts/1/restore')
+      expect(restore.headers.get('Location')).toBe('/posts?scope=trash')
+      expect(decodeURIComponent(restore.headers.get('set-cookie') ?? '')).toContain('Failed to restore: Locked')
+
+      const purge = await post('/posts/1/purge')
+      expect(decodeURIComponent(purge.headers.get('set-cookie') ?? '')).toContain('Failed to delete permanently: Locked')
+      expect(updates).toEqual([])
+      expect(deletes).toEqual([])
+    } finally {
+      delete postsResource.options.hooks
+    }
+  })
+
+  it('requires the delete permission to delete permanently', async () => {
+    postsResource.options.permissions = { delete: ['admin'] }
+    try {
+      expect((await post('/posts/1/purge')).status).toBe(403)
+    } finally {
+      delete postsResource.options.permissions
+    }
+  })
+})
+
+describe('JSON API', () => {
+  const adminUsers = makeAdminUsers()
+  const adminRows: unknown[] = []
+  const { db, inserts, updates, deletes } = makeRecordingDb(new Map([[adminUsers, adminRows]]))
+  let app: Hono
+
+  beforeAll(async () => {
+    adminRows.push({ id: 1, email: 'admin@test.com', passwordHash: await hashPassword('secret') })
+    const admin = new DrizzleAdmin(makeConfig({ db, adminUsers: adminUsers as unknown as PgTable, api: true }))
+    app = (await admin.build()).app
+  })
+
+  async function bearer(roles?: string[]) {
+    const token = await createToken({ adminId: 1, email: 'admin@test.com', roles }, SESSION_SECRET)
+    return { Authorization: `Bearer ${token}`, 'Content-Type': 'application/json' }
+  }
+
+  it('exchanges valid credentials for a bearer token', async () => {
+    const res = await app.request('/api/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'admin@test.com', password: 'secret' }),
+    })
+    expect(res.status).toBe(200)
+    const { token } = await res.json() as { token: string }
+    const list = await app.request('/api/posts', { headers: { Authorization: `Bearer ${token}` } })
+    expect(list.status).toBe(200)
+
+    const wrong = await app.request('/api/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'admin@test.com', password: 'wrong' }),
+    })
+    expect(wrong.status).toBe(401)
+  })
+
+  it('answers requests without a valid bearer token with a JSON 401', async () => {
+    const res = await app.request('/api/posts', { headers: { Cookie: await makeAuthCookie() } })
+    expect(res.status).toBe(401)
+    expect(res.headers.get('WWW-Authenticate')).toBe('Bearer')
+    expect(await res.json()).toEqual({ error: 'Unauthorized' })
+
+    const invalid = await app.request('/api/posts', { headers: { Authorization: 'Bearer not-a-token' } })
+    expect(invalid.status).toBe(401)
+  })
+
+  it('rejects the CSRF token anyone gets from the login page', async () => {
+    const login = await app.request('/login')
+    const csrf = login.headers.getSetCookie().find(value => value.startsWith('_csrf='))!.split(';')[0]!.slice('_csrf='.length)
+    const res = await app.request('/api/posts', { headers: { Authorization: `Bearer ${csrf}` } })
+    expect(res.status).toBe(401)
+  })
+
+  it('lists records with pagination metadata', async () => {
+    const res = await app.request('/api/posts?perPage=500', { headers: await bearer() })
+    expect(res.status).toBe(200)
+    const body = await res.json() as { data: Record<string, unknown>[]; meta: Record<string, number> }
+    expect(body.data[0]).toMatchObject({ id: 1, title: 'Test Post' })
+    expect(body.meta).toEqual({ page: 1, perPage: 100, total: 1, totalPages: 1 })
+  })
+
+  it('returns a record', async () => {
+    const res = await app.request('/api/posts/1', { headers: await bearer() })
+    expect(res.status).toBe(200)
+    expect(await res.json()).toEqual({ data: expect.objectContaining({ id: 1, title: 'Test Post' }) })
+  })
+
+  it('creates a record with 201 and answers validation errors with 422', async () => {
+    inserts.length = 0
+    const res = await app.request('/api/posts', {
+      method: 'POST',
+      headers: await bearer(),
+      body: JSON.stringify({ title: 'Hello', id: 99 }),
+    })
+    expect(res.status).toBe(201)
+    expect(inserts).toEqual([{ table: mockPostsTable, values: { title: 'Hello' } }])
+
+    postsResource.options.validate = (values) => (values.title === '' ? { title: 'is required' } : undefined)
+    try {
+      const invalid = await app.request('/api/posts', {
+        method: 'POST',
+        headers: await bearer(),
+        body: JSON.stringify({ title: '' }),
+      })
+      expect(invalid.status).toBe(422)
+      expect(await invalid.json()).toEqual({ errors: { title: 'is required' } })
+    } finally {
+      delete postsResource.options.validate
+    }
+  })
+
+  it('rejects bodies that are not JSON objects', async () => {
+    const res = await app.request('/api/posts', { method: 'POST', headers: await bearer(), body: '[1]' })
+    expect(res.status).toBe(400)
+  })
+
+  it('updates only the submitted fields', async () => {
+    updates.length = 0
+    const res = await app.request('/api/posts/1', {
+      method: 'PATCH',
+      headers: await bearer(),
+      body: JSON.stringify({ title: 'Changed' }),
+    })
+    expect(res.status).toBe(200)
+    expect(updates).toEqual([{ table: mockPostsTable, values: { title: 'Changed', updatedAt: expect.any(Date) } }])
+  })
+
+  it('deletes a record with 204', async () => {
+    deletes.length = 0
+    const res = await app.request('/api/posts/1', { method: 'DELETE', headers: await bearer() })
+    expect(res.status).toBe(204)
+    expect(deletes).toEqual([mockPostsTable])
+  })
+
+  it('applies role permissions and policies', async () => {
+    postsResource.options.permissions = { delete: ['admin'] }
+    postsResource.options.policy = { canView: () => false }
+    try {
+      const deleteRes = await app.request('/api/posts/1', { method: 'DELETE', headers: await bearer(['viewer']) })
+      expect(deleteRes.status).toBe(403)
+      expect(await deleteRes.json()).toEqual({ error: 'Forbidden' })
+
+      const showRes = await app.request('/api/posts/1', { headers: await bearer() })
+      expect(showRes.status).toBe(403)
+    } finally {
+      delete postsResource.options.permissions
+      delete postsResource.options.policy
+    }
+  })
+
+  it('runs member and collection actions', async () => {
+    const published: (string | number)[] = []
+    postsResource.options.memberActions = [{ name: 'Publish', handler: async (id) => { published.push(id) } }]
+    postsResource.options.collectionActions = [{
+      name: 'Count',
+      handler: async (c, _db, context) => c.json({ q: context.listParams.q }),
+    }]
+    try {
+      const member = await app.request('/api/posts/1/actions/publish', { method: 'POST', headers: await bearer() })
+      expect(member.status).toBe(200)
+      expect(await member.json()).toEqual({ message: 'Publish completed successfully.' })
+      expect(published).toEqual(['1'])
+
+      const collection = await app.request('/api/posts/actions/count?q=hello', { method: 'POST', headers: await bearer() })
+      expect(await collection.json()).toEqual({ q: 'hello' })
+
+      const missing = await app.request('/api/posts/actions/unknown', { method: 'POST', headers: await bearer() })
+      expect(missing.status).toBe(404)
+    } finally {
+      delete postsResource.options.memberActions
+      delete postsResource.options.collectionActions
+    }
+  })
+
+  it('serves the OpenAPI document and docs page to signed-in admins', async () => {
+    const res = await app.request('/openapi.json', { headers: { Cookie: await makeAuthCookie() } })
+    expect(res.status).toBe(200)
+    const document = await res.json() as { openapi: string; servers: { url: string }[]; paths: Record<string, unknown> }
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.servers).toEqual([{ url: '/api' }])
+    expect(Object.keys(document.paths)).toEqual(['/token', '/posts', '/posts/{id}'])
+
+    const page = await app.request('/api-docs', { headers: { Cookie: await makeAuthCookie() } })
+    expect(page.status).toBe(200)
+    const html = await page.text()
+    expect(html).toContain('API Docs | DrizzleAdmin')
+    expect(html).toContain('/posts/{id}')
+    expect(html).toContain('href="/openapi.json"')
+
+    const anonymous = await app.request('/openapi.json', { redirect: 'manual' })
+    expect(anonymous.status).toBe(302)
+  })
+
+  it('answers unknown API paths with a JSON 404', async () => {
+    const res = await app.request('/api/unknown', { headers: await bearer() })
+    expect(res.status).toBe(404)
+    expect(await res.json()).toEqual({ error: 'Not found' })
+  })
+})
+
+describe('API tokens', () => {
+  const adminUsers = makeAdminUsers()
+  const apiTokensTable = {
+    _columns: { id: {}, adminId: {}, name: {}, tokenHash: {}, scopes: {}, lastUsedAt: {}, createdAt: {} },
+  }
+  const tokenRows: unknown[] = []
+  const { db, inserts, updates, deletes } = makeRecordingDb(new Map<unknown, unknown[]>([
+    [adminUsers, [{ id: 1, email: 'admin@test.com', passwordHash: 'x' }]],
+    [apiTokensTable, tokenRows],
+  ]))
+  let app: Hono
+
+  beforeAll(async () => {
+    const admin = new DrizzleAdmin(makeConfig({
+      db,
+      adminUsers: adminUsers as unknown as PgTable,
+      api: true,
+      apiTokensTable: apiTokensTable as unknown as PgTable,
+    }))
+    app = (await admin.build()).app
+  })
+
+  function useToken(scopes: Record<string, string>) {
+    tokenRows.length = 0
+    tokenRows.push({ id: 5, adminId: 1, name: 'CI', tokenHash: 'hash', scopes, lastUsedAt: null, createdAt: new Date() })
+  }
+
+  async function post(path: string, body: Record<string, string> = {}) {
+    const csrf = await generateCsrfToken(SESSION_SECRET)
+    return app.request(path, {
+      method: 'POST',
+      headers: {
+        Cookie: `${await makeAuthCookie()}; _csrf=${csrf}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ _csrf: csrf, ...body }),
+    })
+  }
+
+  it('requires the JSON API', () => {
+    expect(() => new DrizzleAdmin(makeConfig({ apiTokensTable: apiTokensTable as unknown as PgTable })))
+      .toThrow('apiTokensTable requires the JSON API')
+  })
+
+  it('accepts API tokens as bearer tokens and records their use', async () => {
+    useToken({ posts: 'read' })
+    updates.length = 0
+    const res = await app.request('/api/posts', { headers: { Authorization: 'Bearer da_token' } })
+    expect(res.status).toBe(200)
+    expect(updates).toEqual([{ table: apiTokensTable, values: { lastUsedAt: expect.any(Date) } }])
+
+    const session = await createToken({ adminId: 1, email: 'admin@test.com' }, SESSION_SECRET)
+    const sessionRes = await app.request('/api/posts', { headers: { Authorization: `Bearer ${session}` } })
+    expect(sessionRes.status).toBe(200)
+  })
+
+  it('limits API tokens to their scopes', async () => {
+    useToken({ posts: 'read' })
+    const create = await app.request('/api/posts', {
+      method: 'POST',
+      headers: { Authorization: 'Bearer da_token', 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title: 'Hello' }),
+    })
+    expect(create.status).toBe(403)
+
+    useToken({ comments: 'write' })
+    const list = await app.request('/api/posts', { headers: { Authorization: 'Bearer da_token' } })
+    expect(list.status).toBe(403)
+  })
+
+  it('rejects unknown API tokens', async () => {
+    tokenRows.length = 0
+    const res = await app.request('/api/posts', { headers: { Authorization: 'Bearer da_unknown' } })
+    expect(res.status).toBe(401)
+  })
+
+  it('lists tokens on the account page', async () => {
+    useToken({ posts: 'write' })
+    const res = await app.request('/account', { headers: { Cookie: await makeAuthCookie() } })
+    expect(res.status).toBe(200)
+    const html = await res.text()
+    expect(html).toContain('Account | DrizzleAdmin')
+    expect(html).toContain('Write: Post')
+    expect(html).toContain('Never')
+    expect(html).toContain('action="/account/tokens/5/revoke"')
+  })
+
+  it('creates a token and shows it once', async () => {
+    inserts.length = 0
+    const res = await post('/account/tokens', { name: 'Deploys', 'scope.posts': 'write' })
+    expect(res.status).toBe(200)
+    const token = (await res.text()).match(/value="(da_[\w-]+)"/)?.[1]
+    expect(token).toBeDefined()
+    expect(inserts).toEqual([{
+      table: apiTokensTable,
+      values: expect.objectContaining({ adminId: 1, name: 'Deploys', scopes: { posts: 'write' } }),
+    }])
+    expect(JSON.stringify(inserts)).not.toContain(token)
+  })
+
+  it('rejects tokens without a name or resources', async () => {
+    inserts.length = 0
+    const res = await post('/account/tokens', { name: '', 'scope.posts': '' })
+    expect(res.status).toBe(422)
+    const html = await res.text()
+    expect(html).toContain('Name is required.')
+    expect(html).toContain('Choose at least one resource.')
+    expect(inserts).toEqual([])
+  })
+
+  it('revokes a token', async () => {
+    deletes.length = 0
+    const res = await post('/account/tokens/5/revoke')
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/account')
+    expect(deletes).toEqual([apiTokensTable])
+  })
+})
+
+describe('Two-factor authentication', () => {
+  const SECRET = 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP'
+  const adminUsers = makeAdminUsers()
+  const adminRows: unknown[] = []
+  const twoFactorTable = {
+    _columns: { id: {}, adminId: {}, secret: {}, recoveryCodes: {}, lastUsedStep: {}, enabledAt: {}, createdAt: {} },
+  }
+  const twoFactorRows: unknown[] = []
+  const { db, updates, deletes } = makeRecordingDb(new Map<unknown, unknown[]>([
+    [adminUsers, adminRows],
+    [twoFactorTable, twoFactorRows],
+  ]))
+  let app: Hono
+  let requiredApp: Hono
+
+  beforeAll(async () => {
+    adminRows.push({ id: 1, email: 'admin@test.com', passwordHash: await hashPassword('secret') })
+    const build = async (required: boolean) => {
+      const admin = new DrizzleAdmin(makeConfig({
+        db,
+        adminUsers: adminUsers as unknown as PgTable,
+        api: true,
+        twoFactor: { table: twoFactorTable as unknown as PgTable, required },
+      }))
+      return (await admin.build()).app
+    }
+    app = await build(false)
+    requiredApp = await build(true)
+  })
+
+  function setTwoFactor(enabled: boolean | undefined) {
+    twoFactorRows.length = 0
+    if (enabled === undefined) return
+    twoFactorRows.push({
+      id: 2,
+      adminId: 1,
+      secret: SECRET,
+      recoveryCodes: [],
+      lastUsedStep: null,
+      enabledAt: enabled ? new Date() : null,
+      createdAt: new Date(),
+    })
+  }
+
+  function cookie(res: Response, name: string): string | undefined {
+    const header = res.headers.getSetCookie().find(value => value.startsWith(`${name}=`))
+    return header?.split(';')[0]!.slice(name.length + 1)
+  }
+
+  async function post(target: Hono, path: string, body: Record<string, string>, cookies = '') {
+    const csrf = await generateCsrfToken(SESSION_SECRET)
+    return target.request(path, {
+      method: 'POST',
+      headers: {
+        Cookie: `_csrf=${csrf}${cookies ? `; ${cookies}` : ''}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ _csrf: csrf, ...body }),
+    })
+  }
+
+  it('does not accept the login page\'s CSRF token as a session, skipping the second factor', async () => {
+    setTwoFactor(true)
+    const csrf = cookie(await app.request('/login'), '_csrf')!
+    const res = await app.request('/posts', { headers: { Cookie: `admin_session=${csrf}` } })
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/login')
+  })
+
+  it('asks admins with two-factor authentication for a code after their password', async () => {
+    setTwoFactor(true)
+    const login = await post(app, '/login', { email: 'admin@test.com', password: 'secret' })
+    expect(login.status).toBe(302)
+    expect(login.headers.get('Location')).toBe('/login/two-factor')
+    expect(cookie(login, 'admin_session')).toBeUndefined()
+    const pending = `admin_two_factor=${cookie(login, 'admin_two_factor')}`
+
+    const page = await app.request('/login/two-factor', { headers: { Cookie: pending } })
+    expect(page.status).toBe(200)
+    expect(await page.text()).toContain('name="code"')
+
+    const wrong = await post(app, '/login/two-factor', { code: 'not-a-code' }, pending)
+    expect(await wrong.text()).toContain('Invalid code.')
+    expect(cookie(wrong, 'admin_session')).toBeUndefined()
+
+    // The wrong code makes the next attempt wait a second
+    vi.useFakeTimers({ toFake: ['Date'], now: Date.now() + 1000 })
+    updates.length = 0
+    const verified = await post(app, '/login/two-factor', { code: await totpCode(SECRET, totpStep()) }, pending)
+    expect(verified.status).toBe(302)
+    expect(verified.headers.get('Location')).toBe('/')
+    expect(cookie(verified, 'admin_session')).toBeTruthy()
+    expect(updates).toEqual([{ table: twoFactorTable, values: { lastUsedStep: totpStep() } }])
+    vi.useRealTimers()
+  })
+
+  it('does not accept the pending login as a session', async () => {
+    setTwoFactor(true)
+    const login = await post(app, '/login', { email: 'admin@test.com', password: 'secret' })
+    const res = await app.request('/posts', { headers: { Cookie: `admin_session=${cookie(login, 'admin_two_factor')}` } })
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/login')
+
+    const noPending = await app.request('/login/two-factor')
+    expect(noPending.headers.get('Location')).toBe('/login')
+  })
+
+  it('keeps admins who must set it up on the enrollment page until they do', async () => {
+    setTwoFactor(undefined)
+    const login = await post(requiredApp, '/login', { email: 'admin@test.com', password: 'secret' })
+    expect(login.headers.get('Location')).toBe('/account/two-factor')
+    const session = `admin_session=${cookie(login, 'admin_session')}`
+
+    const posts = await requiredApp.request('/posts', { headers: { Cookie: session } })
+    expect(posts.status).toBe(302)
+    expect(posts.headers.get('Location')).toBe('/account/two-factor')
+
+    setTwoFactor(false)
+    const page = await requiredApp.request('/account/two-factor', { headers: { Cookie: session } })
+    expect(page.status).toBe(200)
+    const html = await page.text()
+    expect(html).toContain('<svg')
+    expect(html).toContain(SECRET)
+    expect(html).toContain('required for your account')
+
+    updates.length = 0
+    const enabled = await post(requiredApp, '/account/two-factor', { code: await totpCode(SECRET, totpStep()) }, session)
+    expect(enabled.status).toBe(200)
+    expect((await enabled.text()).match(/<li>[a-z2-9]{5}-[a-z2-9]{5}<\/li>/g)).toHaveLength(10)
+    expect(updates).toEqual([{
+      table: twoFactorTable,
+      values: { enabledAt: expect.any(Date), lastUsedStep: totpStep(), recoveryCodes: expect.any(Array) },
+    }])
+
+    const renewed = `admin_session=${cookie(enabled, 'admin_session')}`
+    const after = await requiredApp.request('/posts', { headers: { Cookie: renewed } })
+    expect(after.status).toBe(200)
+  })
+
+  it('rejects a wrong code during enrollment', async () => {
+    setTwoFactor(false)
+    const res = await post(app, '/account/two-factor', { code: '12345' }, await makeAuthCookie())
+    expect(res.status).toBe(422)
+    expect(await res.text()).toContain('Invalid code.')
+  })
+
+  it('turns two-factor authentication off unless it is required', async () => {
+    setTwoFactor(true)
+    const step = totpStep()
+    deletes.length = 0
+    const refused = await post(requiredApp, '/account/two-factor/disable', { code: await totpCode(SECRET, step) }, await makeAuthCookie())
+    expect(refused.headers.get('Location')).toBe('/account/two-factor')
+    expect(deletes).toEqual([])
+
+    const disabled = await post(app, '/account/two-factor/disable', { code: await totpCode(SECRET, step) }, await makeAuthCookie())
+    expect(disabled.headers.get('Location')).toBe('/account')
+    expect(deletes).toEqual([twoFactorTable])
+  })
+
+  it('locks changes to the setup after repeated wrong codes', async () => {
+    const throttled = (await new DrizzleAdmin(makeConfig({
+      db,
+      adminUsers: adminUsers as unknown as PgTable,
+      twoFactor: { table: twoFactorTable as unknown as PgTable },
+      loginThrottle: { maxFailuresPerEmail: 2 },
+    })).build()).app
+    setTwoFactor(true)
+    deletes.length = 0
+    const now = Date.now()
+    vi.useFakeTimers({ toFake: ['Date'], now })
+    try {
+      for (const [i, path] of ['/account/two-factor/disable', '/account/two-factor/recovery-codes'].entries()) {
+        vi.setSystemTime(now + i * 2000)
+        const wrong = await post(throttled, path, { code: '000000' }, await makeAuthCookie())
+        expect(decodeURIComponent(wrong.headers.get('set-cookie') ?? '')).toContain('Invalid code.')
+      }
+
+      vi.setSystemTime(now + 10_000)
+      const locked = await post(throttled, '/account/two-factor/disable', { code: await totpCode(SECRET, totpStep()) }, await makeAuthCookie())
+      expect(locked.headers.get('Location')).toBe('/account/two-factor')
+      expect(decodeURIComponent(locked.headers.get('set-cookie') ?? '')).toContain('Too many failed sign-in attempts.')
+      expect(deletes).toEqual([])
+    } finally {
+      vi.useRealTimers()
+    }
+  })
+
+  it('requires a code for API tokens of admins using it', async () => {
+    const request = (target: Hono, body: Record<string, string>) => target.request('/api/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'admin@test.com', password: 'secret', ...body }),
+    })
+
+    setTwoFactor(true)
+    const missing = await request(app, {})
+    expect(missing.status).toBe(401)
+    expect(await missing.json()).toEqual({ error: 'Two-factor code required.' })
+    expect((await request(app, { code: await totpCode(SECRET, totpStep()) })).status).toBe(200)
+
+    setTwoFactor(undefined)
+    expect((await request(requiredApp, {})).status).toBe(403)
+  })
+})
+
+describe('Login throttling', () => {
+  const adminUsers = makeAdminUsers()
+  const adminRows: unknown[] = []
+  const auditTable = {
+    _columns: {
+      id: {}, adminId: {}, adminEmail: {}, resource: {}, recordId: {}, action: {}, changes: {}, ip: {}, createdAt: {},
+    },
+  }
+  const { db, inserts } = makeRecordingDb(new Map<unknown, unknown[]>([[adminUsers, adminRows], [auditTable, []]]))
+  let app: Hono
+
+  beforeAll(async () => {
+    adminRows.push({ id: 1, email: 'admin@test.com', passwordHash: await hashPassword('secret') })
+    const admin = new DrizzleAdmin(makeConfig({
+      db,
+      adminUsers: adminUsers as unknown as PgTable,
+      api: true,
+      auditLog: { table: auditTable as unknown as PgTable },
+      loginThrottle: { maxFailuresPerEmail: 3 },
+      trustProxy: true,
+    }))
+    app = (await admin.build()).app
+  })
+
+  afterAll(() => {
+    vi.useRealTimers()
+  })
+
+  async function login(email: string, password: string) {
+    const csrf = await generateCsrfToken(SESSION_SECRET)
+    return app.request('/login', {
+      method: 'POST',
+      headers: {
+        Cookie: `_csrf=${csrf}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'X-Forwarded-For': '203.0.113.7',
+      },
+      body: new URLSearchParams({ _csrf: csrf, email, password }),
+    })
+  }
+
+  it('locks an email after repeated failures, even for the right password', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-01-01T00:00:00Z') })
+    inserts.length = 0
+    for (let i = 0; i < 3; i++) {
+      vi.advanceTimersByTime(60_000)
+      const res = await login('admin@test.com', 'wrong')
+      expect(res.status).toBe(200)
+      expect(await res.text()).toContain('Invalid email or password.')
+    }
+
+    const locked = await login('admin@test.com', 'secret')
+    expect(locked.status).toBe(429)
+    expect(locked.headers.get('Retry-After')).toBe('900')
+    expect(await locked.text()).toContain('Try again in 15 minutes.')
+    expect(inserts.map(insert => insert.values)).toEqual(['login_failed', 'login_failed', 'login_locked'].map(action => ({
+      adminId: 0,
+      adminEmail: 'admin@test.com',
+      resource: 'admin_users',
+      recordId: null,
+      action,
+      changes: null,
+      ip: '203.0.113.7',
+      createdAt: expect.any(Date),
+    })))
+
+    vi.advanceTimersByTime(900_000)
+    const unlocked = await login('admin@test.com', 'secret')
+    expect(unlocked.status).toBe(302)
+    expect(unlocked.headers.get('Location')).toBe('/')
+  })
+
+  it('makes the next attempt wait after a failure, on the API too', async () => {
+    vi.useFakeTimers({ toFake: ['Date'], now: new Date('2026-01-02T00:00:00Z') })
+    await login('nobody@test.com', 'wrong')
+
+    const again = await login('nobody@test.com', 'wrong')
+    expect(again.status).toBe(429)
+    expect(await again.text()).toContain('Try again in 1 second.')
+
+    const token = await app.request('/api/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'NOBODY@test.com', password: 'wrong' }),
+    })
+    expect(token.status).toBe(429)
+    expect(token.headers.get('Retry-After')).toBe('1')
+  })
+})
+
+describe('Server-side sessions', () => {
+  const adminUsers = makeAdminUsers()
+  const adminRows: unknown[] = []
+  const { db, updates } = makeRecordingDb(new Map<unknown, unknown[]>([[adminUsers, adminRows]]))
+  const store = createMemorySessionStore()
+  let app: Hono
+
+  beforeAll(async () => {
+    adminRows.push({ id: 1, email: 'admin@test.com', passwordHash: await hashPassword('secret') })
+    const admin = new DrizzleAdmin(makeConfig({
+      db,
+      adminUsers: adminUsers as unknown as PgTable,
+      api: true,
+      sessions: { store },
+    }))
+    app = (await admin.build()).app
+  })
+
+  async function post(path: string, body: Record<string, string>, cookies = '', userAgent = 'Firefox') {
+    const csrf = await generateCsrfToken(SESSION_SECRET)
+    return app.request(path, {
+      method: 'POST',
+      headers: {
+        Cookie: `_csrf=${csrf}${cookies ? `; ${cookies}` : ''}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'User-Agent': userAgent,
+      },
+      body: new URLSearchParams({ _csrf: csrf, ...body }),
+    })
+  }
+
+  async function signIn(userAgent = 'Firefox'): Promise<string> {
+    const res = await post('/login', { email: 'admin@test.com', password: 'secret' }, '', userAgent)
+    const header = res.headers.getSetCookie().find(value => value.startsWith('admin_session='))
+    return header!.split(';')[0]!
+  }
+
+  async function status(cookie: string): Promise<number> {
+    return (await app.request('/posts', { headers: { Cookie: cookie } })).status
+  }
+
+  async function sessionIds(): Promise<string[]> {
+    return (await store.listForAdmin(1)).map(session => session.id)
+  }
+
+  it('checks the session of every request and ends it at logout', async () => {
+    const cookie = await signIn()
+    expect(await status(cookie)).toBe(200)
+    expect(await status(await makeAuthCookie())).toBe(302)
+
+    await app.request('/logout', { headers: { Cookie: cookie } })
+    expect(await status(cookie)).toBe(302)
+  })
+
+  it('lists sessions on the Account page and signs out another one', async () => {
+    const before = new Set(await sessionIds())
+    const mine = await signIn('Firefox')
+    const other = await signIn('Safari')
+    const otherId = (await sessionIds()).filter(id => !before.has(id))[1]!
+
+    const html = await (await app.request('/account', { headers: { Cookie: mine } })).text()
+    expect(html).toContain('Firefox')
+    expect(html).toContain('Safari')
+    expect(html).toContain('This session')
+
+    const res = await post(`/account/sessions/${otherId}/revoke`, {}, mine)
+    expect(res.headers.get('Location')).toBe('/account')
+    expect(await status(other)).toBe(302)
+    expect(await status(mine)).toBe(200)
+  })
+
+  it('signs out everywhere, API tokens included', async () => {
+    const cookie = await signIn()
+    const { token } = await (await app.request('/api/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email: 'admin@test.com', password: 'secret' }),
+    })).json() as { token: string }
+    const api = () => app.request('/api/posts', { headers: { Authorization: `Bearer ${token}` } })
+    expect((await api()).status).toBe(200)
+
+    const res = await post('/account/sessions/revoke-all', {}, cookie)
+    expect(res.headers.get('Location')).toBe('/login')
+    expect(await sessionIds()).toEqual([])
+    expect(await status(cookie)).toBe(302)
+    expect((await api()).status).toBe(401)
+  })
+
+  it('changes the password and signs out the other sessions', async () => {
+    const mine = await signIn()
+    const other = await signIn()
+
+    updates.length = 0
+    const res = await post('/account/password', { currentPassword: 'secret', newPassword: 'correct horse', confirmPassword: 'correct horse' }, mine)
+    expect(res.headers.get('Location')).toBe('/account')
+    expect(updates).toEqual([{ table: adminUsers, values: { passwordHash: expect.stringMatching(/^\$2[ab]\$12\$/), updatedAt: expect.any(Date) } }])
+    expect(await status(mine)).toBe(200)
+    expect(await status(other)).toBe(302)
+
+    updates.length = 0
+    const wrong = await post('/account/password', { currentPassword: 'nope', newPassword: 'short', confirmPassword: 'short' }, mine)
+    expect(wrong.status).toBe(422)
+    const html = await wrong.text()
+    expect(html).toContain('Current password is incorrect.')
+    expect(html).toContain('New password must be at least 8 characters.')
+    expect(updates).toEqual([])
+  })
+})
+
+describe('Password reset and invitations', () => {
+  const base = makeAdminUsers()
+  const adminUsers = { ...base, _columns: { ...base._columns, roles: { dataType: 'array' } }, roles: {} }
+  const adminRows: Record<string, unknown>[] = []
+  const { db, inserts, updates } = makeRecordingDb(new Map<unknown, unknown[]>([[adminUsers, adminRows]]))
+  const store = createMemorySessionStore()
+  const sent: MailMessage[] = []
+  const mailer = { send: async (message: MailMessage) => { sent.push(message) } }
+  let app: Hono
+
+  beforeAll(async () => {
+    adminRows.push({ id: 1, email: 'admin@test.com', passwordHash: await hashPassword('secret'), roles: ['owner', 'editor'] })
+    const admin = new DrizzleAdmin(makeConfig({
+      db,
+      adminUsers: adminUsers as unknown as PgTable,
+      roleColumn: 'roles',
+      sessions: { store },
+      mailer,
+      publicUrl: 'https://admin.example.com/',
+      inviteRoles: ['owner'],
+    }))
+    app = (await admin.build()).app
+  })
+
+  async function post(path: string, body: Record<string, string>, cookies = '') {
+    const csrf = await generateCsrfToken(SESSION_SECRET)
+    return app.request(path, {
+      method: 'POST',
+      headers: {
+        Cookie: `_csrf=${csrf}${cookies ? `; ${cookies}` : ''}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ _csrf: csrf, ...body }),
+    })
+  }
+
+  function cookie(res: Response, name: string): string {
+    return res.headers.getSetCookie().find(value => value.startsWith(`${name}=`))!.split(';')[0]!
+  }
+
+  // The emailed link, as a path on the app
+  function linkPath(message: MailMessage): string {
+    const link = message.text.match(/https:\/\/\S+/)![0]
+    expect(link.startsWith('https://admin.example.com/set-password?token=')).toBe(true)
+    return link.slice('https://admin.example.com'.length)
+  }
+
+  it('emails a reset link, answering the same for unknown emails', async () => {
+    const login = await (await app.request('/login')).text()
+    expect(login).toContain('href="/forgot-password"')
+
+    sent.length = 0
+    const res = await post('/forgot-password', { email: 'admin@test.com' })
+    expect(res.status).toBe(200)
+    const notice = 'If an admin with that email exists, a link to reset the password is on its way.'
+    expect(await res.text()).toContain(notice)
+    await vi.waitFor(() => expect(sent).toHaveLength(1))
+    expect(sent[0]).toMatchObject({ to: 'admin@test.com', subject: 'Reset your DrizzleAdmin password' })
+
+    const rows = adminRows.splice(0)
+    try {
+      const unknown = await post('/forgot-password', { email: 'nobody@test.com' })
+      expect(await unknown.text()).toContain(notice)
+      await new Promise(resolve => setTimeout(resolve, 10))
+      expect(sent).toHaveLength(1)
+    } finally {
+      adminRows.push(...rows)
+    }
+  })
+
+  it('refuses more than 3 reset links per email', async () => {
+    for (let i = 0; i < 3; i++) {
+      expect((await post('/forgot-password', { email: 'someone@test.com' })).status).toBe(200)
+    }
+
+    const res = await post('/forgot-password', { email: 'someone@test.com' })
+    expect(res.status).toBe(429)
+    expect(res.headers.get('Retry-After')).toBe('900')
+    expect(await res.text()).toContain('Too many reset links requested. Try again in 15 minutes.')
+  })
+
+  it('sets the password from the link once, signing out every session', async () => {
+    const session = cookie(await post('/login', { email: 'admin@test.com', password: 'secret' }), 'admin_session')
+    sent.length = 0
+    await post('/forgot-password', { email: 'admin@test.com' })
+    await vi.waitFor(() => expect(sent).toHaveLength(1))
+    const path = linkPath(sent[0]!)
+    const token = new URL(path, 'http://localhost').searchParams.get('token')!
+
+    const page = await app.request(path)
+    expect(page.status).toBe(200)
+    expect(page.headers.get('Referrer-Policy')).toBe('no-referrer')
+    expect(await page.text()).toContain('Choose a new password for admin@test.com')
+
+    updates.length = 0
+    const mismatch = await post('/set-password', { token, newPassword: 'correct horse', confirmPassword: 'correct hose' })
+    expect(mismatch.status).toBe(422)
+    expect(await mismatch.text()).toContain('New passwords do not match.')
+    expect(updates).toEqual([])
+
+    const res = await post('/set-password', { token, newPassword: 'correct horse', confirmPassword: 'correct horse' })
+    expect(res.headers.get('Location')).toBe('/login')
+    expect(updates).toEqual([{ table: adminUsers, values: { passwordHash: expect.stringMatching(/^\$2[ab]\$12\$/), updatedAt: expect.any(Date) } }])
+    expect((await app.request('/posts', { headers: { Cookie: session } })).status).toBe(302)
+
+    const login = await app.request('/login', { headers: { Cookie: cookie(res, '_flash') } })
+    expect(await login.text()).toContain('Password reset. Sign in with your new password.')
+
+    // The mock db does not apply updates, so store the new hash as the database would
+    const row = adminRows[0]!
+    const previousHash = row.passwordHash
+    row.passwordHash = (updates[0]!.values as { passwordHash: string }).passwordHash
+    try {
+      const used = await app.request(path)
+      expect(used.headers.get('Location')).toBe('/forgot-password')
+      const forgot = await app.request('/forgot-password', { headers: { Cookie: cookie(used, '_flash') } })
+      expect(await forgot.text()).toContain('This link is invalid, expired or already used.')
+    } finally {
+      row.passwordHash = previousHash
+    }
+  })
+
+  it('invites an admin, who sets their password from the emailed link', async () => {
+    const auth = cookie(await post('/login', { email: 'admin@test.com', password: 'secret' }), 'admin_session')
+    const account = await (await app.request('/account', { headers: { Cookie: auth } })).text()
+    expect(account).toContain('href="/invite"')
+    const form = await app.request('/invite', { headers: { Cookie: auth } })
+    expect(form.status).toBe(200)
+    expect(await form.text()).toContain('name="roles[]" value="editor"')
+
+    const existing = await post('/invite', { email: 'admin@test.com', 'roles[]': 'editor' }, auth)
+    expect(existing.status).toBe(422)
+    expect(await existing.text()).toContain('An admin with this email already exists.')
+
+    const rows = adminRows.splice(0)
+    try {
+      sent.length = 0
+      inserts.length = 0
+      const res = await post('/invite', { email: 'new@test.com', 'roles[]': 'editor' }, auth)
+      expect(res.headers.get('Location')).toBe('/account')
+      expect(inserts).toEqual([{ table: adminUsers, values: { email: 'new@test.com', passwordHash: expect.stringMatching(/^\$2[ab]\$12\$/), roles: ['editor'], createdAt: expect.any(Date), updatedAt: expect.any(Date) } }])
+      expect(sent).toHaveLength(1)
+      expect(sent[0]).toMatchObject({ to: 'new@test.com', subject: 'You have been invited to DrizzleAdmin' })
+      expect(sent[0]!.text).toContain('admin@test.com invited you')
+
+      adminRows.push({ id: 1, email: 'new@test.com', passwordHash: (inserts[0]!.values as { passwordHash: string }).passwordHash })
+      const page = await app.request(linkPath(sent[0]!))
+      expect(await page.text()).toContain('Set Password | DrizzleAdmin')
+    } finally {
+      adminRows.splice(0, adminRows.length, ...rows)
+    }
+  })
+
+  it('refuses roles the inviter does not have', async () => {
+    const auth = cookie(await post('/login', { email: 'admin@test.com', password: 'secret' }), 'admin_session')
+    inserts.length = 0
+
+    const none = await post('/invite', { email: 'new@test.com' }, auth)
+    expect(none.status).toBe(422)
+    expect(await none.text()).toContain('Choose a role for the new admin.')
+
+    const body = new URLSearchParams({ email: 'new@test.com' })
+    body.append('roles[]', 'editor')
+    body.append('roles[]', 'superuser')
+    const csrf = await generateCsrfToken(SESSION_SECRET)
+    body.append('_csrf', csrf)
+    const res = await app.request('/invite', {
+      method: 'POST',
+      headers: { Cookie: `_csrf=${csrf}; ${auth}`, 'Content-Type': 'application/x-www-form-urlencoded' },
+      body,
+    })
+    expect(res.status).toBe(422)
+    expect(await res.text()).toContain('You can only give roles you have.')
+    expect(inserts).toEqual([])
+  })
+
+  it('lets only admins with inviteRoles invite', async () => {
+    const admin = new DrizzleAdmin(makeConfig({
+      adminUsers: adminUsers as unknown as PgTable,
+      mailer,
+      publicUrl: 'https://admin.example.com',
+      roleColumn: 'roles',
+      inviteRoles: ['owner'],
+    }))
+    const restricted = (await admin.build()).app
+
+    const res = await restricted.request('/invite', { headers: { Cookie: await makeAuthCookie(['editor']) } })
+    expect(res.status).toBe(403)
+    const account = await (await restricted.request('/account', { headers: { Cookie: await makeAuthCookie(['editor']) } })).text()
+    expect(account).not.toContain('href="/invite"')
+    expect((await restricted.request('/invite', { headers: { Cookie: await makeAuthCookie(['owner']) } })).status).toBe(200)
+  })
+})
+
 describe('Routing integration without basePath (regression)', () => {
   let app: Hono
 
@@ -265,6 +1859,15 @@ describe('Routing integration without basePath (regression)', () => {
     expect(res.headers.get('Location')).toBe('/login')
   })
 
+  it('GET /posts/lookup returns only key columns as option values', async () => {
+    const headers = { Cookie: await makeAuthCookie() }
+    expect((await app.request('/posts/lookup?value=id', { headers })).status).toBe(200)
+
+    const res = await app.request('/posts/lookup?value=title', { headers })
+    expect(res.status).toBe(400)
+    expect(await res.json()).toEqual({ error: 'Lookups cannot return "title"' })
+  })
+
   it('GET / with auth redirects to /posts', async () => {
     const cookie = await makeAuthCookie()
     const res = await app.request('/', {
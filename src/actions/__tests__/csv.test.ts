@@ -1,67 +1,125 @@
 import { describe, it, expect, vi } from 'vitest'
-import type { PgTable } from 'drizzle-orm/pg-core'
+import { sql, type SQL } from 'drizzle-orm'
+import { boolean, integer, PgDialect, pgTable, serial, text } from 'drizzle-orm/pg-core'
 import type { AnyPgDatabase } from '@/types.ts'
 import type { Context } from 'hono'
+import type { ActionContext, ResourceDefinition, ResourceOptions } from '@/resources/types.ts'
+import type { ListParams } from '@/resources/query.ts'
 
-vi.mock('drizzle-orm', () => ({
+vi.mock('drizzle-orm', async (importOriginal) => ({
+  ...await importOriginal<typeof import('drizzle-orm')>(),
   getTableName: () => 'test_table',
 }))
 
-import { createCsvExportAction } from '@/actions/csv.ts'
+import { createCsvExportAction, createCsvImportAction, parseCsv } from '@/actions/csv.ts'
+import { postgresqlAdapter } from '@/dialects/postgresql.ts'
 
-const fakeTable = { _name: 'test_table' } as unknown as PgTable
+const posts = pgTable('posts', {
+  id: serial('id').primaryKey(),
+  slug: text('slug').notNull(),
+  title: text('title').notNull(),
+  views: integer('views'),
+  published: boolean('published').notNull().default(false),
+})
+const columns = postgresqlAdapter.extractColumns(posts)
+const admin = { adminId: 1, email: 'admin@test.com', roles: ['admin'] }
+const dialect = new PgDialect()
+
+function makeResource(options: ResourceOptions = {}): ResourceDefinition {
+  return { table: posts, tableName: 'posts', routePath: 'posts', displayName: 'Post', options } as unknown as ResourceDefinition
+}
+
+function makeContext(resource: ResourceDefinition, listParams: ListParams = { page: 1 }): ActionContext {
+  return {
+    resource,
+    columns,
+    actionUrl: '/admin/posts/actions/import-csv',
+    basePath: '/admin',
+    csrfToken: 'token',
+    listParams,
+    renderPage: (_title, content) => content,
+    forbidden: () => new Response('Forbidden', { status: 403 }),
+    audit: vi.fn(async () => {}),
+    snapshot: vi.fn(async () => {}),
+  }
+}
 
-function makeMockDb(records: Record<string, unknown>[]): AnyPgDatabase {
+function makeRequest(body: Record<string, string | File> = {}): Context {
   return {
-    select: () => ({
-      from: () => Promise.resolve(records),
-    }),
+    req: { parseBody: async () => body },
+    get: () => admin,
+    html: (html: string, status = 200) => new Response(html, { status }),
+  } as unknown as Context
+}
+
+// Returns one batch per query and records the selected fields and conditions
+function makeExportDb(batches: Record<string, unknown>[][]) {
+  const queries: { fields: Record<string, unknown>; where?: SQL }[] = []
+  const db = {
+    select: (fields: Record<string, unknown>) => {
+      const query: { fields: Record<string, unknown>; where?: SQL } = { fields }
+      queries.push(query)
+      const chain = {
+        from: () => chain,
+        where: (where?: SQL) => {
+          query.where = where
+          return chain
+        },
+        orderBy: () => chain,
+        limit: () => chain,
+        offset: async () => batches[queries.length - 1] ?? [],
+      }
+      return chain
+    },
   } as unknown as AnyPgDatabase
+  return { db, queries }
+}
+
+async function exportCsv(rows: Record<string, unknown>[], resource = makeResource()): Promise<string> {
+  const { db } = makeExportDb([rows])
+  const response = await createCsvExportAction(posts).handler(makeRequest(), db, makeContext(resource)) as Response
+  return response.text()
 }
 
 describe('createCsvExportAction', () => {
   it('returns action with name "Export CSV"', () => {
-    const action = createCsvExportAction(fakeTable)
+    const action = createCsvExportAction(posts)
     expect(action.name).toBe('Export CSV')
   })
 
   it('returns plain text response when no records exist', async () => {
-    const action = createCsvExportAction(fakeTable)
-    const db = makeMockDb([])
-    const response = await action.handler({} as unknown as Context, db) as Response
+    const action = createCsvExportAction(posts)
+    const { db } = makeExportDb([[]])
+    const response = await action.handler(makeRequest(), db, makeContext(makeResource())) as Response
 
     expect(response.status).toBe(200)
     expect(response.headers.get('Content-Type')).toBe('text/plain')
     expect(await response.text()).toBe('No records to export')
   })
 
-  it('generates CSV with header row and data rows', async () => {
-    const action = createCsvExportAction(fakeTable)
-    const db = makeMockDb([
-      { id: 1, name: 'Alice', email: 'alice@test.com' },
-      { id: 2, name: 'Bob', email: 'bob@test.com' },
-    ])
-    const response = await action.handler({} as unknown as Context, db) as Response
-    const csv = await response.text()
+  it('generates CSV with formatted headers for the visible index columns', async () => {
+    const resource = makeResource({ index: { exclude: ['published'] } })
+    const csv = await exportCsv([
+      { id: 1, slug: 'alice', title: 'Alice', views: 3 },
+      { id: 2, slug: 'bob', title: 'Bob', views: null },
+    ], resource)
 
     const lines = csv.split('\n')
-    expect(lines[0]).toBe('id,name,email')
-    expect(lines[1]).toBe('1,Alice,alice@test.com')
-    expect(lines[2]).toBe('2,Bob,bob@test.com')
+    expect(lines[0]).toBe('Id,Slug,Title,Views')
+    expect(lines[1]).toBe('1,alice,Alice,3')
+    expect(lines[2]).toBe('2,bob,Bob,')
   })
 
   it('sets Content-Type to text/csv', async () => {
-    const action = createCsvExportAction(fakeTable)
-    const db = makeMockDb([{ id: 1 }])
-    const response = await action.handler({} as unknown as Context, db) as Response
+    const { db } = makeExportDb([[{ id: 1 }]])
+    const response = await createCsvExportAction(posts).handler(makeRequest(), db, makeContext(makeResource())) as Response
 
     expect(response.headers.get('Content-Type')).toBe('text/csv')
   })
 
   it('sets Content-Disposition header with table name', async () => {
-    const action = createCsvExportAction(fakeTable)
-    const db = makeMockDb([{ id: 1 }])
-    const response = await action.handler({} as unknown as Context, db) as Response
+    const { db } = makeExportDb([[{ id: 1 }]])
+    const response = await createCsvExportAction(posts).handler(makeRequest(), db, makeContext(makeResource())) as Response
 
     expect(response.headers.get('Content-Disposition')).toBe(
       'attachment; filename="test_table.csv"'
@@ -69,39 +127,298 @@ describe('createCsvExportAction', () => {
   })
 
   it('escapes values containing commas', async () => {
-    const action = createCsvExportAction(fakeTable)
-    const db = makeMockDb([{ name: 'Smith, John' }])
-    const response = await action.handler({} as unknown as Context, db) as Response
-    const csv = await response.text()
-
-    expect(csv).toContain('"Smith, John"')
+    expect(await exportCsv([{ title: 'Smith, John' }])).toContain('"Smith, John"')
   })
 
   it('escapes values containing double quotes', async () => {
-    const action = createCsvExportAction(fakeTable)
-    const db = makeMockDb([{ name: 'He said "hello"' }])
-    const response = await action.handler({} as unknown as Context, db) as Response
-    const csv = await response.text()
-
-    expect(csv).toContain('"He said ""hello"""')
+    expect(await exportCsv([{ title: 'He said "hello"' }])).toContain('"He said ""hello"""')
   })
 
-  it('escapes values containing newlines', async () => {
-    const action = createCsvExportAction(fakeTable)
-    const db = makeMockDb([{ bio: 'line1\nline2' }])
-    const response = await action.handler({} as unknown as Context, db) as Response
-    const csv = await response.text()
+  it('escapes values containing newlines and carriage returns', async () => {
+    const csv = await exportCsv([{ title: 'line1\nline2', slug: 'a\rb' }])
 
     expect(csv).toContain('"line1\nline2"')
+    expect(csv).toContain('"a\rb"')
+  })
+
+  it('prefixes text that spreadsheets would evaluate as a formula', async () => {
+    const csv = await exportCsv([{ id: 1, slug: '=SUM(A1:A2)', title: '@cmd', views: -3 }])
+
+    expect(csv.split('\n')[1]).toBe("1,'=SUM(A1:A2),'@cmd,-3,")
+  })
+
+  it('writes dates as ISO strings and objects as JSON', async () => {
+    const csv = await exportCsv([{ slug: new Date('2024-01-02T03:04:05Z'), title: { tags: ['a', 'b'] } }])
+
+    expect(csv).toContain('2024-01-02T03:04:05.000Z')
+    expect(csv).toContain('"{""tags"":[""a"",""b""]}"')
   })
 
   it('handles null and undefined values as empty strings', async () => {
-    const action = createCsvExportAction(fakeTable)
-    const db = makeMockDb([{ a: null, b: undefined }])
-    const response = await action.handler({} as unknown as Context, db) as Response
-    const csv = await response.text()
+    const csv = await exportCsv([{ id: null, slug: undefined }])
 
-    const lines = csv.split('\n')
-    expect(lines[1]).toBe(',')
+    expect(csv.split('\n')[1]).toBe(',,,,')
+  })
+
+  it('streams batches, resuming after the last row of each', async () => {
+    const { db, queries } = makeExportDb([
+      [{ id: 1, __cursor0: '1' }, { id: 2, __cursor0: '2' }],
+      [{ id: 3, __cursor0: '3' }],
+    ])
+    const action = createCsvExportAction(posts, { batchSize: 2 })
+    const response = await action.handler(makeRequest(), db, makeContext(makeResource())) as Response
+    const lines = (await response.text()).trim().split('\n')
+
+    expect(lines.map(line => line.split(',')[0])).toEqual(['Id', '1', '2', '3'])
+    expect(queries).toHaveLength(2)
+    expect(queries[0]!.where).toBeUndefined()
+    const after = dialect.sqlToQuery(queries[1]!.where!)
+    expect(after.sql).toContain('"posts"."id" > $1::integer')
+    expect(after.params).toEqual(['2'])
+  })
+
+  it('follows the search and sort of the listing it was run from', async () => {
+    const { db, queries } = makeExportDb([[{ id: 1 }]])
+    const resource = makeResource({ index: { search: ['title'] } })
+    const listParams: ListParams = { page: 1, q: 'hello', sort: { column: 'title', direction: 'desc' } }
+    await createCsvExportAction(posts).handler(makeRequest(), db, makeContext(resource, listParams))
+
+    expect(dialect.sqlToQuery(queries[0]!.where!).sql).toContain('ilike')
+    expect(Object.keys(queries[0]!.fields)).toEqual(['id', 'slug', 'title', 'views', 'published', '__cursor0', '__cursor1'])
+  })
+})
+
+describe('parseCsv', () => {
+  it('splits rows and cells', () => {
+    expect(parseCsv('a,b\n1,2\n')).toEqual([['a', 'b'], ['1', '2']])
+  })
+
+  it('handles quoted cells with commas, quotes and line breaks', () => {
+    expect(parseCsv('name,bio\r\n"Smith, John","He said ""hi""\nbye"')).toEqual([
+      ['name', 'bio'],
+      ['Smith, John', 'He said "hi"\nbye'],
+    ])
+  })
+
+  it('strips a byte order mark and skips blank lines', () => {
+    expect(parseCsv('\uFEFFa\n\n1\n')).toEqual([['a'], ['1']])
+  })
+
+  it('keeps empty cells', () => {
+    expect(parseCsv('a,b,c\n,,')).toEqual([['a', 'b', 'c'], ['', '', '']])
+  })
+})
+
+describe('createCsvImportAction', () => {
+  function makeImportDb(existing: Record<string, unknown>[] = [], failOn?: string) {
+    const inserts: Record<string, unknown>[] = []
+    const updates: Record<string, unknown>[] = []
+    const updateWheres: SQL[] = []
+    const writer = {
+      insert: () => ({
+        values: (values: Record<string, unknown>) => ({
+          returning: async () => {
+            if (values.slug === failOn) throw Object.assign(new Error('duplicate'), { code: '23505', column: 'slug' })
+            inserts.push(values)
+            return [{ id: inserts.length + 100, ...values }]
+          },
+        }),
+      }),
+      update: () => ({
+        set: (values: Record<string, unknown>) => ({
+          where: (where: SQL) => ({
+            returning: async () => {
+              updates.push(values)
+              updateWheres.push(where)
+              return [{ ...existing[0], ...values }]
+            },
+          }),
+        }),
+      }),
+    }
+    const committed = { value: false }
+    const selectWheres: SQL[] = []
+    const tx = {
+      select: () => ({
+        from: () => ({
+          where: async (where: SQL) => {
+            selectWheres.push(where)
+            return existing
+          },
+        }),
+      }),
+      transaction: async (fn: (sp: unknown) => Promise<void>) => fn(writer),
+    }
+    const db = {
+      ...tx,
+      transaction: async (fn: (tx: unknown) => Promise<void>) => {
+        await fn(tx)
+        committed.value = true
+      },
+    } as unknown as AnyPgDatabase
+    return { db, inserts, updates, updateWheres, selectWheres, committed }
+  }
+
+  const csv = 'Slug,Title,Views\nhello,Hello,3\nworld,,x\n'
+
+  it('renders the upload form without a step', async () => {
+    const action = createCsvImportAction(posts)
+    const { db } = makeImportDb()
+    const response = await action.handler(makeRequest({}), db, makeContext(makeResource())) as Response
+    const html = await response.text()
+
+    expect(action.name).toBe('Import CSV')
+    expect(html).toContain('enctype="multipart/form-data"')
+    expect(html).toContain('name="step" value="preview"')
+  })
+
+  it('maps headers automatically and previews rows with their errors', async () => {
+    const action = createCsvImportAction(posts)
+    const { db } = makeImportDb()
+    const file = new File([csv], 'posts.csv', { type: 'text/csv' })
+    const response = await action.handler(makeRequest({ step: 'preview', file }), db, makeContext(makeResource())) as Response
+    const html = await response.text()
+
+    expect(html).toContain('2 rows found, 1 with errors.')
+    expect(html).toMatch(/name="map.0"[^]*?<option value="slug" selected>/)
+    expect(html).toMatch(/name="map.2"[^]*?<option value="views" selected>/)
+    expect(html).toContain('Title can&#039;t be blank')
+    expect(html).toContain('Views is not a number')
+    expect(html.match(/data-invalid/g)).toHaveLength(1)
+  })
+
+  it('applies a submitted mapping', async () => {
+    const action = createCsvImportAction(posts)
+    const { db } = makeImportDb()
+    const body = { step: 'preview', csv, 'map.0': 'title', 'map.1': '', 'map.2': '' }
+    const response = await action.handler(makeRequest(body), db, makeContext(makeResource())) as Response
+    const html = await response.text()
+
+    expect(html).toContain('Slug can&#039;t be blank')
+    expect(html).not.toContain('Views is not a number')
+  })
+
+  it('reports integers with trailing characters', async () => {
+    const action = createCsvImportAction(posts)
+    const { db } = makeImportDb()
+    const body = { step: 'preview', csv: 'slug,title,views\nhello,Hello,12abc\n', 'map.0': 'slug', 'map.1': 'title', 'map.2': 'views' }
+    const response = await action.handler(makeRequest(body), db, makeContext(makeResource())) as Response
+
+    expect(await response.text()).toContain('Views is not a number')
+  })
+
+  it('matches only live records within the policy scope', async () => {
+    const action = createCsvImportAction(posts, { upsertKey: 'slug' })
+    const { db, selectWheres } = makeImportDb()
+    const scopeQuery = vi.fn(() => sql`"posts"."views" > 0`)
+    const resource = makeResource({ policy: { scopeQuery }, softDelete: { column: 'published' } })
+    const body = { step: 'preview', csv: 'slug,title\nhello,Hello\n', 'map.0': 'slug', 'map.1': 'title' }
+    await action.handler(makeRequest(body), db, makeContext(resource))
+
+    expect(scopeQuery).toHaveBeenCalledWith(admin)
+    const { sql: where } = dialect.sqlToQuery(selectWheres[0]!)
+    expect(where).toContain('"posts"."views" > 0')
+    expect(where).toContain('"posts"."published" is null')
+  })
+
+  it('runs resource validation on each row', async () => {
+    const action = createCsvImportAction(posts)
+    const { db } = makeImportDb()
+    const resource = makeResource({ validate: (values) => (values.slug === 'hello' ? { slug: 'is reserved' } : undefined) })
+    const file = new File(['slug,title\nhello,Hello\n'], 'posts.csv')
+    const response = await action.handler(makeRequest({ step: 'preview', file }), db, makeContext(resource)) as Response
+
+    expect(await response.text()).toContain('Slug is reserved')
+  })
+
+  it('imports valid rows and reports failed ones', async () => {
+    const action = createCsvImportAction(posts)
+    const { db, inserts, committed } = makeImportDb()
+    const body = { step: 'import', csv, 'map.0': 'slug', 'map.1': 'title', 'map.2': 'views' }
+    const response = await action.handler(makeRequest(body), db, makeContext(makeResource())) as Response
+    const html = await response.text()
+
+    expect(inserts).toEqual([{ slug: 'hello', title: 'Hello', views: 3 }])
+    expect(committed.value).toBe(true)
+    expect(html).toMatch(/>1<\/p><p[^>]*>Created/)
+    expect(html).toMatch(/>1<\/p><p[^>]*>Failed/)
+    expect(html).not.toContain('Dry run')
+  })
+
+  it('reports constraint violations on the failing row only', async () => {
+    const action = createCsvImportAction(posts)
+    const { db, inserts } = makeImportDb([], 'taken')
+    const body = { step: 'import', csv: 'slug,title\ntaken,A\nfree,B\n', 'map.0': 'slug', 'map.1': 'title' }
+    const response = await action.handler(makeRequest(body), db, makeContext(makeResource())) as Response
+    const html = await response.text()
+
+    expect(inserts).toEqual([{ slug: 'free', title: 'B' }])
+    expect(html).toContain('Slug has already been taken')
+  })
+
+  it('updates records matching the upsert key', async () => {
+    const action = createCsvImportAction(posts, { upsertKey: 'slug' })
+    const { db, inserts, updates, updateWheres } = makeImportDb([{ id: 7, slug: 'hello', title: 'Old', views: 1, published: false }])
+    const body = { step: 'import', csv: 'slug,title\nhello,New\nother,Other\n', 'map.0': 'slug', 'map.1': 'title' }
+    const response = await action.handler(makeRequest(body), db, makeContext(makeResource())) as Response
+    const html = await response.text()
+
+    expect(updates).toHaveLength(1)
+    expect(updates[0]).toMatchObject({ slug: 'hello', title: 'New' })
+    expect(dialect.sqlToQuery(updateWheres[0]!)).toMatchObject({ sql: '"posts"."id" = $1', params: ['7'] })
+    expect(inserts).toEqual([{ slug: 'other', title: 'Other' }])
+    expect(html).toMatch(/>1<\/p><p[^>]*>Updated/)
+  })
+
+  it('records each write in the audit log and versions, and the import once', async () => {
+    const action = createCsvImportAction(posts, { upsertKey: 'slug' })
+    const previous = { id: 7, slug: 'hello', title: 'Old', views: 1, published: false }
+    const { db } = makeImportDb([previous])
+    const context = makeContext(makeResource())
+    const body = { step: 'import', csv: 'slug,title\nhello,New\nother,Other\n', 'map.0': 'slug', 'map.1': 'title' }
+    await action.handler(makeRequest(body), db, context)
+
+    expect(action.auditsItself).toBe(true)
+    expect(context.snapshot).toHaveBeenCalledWith(expect.anything(), 'update', '7', previous)
+    expect(vi.mocked(context.audit).mock.calls.map(([, entry]) => entry)).toEqual([
+      { recordId: '7', action: 'update', changes: { title: { from: 'Old', to: 'New' } } },
+      { recordId: '101', action: 'create', changes: expect.objectContaining({ slug: { from: null, to: 'other' } }) },
+      { recordId: null, action: 'Import CSV', changes: null },
+    ])
+  })
+
+  it('rolls back a dry run and offers the real import', async () => {
+    const action = createCsvImportAction(posts)
+    const { db, committed } = makeImportDb()
+    const context = makeContext(makeResource())
+    const body = { step: 'dry-run', csv: 'slug,title\nhello,Hello\n', 'map.0': 'slug', 'map.1': 'title' }
+    const response = await action.handler(makeRequest(body), db, context) as Response
+    const html = await response.text()
+
+    expect(committed.value).toBe(false)
+    expect(context.audit).not.toHaveBeenCalledWith(expect.anything(), expect.objectContaining({ action: 'Import CSV' }))
+    expect(html).toContain('Dry run: no changes were saved.')
+    expect(html).toMatch(/>1<\/p><p[^>]*>Would be created/)
+    expect(html).toContain('name="step" value="import"')
+    expect(html).toContain('name="map.1" value="title"')
+  })
+
+  it('requires the create permission', async () => {
+    const action = createCsvImportAction(posts)
+    const { db } = makeImportDb()
+    const resource = makeResource({ permissions: { read: ['admin'], create: ['editor'] } })
+    const response = await action.handler(makeRequest({}), db, makeContext(resource)) as Response
+
+    expect(response.status).toBe(403)
+  })
+
+  it('rejects files without data rows', async () => {
+    const action = createCsvImportAction(posts)
+    const { db } = makeImportDb()
+    const file = new File(['slug,title\n'], 'posts.csv')
+    const response = await action.handler(makeRequest({ step: 'preview', file }), db, makeContext(makeResource())) as Response
+
+    expect(response.status).toBe(422)
+    expect(await response.text()).toContain('The file has no data rows.')
   })
 })
@@ -0,0 +1,92 @@
+import { describe, it, expect, vi } from 'vitest'
+import { pgTable, serial, text, jsonb, timestamp, bigint } from 'drizzle-orm/pg-core'
+import type { Context } from 'hono'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { ActionContext, ResourceDefinition } from '@/resources/types.ts'
+import { createExportAction, formatFilename, serializeValue, type ExportFormat } from '@/actions/export.ts'
+import { postgresqlAdapter } from '@/dialects/postgresql.ts'
+
+vi.useFakeTimers({ now: new Date('2024-03-04T05:06:07Z'), toFake: ['Date'] })
+
+const events = pgTable('events', {
+  id: serial('id').primaryKey(),
+  name: text('name'),
+  payload: jsonb('payload'),
+  total: bigint('total', { mode: 'bigint' }),
+  createdAt: timestamp('created_at'),
+})
+const columns = postgresqlAdapter.extractColumns(events)
+const column = (name: string) => columns.find(col => col.name === name)!
+
+const names: ExportFormat = {
+  name: 'Export Names',
+  extension: 'txt',
+  contentType: 'text/plain',
+  async *write(batches) {
+    for await (const rows of batches) yield rows.map(row => `${row.name}\n`).join('')
+  },
+}
+
+function run(format: ExportFormat, rows: Record<string, unknown>[], filename?: string): Promise<Response> {
+  const chain = {
+    from: () => chain,
+    where: () => chain,
+    orderBy: () => chain,
+    limit: () => chain,
+    offset: async () => rows,
+  }
+  const db = { select: () => chain } as unknown as AnyPgDatabase
+  const resource = { table: events, tableName: 'events', routePath: 'events', displayName: 'Event', options: {} } as unknown as ResourceDefinition
+  const context = { resource, columns, listParams: { page: 1 } } as unknown as ActionContext
+  const c = { get: () => ({ adminId: 1, email: 'admin@test.com' }) } as unknown as Context
+  return createExportAction(events, format, { filename }).handler(c, db, context) as Promise<Response>
+}
+
+describe('createExportAction', () => {
+  it('names the action after the format and streams its chunks', async () => {
+    const response = await run(names, [{ name: 'a' }, { name: 'b' }])
+
+    expect(createExportAction(events, names).name).toBe('Export Names')
+    expect(response.headers.get('Content-Type')).toBe('text/plain')
+    expect(await response.text()).toBe('a\nb\n')
+  })
+
+  it('fills in the filename template', async () => {
+    const response = await run(names, [{ name: 'a' }], '{table}-{timestamp}')
+
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="events-20240304-050607.txt"')
+  })
+
+  it('responds with plain text when no records match', async () => {
+    const response = await run(names, [])
+
+    expect(await response.text()).toBe('No records to export')
+  })
+})
+
+describe('formatFilename', () => {
+  it('replaces every placeholder and strips unsafe characters', () => {
+    expect(formatFilename('{table}/{table} "{timestamp}"', 'posts', new Date('2024-12-31T23:59:58.500Z')))
+      .toBe('posts_posts _20241231-235958_')
+  })
+})
+
+describe('serializeValue', () => {
+  it('writes timestamps as ISO strings', () => {
+    expect(serializeValue(new Date('2024-01-02T03:04:05Z'), column('createdAt'))).toBe('2024-01-02T03:04:05.000Z')
+  })
+
+  it('writes bigints as strings', () => {
+    expect(serializeValue(12345678901234567890n, column('total'))).toBe('12345678901234567890')
+  })
+
+  it('keeps JSON values as they are', () => {
+    const payload = { at: '2024-01-02', tags: ['a'] }
+    expect(serializeValue(payload, column('payload'))).toBe(payload)
+  })
+
+  it('turns missing values into null', () => {
+    expect(serializeValue(undefined, column('name'))).toBeNull()
+    expect(serializeValue(null, column('name'))).toBeNull()
+  })
+})
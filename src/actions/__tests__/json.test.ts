@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest'
+import { pgTable, serial, text, jsonb, timestamp } from 'drizzle-orm/pg-core'
+import type { Context } from 'hono'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { ActionContext, CollectionAction, ResourceDefinition } from '@/resources/types.ts'
+import { createJsonExportAction, createNdjsonExportAction } from '@/actions/json.ts'
+import { postgresqlAdapter } from '@/dialects/postgresql.ts'
+
+const events = pgTable('events', {
+  id: serial('id').primaryKey(),
+  name: text('name'),
+  payload: jsonb('payload'),
+  createdAt: timestamp('created_at'),
+})
+
+const rows = [
+  { id: 1, name: 'signup', payload: { plan: 'pro' }, createdAt: new Date('2024-01-02T03:04:05Z') },
+  { id: 2, name: 'line\nbreak', payload: null, createdAt: null },
+]
+
+function run(action: CollectionAction, batches: Record<string, unknown>[][]): Promise<Response> {
+  let query = 0
+  const chain = {
+    from: () => chain,
+    where: () => chain,
+    orderBy: () => chain,
+    limit: () => chain,
+    offset: async () => batches[query++] ?? [],
+  }
+  const db = { select: () => chain } as unknown as AnyPgDatabase
+  const resource = { table: events, tableName: 'events', routePath: 'events', displayName: 'Event', options: {} } as unknown as ResourceDefinition
+  const columns = postgresqlAdapter.extractColumns(events)
+  const context = { resource, columns, listParams: { page: 1 } } as unknown as ActionContext
+  const c = { get: () => ({ adminId: 1, email: 'admin@test.com' }) } as unknown as Context
+  return action.handler(c, db, context) as Promise<Response>
+}
+
+describe('createJsonExportAction', () => {
+  it('exports a JSON array of records keyed by column name', async () => {
+    const response = await run(createJsonExportAction(events), [rows])
+
+    expect(response.headers.get('Content-Type')).toBe('application/json')
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="events.json"')
+    expect(JSON.parse(await response.text())).toEqual([
+      { id: 1, name: 'signup', payload: { plan: 'pro' }, createdAt: '2024-01-02T03:04:05.000Z' },
+      { id: 2, name: 'line\nbreak', payload: null, createdAt: null },
+    ])
+  })
+
+  it('joins records across batches', async () => {
+    const action = createJsonExportAction(events, { batchSize: 1 })
+    const response = await run(action, [[rows[0]!], [rows[1]!], []])
+
+    expect(JSON.parse(await response.text()).map((record: { id: number }) => record.id)).toEqual([1, 2])
+  })
+})
+
+describe('createNdjsonExportAction', () => {
+  it('exports one JSON object per line', async () => {
+    const response = await run(createNdjsonExportAction(events), [rows])
+    const lines = (await response.text()).split('\n')
+
+    expect(response.headers.get('Content-Type')).toBe('application/x-ndjson')
+    expect(lines).toHaveLength(3)
+    expect(lines[2]).toBe('')
+    expect(JSON.parse(lines[0]!)).toEqual({ id: 1, name: 'signup', payload: { plan: 'pro' }, createdAt: '2024-01-02T03:04:05.000Z' })
+    expect(JSON.parse(lines[1]!).name).toBe('line\nbreak')
+  })
+})
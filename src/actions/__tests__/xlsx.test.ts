@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { boolean, integer, jsonb, pgTable, serial, text, timestamp } from 'drizzle-orm/pg-core'
+import type { Context } from 'hono'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { ActionContext, ResourceDefinition } from '@/resources/types.ts'
+import { createXlsxExportAction } from '@/actions/xlsx.ts'
+import { postgresqlAdapter } from '@/dialects/postgresql.ts'
+
+const orders = pgTable('orders', {
+  id: serial('id').primaryKey(),
+  customerName: text('customer_name'),
+  total: integer('total'),
+  paid: boolean('paid'),
+  items: jsonb('items'),
+  createdAt: timestamp('created_at'),
+})
+
+async function exportWorkbook(rows: Record<string, unknown>[]): Promise<{ response: Response; files: Map<string, string> }> {
+  const chain = {
+    from: () => chain,
+    where: () => chain,
+    orderBy: () => chain,
+    limit: () => chain,
+    offset: async () => rows,
+  }
+  const db = { select: () => chain } as unknown as AnyPgDatabase
+  const resource = { table: orders, tableName: 'orders', routePath: 'orders', displayName: 'Order', options: {} } as unknown as ResourceDefinition
+  const columns = postgresqlAdapter.extractColumns(orders)
+  const context = { resource, columns, listParams: { page: 1 } } as unknown as ActionContext
+  const c = { get: () => ({ adminId: 1, email: 'admin@test.com' }) } as unknown as Context
+
+  const response = await createXlsxExportAction(orders).handler(c, db, context) as Response
+  const bytes = new Uint8Array(await response.clone().arrayBuffer())
+  return { response, files: await unzip(bytes) }
+}
+
+async function unzip(bytes: Uint8Array): Promise<Map<string, string>> {
+  const view = new DataView(bytes.buffer)
+  const end = bytes.length - 22
+  const files = new Map<string, string>()
+  let pos = view.getUint32(end + 16, true)
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    const compressedSize = view.getUint32(pos + 20, true)
+    const nameLength = view.getUint16(pos + 28, true)
+    const offset = view.getUint32(pos + 42, true)
+    const name = new TextDecoder().decode(bytes.subarray(pos + 46, pos + 46 + nameLength))
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true)
+    const data = bytes.slice(start, start + compressedSize)
+    files.set(name, await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text())
+    pos += 46 + nameLength
+  }
+  return files
+}
+
+describe('createXlsxExportAction', () => {
+  const rows = [
+    { id: 1, customerName: 'Ann & <Co>', total: 42, paid: true, items: [{ sku: 'A' }], createdAt: new Date('2024-01-02T12:00:00Z') },
+    { id: 2, customerName: '=HYPERLINK("x")', total: null, paid: false, items: null, createdAt: null },
+  ]
+
+  it('downloads a workbook with the spreadsheet parts', async () => {
+    const { response, files } = await exportWorkbook(rows)
+
+    expect(response.headers.get('Content-Type')).toBe('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet')
+    expect(response.headers.get('Content-Disposition')).toBe('attachment; filename="orders.xlsx"')
+    expect([...files.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+    ])
+  })
+
+  it('writes a bold header row and typed cells', async () => {
+    const { files } = await exportWorkbook(rows)
+    const sheet = files.get('xl/worksheets/sheet1.xml')!
+
+    expect(sheet).toContain('<c r="B1" t="inlineStr" s="1"><is><t xml:space="preserve">Customer Name</t></is></c>')
+    expect(sheet).toContain('<c r="A2"><v>1</v></c>')
+    expect(sheet).toContain('<t xml:space="preserve">Ann &amp; &lt;Co&gt;</t>')
+    expect(sheet).toContain('<c r="D2" t="b"><v>1</v></c>')
+    expect(sheet).toContain('<c r="D3" t="b"><v>0</v></c>')
+    expect(sheet).toContain('<t xml:space="preserve">[{&quot;sku&quot;:&quot;A&quot;}]</t>')
+    expect(sheet).toContain('<c r="F2" s="2"><v>45293.5</v></c>')
+  })
+
+  it('writes text as inline strings, never formulas, and skips empty cells', async () => {
+    const { files } = await exportWorkbook(rows)
+    const sheet = files.get('xl/worksheets/sheet1.xml')!
+
+    expect(sheet).not.toContain('<f>')
+    expect(sheet).toContain('<c r="B3" t="inlineStr"><is><t xml:space="preserve">=HYPERLINK(&quot;x&quot;)</t></is></c>')
+    expect(sheet).not.toContain('r="C3"')
+    expect(sheet).toContain('<row r="3">')
+  })
+})
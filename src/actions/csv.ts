@@ -1,73 +1,441 @@
 /**
  * @module
- * CSV export action for DrizzleAdmin resources.
+ * CSV export and import actions for DrizzleAdmin resources.
  *
- * Provides a factory function to create a collection action that exports
- * all records from a table as a downloadable CSV file.
+ * Provides factory functions to create collection actions that export all
+ * records from a table as a downloadable CSV file, and import records from an
+ * uploaded one.
  *
  * @example
  * ```ts
- * import { createCsvExportAction } from "@dafu/drizzle-admin/actions/csv";
+ * import { createCsvExportAction, createCsvImportAction } from "@dafu/drizzle-admin/actions/csv";
  * import { defineResource } from "@dafu/drizzle-admin";
  * import { posts } from "./schema.ts";
  *
  * export default defineResource(posts, {
- *   collectionActions: [createCsvExportAction(posts)],
+ *   collectionActions: [
+ *     createCsvExportAction(posts),
+ *     createCsvImportAction(posts, { upsertKey: "slug" }),
+ *   ],
  * });
  * ```
  */
 
 import type { Context } from 'hono'
-import { getTableName } from 'drizzle-orm'
+import { and, getTableColumns, inArray } from 'drizzle-orm'
 import type { PgTable } from 'drizzle-orm/pg-core'
 import type { AnyPgDatabase } from '@/types.ts'
-import type { CollectionAction } from '@/resources/types.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ActionContext, CollectionAction, ValidationErrors } from '@/resources/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import { getAdmin } from '@/auth/middleware.ts'
+import { can } from '@/auth/permissions.ts'
+import { authorize, policyScope } from '@/auth/policy.ts'
+import { encodeRecordId, getPrimaryKey, recordWhere } from '@/resources/primaryKey.ts'
+import { softDeleteWhere } from '@/resources/softDelete.ts'
+import { FORM_ERROR_KEY, mapConstraintError, validateValues } from '@/resources/validation.ts'
+import { HookAbortError, runBeforeWrite, runRecordHook } from '@/resources/hooks.ts'
+import { coerceFormValue, parseFormValues } from '@/routes/crud.ts'
+import { diffRecords } from '@/audit/log.ts'
+import { createExportAction, serializeValue, type ExportFormat, type ExportOptions } from '@/actions/export.ts'
+import { formatColumnHeader } from '@/views/index.ts'
+import { csvImportResultView, csvPreviewView, csvUploadView } from '@/views/csvImport.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+/** Options for {@link createCsvExportAction}. */
+export type CsvExportOptions = ExportOptions
+
+const csvFormat: ExportFormat = {
+  name: 'Export CSV',
+  extension: 'csv',
+  contentType: 'text/csv',
+  async *write(batches, columns) {
+    yield columns.map(col => escapeCSV(formatColumnHeader(col.name))).join(',') + '\n'
+    for await (const rows of batches) {
+      yield rows.map(row => columns.map(col => escapeCSV(serializeValue(row[col.name], col))).join(',') + '\n').join('')
+    }
+  },
+}
 
 /**
- * Creates a collection action that exports all records from a Drizzle table as CSV.
+ * Creates a collection action that exports the records of a Drizzle table as CSV.
  *
- * The generated CSV includes a header row derived from column names and properly
- * escapes values containing commas, quotes, or newlines. Returns an empty text
- * response if the table has no records.
+ * The export follows the index listing it is run from and streams its rows;
+ * see {@link createExportAction}. The CSV has the visible index columns under
+ * their formatted headers. Dates are written as ISO strings and JSON values as
+ * JSON. Values are escaped, and text starting with `=`, `+`, `-`, `@`, a tab
+ * or a carriage return is prefixed with `'` so spreadsheets do not evaluate
+ * it as a formula.
  *
  * @param table - A Drizzle ORM table object to export records from.
+ * @param options - Streaming batch size and file name.
  * @returns A {@link CollectionAction} that triggers a CSV file download.
  */
-export function createCsvExportAction(table: PgTable): CollectionAction {
+export function createCsvExportAction(table: PgTable, options: CsvExportOptions = {}): CollectionAction {
+  return createExportAction(table, csvFormat, options)
+}
+
+function escapeCSV(value: unknown): string {
+  if (value === null || value === undefined) return ''
+  let str: string
+  if (typeof value === 'object') {
+    str = JSON.stringify(value)
+  } else {
+    str = String(value)
+    // Spreadsheets evaluate cells starting with these as formulas
+    if (typeof value === 'string' && /^[=+\-@\t\r]/.test(str)) str = `'${str}`
+  }
+  if (/[,"\n\r]/.test(str)) {
+    return `"${str.replace(/"/g, '""')}"`
+  }
+  return str
+}
+
+/** Options for {@link createCsvImportAction}. */
+export interface CsvImportOptions {
+  /**
+   * Column matched against existing records. Rows whose value matches a
+   * record update it; all other rows create one. Without it every row is
+   * inserted.
+   */
+  upsertKey?: string
+  /** Number of rows shown on the preview page. Defaults to 10. */
+  previewRows?: number
+}
+
+/** One CSV row after mapping, coercion and validation. */
+export interface CsvImportRow {
+  /** 1-based position among the data rows. */
+  row: number
+  /** Raw cell values keyed by the column they are mapped to. */
+  cells: Record<string, string>
+  /** Coerced values to write. */
+  values: Record<string, unknown>
+  /** The record this row updates, when it matches on the upsert key. */
+  existing?: Record<string, unknown>
+  /** Error messages keyed by column name; unset when the row is valid. */
+  errors?: ValidationErrors
+}
+
+/** Outcome of an import or dry run. */
+export interface CsvImportSummary {
+  created: number
+  updated: number
+  /** Rows that failed validation or could not be written. */
+  failed: { row: number; errors: ValidationErrors }[]
+}
+
+/** Thrown at the end of a dry run to roll back its writes. */
+class DryRunRollback extends Error {}
+
+/**
+ * Creates a collection action that imports records from an uploaded CSV file.
+ *
+ * The action runs in steps: an upload form; a preview that maps CSV headers to
+ * columns (matched by name, SQL name or label, and adjustable) and lists the
+ * first rows with their validation errors; then the import, optionally as a dry
+ * run. Values are coerced like form submissions and checked against the
+ * resource's `validate` option. All rows are written in one transaction, each
+ * in its own savepoint, so failing rows are reported without aborting the rest.
+ * Lifecycle hooks run for every written row, and each write is recorded in the
+ * audit log and, for versioned resources, snapshotted like a form submission.
+ * An import that commits rows is also recorded as one "Import CSV" entry.
+ *
+ * Importing requires the `create` permission, and `update` when `upsertKey` is set.
+ *
+ * @param table - The Drizzle table to import records into.
+ * @param options - Upsert key and preview size.
+ * @returns A {@link CollectionAction} named "Import CSV".
+ */
+export function createCsvImportAction(table: PgTable, options: CsvImportOptions = {}): CollectionAction {
+  const { upsertKey, previewRows = 10 } = options
+
   return {
-    name: 'Export CSV',
-    handler: async (_c: Context, db: AnyPgDatabase) => {
-      const tableName = getTableName(table)
-      const records: Record<string, unknown>[] = await db.select().from(table)
-
-      if (records.length === 0) {
-        return new Response('No records to export', {
-          status: 200,
-          headers: { 'Content-Type': 'text/plain' },
+    name: 'Import CSV',
+    auditsItself: true,
+    handler: async (c: Context, db: AnyPgDatabase, context: ActionContext) => {
+      const { resource, columns, actionUrl, csrfToken, basePath, renderPage } = context
+      const admin = getAdmin(c)
+      if (!can(admin, resource, 'create') || (upsertKey && !can(admin, resource, 'update'))) {
+        return context.forbidden()
+      }
+
+      const title = `Import ${resource.displayName}s`
+      const indexUrl = adminUrl(basePath, `/${resource.routePath}`)
+      const importable = importableColumns(columns, resource.options.permitParams, upsertKey)
+      const body = await c.req.parseBody()
+
+      const step = body.step
+      if (step !== 'preview' && step !== 'import' && step !== 'dry-run') {
+        return c.html(renderPage(title, csvUploadView({ actionUrl, csrfToken, indexUrl, columns: importable, upsertKey })))
+      }
+
+      const upload = body.file instanceof File ? body.file : undefined
+      const csv = upload ? await upload.text() : String(body.csv ?? '')
+      const [headers, ...records] = parseCsv(csv)
+      if (!headers || records.length === 0) {
+        const error = 'The file has no data rows.'
+        return c.html(renderPage(title, csvUploadView({ actionUrl, csrfToken, indexUrl, columns: importable, upsertKey, error })), 422)
+      }
+
+      // A fresh upload is mapped automatically; later steps submit the mapping
+      const mapping = upload ? autoMap(headers, importable) : readMapping(body, headers, importable)
+      const importer = { table, columns, importable, upsertKey, resource, admin, context }
+
+      if (step === 'preview') {
+        const rows = await prepareRows(db, importer, records, mapping)
+        return c.html(renderPage(title, csvPreviewView({
+          actionUrl,
+          csrfToken,
+          indexUrl,
+          csv,
+          headers,
+          mapping,
+          columns: importable,
+          rows: rows.slice(0, previewRows),
+          total: rows.length,
+          invalid: rows.filter(row => row.errors).length,
+        })))
+      }
+
+      const dryRun = step === 'dry-run'
+      const summary: CsvImportSummary = { created: 0, updated: 0, failed: [] }
+
+      try {
+        await db.transaction(async (tx) => {
+          const rows = await prepareRows(tx, importer, records, mapping)
+          for (const row of rows) {
+            const errors = row.errors ?? await writeRow(tx, importer, row)
+            if (errors) {
+              summary.failed.push({ row: row.row, errors })
+            } else if (row.existing) {
+              summary.updated++
+            } else {
+              summary.created++
+            }
+          }
+          if (dryRun) throw new DryRunRollback()
+          if (summary.created + summary.updated > 0) {
+            await context.audit(tx, { recordId: null, action: 'Import CSV', changes: null })
+          }
         })
+      } catch (err) {
+        if (!(err instanceof DryRunRollback)) throw err
       }
 
-      const headers = Object.keys(records[0]!)
-      const rows = records.map((r) =>
-        headers.map(h => escapeCSV(r[h])).join(',')
-      )
-      const csv = [headers.join(','), ...rows].join('\n')
-
-      return new Response(csv, {
-        headers: {
-          'Content-Type': 'text/csv',
-          'Content-Disposition': `attachment; filename="${tableName}.csv"`,
-        },
-      })
+      return c.html(renderPage(title, csvImportResultView({ actionUrl, csrfToken, indexUrl, csv, mapping, summary, dryRun })))
     },
   }
 }
 
-function escapeCSV(value: unknown): string {
-  if (value === null || value === undefined) return ''
-  const str = String(value)
-  if (str.includes(',') || str.includes('"') || str.includes('\n')) {
-    return `"${str.replace(/"/g, '""')}"`
+interface Importer {
+  table: PgTable
+  columns: ColumnMeta[]
+  importable: ColumnMeta[]
+  upsertKey?: string
+  resource: ActionContext['resource']
+  admin: AdminTokenPayload
+  context: ActionContext
+}
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells containing commas,
+ * doubled quotes and line breaks, CRLF line endings and a leading byte order
+ * mark. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let quoted = false
+  let i = text.charCodeAt(0) === 0xfeff ? 1 : 0
+
+  const endRow = () => {
+    row.push(cell)
+    if (row.length > 1 || row[0] !== '') rows.push(row)
+    row = []
+    cell = ''
+  }
+
+  for (; i < text.length; i++) {
+    const char = text[i]!
+    if (quoted) {
+      if (char !== '"') {
+        cell += char
+      } else if (text[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else {
+        quoted = false
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+    } else {
+      cell += char
+    }
+  }
+  if (cell !== '' || row.length > 0) endRow()
+
+  return rows
+}
+
+// Columns a CSV can set: those editable on the create form, plus the upsert key
+function importableColumns(columns: ColumnMeta[], permitParams: string[] | undefined, upsertKey: string | undefined): ColumnMeta[] {
+  const editable = Object.keys(parseFormValues({}, columns, permitParams, 'create'))
+  return columns.filter(col => col.name === upsertKey || editable.includes(col.name))
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '')
+}
+
+// Matches each header to a column by property name, SQL name or label
+function autoMap(headers: string[], columns: ColumnMeta[]): (string | undefined)[] {
+  const used = new Set<string>()
+  return headers.map(header => {
+    const key = normalizeHeader(header)
+    const col = columns.find(col => !used.has(col.name) && [col.name, col.sqlName, formatColumnHeader(col.name)].some(name => normalizeHeader(name) === key))
+    if (col) used.add(col.name)
+    return col?.name
+  })
+}
+
+// Reads the submitted `map.<index>` selects, ignoring unknown columns
+function readMapping(body: Record<string, unknown>, headers: string[], columns: ColumnMeta[]): (string | undefined)[] {
+  return headers.map((_, index) => {
+    const name = body[`map.${index}`]
+    return columns.some(col => col.name === name) ? name as string : undefined
+  })
+}
+
+async function prepareRows(
+  db: AnyPgDatabase,
+  importer: Importer,
+  records: string[][],
+  mapping: (string | undefined)[],
+): Promise<CsvImportRow[]> {
+  const { importable, upsertKey, resource, admin } = importer
+  const mapped = importable.filter(col => mapping.includes(col.name))
+  const keyColumn = mapped.find(col => col.name === upsertKey)
+  const existing = keyColumn ? await loadExisting(db, importer, keyColumn, records, mapping) : new Map<string, Record<string, unknown>>()
+
+  const rows: CsvImportRow[] = []
+  for (const [index, record] of records.entries()) {
+    const cells: Record<string, string> = {}
+    mapping.forEach((name, i) => {
+      if (name) cells[name] = record[i] ?? ''
+    })
+
+    const match = keyColumn && cells[keyColumn.name] ? existing.get(String(coerceFormValue(keyColumn, cells[keyColumn.name]))) : undefined
+    const submitted = parseFormValues(cells, mapped, resource.options.permitParams, 'create')
+    const { values, errors: validationErrors } = await validateValues(resource.options.validate, submitted, {
+      action: match ? 'update' : 'create',
+      id: match ? encodeRecordId(match, getPrimaryKey(importer.columns)) : undefined,
+      db,
+    })
+
+    const errors: ValidationErrors = { ...coercionErrors(cells, mapped), ...validationErrors }
+    if (!match) {
+      for (const col of importer.importable) {
+        if (isRequired(col) && (values[col.name] === null || values[col.name] === undefined || values[col.name] === '') && !errors[col.name]) {
+          errors[col.name] = "can't be blank"
+        }
+      }
+    } else if (!await authorize(admin, resource, 'update', match)) {
+      errors[FORM_ERROR_KEY] = 'You are not allowed to update this record'
+    }
+
+    rows.push({
+      row: index + 1,
+      cells,
+      values,
+      existing: match,
+      errors: Object.keys(errors).length > 0 ? errors : undefined,
+    })
+  }
+  return rows
+}
+
+// Loads the live records the admin may see that match the CSV's key values,
+// keyed by the stringified key. Rows matching other records create new ones
+async function loadExisting(
+  db: AnyPgDatabase,
+  importer: Importer,
+  keyColumn: ColumnMeta,
+  records: string[][],
+  mapping: (string | undefined)[],
+): Promise<Map<string, Record<string, unknown>>> {
+  const index = mapping.indexOf(keyColumn.name)
+  const keys = records.map(record => record[index]).filter(Boolean).map(raw => coerceFormValue(keyColumn, raw))
+  if (keys.length === 0) return new Map()
+
+  const { table, resource, admin } = importer
+  const column = getTableColumns(table)[keyColumn.name]!
+  const rows: Record<string, unknown>[] = await db
+    .select()
+    .from(table)
+    .where(and(inArray(column, keys), policyScope(admin, resource), softDeleteWhere(resource)))
+  return new Map(rows.map(row => [String(row[keyColumn.name]), row]))
+}
+
+function isRequired(col: ColumnMeta): boolean {
+  return !col.isNullable && !col.hasDefault && col.dataType !== 'boolean'
+}
+
+// parseFormValues turns unparseable values into null or NaN; a CSV reports them instead
+function coercionErrors(cells: Record<string, string>, columns: ColumnMeta[]): ValidationErrors {
+  const errors: ValidationErrors = {}
+  for (const col of columns) {
+    const raw = cells[col.name]
+    if (!raw) continue
+    const value = coerceFormValue(col, raw)
+    // parseInt accepts trailing garbage such as "12abc"
+    if (col.dataType === 'integer' && !/^\s*[+-]?\d+\s*$/.test(raw)) {
+      errors[col.name] = 'is not a number'
+    } else if (col.dataType === 'timestamp' && Number.isNaN((value as Date).getTime())) {
+      errors[col.name] = 'is not a valid date'
+    } else if (col.dataType === 'json' && value === null) {
+      errors[col.name] = 'is not valid JSON'
+    }
+  }
+  return errors
+}
+
+// Writes one row in a savepoint, returning its errors if the write fails
+async function writeRow(tx: AnyPgDatabase, importer: Importer, row: CsvImportRow): Promise<ValidationErrors | undefined> {
+  const { table, columns, resource, admin, context: { audit, snapshot } } = importer
+  const hooks = resource.options.hooks
+  const primaryKey = getPrimaryKey(columns)
+
+  try {
+    await tx.transaction(async (sp) => {
+      if (row.existing) {
+        const id = encodeRecordId(row.existing, primaryKey)
+        const context = { admin, tx: sp, id, previous: row.existing }
+        const data = await runBeforeWrite('beforeUpdate', hooks?.beforeUpdate, { ...row.values, updatedAt: new Date() }, context)
+        const [updated] = await sp.update(table).set(data).where(recordWhere(table, primaryKey, id)).returning()
+        if (updated) {
+          await snapshot(sp, 'update', id, row.existing)
+          await runRecordHook('afterUpdate', hooks?.afterUpdate, updated, context)
+          await audit(sp, { recordId: id, action: 'update', changes: diffRecords(row.existing, updated) })
+        }
+      } else {
+        const data = await runBeforeWrite('beforeCreate', hooks?.beforeCreate, row.values, { admin, tx: sp })
+        const [created] = await sp.insert(table).values(data).returning()
+        const id = encodeRecordId(created, primaryKey)
+        await runRecordHook('afterCreate', hooks?.afterCreate, created, { admin, tx: sp, id })
+        await audit(sp, { recordId: id, action: 'create', changes: diffRecords(undefined, created) })
+      }
+    })
+    return undefined
+  } catch (err) {
+    if (err instanceof HookAbortError) return { [FORM_ERROR_KEY]: err.message }
+    return mapConstraintError(err, columns) ?? { [FORM_ERROR_KEY]: err instanceof Error ? err.message : 'Unknown error' }
   }
-  return str
 }
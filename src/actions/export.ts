@@ -0,0 +1,173 @@
+/**
+ * @module
+ * Shared core of the export actions for DrizzleAdmin resources.
+ *
+ * Selects the records of the index listing an export is run from, streams them
+ * in keyset-paginated batches and hands them to a format (CSV, JSON, NDJSON,
+ * XLSX) that encodes the download.
+ */
+
+import type { Context } from 'hono'
+import { and, getTableColumns, getTableName } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ActionContext, CollectionAction } from '@/resources/types.ts'
+import { getAdmin } from '@/auth/middleware.ts'
+import { policyScope } from '@/auth/policy.ts'
+import { toJsonValue } from '@/audit/log.ts'
+import { getPrimaryKey } from '@/resources/primaryKey.ts'
+import {
+  buildKeysetCondition,
+  buildListOrderBy,
+  buildListWhere,
+  getListOrder,
+  readKeysetCursor,
+  selectKeysetCursor,
+} from '@/resources/query.ts'
+import { getVisibleColumns } from '@/views/index.ts'
+
+/** Options shared by the export actions. */
+export interface ExportOptions {
+  /** Rows fetched per query while streaming. Defaults to 1000. */
+  batchSize?: number
+  /**
+   * Name of the download, without extension. `{table}` is replaced by the
+   * table name and `{timestamp}` by the export time as `YYYYMMDD-HHmmss` (UTC).
+   * Defaults to `'{table}'`.
+   */
+  filename?: string
+}
+
+/** How an export encodes records into a download. */
+export interface ExportFormat {
+  /** Name of the action, shown on its button. */
+  name: string
+  /** File extension of the download, without the dot. */
+  extension: string
+  contentType: string
+  /** Encodes batches of records into the chunks of the download, writing the values of `columns`. */
+  write: (batches: AsyncIterable<Record<string, unknown>[]>, columns: ColumnMeta[]) => AsyncIterable<string | Uint8Array>
+}
+
+/**
+ * Creates a collection action that exports records in the given format.
+ *
+ * The export follows the index listing it is run from: its search, filters,
+ * sort and scope, and the admin's policy scope. It contains the visible index
+ * columns. Rows are fetched in keyset-paginated batches and streamed, so large
+ * tables are never held in memory. Returns a plain text response if no
+ * records match.
+ *
+ * @param table - A Drizzle ORM table object to export records from.
+ * @param format - The encoding of the download.
+ * @param options - Streaming batch size and file name.
+ */
+export function createExportAction(table: PgTable, format: ExportFormat, options: ExportOptions = {}): CollectionAction {
+  const { batchSize = 1000, filename = '{table}' } = options
+
+  return {
+    name: format.name,
+    readOnly: true,
+    handler: async (c: Context, db: AnyPgDatabase, context: ActionContext) => {
+      const columns = getVisibleColumns(context.columns, context.resource.options.index)
+        .filter(col => getTableColumns(table)[col.name])
+      const source = streamRecords(c, db, table, context, columns, batchSize)
+
+      const first = await source.next()
+      if (first.done) {
+        return new Response('No records to export', {
+          status: 200,
+          headers: { 'Content-Type': 'text/plain' },
+        })
+      }
+
+      async function* batches(): AsyncGenerator<Record<string, unknown>[]> {
+        yield first.value
+        yield* source
+      }
+
+      const encoder = new TextEncoder()
+      const chunks = format.write(batches(), columns)[Symbol.asyncIterator]()
+
+      const stream = new ReadableStream<Uint8Array>({
+        async pull(controller) {
+          const next = await chunks.next()
+          if (next.done) {
+            controller.close()
+          } else {
+            controller.enqueue(typeof next.value === 'string' ? encoder.encode(next.value) : next.value)
+          }
+        },
+        async cancel() {
+          await chunks.return?.()
+        },
+      })
+
+      const name = formatFilename(filename, getTableName(table), new Date())
+      return new Response(stream, {
+        headers: {
+          'Content-Type': format.contentType,
+          'Content-Disposition': `attachment; filename="${name}.${format.extension}"`,
+        },
+      })
+    },
+  }
+}
+
+/**
+ * Converts a column value to the form exports write: timestamps become ISO
+ * strings and bigint integers strings, while JSON columns keep their parsed
+ * value. Missing values become `null`.
+ */
+export function serializeValue(value: unknown, column: ColumnMeta): unknown {
+  if (value === null || value === undefined) return null
+  if (column.dataType === 'json') return value
+  return toJsonValue(value)
+}
+
+/** Fills in the `{table}` and `{timestamp}` placeholders of a file name template. */
+export function formatFilename(template: string, tableName: string, date: Date): string {
+  const timestamp = date.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-')
+  return template
+    .replaceAll('{table}', tableName)
+    .replaceAll('{timestamp}', timestamp)
+    .replace(/["\\/\r\n]/g, '_')
+}
+
+// Yields the listing's records in batches. Keyset pagination needs a unique
+// key to resume after; without a primary key the export falls back to offsets
+async function* streamRecords(
+  c: Context,
+  db: AnyPgDatabase,
+  table: PgTable,
+  context: ActionContext,
+  columns: ColumnMeta[],
+  batchSize: number,
+): AsyncGenerator<Record<string, unknown>[]> {
+  const { resource, listParams } = context
+  const cols = getTableColumns(table)
+  const where = and(buildListWhere(resource, context.columns, listParams), policyScope(getAdmin(c), resource))
+  const order = getListOrder(resource, context.columns, listParams)
+  const keyset = getPrimaryKey(context.columns).length > 0
+  const fields = {
+    ...Object.fromEntries(columns.map(col => [col.name, cols[col.name]!])),
+    ...(keyset ? selectKeysetCursor(table, order) : {}),
+  }
+
+  let cursor: (string | null)[] | undefined
+  for (let offset = 0; ; offset += batchSize) {
+    const after = keyset && cursor ? buildKeysetCondition(table, order, cursor) : undefined
+    const rows: Record<string, unknown>[] = await db
+      .select(fields)
+      .from(table)
+      .where(and(where, after))
+      .orderBy(...buildListOrderBy(resource, context.columns, listParams))
+      .limit(batchSize)
+      .offset(keyset ? 0 : offset)
+
+    if (rows.length > 0) yield rows
+    if (rows.length < batchSize) return
+    cursor = readKeysetCursor(rows[rows.length - 1]!, order)
+  }
+}
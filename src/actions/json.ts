@@ -0,0 +1,87 @@
+/**
+ * @module
+ * JSON and NDJSON export actions for DrizzleAdmin resources.
+ *
+ * Provides factory functions to create collection actions that download the
+ * records of the current index listing as a JSON array, or as newline-delimited
+ * JSON with one record per line.
+ *
+ * @example
+ * ```ts
+ * import { createJsonExportAction, createNdjsonExportAction } from "@dafu/drizzle-admin/actions/json";
+ * import { defineResource } from "@dafu/drizzle-admin";
+ * import { events } from "./schema.ts";
+ *
+ * export default defineResource(events, {
+ *   collectionActions: [
+ *     createJsonExportAction(events),
+ *     createNdjsonExportAction(events, { filename: "{table}-{timestamp}" }),
+ *   ],
+ * });
+ * ```
+ */
+
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { CollectionAction } from '@/resources/types.ts'
+import { createExportAction, serializeValue, type ExportFormat, type ExportOptions } from '@/actions/export.ts'
+
+const jsonFormat: ExportFormat = {
+  name: 'Export JSON',
+  extension: 'json',
+  contentType: 'application/json',
+  async *write(batches, columns) {
+    let separator = '[\n'
+    for await (const rows of batches) {
+      for (const row of rows) {
+        yield separator + serializeRecord(row, columns)
+        separator = ',\n'
+      }
+    }
+    yield '\n]\n'
+  },
+}
+
+const ndjsonFormat: ExportFormat = {
+  name: 'Export NDJSON',
+  extension: 'ndjson',
+  contentType: 'application/x-ndjson',
+  async *write(batches, columns) {
+    for await (const rows of batches) {
+      yield rows.map(row => serializeRecord(row, columns) + '\n').join('')
+    }
+  },
+}
+
+/**
+ * Creates a collection action that exports the records of a Drizzle table as a
+ * JSON array of objects keyed by column name.
+ *
+ * The export follows the index listing it is run from and streams its rows;
+ * see {@link createExportAction}. Dates are written as ISO strings, bigints as
+ * strings and JSON columns as nested values.
+ *
+ * @param table - A Drizzle ORM table object to export records from.
+ * @param options - Streaming batch size and file name.
+ * @returns A {@link CollectionAction} that triggers a `.json` download.
+ */
+export function createJsonExportAction(table: PgTable, options: ExportOptions = {}): CollectionAction {
+  return createExportAction(table, jsonFormat, options)
+}
+
+/**
+ * Creates a collection action that exports the records of a Drizzle table as
+ * newline-delimited JSON, one object per line, as consumed by most data tools.
+ * Values are serialized as in {@link createJsonExportAction}.
+ *
+ * @param table - A Drizzle ORM table object to export records from.
+ * @param options - Streaming batch size and file name.
+ * @returns A {@link CollectionAction} that triggers a `.ndjson` download.
+ */
+export function createNdjsonExportAction(table: PgTable, options: ExportOptions = {}): CollectionAction {
+  return createExportAction(table, ndjsonFormat, options)
+}
+
+function serializeRecord(row: Record<string, unknown>, columns: ColumnMeta[]): string {
+  return JSON.stringify(Object.fromEntries(columns.map(col => [col.name, serializeValue(row[col.name], col)])))
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+
+vi.mock('drizzle-orm', () => ({
+  getTableColumns: () => ({ id: 'id', adminId: 'adminId', tokenHash: 'tokenHash' }),
+  eq: (column: string, value: unknown) => ({ column, value }),
+  and: (...conditions: unknown[]) => conditions,
+  desc: (column: string) => column,
+}))
+
+import { API_TOKEN_PREFIX, createApiToken, generateApiToken, hashApiToken, useApiToken } from '@/apiTokens/store.ts'
+
+const table = {} as PgTable
+
+describe('generateApiToken', () => {
+  it('creates distinct URL-safe tokens with the prefix', () => {
+    const token = generateApiToken()
+    expect(token).toMatch(new RegExp(`^${API_TOKEN_PREFIX}[A-Za-z0-9_-]{43}$`))
+    expect(generateApiToken()).not.toBe(token)
+  })
+})
+
+describe('hashApiToken', () => {
+  it('hashes tokens as hex SHA-256', async () => {
+    expect(await hashApiToken('da_abc')).toMatch(/^[0-9a-f]{64}$/)
+    expect(await hashApiToken('da_abc')).toBe(await hashApiToken('da_abc'))
+    expect(await hashApiToken('da_abc')).not.toBe(await hashApiToken('da_abd'))
+  })
+})
+
+describe('createApiToken', () => {
+  it('stores the hash of the returned token, never the token', async () => {
+    const values = vi.fn().mockResolvedValue(undefined)
+    const db = { insert: () => ({ values }) } as unknown as AnyPgDatabase
+
+    const token = await createApiToken(db, table, { adminId: 7, name: 'CI', scopes: { posts: 'read' } })
+
+    const row = values.mock.calls[0]![0]
+    expect(row).toMatchObject({ adminId: 7, name: 'CI', scopes: { posts: 'read' }, lastUsedAt: null })
+    expect(row.tokenHash).toBe(await hashApiToken(token))
+    expect(Object.values(row)).not.toContain(token)
+  })
+})
+
+describe('useApiToken', () => {
+  function makeDb(rows: Record<string, unknown>[]) {
+    const where = vi.fn().mockResolvedValue(undefined)
+    const set = vi.fn(() => ({ where }))
+    const db = {
+      select: () => ({ from: () => ({ where: () => ({ limit: async () => rows }) }) }),
+      update: () => ({ set }),
+    } as unknown as AnyPgDatabase
+    return { db, set, where }
+  }
+
+  it('finds the token by its hash and records its use', async () => {
+    const { db, set, where } = makeDb([{ id: 3, adminId: 7, scopes: { posts: 'write' } }])
+
+    const apiToken = await useApiToken(db, table, 'da_abc')
+
+    expect(apiToken).toMatchObject({ id: 3, adminId: 7 })
+    expect(set).toHaveBeenCalledWith({ lastUsedAt: expect.any(Date) })
+    expect(where).toHaveBeenCalledWith({ column: 'id', value: 3 })
+  })
+
+  it('records a use at most once a minute', async () => {
+    const recent = makeDb([{ id: 3, adminId: 7, lastUsedAt: new Date(Date.now() - 30 * 1000) }])
+    expect(await useApiToken(recent.db, table, 'da_abc')).toMatchObject({ id: 3 })
+    expect(recent.set).not.toHaveBeenCalled()
+
+    const stale = makeDb([{ id: 3, adminId: 7, lastUsedAt: new Date(Date.now() - 2 * 60 * 1000) }])
+    await useApiToken(stale.db, table, 'da_abc')
+    expect(stale.set).toHaveBeenCalledWith({ lastUsedAt: expect.any(Date) })
+  })
+
+  it('returns undefined for unknown tokens without updating', async () => {
+    const { db, set } = makeDb([])
+    expect(await useApiToken(db, table, 'da_unknown')).toBeUndefined()
+    expect(set).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,25 @@
+import { getTableColumns } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+const REQUIRED_COLUMNS = [
+  'id',
+  'adminId',
+  'name',
+  'tokenHash',
+  'scopes',
+  'lastUsedAt',
+  'createdAt',
+] as const
+
+export function validateApiTokensTable(table: PgTable): void {
+  const columnNames = Object.keys(getTableColumns(table))
+
+  for (const required of REQUIRED_COLUMNS) {
+    if (!columnNames.includes(required)) {
+      throw new Error(
+        `apiTokensTable must have a "${required}" column. ` +
+        `Found columns: ${columnNames.join(', ')}`
+      )
+    }
+  }
+}
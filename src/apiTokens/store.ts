@@ -0,0 +1,100 @@
+import { and, desc, eq, getTableColumns } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import { sha256Hex } from '@/utils/hash.ts'
+
+/** What a token may do with a resource: read it, or also create, update and delete. */
+export type ApiTokenAccess = 'read' | 'write'
+
+/** The access a token grants, keyed by resource table name. Resources not listed are denied. */
+export type ApiTokenScopes = Record<string, ApiTokenAccess>
+
+/** One row of the API tokens table. The token itself is never stored, only its hash. */
+export interface ApiToken {
+  id: number
+  adminId: number
+  name: string
+  tokenHash: string
+  scopes: ApiTokenScopes
+  lastUsedAt: Date | null
+  createdAt: Date
+}
+
+/** Requests this soon after the last recorded use leave `lastUsedAt` alone, sparing a write per request. */
+const TOUCH_INTERVAL_MS = 60 * 1000
+
+/** Prefix telling personal API tokens apart from session tokens. */
+export const API_TOKEN_PREFIX = 'da_'
+
+/** Creates a new random token: the prefix followed by 32 random bytes, base64url encoded. */
+export function generateApiToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32))
+  const base64 = btoa(String.fromCharCode(...bytes))
+  return API_TOKEN_PREFIX + base64.replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+/** Hashes a token for storage and lookup, as hex-encoded SHA-256. */
+export function hashApiToken(token: string): Promise<string> {
+  return sha256Hex(token)
+}
+
+export interface CreateApiTokenParams {
+  adminId: number
+  name: string
+  scopes: ApiTokenScopes
+}
+
+/** Stores a new token for an admin and returns it. It cannot be recovered later. */
+export async function createApiToken(db: AnyPgDatabase, table: PgTable, params: CreateApiTokenParams): Promise<string> {
+  const token = generateApiToken()
+
+  await db.insert(table).values({
+    adminId: params.adminId,
+    name: params.name,
+    tokenHash: await hashApiToken(token),
+    scopes: params.scopes,
+    lastUsedAt: null,
+    createdAt: new Date(),
+  })
+
+  return token
+}
+
+/** Loads an admin's tokens, newest first. */
+export async function listApiTokens(db: AnyPgDatabase, table: PgTable, adminId: number): Promise<ApiToken[]> {
+  const cols = getTableColumns(table)
+  const rows = await db
+    .select()
+    .from(table)
+    .where(eq(cols.adminId!, adminId))
+    .orderBy(desc(cols.id!))
+  return rows as unknown as ApiToken[]
+}
+
+/** Deletes one of an admin's tokens. Returns whether it existed. */
+export async function revokeApiToken(db: AnyPgDatabase, table: PgTable, adminId: number, id: number): Promise<boolean> {
+  const cols = getTableColumns(table)
+  const rows = await db
+    .delete(table)
+    .where(and(eq(cols.id!, id), eq(cols.adminId!, adminId)))
+    .returning()
+  return rows.length > 0
+}
+
+/** Finds the stored token matching a presented one and records that it was used. */
+export async function useApiToken(db: AnyPgDatabase, table: PgTable, token: string): Promise<ApiToken | undefined> {
+  const cols = getTableColumns(table)
+  const [row] = await db
+    .select()
+    .from(table)
+    .where(eq(cols.tokenHash!, await hashApiToken(token)))
+    .limit(1)
+  if (!row) return undefined
+
+  const apiToken = row as unknown as ApiToken
+  const now = new Date()
+  if (!apiToken.lastUsedAt || now.getTime() - apiToken.lastUsedAt.getTime() >= TOUCH_INTERVAL_MS) {
+    await db.update(table).set({ lastUsedAt: now }).where(eq(cols.id!, apiToken.id))
+  }
+  return apiToken
+}
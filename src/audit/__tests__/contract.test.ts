@@ -0,0 +1,26 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+vi.mock('drizzle-orm', () => ({
+  getTableColumns: (table: Record<string, unknown>) => (table as Record<string, unknown>)._columns,
+}))
+
+import { validateAuditLogTable } from '@/audit/contract.ts'
+
+function makeTable(columns: string[]): PgTable {
+  return { _columns: Object.fromEntries(columns.map(name => [name, {}])) } as unknown as PgTable
+}
+
+const COLUMNS = ['id', 'adminId', 'adminEmail', 'resource', 'recordId', 'action', 'changes', 'ip', 'createdAt']
+
+describe('validateAuditLogTable', () => {
+  it('passes for a table with all required columns', () => {
+    expect(() => validateAuditLogTable(makeTable(COLUMNS))).not.toThrow()
+  })
+
+  it('names the missing column and the columns found', () => {
+    const table = makeTable(COLUMNS.filter(name => name !== 'changes'))
+    expect(() => validateAuditLogTable(table)).toThrow('"changes"')
+    expect(() => validateAuditLogTable(table)).toThrow('Found columns: id, adminId')
+  })
+})
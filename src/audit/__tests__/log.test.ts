@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { Hono } from 'hono'
+import type { SQL } from 'drizzle-orm'
+import { integer, PgDialect, pgTable, serial, text, type PgTable } from 'drizzle-orm/pg-core'
+import { buildAuditEntry, canViewAuditLog, diffRecords, loadAuditPage, type AuditEntry } from '@/audit/log.ts'
+import type { AnyPgDatabase } from '@/types.ts'
+import { ADMIN_CONTEXT_KEY } from '@/auth/middleware.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import { trustProxyMiddleware } from '@/utils/request.ts'
+
+const admin: AdminTokenPayload = { adminId: 7, email: 'ada@example.com', roles: ['auditor'] }
+
+describe('diffRecords', () => {
+  it('lists only the fields that changed', () => {
+    expect(diffRecords({ id: 1, title: 'Old', body: 'Same' }, { id: 1, title: 'New', body: 'Same' }))
+      .toEqual({ title: { from: 'Old', to: 'New' } })
+  })
+
+  it('records every field of a create or delete against null', () => {
+    expect(diffRecords(undefined, { id: 1, title: 'New' })).toEqual({
+      id: { from: null, to: 1 },
+      title: { from: null, to: 'New' },
+    })
+    expect(diffRecords({ id: 1 }, undefined)).toEqual({ id: { from: 1, to: null } })
+  })
+
+  it('compares dates by value and stores them as ISO strings', () => {
+    const date = new Date('2024-01-01T00:00:00Z')
+    expect(diffRecords({ publishedAt: date }, { publishedAt: new Date(date) })).toEqual({})
+    expect(diffRecords({ publishedAt: null }, { publishedAt: date }))
+      .toEqual({ publishedAt: { from: null, to: '2024-01-01T00:00:00.000Z' } })
+  })
+
+  it('ignores updatedAt timestamps', () => {
+    expect(diffRecords({ updatedAt: new Date(0) }, { updatedAt: new Date() })).toEqual({})
+  })
+
+  it('filters password values', () => {
+    expect(diffRecords({ passwordHash: 'a' }, { passwordHash: 'b' }))
+      .toEqual({ passwordHash: { from: '[FILTERED]', to: '[FILTERED]' } })
+    expect(diffRecords(undefined, { passwordHash: 'b' }))
+      .toEqual({ passwordHash: { from: null, to: '[FILTERED]' } })
+  })
+})
+
+describe('buildAuditEntry', () => {
+  async function build(headers: Record<string, string>, trustProxy = false): Promise<AuditEntry> {
+    const app = new Hono<{ Variables: { admin: AdminTokenPayload } }>()
+    if (trustProxy) app.use('/*', trustProxyMiddleware())
+    let entry: AuditEntry | undefined
+    app.get('/', (c) => {
+      c.set(ADMIN_CONTEXT_KEY, admin)
+      entry = buildAuditEntry(c, { resource: 'posts', recordId: '1', action: 'update', changes: null })
+      return c.text('ok')
+    })
+    await app.request('/', { headers })
+    return entry!
+  }
+
+  it('records the signed-in admin', async () => {
+    const entry = await build({})
+    expect(entry).toMatchObject({ adminId: 7, adminEmail: 'ada@example.com', resource: 'posts', ip: null })
+    expect(entry.createdAt).toBeInstanceOf(Date)
+  })
+
+  it('takes the client IP from the first X-Forwarded-For address behind a trusted proxy', async () => {
+    expect((await build({ 'X-Forwarded-For': '203.0.113.7, 10.0.0.1' }, true)).ip).toBe('203.0.113.7')
+  })
+
+  it('falls back to X-Real-IP behind a trusted proxy', async () => {
+    expect((await build({ 'X-Real-IP': '198.51.100.2' }, true)).ip).toBe('198.51.100.2')
+  })
+})
+
+describe('canViewAuditLog', () => {
+  const table = {} as PgTable
+
+  it('is false without an audit log', () => {
+    expect(canViewAuditLog(admin, undefined)).toBe(false)
+  })
+
+  it('allows every admin when no roles are configured', () => {
+    expect(canViewAuditLog({ adminId: 1, email: 'a@b.c' }, { table })).toBe(true)
+  })
+
+  it('requires one of the configured roles', () => {
+    expect(canViewAuditLog(admin, { table, roles: ['auditor'] })).toBe(true)
+    expect(canViewAuditLog({ ...admin, roles: ['editor'] }, { table, roles: ['auditor'] })).toBe(false)
+  })
+})
+
+describe('loadAuditPage', () => {
+  const auditLog = pgTable('audit_log', {
+    id: serial('id').primaryKey(),
+    resource: text('resource').notNull(),
+    recordId: text('record_id'),
+    createdAt: integer('created_at'),
+  })
+
+  it('leaves out the entries of hidden resources', async () => {
+    const wheres: (SQL | undefined)[] = []
+    const chain: Record<string, unknown> = {
+      from: () => chain,
+      where: (where?: SQL) => {
+        wheres.push(where)
+        return chain
+      },
+      orderBy: () => chain,
+      limit: () => chain,
+      offset: async () => [],
+      then: (resolve: (rows: unknown[]) => void) => resolve([{ count: 0 }]),
+    }
+    const db = { select: () => chain } as unknown as AnyPgDatabase
+
+    await loadAuditPage(db, auditLog, { page: 1, perPage: 50, hiddenResources: ['invoices'] })
+
+    expect(wheres).toHaveLength(2)
+    expect(new PgDialect().sqlToQuery(wheres[0]!)).toMatchObject({
+      sql: '"audit_log"."resource" not in ($1)',
+      params: ['invoices'],
+    })
+  })
+})
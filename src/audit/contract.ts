@@ -0,0 +1,26 @@
+import { getTableColumns } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+const REQUIRED_COLUMNS = [
+  'adminId',
+  'adminEmail',
+  'resource',
+  'recordId',
+  'action',
+  'changes',
+  'ip',
+  'createdAt',
+] as const
+
+export function validateAuditLogTable(table: PgTable): void {
+  const columnNames = Object.keys(getTableColumns(table))
+
+  for (const required of REQUIRED_COLUMNS) {
+    if (!columnNames.includes(required)) {
+      throw new Error(
+        `auditLog table must have a "${required}" column. ` +
+        `Found columns: ${columnNames.join(', ')}`
+      )
+    }
+  }
+}
@@ -0,0 +1,154 @@
+import type { Context } from 'hono'
+import { and, desc, eq, getTableColumns, notInArray, sql } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { AuditLogConfig } from '@/config.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import { hasRole } from '@/auth/permissions.ts'
+import { getAdmin } from '@/auth/middleware.ts'
+import { clientIp } from '@/utils/request.ts'
+
+/** Field-level changes of one write, keyed by column name. */
+export type AuditChanges = Record<string, { from: unknown; to: unknown }>
+
+/** One row of the audit table. */
+export interface AuditEntry {
+  /** `0` for failed sign-ins, which have no admin. */
+  adminId: number
+  /** For failed sign-ins, the email that was tried. */
+  adminEmail: string
+  /** SQL name of the resource's table. */
+  resource: string
+  /** Encoded record ID; unset for collection actions. */
+  recordId: string | null
+  /**
+   * `create`, `update`, `delete`, the name of the action that ran,
+   * `login_failed` and `login_locked` for failed sign-ins, or `invite` for
+   * admins added from the Invite Admin page.
+   */
+  action: string
+  changes: AuditChanges | null
+  ip: string | null
+  createdAt: Date
+}
+
+/** Filters for the Audit Log page. */
+export interface AuditQuery {
+  page: number
+  perPage: number
+  resource?: string
+  recordId?: string
+  /** Resources whose entries are left out, such as those the admin cannot read. */
+  hiddenResources?: string[]
+}
+
+const FILTERED = '[FILTERED]'
+
+// Timestamps touched by every update would drown out the real changes
+const IGNORED_COLUMNS = new Set(['updatedAt', 'updated_at'])
+
+/**
+ * Compares a record before and after a write. Creates have no `before` and
+ * deletes no `after`. Password values are never stored.
+ */
+export function diffRecords(
+  before: Record<string, unknown> | undefined,
+  after: Record<string, unknown> | undefined,
+): AuditChanges {
+  const changes: AuditChanges = {}
+  const keys = new Set([...Object.keys(before ?? {}), ...Object.keys(after ?? {})])
+
+  for (const key of keys) {
+    if (IGNORED_COLUMNS.has(key)) continue
+
+    const from = toJsonValue(before?.[key])
+    const to = toJsonValue(after?.[key])
+    if (JSON.stringify(from) === JSON.stringify(to)) continue
+
+    changes[key] = key.toLowerCase().includes('password')
+      ? { from: before ? FILTERED : null, to: after ? FILTERED : null }
+      : { from, to }
+  }
+
+  return changes
+}
+
+/**
+ * Builds an audit entry for the signed-in admin of the request. The client
+ * IP is that of the connection, or from the proxy headers with `trustProxy`.
+ */
+export function buildAuditEntry(
+  c: Context,
+  entry: Pick<AuditEntry, 'resource' | 'recordId' | 'action' | 'changes'>,
+): AuditEntry {
+  const admin = getAdmin(c)
+  return {
+    adminId: admin.adminId,
+    adminEmail: admin.email,
+    ...entry,
+    ip: clientIp(c),
+    createdAt: new Date(),
+  }
+}
+
+/** Inserts audit entries, using the write's transaction handle when there is one. */
+export async function writeAuditEntries(db: AnyPgDatabase, table: PgTable, entries: AuditEntry[]): Promise<void> {
+  if (entries.length === 0) return
+  await db.insert(table).values(entries)
+}
+
+/** Whether the admin may see the Audit Log page and record history. */
+export function canViewAuditLog(admin: AdminTokenPayload, auditLog: AuditLogConfig | undefined): boolean {
+  return !!auditLog && hasRole(admin, auditLog.roles)
+}
+
+/** Loads the most recent entries for one record, newest first. */
+export async function loadRecordHistory(
+  db: AnyPgDatabase,
+  table: PgTable,
+  resource: string,
+  recordId: string,
+  limit = 20,
+): Promise<AuditEntry[]> {
+  const cols = getTableColumns(table)
+  const rows = await db
+    .select()
+    .from(table)
+    .where(and(eq(cols.resource!, resource), eq(cols.recordId!, recordId)))
+    .orderBy(desc(cols.createdAt!))
+    .limit(limit)
+  return rows as unknown as AuditEntry[]
+}
+
+/** Loads one page of audit entries, newest first, with the total number of pages. */
+export async function loadAuditPage(
+  db: AnyPgDatabase,
+  table: PgTable,
+  query: AuditQuery,
+): Promise<{ entries: AuditEntry[]; totalPages: number }> {
+  const cols = getTableColumns(table)
+  const where = and(
+    query.resource ? eq(cols.resource!, query.resource) : undefined,
+    query.recordId ? eq(cols.recordId!, query.recordId) : undefined,
+    query.hiddenResources?.length ? notInArray(cols.resource!, query.hiddenResources) : undefined,
+  )
+
+  const [{ count }] = await db.select({ count: sql`count(*)` }).from(table).where(where)
+  const rows = await db
+    .select()
+    .from(table)
+    .where(where)
+    .orderBy(desc(cols.createdAt!))
+    .limit(query.perPage)
+    .offset((query.page - 1) * query.perPage)
+
+  return { entries: rows as unknown as AuditEntry[], totalPages: Math.ceil(Number(count) / query.perPage) }
+}
+
+/** Converts a column value to its JSON form: dates become ISO strings and bigints strings. */
+export function toJsonValue(value: unknown): unknown {
+  if (value === undefined) return null
+  if (value instanceof Date) return value.toISOString()
+  if (typeof value === 'bigint') return value.toString()
+  return value
+}
@@ -46,4 +46,18 @@ describe('validateAdminUsersTable', () => {
 
     expect(() => validateAdminUsersTable(table as unknown as PgTable)).toThrow('id, email')
   })
+
+  it('requires the configured role column', () => {
+    const table = {
+      _columns: {
+        id: {},
+        email: {},
+        passwordHash: {},
+        createdAt: {},
+        updatedAt: {},
+      },
+    }
+
+    expect(() => validateAdminUsersTable(table as unknown as PgTable, 'role')).toThrow('"role"')
+  })
 })
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+
+vi.mock('drizzle-orm', () => ({
+  getTableColumns: (table: { _columns?: unknown }) => table._columns ?? { id: 'id', email: 'email' },
+  eq: () => ({}),
+}))
+
+vi.mock('@/auth/password.ts', () => ({
+  hashPassword: vi.fn(async (password: string) => `hash:${password}`),
+  verifyPassword: vi.fn(async (password: string, hash: string) => hash === `hash:${password}`),
+}))
+
+import { authenticate, createInvitedAdmin, validateNewPassword } from '@/auth/credentials.ts'
+import { verifyPassword } from '@/auth/password.ts'
+
+function makeConfig(rows: Record<string, unknown>[], inserted: Record<string, unknown>[] = []) {
+  const db = {
+    select: () => ({ from: () => ({ where: () => ({ limit: async () => rows }) }) }),
+    insert: () => ({
+      values: (values: Record<string, unknown>) => {
+        inserted.push(values)
+        return { returning: async () => [{ id: 9, ...values }] }
+      },
+    }),
+  } as unknown as AnyPgDatabase
+  return { db, adminUsers: {} as PgTable }
+}
+
+describe('authenticate', () => {
+  it('returns the session payload for the right password', async () => {
+    const config = makeConfig([{ id: 7, email: 'a@test.com', passwordHash: 'hash:secret' }])
+    expect(await authenticate(config, 'a@test.com', 'secret')).toEqual({ adminId: 7, email: 'a@test.com', roles: undefined })
+    expect(await authenticate(config, 'a@test.com', 'wrong')).toBeUndefined()
+  })
+
+  it('still compares a password for unknown emails, so that timing does not reveal them', async () => {
+    vi.mocked(verifyPassword).mockClear()
+
+    expect(await authenticate(makeConfig([]), 'nobody@test.com', 'secret')).toBeUndefined()
+    expect(verifyPassword).toHaveBeenCalledOnce()
+    expect(vi.mocked(verifyPassword).mock.calls[0]![1]).toMatch(/^\$2a\$12\$/)
+  })
+})
+
+describe('validateNewPassword', () => {
+  it('requires 8 characters and a matching confirmation', () => {
+    expect(validateNewPassword('short', 'short')).toBe('New password must be at least 8 characters.')
+    expect(validateNewPassword('correct horse', 'correct hose')).toBe('New passwords do not match.')
+    expect(validateNewPassword('correct horse', 'correct horse')).toBeUndefined()
+  })
+})
+
+describe('createInvitedAdmin', () => {
+  it('adds the admin with a random password nobody knows', async () => {
+    const inserted: Record<string, unknown>[] = []
+    const admin = await createInvitedAdmin(makeConfig([], inserted), 'new@test.com', [])
+
+    expect(admin).toEqual({ id: 9, email: 'new@test.com', passwordHash: inserted[0]!.passwordHash })
+    expect(inserted).toEqual([{ email: 'new@test.com', passwordHash: expect.stringMatching(/^hash:[0-9a-f-]{36}$/), createdAt: expect.any(Date), updatedAt: expect.any(Date) }])
+  })
+
+  it('leaves existing admins alone', async () => {
+    const inserted: Record<string, unknown>[] = []
+    const config = makeConfig([{ id: 7, email: 'a@test.com', passwordHash: 'hash:secret' }], inserted)
+
+    expect(await createInvitedAdmin(config, 'a@test.com', [])).toBeUndefined()
+    expect(inserted).toEqual([])
+  })
+
+  it('gives the admin their roles, as a list when the role column holds one', async () => {
+    const inserted: Record<string, unknown>[] = []
+    const config = makeConfig([], inserted)
+    await createInvitedAdmin({ ...config, adminUsers: { _columns: { role: {} } } as unknown as PgTable, roleColumn: 'role' }, 'a@test.com', ['editor'])
+    await createInvitedAdmin({ ...config, adminUsers: { _columns: { roles: { dataType: 'array' } } } as unknown as PgTable, roleColumn: 'roles' }, 'b@test.com', ['editor', 'viewer'])
+
+    expect(inserted.map(({ role, roles }) => ({ role, roles }))).toEqual([
+      { role: 'editor', roles: undefined },
+      { role: undefined, roles: ['editor', 'viewer'] },
+    ])
+  })
+
+  it('treats a duplicate email from a concurrent invitation as existing', async () => {
+    const config = makeConfig([])
+    const duplicate = Object.assign(new Error('duplicate key value violates unique constraint'), { code: '23505' })
+    config.db = { ...config.db, insert: () => ({ values: () => ({ returning: async () => { throw duplicate } }) }) } as unknown as AnyPgDatabase
+
+    expect(await createInvitedAdmin(config, 'a@test.com', [])).toBeUndefined()
+  })
+})
@@ -18,6 +18,12 @@ describe('jwt', () => {
     expect(payload!.email).toBe('test@test.com')
   })
 
+  it('round-trips roles', async () => {
+    const token = await createToken({ adminId: 1, email: 'test@test.com', roles: ['editor'] }, TEST_SECRET)
+    const payload = await verifyToken(token, TEST_SECRET)
+    expect(payload!.roles).toEqual(['editor'])
+  })
+
   it('verifyToken returns null for invalid signatures', async () => {
     const token = await createToken({ adminId: 1, email: 'test@test.com' }, TEST_SECRET)
     const payload = await verifyToken(token, 'different-secret-that-is-wrong-xx')
@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+
+vi.mock('drizzle-orm', () => ({
+  getTableColumns: () => ({ id: 'id', email: 'email' }),
+  eq: () => ({}),
+}))
+
+import { createToken } from '@/auth/jwt.ts'
+import { createPasswordToken, setPasswordUrl, verifyPasswordToken } from '@/auth/passwordTokens.ts'
+
+const SECRET = 'test-secret'
+
+function makeConfig(row: { id: number; email: string; passwordHash: string } | undefined) {
+  const db = { select: () => ({ from: () => ({ where: () => ({ limit: async () => row ? [row] : [] }) }) }) } as unknown as AnyPgDatabase
+  return { db, adminUsers: {} as PgTable }
+}
+
+const admin = { id: 7, email: 'a@test.com', passwordHash: '$2a$12$old' }
+
+afterEach(() => {
+  vi.useRealTimers()
+})
+
+describe('verifyPasswordToken', () => {
+  it('returns the admin and purpose of a token', async () => {
+    const token = await createPasswordToken(admin, 'invite', SECRET)
+    expect(await verifyPasswordToken(makeConfig(admin), token, SECRET)).toEqual({ adminId: 7, email: 'a@test.com', purpose: 'invite' })
+  })
+
+  it('rejects a token once the password has changed, so that it works only once', async () => {
+    const token = await createPasswordToken(admin, 'reset', SECRET)
+    expect(await verifyPasswordToken(makeConfig({ ...admin, passwordHash: '$2a$12$new' }), token, SECRET)).toBeUndefined()
+  })
+
+  it('rejects a reset token after an hour, and an invitation after 7 days', async () => {
+    const now = new Date('2026-01-01T00:00:00Z')
+    vi.useFakeTimers({ toFake: ['Date'], now })
+    const reset = await createPasswordToken(admin, 'reset', SECRET)
+    const invite = await createPasswordToken(admin, 'invite', SECRET)
+
+    vi.setSystemTime(now.getTime() + 61 * 60 * 1000)
+    expect(await verifyPasswordToken(makeConfig(admin), reset, SECRET)).toBeUndefined()
+    expect(await verifyPasswordToken(makeConfig(admin), invite, SECRET)).toBeDefined()
+
+    vi.setSystemTime(now.getTime() + 8 * 24 * 60 * 60 * 1000)
+    expect(await verifyPasswordToken(makeConfig(admin), invite, SECRET)).toBeUndefined()
+  })
+
+  it('rejects session tokens and tokens for admins that no longer exist', async () => {
+    const session = await createToken({ adminId: 7, email: 'a@test.com' }, SECRET)
+    expect(await verifyPasswordToken(makeConfig(admin), session, SECRET)).toBeUndefined()
+
+    const token = await createPasswordToken(admin, 'reset', SECRET)
+    expect(await verifyPasswordToken(makeConfig(undefined), token, SECRET)).toBeUndefined()
+    expect(await verifyPasswordToken(makeConfig(admin), 'not-a-token', SECRET)).toBeUndefined()
+  })
+})
+
+describe('setPasswordUrl', () => {
+  it('links the Set Password page under the public URL and basePath', () => {
+    expect(setPasswordUrl('https://example.com', '/admin', 'a.b+c')).toBe('https://example.com/admin/set-password?token=a.b%2Bc')
+  })
+})
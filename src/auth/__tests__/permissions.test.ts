@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import {
+  can,
+  canRunAction,
+  getAbilities,
+  parseRoles,
+  withPermittedActions,
+} from '@/auth/permissions.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { ResourceDefinition, ResourceOptions } from '@/resources/types.ts'
+
+function makeResource(options: ResourceOptions = {}): ResourceDefinition {
+  return {
+    table: {} as PgTable,
+    tableName: 'posts',
+    routePath: 'posts',
+    displayName: 'Post',
+    options,
+  }
+}
+
+function makeAdmin(roles?: string[]): AdminTokenPayload {
+  return { adminId: 1, email: 'admin@test.com', roles }
+}
+
+const noop = async () => {}
+
+describe('can', () => {
+  it('allows everything on resources without permissions', () => {
+    const resource = makeResource()
+    expect(can(makeAdmin(), resource, 'delete')).toBe(true)
+  })
+
+  it('allows unlisted operations and requires a listed role otherwise', () => {
+    const resource = makeResource({ permissions: { delete: ['admin'] } })
+    expect(can(makeAdmin(['editor']), resource, 'update')).toBe(true)
+    expect(can(makeAdmin(['editor']), resource, 'delete')).toBe(false)
+    expect(can(makeAdmin(['editor', 'admin']), resource, 'delete')).toBe(true)
+  })
+
+  it('requires read for every operation', () => {
+    const resource = makeResource({ permissions: { read: ['staff'] } })
+    expect(can(makeAdmin(['editor']), resource, 'read')).toBe(false)
+    expect(can(makeAdmin(['editor']), resource, 'create')).toBe(false)
+    expect(can(makeAdmin(['staff']), resource, 'create')).toBe(true)
+  })
+
+  it('denies restricted operations to admins without roles', () => {
+    const resource = makeResource({ permissions: { create: ['editor'] } })
+    expect(can(makeAdmin(), resource, 'create')).toBe(false)
+  })
+
+  it('limits API tokens to their scopes', () => {
+    const resource = makeResource()
+    const reader = { ...makeAdmin(), scopes: { posts: 'read' as const } }
+    expect(can(reader, resource, 'read')).toBe(true)
+    expect(can(reader, resource, 'update')).toBe(false)
+    expect(can({ ...makeAdmin(), scopes: { posts: 'write' } }, resource, 'delete')).toBe(true)
+    expect(can({ ...makeAdmin(), scopes: { comments: 'write' } }, resource, 'read')).toBe(false)
+  })
+
+  it('applies roles as well as scopes', () => {
+    const resource = makeResource({ permissions: { delete: ['admin'] } })
+    expect(can({ ...makeAdmin(['editor']), scopes: { posts: 'write' } }, resource, 'delete')).toBe(false)
+  })
+})
+
+describe('canRunAction', () => {
+  it('uses the roles listed for the action', () => {
+    const resource = makeResource({ permissions: { update: ['editor'], actions: { Publish: ['publisher'] } } })
+    expect(canRunAction(makeAdmin(['publisher']), resource, 'member', { name: 'Publish' })).toBe(true)
+    expect(canRunAction(makeAdmin(['editor']), resource, 'member', { name: 'Publish' })).toBe(false)
+  })
+
+  it('falls back to update for member and batch actions and read for collection actions', () => {
+    const resource = makeResource({ permissions: { update: ['editor'] } })
+    expect(canRunAction(makeAdmin(['viewer']), resource, 'member', { name: 'Archive' })).toBe(false)
+    expect(canRunAction(makeAdmin(['viewer']), resource, 'batch', { name: 'Archive' })).toBe(false)
+    expect(canRunAction(makeAdmin(['viewer']), resource, 'collection', { name: 'Export CSV' })).toBe(true)
+  })
+
+  it('requires a write scope for member and batch actions run with an API token', () => {
+    const resource = makeResource({ permissions: { actions: { Publish: ['publisher'] } } })
+    const reader = { ...makeAdmin(['publisher']), scopes: { posts: 'read' as const } }
+    expect(canRunAction(reader, resource, 'member', { name: 'Publish' })).toBe(false)
+    expect(canRunAction({ ...reader, scopes: { posts: 'write' } }, resource, 'member', { name: 'Publish' })).toBe(true)
+  })
+
+  it('lets read-only API tokens run only read-only collection actions', () => {
+    const resource = makeResource({})
+    const reader = { ...makeAdmin(), scopes: { posts: 'read' as const } }
+    expect(canRunAction(reader, resource, 'collection', { name: 'Export CSV', readOnly: true })).toBe(true)
+    expect(canRunAction(reader, resource, 'collection', { name: 'Import CSV' })).toBe(false)
+    expect(canRunAction({ ...reader, scopes: { posts: 'write' } }, resource, 'collection', { name: 'Import CSV' })).toBe(true)
+  })
+})
+
+describe('getAbilities', () => {
+  it('reports create, update and delete', () => {
+    const resource = makeResource({ permissions: { create: ['editor'], delete: ['admin'] } })
+    expect(getAbilities(makeAdmin(['editor']), resource)).toEqual({ create: true, update: true, delete: false })
+  })
+})
+
+describe('withPermittedActions', () => {
+  it('removes actions the admin may not run', () => {
+    const resource = makeResource({
+      permissions: { actions: { Publish: ['publisher'] } },
+      memberActions: [{ name: 'Publish', handler: noop }, { name: 'Archive', handler: noop }],
+      batchActions: [{ name: 'Publish', handler: noop }],
+    })
+    const permitted = withPermittedActions(makeAdmin(['editor']), resource)
+    expect(permitted.options.memberActions?.map(a => a.name)).toEqual(['Archive'])
+    expect(permitted.options.batchActions).toEqual([])
+  })
+
+  it('returns resources without permissions unchanged', () => {
+    const resource = makeResource({ memberActions: [{ name: 'Publish', handler: noop }] })
+    expect(withPermittedActions(makeAdmin(), resource)).toBe(resource)
+  })
+})
+
+describe('parseRoles', () => {
+  it('accepts a single role or a list of roles', () => {
+    expect(parseRoles('editor')).toEqual(['editor'])
+    expect(parseRoles(['editor', 'admin', 3])).toEqual(['editor', 'admin'])
+    expect(parseRoles(null)).toEqual([])
+    expect(parseRoles('')).toEqual([])
+  })
+})
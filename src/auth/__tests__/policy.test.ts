@@ -0,0 +1,64 @@
+import { describe, it, expect, vi } from 'vitest'
+import { sql } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import { authorize, policyScope, recordAbilities } from '@/auth/policy.ts'
+import { ALL_ABILITIES } from '@/auth/permissions.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { ResourceDefinition, ResourcePolicy } from '@/resources/types.ts'
+
+function makeResource(policy?: ResourcePolicy): ResourceDefinition {
+  return {
+    table: {} as PgTable,
+    tableName: 'tickets',
+    routePath: 'tickets',
+    displayName: 'Ticket',
+    options: { policy },
+  }
+}
+
+const admin: AdminTokenPayload = { adminId: 1, email: 'agent@test.com', roles: ['support'] }
+const ticket = { id: 7, team: 'billing' }
+
+describe('authorize', () => {
+  it('allows everything without a policy', async () => {
+    expect(await authorize(admin, makeResource(), 'delete', ticket)).toBe(true)
+  })
+
+  it('runs the check matching the operation', async () => {
+    const canUpdate = vi.fn().mockReturnValue(false)
+    const resource = makeResource({ canUpdate })
+    expect(await authorize(admin, resource, 'update', ticket)).toBe(false)
+    expect(await authorize(admin, resource, 'delete', ticket)).toBe(true)
+    expect(canUpdate).toHaveBeenCalledWith(admin, ticket)
+  })
+
+  it('requires canView for updates and deletes', async () => {
+    const resource = makeResource({ canView: async () => false, canDelete: () => true })
+    expect(await authorize(admin, resource, 'delete', ticket)).toBe(false)
+  })
+})
+
+describe('recordAbilities', () => {
+  it('narrows update and delete by the policy', async () => {
+    const resource = makeResource({ canUpdate: (_admin, record) => record.team === 'billing', canDelete: () => false })
+    expect(await recordAbilities(admin, resource, ticket, ALL_ABILITIES)).toEqual({ create: true, update: true, delete: false })
+  })
+
+  it('keeps abilities the roles already deny', async () => {
+    const abilities = { create: false, update: false, delete: false }
+    expect(await recordAbilities(admin, makeResource({ canUpdate: () => true }), ticket, abilities)).toEqual(abilities)
+  })
+})
+
+describe('policyScope', () => {
+  it('returns the condition of scopeQuery for the admin', () => {
+    const condition = sql`team = 'billing'`
+    const scopeQuery = vi.fn().mockReturnValue(condition)
+    expect(policyScope(admin, makeResource({ scopeQuery }))).toBe(condition)
+    expect(scopeQuery).toHaveBeenCalledWith(admin)
+  })
+
+  it('returns undefined without a scope', () => {
+    expect(policyScope(admin, makeResource())).toBeUndefined()
+  })
+})
@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { generateTotpSecret, totpCode, totpStep, totpUri, verifyTotp } from '@/auth/totp.ts'
+
+// "12345678901234567890", the RFC 6238 SHA-1 test key
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ'
+
+describe('totpCode', () => {
+  it('matches the RFC 6238 test vectors', async () => {
+    expect(await totpCode(RFC_SECRET, totpStep(new Date(59_000)))).toBe('287082')
+    expect(await totpCode(RFC_SECRET, totpStep(new Date(1_111_111_109_000)))).toBe('081804')
+    expect(await totpCode(RFC_SECRET, totpStep(new Date(1_234_567_890_000)))).toBe('005924')
+    expect(await totpCode(RFC_SECRET, totpStep(new Date(2_000_000_000_000)))).toBe('279037')
+    expect(await totpCode(RFC_SECRET, totpStep(new Date(20_000_000_000_000)))).toBe('353130')
+  })
+})
+
+describe('verifyTotp', () => {
+  const now = new Date(1_234_567_890_000)
+  const step = totpStep(now)
+
+  it('accepts codes of the current and neighbouring steps', async () => {
+    expect(await verifyTotp(RFC_SECRET, '005924', { now })).toBe(step)
+    expect(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step - 1), { now })).toBe(step - 1)
+    expect(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step + 1), { now })).toBe(step + 1)
+    expect(await verifyTotp(RFC_SECRET, await totpCode(RFC_SECRET, step - 2), { now })).toBeUndefined()
+  })
+
+  it('ignores spaces and rejects malformed codes', async () => {
+    expect(await verifyTotp(RFC_SECRET, '005 924', { now })).toBe(step)
+    expect(await verifyTotp(RFC_SECRET, '5924', { now })).toBeUndefined()
+    expect(await verifyTotp(RFC_SECRET, 'abcdef', { now })).toBeUndefined()
+  })
+
+  it('refuses codes of steps already used', async () => {
+    expect(await verifyTotp(RFC_SECRET, '005924', { now, lastUsedStep: step })).toBeUndefined()
+    expect(await verifyTotp(RFC_SECRET, '005924', { now, lastUsedStep: step - 1 })).toBe(step)
+  })
+})
+
+describe('generateTotpSecret', () => {
+  it('creates distinct 160-bit base32 secrets', () => {
+    const secret = generateTotpSecret()
+    expect(secret).toMatch(/^[A-Z2-7]{32}$/)
+    expect(generateTotpSecret()).not.toBe(secret)
+  })
+})
+
+describe('totpUri', () => {
+  it('builds an otpauth URI with the issuer and account', () => {
+    const uri = totpUri('JBSWY3DPEHPK3PXP', 'ada@example.com', 'Acme Admin')
+    expect(uri).toBe('otpauth://totp/Acme%20Admin:ada%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=Acme+Admin&algorithm=SHA1&digits=6&period=30')
+  })
+})
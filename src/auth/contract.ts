@@ -3,11 +3,12 @@ import type { PgTable } from 'drizzle-orm/pg-core'
 
 const REQUIRED_COLUMNS = ['id', 'email', 'passwordHash', 'createdAt', 'updatedAt'] as const
 
-export function validateAdminUsersTable(table: PgTable): void {
+export function validateAdminUsersTable(table: PgTable, roleColumn?: string): void {
   const columns = getTableColumns(table)
   const columnNames = Object.keys(columns)
+  const requiredColumns = roleColumn ? [...REQUIRED_COLUMNS, roleColumn] : REQUIRED_COLUMNS
 
-  for (const required of REQUIRED_COLUMNS) {
+  for (const required of requiredColumns) {
     if (!columnNames.includes(required)) {
       throw new Error(
         `adminUsers table must have a "${required}" column. ` +
@@ -0,0 +1,161 @@
+import { eq, getTableColumns } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import { hashPassword, verifyPassword } from '@/auth/password.ts'
+import { parseRoles } from '@/auth/permissions.ts'
+import { isUniqueViolation } from '@/resources/validation.ts'
+
+/** The stored sign-in details of an admin. */
+export interface AdminCredentials {
+  id: number
+  email: string
+  passwordHash: string
+}
+
+export interface CredentialsConfig {
+  db: AnyPgDatabase
+  adminUsers: PgTable
+  /** Column of `adminUsers` holding each admin's role or roles. */
+  roleColumn?: string
+}
+
+// Compared against when the email is unknown, so that the response takes as
+// long as for a wrong password and does not reveal which emails exist
+const DUMMY_PASSWORD_HASH = '$2a$12$imLIk1PxU5H4k1NOll4aZ.eHipYup257WV/L6JMUC6dCsVrofBfGS'
+
+/** Shortest password admins may set. */
+const MIN_PASSWORD_LENGTH = 8
+
+/**
+ * Looks up the admin with the given email and checks their password.
+ * Returns the session payload to sign, or `undefined` when the email is
+ * unknown or the password is wrong, taking as long either way.
+ */
+export async function authenticate(
+  config: CredentialsConfig,
+  email: string,
+  password: string,
+): Promise<AdminTokenPayload | undefined> {
+  const cols = getTableColumns(config.adminUsers)
+  const [row] = await config.db
+    .select()
+    .from(config.adminUsers)
+    .where(eq(cols.email!, email))
+    .limit(1)
+
+  const admin = row as Record<string, unknown> | undefined
+  const valid = await verifyPassword(password, admin ? admin.passwordHash as string : DUMMY_PASSWORD_HASH)
+  if (!admin || !valid) return undefined
+
+  return toPayload(admin, config.roleColumn)
+}
+
+/**
+ * Loads the admin with the given ID, with their current roles. Returns
+ * `undefined` when the admin no longer exists.
+ */
+export async function loadAdmin(config: CredentialsConfig, adminId: number): Promise<AdminTokenPayload | undefined> {
+  const cols = getTableColumns(config.adminUsers)
+  const [row] = await config.db
+    .select()
+    .from(config.adminUsers)
+    .where(eq(cols.id!, adminId))
+    .limit(1)
+
+  return row ? toPayload(row as Record<string, unknown>, config.roleColumn) : undefined
+}
+
+/** Loads the sign-in details of the admin with the given ID or email. */
+export async function loadCredentials(
+  config: CredentialsConfig,
+  by: { id: number } | { email: string },
+): Promise<AdminCredentials | undefined> {
+  const cols = getTableColumns(config.adminUsers)
+  const [row] = await config.db
+    .select()
+    .from(config.adminUsers)
+    .where('id' in by ? eq(cols.id!, by.id) : eq(cols.email!, by.email))
+    .limit(1)
+  if (!row) return undefined
+
+  const { id, email, passwordHash } = row as unknown as AdminCredentials
+  return { id, email, passwordHash }
+}
+
+/** Whether the password is that of the admin with the given ID. */
+export async function checkPassword(config: CredentialsConfig, adminId: number, password: string): Promise<boolean> {
+  const cols = getTableColumns(config.adminUsers)
+  const [row] = await config.db
+    .select()
+    .from(config.adminUsers)
+    .where(eq(cols.id!, adminId))
+    .limit(1)
+
+  const admin = row as Record<string, unknown> | undefined
+  return !!admin && await verifyPassword(password, admin.passwordHash as string)
+}
+
+/** Replaces an admin's password with a new one, stored as a bcrypt hash. */
+export async function updatePassword(config: CredentialsConfig, adminId: number, password: string): Promise<void> {
+  const cols = getTableColumns(config.adminUsers)
+  await config.db
+    .update(config.adminUsers)
+    .set({ passwordHash: await hashPassword(password), updatedAt: new Date() })
+    .where(eq(cols.id!, adminId))
+}
+
+/**
+ * Checks a new password and its confirmation, as typed into a form. Returns
+ * the problem to show, or `undefined` when the password may be set.
+ */
+export function validateNewPassword(password: string, confirmation: string): string | undefined {
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    return `New password must be at least ${MIN_PASSWORD_LENGTH} characters.`
+  }
+  if (password !== confirmation) {
+    return 'New passwords do not match.'
+  }
+  return undefined
+}
+
+/** Whether the role column holds a list of roles rather than a single one. */
+export function roleColumnHoldsList(config: CredentialsConfig): boolean {
+  const column = config.roleColumn ? getTableColumns(config.adminUsers)[config.roleColumn] : undefined
+  return column?.dataType === 'array'
+}
+
+/**
+ * Adds an admin who has yet to choose a password, with the given roles. Until
+ * they do, their password is a random one nobody knows. Returns `undefined`
+ * when an admin with the email already exists.
+ */
+export async function createInvitedAdmin(config: CredentialsConfig, email: string, roles: string[]): Promise<AdminCredentials | undefined> {
+  if (await loadCredentials(config, { email })) return undefined
+
+  const now = new Date()
+  const passwordHash = await hashPassword(crypto.randomUUID())
+  const values: Record<string, unknown> = { email, passwordHash, createdAt: now, updatedAt: now }
+  if (config.roleColumn) {
+    values[config.roleColumn] = roleColumnHoldsList(config) ? roles : roles[0] ?? null
+  }
+
+  let row
+  try {
+    [row] = await config.db.insert(config.adminUsers).values(values).returning()
+  } catch (error) {
+    // Another invitation for the email got in first
+    if (isUniqueViolation(error)) return undefined
+    throw error
+  }
+
+  return { id: (row as Record<string, unknown>).id as number, email, passwordHash }
+}
+
+function toPayload(admin: Record<string, unknown>, roleColumn: string | undefined): AdminTokenPayload {
+  return {
+    adminId: admin.id as number,
+    email: admin.email as string,
+    roles: roleColumn ? parseRoles(admin[roleColumn]) : undefined,
+  }
+}
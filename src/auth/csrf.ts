@@ -6,7 +6,7 @@ const CSRF_COOKIE_NAME = '_csrf'
 const CSRF_FIELD_NAME = '_csrf'
 
 export async function generateCsrfToken(secret: string): Promise<string> {
-  return createToken({ adminId: 0, email: 'csrf' }, secret)
+  return createToken({ adminId: 0, email: 'csrf' }, csrfSecret(secret))
 }
 
 export async function setCsrfCookie(
@@ -34,7 +34,7 @@ export async function validateCsrf(
   if (!cookieToken || !formToken) return false
   if (cookieToken !== formToken) return false
 
-  const payload = await verifyToken(cookieToken, secret)
+  const payload = await verifyToken(cookieToken, csrfSecret(secret))
   return payload !== null
 }
 
@@ -46,3 +46,9 @@ async function getFormCsrfToken(c: Context): Promise<string | null> {
 export function csrfInput(token: string): string {
   return `<input type="hidden" name="${CSRF_FIELD_NAME}" value="${token}">`
 }
+
+// Key for CSRF tokens, which anyone loading a form gets. Deriving it from the
+// session secret keeps those tokens from passing as sessions
+function csrfSecret(sessionSecret: string): string {
+  return `${sessionSecret}:csrf`
+}
@@ -1,4 +1,5 @@
 import { SignJWT, jwtVerify, JWTPayload } from 'jose'
+import type { ApiTokenScopes } from '@/apiTokens/store.ts'
 
 const TOKEN_EXPIRY = '24h'
 const ALGORITHM = 'HS256'
@@ -6,18 +7,33 @@ const ALGORITHM = 'HS256'
 export interface AdminTokenPayload extends JWTPayload {
   adminId: number
   email: string
+  /** Roles read from the configured `roleColumn` at sign-in. */
+  roles?: string[]
+  /**
+   * Set for requests authenticated by a personal API token: the resources it
+   * may access. Sessions have the admin's full permissions.
+   */
+  scopes?: ApiTokenScopes
+  /**
+   * Set for sessions of admins who must set up two-factor authentication
+   * before they may use anything but the enrollment page.
+   */
+  twoFactorSetup?: boolean
+  /** ID of the server-side session, when sessions are configured. */
+  sessionId?: string
 }
 
 export async function createToken(
-  payload: { adminId: number; email: string },
-  secret: string
+  payload: { adminId: number; email: string; roles?: string[]; twoFactorSetup?: boolean; sessionId?: string },
+  secret: string,
+  expiresIn: string = TOKEN_EXPIRY
 ): Promise<string> {
   const secretKey = new TextEncoder().encode(secret)
 
   return new SignJWT({ ...payload })
     .setProtectedHeader({ alg: ALGORITHM })
     .setIssuedAt()
-    .setExpirationTime(TOKEN_EXPIRY)
+    .setExpirationTime(expiresIn)
     .sign(secretKey)
 }
 
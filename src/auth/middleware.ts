@@ -1,14 +1,26 @@
 import type { Context, Next } from "hono";
 import { getCookie, setCookie } from "hono/cookie";
+import type { PgTable } from "drizzle-orm/pg-core";
+import type { AnyPgDatabase } from "@/types.ts";
 import { AdminTokenPayload, verifyToken } from "@/auth/jwt.ts";
+import { loadAdmin } from "@/auth/credentials.ts";
+import { API_TOKEN_PREFIX, useApiToken } from "@/apiTokens/store.ts";
+import { acceptsSessionToken, type Sessions } from "@/sessions/lifecycle.ts";
 import { adminUrl } from "@/utils/url.ts";
 
 const AUTH_COOKIE_NAME = "admin_session";
+const TWO_FACTOR_COOKIE_NAME = "admin_two_factor";
 const LOGIN_PATH = "/login";
+const TWO_FACTOR_SETUP_PATH = "/account/two-factor";
 
 export const ADMIN_CONTEXT_KEY = "admin";
 
-export function authMiddleware(sessionSecret: string, basePath: string = '') {
+/**
+ * Authenticates requests by the session cookie, redirecting to the login page
+ * when it is missing or invalid, or when its session has ended or `sessions`
+ * are no longer on.
+ */
+export function authMiddleware(sessionSecret: string, basePath: string = '', sessions?: Sessions) {
   return async (c: Context, next: Next) => {
     const token = getCookie(c, AUTH_COOKIE_NAME);
 
@@ -18,7 +30,7 @@ export function authMiddleware(sessionSecret: string, basePath: string = '') {
 
     const payload = await verifyToken(token, sessionSecret);
 
-    if (!payload) {
+    if (!payload || !await acceptsSessionToken(sessions, payload)) {
       setCookie(c, AUTH_COOKIE_NAME, "", { maxAge: 0, path: "/" });
       return c.redirect(adminUrl(basePath, LOGIN_PATH));
     }
@@ -28,20 +40,121 @@ export function authMiddleware(sessionSecret: string, basePath: string = '') {
   };
 }
 
+/**
+ * Sends admins who must still set up two-factor authentication to the
+ * enrollment page. Routes registered before it stay reachable.
+ */
+export function twoFactorSetupMiddleware(basePath: string = '') {
+  return async (c: Context, next: Next) => {
+    if (getAdmin(c).twoFactorSetup) {
+      return c.redirect(adminUrl(basePath, TWO_FACTOR_SETUP_PATH));
+    }
+    await next();
+  };
+}
+
+/**
+ * Authenticates API requests by the session token in an `Authorization: Bearer`
+ * header, answering with a JSON 401 instead of redirecting to the login page.
+ */
+export function bearerAuthMiddleware(sessionSecret: string, sessions?: Sessions) {
+  return async (c: Context, next: Next) => {
+    const token = getBearerToken(c);
+    const payload = token ? await verifyToken(token, sessionSecret) : null;
+
+    // Sessions still owing two-factor setup are limited to the enrollment page
+    if (!payload || payload.twoFactorSetup || !await acceptsSessionToken(sessions, payload)) {
+      return unauthorized(c);
+    }
+
+    c.set(ADMIN_CONTEXT_KEY, payload);
+    await next();
+  };
+}
+
+export interface ApiTokenMiddlewareConfig {
+  db: AnyPgDatabase;
+  adminUsers: PgTable;
+  roleColumn?: string;
+  apiTokensTable: PgTable;
+  sessionSecret: string;
+  sessions?: Sessions;
+}
+
+/**
+ * Authenticates API requests by a personal API token in an `Authorization:
+ * Bearer` header, limiting the admin to the token's scopes and recording its
+ * last use. Other bearer tokens are checked as session tokens, as by
+ * {@link bearerAuthMiddleware}.
+ */
+export function apiTokenMiddleware(config: ApiTokenMiddlewareConfig) {
+  const sessionAuth = bearerAuthMiddleware(config.sessionSecret, config.sessions);
+
+  return async (c: Context, next: Next) => {
+    const token = getBearerToken(c);
+    if (!token?.startsWith(API_TOKEN_PREFIX)) {
+      return sessionAuth(c, next);
+    }
+
+    const apiToken = await useApiToken(config.db, config.apiTokensTable, token);
+    // Tokens of deleted admins stop working; roles are read fresh on every request
+    const admin = apiToken ? await loadAdmin(config, apiToken.adminId) : undefined;
+    if (!apiToken || !admin) {
+      return unauthorized(c);
+    }
+
+    c.set(ADMIN_CONTEXT_KEY, { ...admin, scopes: apiToken.scopes });
+    await next();
+  };
+}
+
+function getBearerToken(c: Context): string | undefined {
+  return c.req.header("Authorization")?.match(/^Bearer\s+(\S+)$/i)?.[1];
+}
+
+function unauthorized(c: Context) {
+  c.header("WWW-Authenticate", "Bearer");
+  return c.json({ error: "Unauthorized" }, 401);
+}
+
 export function getAdmin(c: Context): AdminTokenPayload {
   return c.get(ADMIN_CONTEXT_KEY) as AdminTokenPayload;
 }
 
-export function setAuthCookie(c: Context, token: string, basePath: string = ''): void {
+export function setAuthCookie(c: Context, token: string, basePath: string = '', maxAge: number = 60 * 60 * 24): void {
   setCookie(c, AUTH_COOKIE_NAME, token, {
     httpOnly: true,
     secure: process.env.NODE_ENV === "production",
     sameSite: "Strict",
-    maxAge: 60 * 60 * 24,
+    maxAge,
     path: basePath || "/",
   });
 }
 
+/** The session token of the request's cookie, verified or not. */
+export function getAuthCookie(c: Context): string | undefined {
+  return getCookie(c, AUTH_COOKIE_NAME);
+}
+
 export function clearAuthCookie(c: Context, basePath: string = ''): void {
   setCookie(c, AUTH_COOKIE_NAME, "", { maxAge: 0, path: basePath || "/" });
 }
+
+/** Remembers, between the password and code steps of signing in, who passed the first. */
+export function setTwoFactorCookie(c: Context, token: string, basePath: string = ''): void {
+  setCookie(c, TWO_FACTOR_COOKIE_NAME, token, {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === "production",
+    sameSite: "Strict",
+    maxAge: 60 * 5,
+    path: basePath || "/",
+  });
+}
+
+export function getTwoFactorCookie(c: Context): string | undefined {
+  return getCookie(c, TWO_FACTOR_COOKIE_NAME);
+}
+
+export function clearTwoFactorCookie(c: Context, basePath: string = ''): void {
+  setCookie(c, TWO_FACTOR_COOKIE_NAME, "", { maxAge: 0, path: basePath || "/" });
+}
@@ -0,0 +1,76 @@
+import { SignJWT, jwtVerify } from 'jose'
+import { loadCredentials, type AdminCredentials, type CredentialsConfig } from '@/auth/credentials.ts'
+import { sha256Hex } from '@/utils/hash.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+/** What a link to set a password was sent for: joining the panel, or a forgotten password. */
+export type PasswordTokenPurpose = 'invite' | 'reset'
+
+const EXPIRY: Record<PasswordTokenPurpose, string> = {
+  invite: '7d',
+  reset: '1h',
+}
+
+const ALGORITHM = 'HS256'
+
+/** The admin a valid token sets the password of. */
+export interface PasswordTokenTarget {
+  adminId: number
+  email: string
+  purpose: PasswordTokenPurpose
+}
+
+/**
+ * Signs a token letting whoever holds it set the admin's password.
+ *
+ * The token carries a fingerprint of the admin's current password hash, so
+ * that it stops working once any password is set: it can be used only once,
+ * and a password change cancels links sent before.
+ */
+export async function createPasswordToken(
+  admin: AdminCredentials,
+  purpose: PasswordTokenPurpose,
+  sessionSecret: string,
+): Promise<string> {
+  return new SignJWT({ adminId: admin.id, purpose, fingerprint: await sha256Hex(admin.passwordHash) })
+    .setProtectedHeader({ alg: ALGORITHM })
+    .setIssuedAt()
+    .setExpirationTime(EXPIRY[purpose])
+    .sign(secretKey(sessionSecret))
+}
+
+/**
+ * Checks a token from `createPasswordToken`. Returns `undefined` when it is
+ * forged, expired, or already used.
+ */
+export async function verifyPasswordToken(
+  config: CredentialsConfig,
+  token: string,
+  sessionSecret: string,
+): Promise<PasswordTokenTarget | undefined> {
+  let payload
+  try {
+    ({ payload } = await jwtVerify(token, secretKey(sessionSecret)))
+  } catch {
+    return undefined
+  }
+
+  const { adminId, purpose, fingerprint } = payload as { adminId?: unknown; purpose?: unknown; fingerprint?: unknown }
+  if (typeof adminId !== 'number' || (purpose !== 'invite' && purpose !== 'reset')) return undefined
+
+  const admin = await loadCredentials(config, { id: adminId })
+  if (!admin || fingerprint !== await sha256Hex(admin.passwordHash)) return undefined
+
+  return { adminId, email: admin.email, purpose }
+}
+
+/** The absolute link to the Set Password page for a token, as emailed. */
+export function setPasswordUrl(publicUrl: string, basePath: string, token: string): string {
+  return `${publicUrl}${adminUrl(basePath, '/set-password')}?token=${encodeURIComponent(token)}`
+}
+
+// Deriving the key from the session secret keeps these tokens from passing
+// as sessions, and sessions from passing as these tokens
+function secretKey(sessionSecret: string): Uint8Array {
+  return new TextEncoder().encode(`${sessionSecret}:password`)
+}
@@ -0,0 +1,99 @@
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+
+/** An operation guarded by a resource's `permissions` option. */
+export type Operation = 'read' | 'create' | 'update' | 'delete'
+
+/** The kinds of custom action a resource can define. */
+export type ActionKind = 'member' | 'collection' | 'batch'
+
+/** Which operations an admin may perform on a resource, for rendering the UI. */
+export interface Abilities {
+  create: boolean
+  update: boolean
+  delete: boolean
+}
+
+/** Abilities of an admin on a resource without `permissions`. */
+export const ALL_ABILITIES: Abilities = { create: true, update: true, delete: true }
+
+/**
+ * Whether an admin may perform an operation on a resource. Operations the
+ * resource does not restrict are allowed; every operation also requires `read`.
+ * Requests made with an API token are further limited to the token's scopes.
+ */
+export function can(admin: AdminTokenPayload, resource: ResourceDefinition, operation: Operation): boolean {
+  if (!scopeAllows(admin, resource, operation === 'read' ? 'read' : 'write')) return false
+
+  const permissions = resource.options.permissions
+  if (!permissions) return true
+
+  return hasRole(admin, permissions.read) && (operation === 'read' || hasRole(admin, permissions[operation]))
+}
+
+/**
+ * Whether an admin may run a custom action. Actions without their own entry in
+ * `permissions.actions` follow `update`, or `read` for collection actions.
+ * With an API token, only `readOnly` collection actions make do with read
+ * access; the rest may change records, so they need write access.
+ */
+export function canRunAction(
+  admin: AdminTokenPayload,
+  resource: ResourceDefinition,
+  kind: ActionKind,
+  action: { name: string; readOnly?: boolean },
+): boolean {
+  const readOnly = kind === 'collection' && !!action.readOnly
+  if (!scopeAllows(admin, resource, readOnly ? 'read' : 'write')) return false
+
+  const roles = resource.options.permissions?.actions?.[action.name]
+  if (!roles) return can(admin, resource, kind === 'collection' ? 'read' : 'update')
+
+  return can(admin, resource, 'read') && hasRole(admin, roles)
+}
+
+export function getAbilities(admin: AdminTokenPayload, resource: ResourceDefinition): Abilities {
+  return {
+    create: can(admin, resource, 'create'),
+    update: can(admin, resource, 'update'),
+    delete: can(admin, resource, 'delete'),
+  }
+}
+
+/**
+ * Returns a copy of a resource without the actions the admin may not run, so
+ * views render only what the admin can use.
+ */
+export function withPermittedActions(admin: AdminTokenPayload, resource: ResourceDefinition): ResourceDefinition {
+  const { memberActions, collectionActions, batchActions } = resource.options
+  if (!resource.options.permissions) return resource
+
+  return {
+    ...resource,
+    options: {
+      ...resource.options,
+      memberActions: memberActions?.filter(action => canRunAction(admin, resource, 'member', action)),
+      collectionActions: collectionActions?.filter(action => canRunAction(admin, resource, 'collection', action)),
+      batchActions: batchActions?.filter(action => canRunAction(admin, resource, 'batch', action)),
+    },
+  }
+}
+
+/** Normalizes the value of the admin users role column to a list of roles. */
+export function parseRoles(value: unknown): string[] {
+  if (Array.isArray(value)) return value.filter((role): role is string => typeof role === 'string')
+  return typeof value === 'string' && value !== '' ? [value] : []
+}
+
+/** Whether the admin has one of the allowed roles. An unset list allows everyone. */
+export function hasRole(admin: AdminTokenPayload, allowed: string[] | undefined): boolean {
+  if (!allowed) return true
+  return (admin.roles ?? []).some(role => allowed.includes(role))
+}
+
+// Admins signed in with a session have no scopes; API tokens grant access per resource
+function scopeAllows(admin: AdminTokenPayload, resource: ResourceDefinition, access: 'read' | 'write'): boolean {
+  if (!admin?.scopes) return true
+  const granted = admin.scopes[resource.tableName]
+  return access === 'read' ? !!granted : granted === 'write'
+}
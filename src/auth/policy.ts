@@ -0,0 +1,48 @@
+import type { SQL } from 'drizzle-orm'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { Abilities } from '@/auth/permissions.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+
+/** A per-record check of a resource's `policy` option. */
+export type PolicyCheck = 'view' | 'update' | 'delete'
+
+/** The condition from `policy.scopeQuery` limiting the records an admin sees. */
+export function policyScope(admin: AdminTokenPayload, resource: ResourceDefinition): SQL | undefined {
+  return resource.options.policy?.scopeQuery?.(admin)
+}
+
+/**
+ * Whether a resource's policy allows an admin to act on a record. Updating and
+ * deleting also require `canView`; checks the policy does not define pass.
+ */
+export async function authorize(
+  admin: AdminTokenPayload,
+  resource: ResourceDefinition,
+  check: PolicyCheck,
+  record: Record<string, unknown>,
+): Promise<boolean> {
+  const policy = resource.options.policy
+  if (!policy) return true
+
+  if (policy.canView && !(await policy.canView(admin, record))) return false
+  if (check === 'update' && policy.canUpdate) return policy.canUpdate(admin, record)
+  if (check === 'delete' && policy.canDelete) return policy.canDelete(admin, record)
+  return true
+}
+
+/**
+ * Narrows role abilities to what the policy allows on one record. Creating is
+ * not record-specific and is left as is.
+ */
+export async function recordAbilities(
+  admin: AdminTokenPayload,
+  resource: ResourceDefinition,
+  record: Record<string, unknown>,
+  abilities: Abilities,
+): Promise<Abilities> {
+  return {
+    create: abilities.create,
+    update: abilities.update && await authorize(admin, resource, 'update', record),
+    delete: abilities.delete && await authorize(admin, resource, 'delete', record),
+  }
+}
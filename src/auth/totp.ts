@@ -0,0 +1,96 @@
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567'
+
+/** Seconds each code is valid for. */
+const PERIOD = 30
+const DIGITS = 6
+/** Codes of the neighbouring periods are accepted to allow for clock drift. */
+const DRIFT_STEPS = 1
+
+/** Creates a random 160-bit secret, base32 encoded as authenticator apps expect. */
+export function generateTotpSecret(): string {
+  return base32Encode(crypto.getRandomValues(new Uint8Array(20)))
+}
+
+/**
+ * Builds the `otpauth://` URI authenticator apps import from a QR code.
+ *
+ * @param issuer - Name the app shows the account under, such as the site name.
+ */
+export function totpUri(secret: string, account: string, issuer: string): string {
+  const label = `${encodeURIComponent(issuer)}:${encodeURIComponent(account)}`
+  const params = new URLSearchParams({ secret, issuer, algorithm: 'SHA1', digits: String(DIGITS), period: String(PERIOD) })
+  return `otpauth://totp/${label}?${params}`
+}
+
+/** The time step a moment falls in. */
+export function totpStep(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / 1000 / PERIOD)
+}
+
+/** Computes the code of a time step, as in RFC 6238 with HMAC-SHA1. */
+export async function totpCode(secret: string, step: number): Promise<string> {
+  const key = await crypto.subtle.importKey('raw', base32Decode(secret), { name: 'HMAC', hash: 'SHA-1' }, false, ['sign'])
+
+  const counter = new DataView(new ArrayBuffer(8))
+  counter.setUint32(0, Math.floor(step / 2 ** 32))
+  counter.setUint32(4, step >>> 0)
+  const hmac = new Uint8Array(await crypto.subtle.sign('HMAC', key, counter.buffer))
+
+  const offset = hmac[hmac.length - 1]! & 0x0f
+  const binary = new DataView(hmac.buffer).getUint32(offset) & 0x7fffffff
+  return String(binary % 10 ** DIGITS).padStart(DIGITS, '0')
+}
+
+/**
+ * Checks a code against the current time step and its neighbours. Returns the
+ * matching step, or `undefined` when the code is wrong or its step is not
+ * after `lastUsedStep`, so that a code cannot be used twice.
+ */
+export async function verifyTotp(
+  secret: string,
+  code: string,
+  options: { now?: Date; lastUsedStep?: number | null } = {},
+): Promise<number | undefined> {
+  const normalized = code.replace(/\s/g, '')
+  if (!/^\d+$/.test(normalized) || normalized.length !== DIGITS) return undefined
+
+  const current = totpStep(options.now)
+  for (let step = current - DRIFT_STEPS; step <= current + DRIFT_STEPS; step++) {
+    if (options.lastUsedStep != null && step <= options.lastUsedStep) continue
+    if (await totpCode(secret, step) === normalized) return step
+  }
+  return undefined
+}
+
+function base32Encode(bytes: Uint8Array): string {
+  let result = ''
+  let buffer = 0
+  let bits = 0
+  for (const byte of bytes) {
+    buffer = (buffer << 8) | byte
+    bits += 8
+    while (bits >= 5) {
+      result += BASE32_ALPHABET[(buffer >>> (bits - 5)) & 31]
+      bits -= 5
+    }
+  }
+  if (bits > 0) result += BASE32_ALPHABET[(buffer << (5 - bits)) & 31]
+  return result
+}
+
+function base32Decode(text: string): Uint8Array<ArrayBuffer> {
+  const bytes: number[] = []
+  let buffer = 0
+  let bits = 0
+  for (const char of text.toUpperCase().replace(/[\s=]/g, '')) {
+    const value = BASE32_ALPHABET.indexOf(char)
+    if (value === -1) throw new Error(`Invalid base32 character "${char}"`)
+    buffer = (buffer << 5) | value
+    bits += 5
+    if (bits >= 8) {
+      bytes.push((buffer >>> (bits - 8)) & 0xff)
+      bits -= 8
+    }
+  }
+  return new Uint8Array(bytes)
+}
@@ -1,5 +1,63 @@
 import type { PgTable } from 'drizzle-orm/pg-core'
 import type { AnyPgDatabase } from '@/types.ts'
+import type { LoginAttemptStore } from '@/loginAttempts/store.ts'
+import type { SessionStore } from '@/sessions/store.ts'
+import type { Mailer } from '@/mail/mailer.ts'
+
+/** Where admin writes are recorded and who may browse them. */
+export interface AuditLogConfig {
+  /**
+   * Table receiving one row per write. Needs `adminId`, `adminEmail`,
+   * `resource`, `recordId`, `action`, `changes` (json), `ip` and `createdAt` columns.
+   */
+  table: PgTable
+  /** Roles allowed to see the Audit Log page and record history. Defaults to every admin. */
+  roles?: string[]
+}
+
+/** Where TOTP two-factor secrets are stored and who must use them. */
+export interface TwoFactorConfig {
+  /**
+   * Table with one row per enrolled admin. Needs `id`, `adminId`, `secret`,
+   * `recoveryCodes` (json), `lastUsedStep` (integer), `enabledAt` and `createdAt` columns.
+   */
+  table: PgTable
+  /**
+   * Admins who must set up two-factor authentication before using the panel:
+   * `true` for everyone, or a list of roles. Defaults to nobody.
+   */
+  required?: boolean | string[]
+  /** Name authenticator apps show the account under. Defaults to `"DrizzleAdmin"`. */
+  issuer?: string
+}
+
+/** Limits on failed sign-ins, by email and by IP address. */
+export interface LoginThrottleConfig {
+  /**
+   * Where failures are counted. Defaults to process memory, which each instance
+   * keeps separately; use `createTableLoginAttemptStore()` to share a table.
+   */
+  store?: LoginAttemptStore
+  /** Failures for one email before it is locked. Defaults to 5. */
+  maxFailuresPerEmail?: number
+  /** Failures from one IP address before it is locked. Defaults to 20. */
+  maxFailuresPerIp?: number
+  /** How long a lock lasts, and how long failures are remembered, in seconds. Defaults to 900. */
+  lockoutSeconds?: number
+}
+
+/** Server-side sessions, which admins can list and revoke. */
+export interface SessionsConfig {
+  /**
+   * Where sessions are kept: `createTableSessionStore(db, table)`, or
+   * `createMemorySessionStore()` for a single process.
+   */
+  store: SessionStore
+  /** Seconds without a request after which a session ends. Defaults to 86400 (24 hours). */
+  idleTimeoutSeconds?: number
+  /** Seconds after sign-in after which a session ends, however active. Defaults to 2592000 (30 days). */
+  maxAgeSeconds?: number
+}
 
 /** Configuration options for a DrizzleAdmin instance. */
 export interface DrizzleAdminConfig<TAdminUsers extends PgTable = PgTable> {
@@ -17,6 +75,60 @@ export interface DrizzleAdminConfig<TAdminUsers extends PgTable = PgTable> {
   port?: number
   /** Base URL path where the admin panel is mounted. Defaults to `''` (root). */
   basePath?: string
+  /**
+   * Column of `adminUsers` holding each admin's role, as text or a text array.
+   * Roles are checked against each resource's `permissions` option.
+   */
+  roleColumn?: string
+  /** Records every create, update, delete and action to an audit table. */
+  auditLog?: AuditLogConfig
+  /**
+   * Table receiving snapshots of resources with `versioning: true`. Needs `id`,
+   * `resource`, `recordId`, `event`, `snapshot` (json), `adminId`, `adminEmail`
+   * and `createdAt` columns.
+   */
+  versionsTable?: PgTable
+  /**
+   * Serves a JSON API under `/api`, authenticated by bearer tokens from
+   * `POST /api/token`. Defaults to `false`.
+   */
+  api?: boolean
+  /**
+   * Table storing personal API tokens, which admins create and revoke on their
+   * Account page. Needs `id`, `adminId`, `name`, `tokenHash`, `scopes` (json),
+   * `lastUsedAt` and `createdAt` columns. Requires `api`.
+   */
+  apiTokensTable?: PgTable
+  /** Offers TOTP two-factor authentication at sign-in. */
+  twoFactor?: TwoFactorConfig
+  /** Slows down and locks out repeated failed sign-ins. On by default. */
+  loginThrottle?: LoginThrottleConfig
+  /**
+   * Reads client IPs from the `X-Forwarded-For` or `X-Real-IP` headers instead
+   * of the connection. Enable it only when every request passes through a
+   * proxy that sets them; clients can send any value otherwise.
+   */
+  trustProxy?: boolean
+  /**
+   * Keeps sessions on the server, so that they can be revoked. Without it,
+   * sessions are self-contained tokens valid for 24 hours.
+   */
+  sessions?: SessionsConfig
+  /**
+   * Sends invitations and password reset links, enabling the Invite Admin and
+   * Forgot Password pages. Requires `publicUrl`.
+   */
+  mailer?: Mailer
+  /**
+   * Origin admins reach the panel at, such as `"https://example.com"`. Links in
+   * emails are built from it and `basePath`, never from the request's host.
+   */
+  publicUrl?: string
+  /**
+   * Roles allowed to invite admins, enabling the Invite Admin page. Invitations
+   * are off when unset. Requires `mailer` and `roleColumn`.
+   */
+  inviteRoles?: string[]
 }
 
 /**
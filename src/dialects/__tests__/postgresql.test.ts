@@ -3,12 +3,24 @@ import type { PgTable } from 'drizzle-orm/pg-core'
 
 vi.mock('drizzle-orm', () => ({
   getTableColumns: (table: Record<string, unknown>) => (table as Record<string, unknown>)._columns,
+  getTableName: (table: Record<string, unknown>) => (table as Record<string, unknown>)._name,
+}))
+
+vi.mock('drizzle-orm/pg-core', () => ({
+  getTableConfig: (table: Record<string, unknown>) => ({
+    foreignKeys: table._foreignKeys ?? [],
+    primaryKeys: table._primaryKeys ?? [],
+  }),
 }))
 
 import { postgresqlAdapter } from '@/dialects/postgresql.ts'
 
-function makeTable(columns: Record<string, unknown>): PgTable {
-  return { _columns: columns } as unknown as PgTable
+function makeTable(columns: Record<string, unknown>, extra: Record<string, unknown> = {}): PgTable {
+  return { _columns: columns, ...extra } as unknown as PgTable
+}
+
+function makeForeignKey(columns: unknown[], foreignTable: PgTable, foreignColumns: unknown[]) {
+  return { reference: () => ({ columns, foreignTable, foreignColumns }) }
 }
 
 function makeColumn(overrides: Record<string, unknown> = {}) {
@@ -18,6 +30,7 @@ function makeColumn(overrides: Record<string, unknown> = {}) {
     notNull: true,
     primary: false,
     hasDefault: false,
+    getSQLType: () => 'text',
     ...overrides,
   }
 }
@@ -46,6 +59,12 @@ describe('postgresqlAdapter', () => {
       expect(columns[0].dataType).toBe('text')
     })
 
+    it('extracts sqlType from the column definition', () => {
+      const table = makeTable({ id: makeColumn({ dataType: 'string', getSQLType: () => 'uuid' }) })
+      const columns = postgresqlAdapter.extractColumns(table)
+      expect(columns[0].sqlType).toBe('uuid')
+    })
+
     it('maps dataType "number" to "integer"', () => {
       const table = makeTable({ col: makeColumn({ dataType: 'number' }) })
       const columns = postgresqlAdapter.extractColumns(table)
@@ -100,6 +119,14 @@ describe('postgresqlAdapter', () => {
       expect(columns[0].isPrimaryKey).toBe(true)
     })
 
+    it('marks columns of a composite primary key', () => {
+      const orderId = makeColumn({ name: 'order_id' })
+      const line = makeColumn({ name: 'line' })
+      const table = makeTable({ orderId, line, note: makeColumn() }, { _primaryKeys: [{ columns: [orderId, line] }] })
+      const columns = postgresqlAdapter.extractColumns(table)
+      expect(columns.map(col => col.isPrimaryKey)).toEqual([true, true, false])
+    })
+
     it('sets hasDefault from column', () => {
       const table = makeTable({ col: makeColumn({ hasDefault: true }) })
       const columns = postgresqlAdapter.extractColumns(table)
@@ -119,5 +146,27 @@ describe('postgresqlAdapter', () => {
       const columns = postgresqlAdapter.extractColumns(table)
       expect(columns[0].enumValues).toBeUndefined()
     })
+
+    it('returns references for single-column foreign keys', () => {
+      const authorId = makeColumn({ id: 'users.id', name: 'id' })
+      const users = makeTable({ id: authorId }, { _name: 'users' })
+      const column = makeColumn({ name: 'author_id', dataType: 'number' })
+      const table = makeTable(
+        { title: makeColumn(), authorId: column },
+        { _foreignKeys: [makeForeignKey([column], users, [authorId])] },
+      )
+      const columns = postgresqlAdapter.extractColumns(table)
+      expect(columns[0].references).toBeUndefined()
+      expect(columns[1].references).toEqual({ table: 'users', column: 'id' })
+    })
+
+    it('ignores composite foreign keys', () => {
+      const a = makeColumn({ name: 'a' })
+      const b = makeColumn({ name: 'b' })
+      const target = makeTable({ a: makeColumn(), b: makeColumn() }, { _name: 'targets' })
+      const table = makeTable({ a, b }, { _foreignKeys: [makeForeignKey([a, b], target, [])] })
+      const columns = postgresqlAdapter.extractColumns(table)
+      expect(columns.every(col => col.references === undefined)).toBe(true)
+    })
   })
 })
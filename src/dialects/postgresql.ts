@@ -1,21 +1,28 @@
-import { getTableColumns, type Column } from 'drizzle-orm'
-import type { PgTable } from 'drizzle-orm/pg-core'
-import type { ColumnMeta, DialectAdapter } from '@/dialects/types.ts'
+import { getTableColumns, getTableName, type Column } from 'drizzle-orm'
+import { getTableConfig, type ForeignKey, type PgTable } from 'drizzle-orm/pg-core'
+import type { ColumnMeta, ColumnReference, DialectAdapter } from '@/dialects/types.ts'
 
 export const postgresqlAdapter: DialectAdapter = {
   name: 'postgresql',
 
   extractColumns(table: PgTable): ColumnMeta[] {
     const columns = getTableColumns(table)
+    const config = getTableConfig(table)
+    const references = extractReferences(config.foreignKeys)
+    // Columns of a composite `primaryKey({ columns })` are not flagged `primary`
+    // themselves, and the constraint holds its own column instances, so match by name
+    const compositeKey = new Set(config.primaryKeys.flatMap(key => key.columns.map(column => column.name)))
 
     return Object.entries(columns).map(([name, column]) => ({
       name,
       sqlName: column.name,
       dataType: mapPgType(column),
+      sqlType: column.getSQLType(),
       isNullable: !column.notNull,
-      isPrimaryKey: column.primary,
+      isPrimaryKey: column.primary || compositeKey.has(column.name),
       hasDefault: column.hasDefault,
       enumValues: extractEnumValues(column),
+      references: references.get(column),
     }))
   },
 }
@@ -34,3 +41,22 @@ function mapPgType(column: Column): string {
 function extractEnumValues(column: Column): string[] | undefined {
   return column.enumValues ?? undefined
 }
+
+// Composite foreign keys have no single column to render as a link, so only
+// single-column keys are mapped.
+function extractReferences(foreignKeys: ForeignKey[]): Map<Column, ColumnReference> {
+  const references = new Map<Column, ColumnReference>()
+
+  for (const foreignKey of foreignKeys) {
+    const { columns, foreignTable, foreignColumns } = foreignKey.reference()
+    if (columns.length !== 1 || foreignColumns.length !== 1) continue
+
+    const target = Object.entries(getTableColumns(foreignTable))
+      .find(([, column]) => column === foreignColumns[0])
+    if (!target) continue
+
+    references.set(columns[0]!, { table: getTableName(foreignTable), column: target[0] })
+  }
+
+  return references
+}
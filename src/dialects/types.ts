@@ -6,6 +6,8 @@ export interface ColumnMeta {
   sqlName: string
   /** The Drizzle data type identifier (e.g. `"string"`, `"number"`, `"boolean"`). */
   dataType: string
+  /** The column's SQL type as declared, e.g. `"uuid"` or `"timestamp with time zone"`. */
+  sqlType?: string
   /** Whether the column accepts `NULL` values. */
   isNullable: boolean
   /** Whether the column is the primary key. */
@@ -14,6 +16,16 @@ export interface ColumnMeta {
   hasDefault: boolean
   /** For enum columns, the list of allowed values. */
   enumValues?: string[]
+  /** For single-column foreign keys, the referenced table and column. */
+  references?: ColumnReference
+}
+
+/** The target of a foreign key column. */
+export interface ColumnReference {
+  /** The SQL name of the referenced table. */
+  table: string
+  /** The JavaScript property name of the referenced column on its Drizzle table. */
+  column: string
 }
 
 import type { PgTable } from 'drizzle-orm/pg-core'
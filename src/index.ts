@@ -24,13 +24,31 @@ export { DrizzleAdmin } from '@/DrizzleAdmin.ts'
 export { defineConfig } from '@/config.ts'
 export { defineResource } from '@/resources/define.ts'
 export { hashPassword } from '@/auth/password.ts'
+export { createMemoryLoginAttemptStore, createTableLoginAttemptStore } from '@/loginAttempts/store.ts'
+export { createMemorySessionStore, createTableSessionStore } from '@/sessions/store.ts'
+export { createConsoleMailer, createFileMailer } from '@/mail/mailer.ts'
 
 export type { DrizzleAdminHandler } from '@/DrizzleAdmin.ts'
-export type { DrizzleAdminConfig } from '@/config.ts'
+export type { AuditLogConfig, DrizzleAdminConfig, LoginThrottleConfig, SessionsConfig } from '@/config.ts'
+export type { LoginAttempts, LoginAttemptStore } from '@/loginAttempts/store.ts'
+export type { AdminSession, SessionStore } from '@/sessions/store.ts'
+export type { MailMessage, Mailer } from '@/mail/mailer.ts'
 export type { AnyPgDatabase, AnyPgTable } from '@/types.ts'
 export type {
+  ActionContext,
+  BatchAction,
   CollectionAction,
+  HookContext,
   MemberAction,
+  ResourceHooks,
   ResourceOptions,
+  RecordPolicy,
+  ResourcePermissions,
+  ResourcePolicy,
+  SoftDeleteConfig,
+  StandardSchemaV1,
+  ValidateFunction,
+  ValidationContext,
+  ValidationErrors,
 } from '@/resources/types.ts'
-export type { ColumnMeta, DialectAdapter } from '@/dialects/types.ts'
+export type { ColumnMeta, ColumnReference, DialectAdapter } from '@/dialects/types.ts'
@@ -0,0 +1,24 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+vi.mock('drizzle-orm', () => ({
+  getTableColumns: (table: Record<string, unknown>) => (table as Record<string, unknown>)._columns,
+}))
+
+import { validateLoginAttemptsTable } from '@/loginAttempts/contract.ts'
+
+function makeTable(columns: string[]): PgTable {
+  return { _columns: Object.fromEntries(columns.map(name => [name, {}])) } as unknown as PgTable
+}
+
+const COLUMNS = ['key', 'failures', 'lastFailureAt', 'lockedUntil', 'expiresAt']
+
+describe('validateLoginAttemptsTable', () => {
+  it('passes for a table with all required columns', () => {
+    expect(() => validateLoginAttemptsTable(makeTable(COLUMNS))).not.toThrow()
+  })
+
+  it('names the missing column', () => {
+    expect(() => validateLoginAttemptsTable(makeTable(COLUMNS.filter(name => name !== 'expiresAt')))).toThrow('"expiresAt"')
+  })
+})
@@ -0,0 +1,114 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+
+vi.mock('drizzle-orm', () => ({
+  getTableColumns: (table: Record<string, unknown>) => (table as Record<string, unknown>)._columns,
+  eq: (column: string, value: unknown) => ({ eq: [column, value] }),
+  lt: (column: string, value: unknown) => ({ lt: [column, value] }),
+  sql: (strings: TemplateStringsArray, ...values: unknown[]) => ({ sql: strings.join('?'), values }),
+}))
+
+import { createMemoryLoginAttemptStore, createTableLoginAttemptStore, type LoginAttempts } from '@/loginAttempts/store.ts'
+
+const table = {
+  _columns: { key: 'key', failures: 'failures', lastFailureAt: 'lastFailureAt', lockedUntil: 'lockedUntil', expiresAt: 'expiresAt' },
+} as unknown as PgTable
+
+const attempts: LoginAttempts = {
+  failures: 2,
+  lastFailureAt: new Date('2026-01-01T00:00:00Z'),
+  lockedUntil: null,
+  expiresAt: new Date('2026-01-01T00:15:00Z'),
+}
+
+describe('createMemoryLoginAttemptStore', () => {
+  const at = attempts.lastFailureAt
+  const later = new Date('2026-01-01T00:05:00Z')
+
+  it('counts attempts per key until deleted', async () => {
+    const store = createMemoryLoginAttemptStore()
+    await store.increment('email:a@test.com', at, attempts.expiresAt)
+
+    expect(await store.increment('email:a@test.com', later, new Date('2026-01-01T00:20:00Z'))).toEqual({
+      ...attempts,
+      expiresAt: new Date('2026-01-01T00:20:00Z'),
+    })
+    expect(await store.get('email:b@test.com')).toBeUndefined()
+
+    await store.decrement('email:a@test.com')
+    expect((await store.get('email:a@test.com'))?.failures).toBe(1)
+
+    await store.delete('email:a@test.com')
+    expect(await store.get('email:a@test.com')).toBeUndefined()
+  })
+
+  it('starts expired entries over', async () => {
+    const store = createMemoryLoginAttemptStore()
+    await store.increment('email:a@test.com', at, attempts.expiresAt)
+    await store.increment('email:a@test.com', at, attempts.expiresAt)
+
+    const restarted = new Date('2026-01-01T00:30:00Z')
+    expect(await store.increment('email:a@test.com', restarted, new Date('2026-01-01T00:45:00Z'))).toEqual({
+      failures: 1,
+      lastFailureAt: restarted,
+      lockedUntil: null,
+      expiresAt: new Date('2026-01-01T00:45:00Z'),
+    })
+  })
+
+  it('records failures and locks without changing the count', async () => {
+    const store = createMemoryLoginAttemptStore()
+    const lockedUntil = new Date('2026-01-01T00:25:00Z')
+    await store.increment('email:a@test.com', at, attempts.expiresAt)
+    await store.recordFailure('email:a@test.com', later, lockedUntil)
+
+    expect(await store.get('email:a@test.com')).toEqual({ failures: 1, lastFailureAt: later, lockedUntil, expiresAt: lockedUntil })
+  })
+})
+
+describe('createTableLoginAttemptStore', () => {
+  it('rejects tables missing a required column', () => {
+    expect(() => createTableLoginAttemptStore({} as AnyPgDatabase, { _columns: { key: {} } } as unknown as PgTable)).toThrow('"failures"')
+  })
+
+  it('loads only the attempt columns of a row', async () => {
+    const where = vi.fn(() => ({ limit: async () => [{ id: 4, key: 'ip:203.0.113.7', ...attempts }] }))
+    const db = { select: () => ({ from: () => ({ where }) }) } as unknown as AnyPgDatabase
+
+    expect(await createTableLoginAttemptStore(db, table).get('ip:203.0.113.7')).toEqual(attempts)
+    expect(where).toHaveBeenCalledWith({ eq: ['key', 'ip:203.0.113.7'] })
+  })
+
+  it('counts attempts in one upsert and drops rows that have expired', async () => {
+    const returning = vi.fn().mockResolvedValue([{ id: 4, key: 'email:a@test.com', ...attempts }])
+    const onConflictDoUpdate = vi.fn(() => ({ returning }))
+    const values = vi.fn(() => ({ onConflictDoUpdate }))
+    const deleteWhere = vi.fn().mockResolvedValue(undefined)
+    const db = {
+      insert: () => ({ values }),
+      delete: () => ({ where: deleteWhere }),
+    } as unknown as AnyPgDatabase
+
+    const counted = await createTableLoginAttemptStore(db, table).increment('email:a@test.com', attempts.lastFailureAt, attempts.expiresAt)
+
+    expect(counted).toEqual(attempts)
+    expect(values).toHaveBeenCalledWith({ key: 'email:a@test.com', failures: 1, lastFailureAt: attempts.lastFailureAt, lockedUntil: null, expiresAt: attempts.expiresAt })
+    expect(onConflictDoUpdate).toHaveBeenCalledWith(expect.objectContaining({ target: 'key' }))
+    const set = (onConflictDoUpdate.mock.calls[0] as unknown as [{ set: Record<string, { sql: string }> }])[0].set
+    expect(set.failures!.sql).toContain('+ 1')
+    expect(deleteWhere).toHaveBeenCalledWith({ lt: ['expiresAt', attempts.lastFailureAt] })
+  })
+
+  it('locks a key by updating its row', async () => {
+    const where = vi.fn().mockResolvedValue(undefined)
+    const set = vi.fn(() => ({ where }))
+    const db = { update: () => ({ set }) } as unknown as AnyPgDatabase
+    const lockedUntil = new Date('2026-01-01T00:25:00Z')
+
+    await createTableLoginAttemptStore(db, table).recordFailure('email:a@test.com', attempts.lastFailureAt, lockedUntil)
+
+    expect(set).toHaveBeenCalledWith({ lastFailureAt: attempts.lastFailureAt, lockedUntil, expiresAt: lockedUntil })
+    expect(where).toHaveBeenCalledWith({ eq: ['key', 'email:a@test.com'] })
+  })
+})
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { Context } from 'hono'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+
+vi.mock('drizzle-orm', () => ({
+  getTableName: () => 'admin_users',
+}))
+
+import {
+  beginLoginAttempt,
+  beginPasswordReset,
+  loginRetryAfter,
+  loginThrottledMessage,
+  passwordResetThrottledMessage,
+  recordFailedLogin,
+  recordLoginFailure,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  resolveLoginThrottle,
+  type LoginAttempt,
+  type LoginThrottle,
+} from '@/loginAttempts/throttle.ts'
+
+const start = new Date('2026-01-01T00:00:00Z')
+const at = (seconds: number) => new Date(start.getTime() + seconds * 1000)
+
+async function fail(throttle: LoginThrottle, attempt: LoginAttempt, now: Date): Promise<boolean> {
+  expect(await beginLoginAttempt(throttle, attempt, now)).toBe(0)
+  return recordLoginFailure(throttle, attempt, now)
+}
+
+describe('resolveLoginThrottle', () => {
+  it('defaults to 5 failures per email, 20 per IP and 15 minute locks', () => {
+    expect(resolveLoginThrottle()).toMatchObject({ maxFailuresPerEmail: 5, maxFailuresPerIp: 20, lockoutSeconds: 900 })
+  })
+})
+
+describe('loginRetryAfter', () => {
+  it('doubles the wait after each failure', async () => {
+    const throttle = resolveLoginThrottle()
+    const attempt = { email: 'a@test.com', ip: null }
+    expect(await loginRetryAfter(throttle, attempt, start)).toBe(0)
+
+    await fail(throttle, attempt, start)
+    expect(await loginRetryAfter(throttle, attempt, start)).toBe(1)
+    expect(await loginRetryAfter(throttle, attempt, at(1))).toBe(0)
+
+    await fail(throttle, attempt, at(1))
+    expect(await loginRetryAfter(throttle, attempt, at(1))).toBe(2)
+
+    await fail(throttle, attempt, at(3))
+    expect(await loginRetryAfter(throttle, attempt, at(3))).toBe(4)
+  })
+
+  it('locks the email once it reaches the limit, until the lock expires', async () => {
+    const throttle = resolveLoginThrottle({ maxFailuresPerEmail: 3 })
+    const attempt = { email: 'a@test.com', ip: null }
+
+    expect(await fail(throttle, attempt, at(0))).toBe(false)
+    expect(await fail(throttle, attempt, at(10))).toBe(false)
+    expect(await fail(throttle, attempt, at(20))).toBe(true)
+
+    expect(await loginRetryAfter(throttle, attempt, at(20))).toBe(900)
+    expect(await loginRetryAfter(throttle, { email: 'A@test.com ', ip: '203.0.113.7' }, at(320))).toBe(600)
+    expect(await loginRetryAfter(throttle, attempt, at(920))).toBe(0)
+
+    // Failures start over once the lock has expired
+    expect(await fail(throttle, attempt, at(920))).toBe(false)
+  })
+
+  it('locks an IP trying many emails', async () => {
+    const throttle = resolveLoginThrottle({ maxFailuresPerIp: 3 })
+    for (const [i, email] of ['a@test.com', 'b@test.com', 'c@test.com'].entries()) {
+      await fail(throttle, { email, ip: '203.0.113.7' }, at(i * 100))
+    }
+
+    expect(await loginRetryAfter(throttle, { email: 'd@test.com', ip: '203.0.113.7' }, at(200))).toBe(900)
+    expect(await loginRetryAfter(throttle, { email: 'd@test.com', ip: '198.51.100.1' }, at(200))).toBe(0)
+  })
+
+  it('forgets failures older than the lockout', async () => {
+    const throttle = resolveLoginThrottle({ maxFailuresPerEmail: 2 })
+    const attempt = { email: 'a@test.com', ip: null }
+    await fail(throttle, attempt, at(0))
+
+    expect(await fail(throttle, attempt, at(901))).toBe(false)
+  })
+})
+
+describe('beginLoginAttempt', () => {
+  it('refuses concurrent attempts past the limit before they are checked', async () => {
+    const throttle = resolveLoginThrottle({ maxFailuresPerEmail: 2 })
+    const attempt = { email: 'a@test.com', ip: null }
+
+    const waits = await Promise.all([1, 2, 3].map(() => beginLoginAttempt(throttle, attempt, start)))
+
+    expect(waits).toEqual([0, 0, 900])
+  })
+
+  it('counts an attempt in flight until it is released', async () => {
+    const throttle = resolveLoginThrottle()
+    const attempt = { email: 'a@test.com', ip: null }
+    await beginLoginAttempt(throttle, attempt, start)
+    expect(await loginRetryAfter(throttle, attempt, start)).toBe(1)
+
+    await releaseLoginAttempt(throttle, attempt)
+    expect(await loginRetryAfter(throttle, attempt, start)).toBe(0)
+  })
+})
+
+describe('beginPasswordReset', () => {
+  it('allows 3 links per email until the period ends', async () => {
+    const throttle = resolveLoginThrottle()
+    const attempt = { email: 'a@test.com', ip: null }
+    for (const seconds of [0, 1, 2]) {
+      expect(await beginPasswordReset(throttle, attempt, at(seconds))).toBe(0)
+    }
+
+    expect(await beginPasswordReset(throttle, { email: 'A@test.com', ip: null }, at(3))).toBe(900)
+    expect(await beginPasswordReset(throttle, { email: 'b@test.com', ip: null }, at(3))).toBe(0)
+    expect(await beginPasswordReset(throttle, attempt, at(904))).toBe(0)
+  })
+
+  it('limits requests from one IP across emails', async () => {
+    const throttle = resolveLoginThrottle({ maxFailuresPerIp: 2 })
+    const ip = '203.0.113.7'
+    expect(await beginPasswordReset(throttle, { email: 'a@test.com', ip }, start)).toBe(0)
+    expect(await beginPasswordReset(throttle, { email: 'b@test.com', ip }, start)).toBe(0)
+
+    expect(await beginPasswordReset(throttle, { email: 'c@test.com', ip }, start)).toBe(900)
+  })
+
+  it('is counted apart from sign-ins', async () => {
+    const throttle = resolveLoginThrottle()
+    const attempt = { email: 'a@test.com', ip: null }
+    await beginPasswordReset(throttle, attempt, start)
+
+    expect(await loginRetryAfter(throttle, attempt, start)).toBe(0)
+  })
+})
+
+describe('recordLoginSuccess', () => {
+  it('clears the failures of the email but not of the IP', async () => {
+    const throttle = resolveLoginThrottle()
+    const attempt = { email: 'a@test.com', ip: '203.0.113.7' }
+    await fail(throttle, attempt, start)
+
+    await beginLoginAttempt(throttle, attempt, at(1))
+    await recordLoginSuccess(throttle, attempt)
+
+    expect(await loginRetryAfter(throttle, { email: 'a@test.com', ip: null }, start)).toBe(0)
+    expect(await loginRetryAfter(throttle, attempt, start)).toBe(1)
+  })
+})
+
+describe('recordFailedLogin', () => {
+  function makeContext(remoteAddress: string): Context {
+    return { env: { incoming: { socket: { remoteAddress } } }, get: () => undefined } as unknown as Context
+  }
+
+  it('records the failure in the audit log when it is configured', async () => {
+    const values = vi.fn().mockResolvedValue(undefined)
+    const db = { insert: () => ({ values }) } as unknown as AnyPgDatabase
+    const loginThrottle = resolveLoginThrottle({ maxFailuresPerEmail: 1 })
+    await beginLoginAttempt(loginThrottle, { email: 'a@test.com', ip: '203.0.113.7' })
+
+    await recordFailedLogin(makeContext('203.0.113.7'), {
+      db,
+      adminUsers: {} as PgTable,
+      loginThrottle,
+      auditLog: { table: {} as PgTable },
+    }, 'a@test.com')
+
+    expect(values).toHaveBeenCalledWith([{
+      adminId: 0,
+      adminEmail: 'a@test.com',
+      resource: 'admin_users',
+      recordId: null,
+      action: 'login_locked',
+      changes: null,
+      ip: '203.0.113.7',
+      createdAt: expect.any(Date),
+    }])
+    expect(await loginRetryAfter(loginThrottle, { email: 'a@test.com', ip: null })).toBeGreaterThan(0)
+  })
+})
+
+describe('loginThrottledMessage', () => {
+  it('gives short waits in seconds and longer ones in minutes', () => {
+    expect(loginThrottledMessage(1)).toBe('Too many failed sign-in attempts. Try again in 1 second.')
+    expect(loginThrottledMessage(30)).toBe('Too many failed sign-in attempts. Try again in 30 seconds.')
+    expect(loginThrottledMessage(61)).toBe('Too many failed sign-in attempts. Try again in 2 minutes.')
+    expect(passwordResetThrottledMessage(900)).toBe('Too many reset links requested. Try again in 15 minutes.')
+  })
+})
@@ -0,0 +1,23 @@
+import { getTableColumns } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+const REQUIRED_COLUMNS = [
+  'key',
+  'failures',
+  'lastFailureAt',
+  'lockedUntil',
+  'expiresAt',
+] as const
+
+export function validateLoginAttemptsTable(table: PgTable): void {
+  const columnNames = Object.keys(getTableColumns(table))
+
+  for (const required of REQUIRED_COLUMNS) {
+    if (!columnNames.includes(required)) {
+      throw new Error(
+        `loginAttempts table must have a "${required}" column. ` +
+        `Found columns: ${columnNames.join(', ')}`
+      )
+    }
+  }
+}
@@ -0,0 +1,147 @@
+import { eq, getTableColumns, lt, sql } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import { validateLoginAttemptsTable } from '@/loginAttempts/contract.ts'
+
+/** Recent failed sign-ins under one key, such as an email or IP address. */
+export interface LoginAttempts {
+  /** Failures since the count last started. */
+  failures: number
+  lastFailureAt: Date
+  /** Set once `failures` reaches the limit; sign-ins are refused until then. */
+  lockedUntil: Date | null
+  /** When the entry may be forgotten. Expired entries are ignored. */
+  expiresAt: Date
+}
+
+/**
+ * Where failed sign-ins are counted. Stores may drop entries once they have
+ * expired, and need not keep them at all across restarts.
+ */
+export interface LoginAttemptStore {
+  get(key: string): Promise<LoginAttempts | undefined>
+  /**
+   * Counts one more attempt under the key before it is checked, and returns
+   * the entry. Must be atomic, so that concurrent attempts are all counted. A
+   * missing or expired entry starts over at 1 failed at `at`; otherwise only
+   * the count goes up, and an unlocked entry now expires at `expiresAt`.
+   */
+  increment(key: string, at: Date, expiresAt: Date): Promise<LoginAttempts>
+  /** Takes back an attempt counted by `increment`, never going below 0. */
+  decrement(key: string): Promise<void>
+  /**
+   * Records that a counted attempt failed at `at`, without changing the count.
+   * With `lockedUntil`, locks the key and makes it expire then.
+   */
+  recordFailure(key: string, at: Date, lockedUntil: Date | null): Promise<void>
+  delete(key: string): Promise<void>
+}
+
+// Past this many keys, expired ones are swept on the next write
+const MEMORY_SWEEP_SIZE = 10_000
+
+/**
+ * Keeps failed sign-ins in process memory. Each process counts separately and
+ * forgets on restart, so deployments running several instances should use
+ * `createTableLoginAttemptStore`.
+ */
+export function createMemoryLoginAttemptStore(): LoginAttemptStore {
+  const entries = new Map<string, LoginAttempts>()
+
+  // Nothing else runs between reading and writing an entry, so each update is atomic
+  return {
+    async get(key) {
+      return entries.get(key)
+    },
+    async increment(key, at, expiresAt) {
+      if (entries.size >= MEMORY_SWEEP_SIZE) {
+        for (const [existing, entry] of entries) {
+          if (entry.expiresAt <= at) entries.delete(existing)
+        }
+      }
+
+      const previous = entries.get(key)
+      const attempts = previous && previous.expiresAt > at
+        ? { ...previous, failures: previous.failures + 1, expiresAt: previous.lockedUntil ? previous.expiresAt : expiresAt }
+        : { failures: 1, lastFailureAt: at, lockedUntil: null, expiresAt }
+      entries.set(key, attempts)
+      return attempts
+    },
+    async decrement(key) {
+      const attempts = entries.get(key)
+      if (attempts) entries.set(key, { ...attempts, failures: Math.max(attempts.failures - 1, 0) })
+    },
+    async recordFailure(key, at, lockedUntil) {
+      const attempts = entries.get(key)
+      if (!attempts) return
+      entries.set(key, lockedUntil
+        ? { ...attempts, lastFailureAt: at, lockedUntil, expiresAt: lockedUntil }
+        : { ...attempts, lastFailureAt: at })
+    },
+    async delete(key) {
+      entries.delete(key)
+    },
+  }
+}
+
+/**
+ * Keeps failed sign-ins in a database table shared by every instance. The
+ * table needs `key` (text, unique), `failures` (integer), `lastFailureAt`,
+ * `lockedUntil` and `expiresAt` columns.
+ */
+export function createTableLoginAttemptStore(db: AnyPgDatabase, table: PgTable): LoginAttemptStore {
+  validateLoginAttemptsTable(table)
+  const cols = getTableColumns(table)
+
+  return {
+    async get(key) {
+      const [row] = await db
+        .select()
+        .from(table)
+        .where(eq(cols.key!, key))
+        .limit(1)
+      return row ? toAttempts(row) : undefined
+    },
+    // One upsert, so that concurrent attempts cannot overwrite each other's count
+    async increment(key, at, expiresAt) {
+      const expired = sql`${cols.expiresAt} <= ${at}`
+      const [row] = await db
+        .insert(table)
+        .values({ key, failures: 1, lastFailureAt: at, lockedUntil: null, expiresAt })
+        .onConflictDoUpdate({
+          target: cols.key!,
+          set: {
+            failures: sql`case when ${expired} then 1 else ${cols.failures} + 1 end`,
+            lastFailureAt: sql`case when ${expired} then ${at} else ${cols.lastFailureAt} end`,
+            lockedUntil: sql`case when ${expired} then null else ${cols.lockedUntil} end`,
+            expiresAt: sql`case when ${cols.lockedUntil} is null or ${expired} then ${expiresAt} else ${cols.expiresAt} end`,
+          },
+        })
+        .returning()
+      // Rows nobody came back for would otherwise stay forever
+      await db.delete(table).where(lt(cols.expiresAt!, at))
+      return toAttempts(row!)
+    },
+    async decrement(key) {
+      await db
+        .update(table)
+        .set({ failures: sql`greatest(${cols.failures} - 1, 0)` })
+        .where(eq(cols.key!, key))
+    },
+    async recordFailure(key, at, lockedUntil) {
+      await db
+        .update(table)
+        .set(lockedUntil ? { lastFailureAt: at, lockedUntil, expiresAt: lockedUntil } : { lastFailureAt: at })
+        .where(eq(cols.key!, key))
+    },
+    async delete(key) {
+      await db.delete(table).where(eq(cols.key!, key))
+    },
+  }
+}
+
+// Rows carry the key and any other columns of the table too
+function toAttempts(row: Record<string, unknown>): LoginAttempts {
+  const { failures, lastFailureAt, lockedUntil, expiresAt } = row as unknown as LoginAttempts
+  return { failures, lastFailureAt, lockedUntil, expiresAt }
+}
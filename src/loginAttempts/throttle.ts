@@ -0,0 +1,207 @@
+import type { Context } from 'hono'
+import { getTableName } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { AuditLogConfig, LoginThrottleConfig } from '@/config.ts'
+import { writeAuditEntries } from '@/audit/log.ts'
+import { clientIp } from '@/utils/request.ts'
+import { createMemoryLoginAttemptStore, type LoginAttempts, type LoginAttemptStore } from '@/loginAttempts/store.ts'
+
+/** Throttle settings with their defaults filled in. */
+export interface LoginThrottle {
+  store: LoginAttemptStore
+  maxFailuresPerEmail: number
+  maxFailuresPerIp: number
+  lockoutSeconds: number
+}
+
+/** A sign-in, counted under both its email and its IP address. */
+export interface LoginAttempt {
+  email: string
+  /** Unset when the client address is unknown, leaving only the email limit. */
+  ip: string | null
+}
+
+const DEFAULT_MAX_FAILURES_PER_EMAIL = 5
+const DEFAULT_MAX_FAILURES_PER_IP = 20
+const DEFAULT_LOCKOUT_SECONDS = 15 * 60
+/** Longest wait between attempts short of a lock. */
+const MAX_BACKOFF_SECONDS = 60
+/** Reset links mailed to one email per lockout period. */
+const MAX_RESET_REQUESTS_PER_EMAIL = 3
+
+/** Fills in the defaults, keeping failures in memory unless a store is given. */
+export function resolveLoginThrottle(config: LoginThrottleConfig = {}): LoginThrottle {
+  return {
+    store: config.store ?? createMemoryLoginAttemptStore(),
+    maxFailuresPerEmail: config.maxFailuresPerEmail ?? DEFAULT_MAX_FAILURES_PER_EMAIL,
+    maxFailuresPerIp: config.maxFailuresPerIp ?? DEFAULT_MAX_FAILURES_PER_IP,
+    lockoutSeconds: config.lockoutSeconds ?? DEFAULT_LOCKOUT_SECONDS,
+  }
+}
+
+/**
+ * Returns how many seconds to wait before the attempt may be made, or 0 when
+ * it may be made now. Each failure doubles the wait before the next attempt
+ * (1s, 2s, 4s...) until the limit locks the email or IP for `lockoutSeconds`.
+ */
+export async function loginRetryAfter(throttle: LoginThrottle, attempt: LoginAttempt, now: Date = new Date()): Promise<number> {
+  let wait = 0
+  for (const [key] of attemptKeys(throttle, attempt)) {
+    const attempts = await loadAttempts(throttle.store, key, now)
+    if (!attempts) continue
+
+    const until = attempts.lockedUntil
+      ?? new Date(attempts.lastFailureAt.getTime() + backoffSeconds(attempts.failures) * 1000)
+    wait = Math.max(wait, Math.ceil((until.getTime() - now.getTime()) / 1000))
+  }
+  return wait
+}
+
+/**
+ * Counts an attempt against its email and IP before the password or code is
+ * checked, so that concurrent attempts cannot all slip past the limits.
+ * Returns how many seconds to wait when the attempt is refused, or 0 when it
+ * was counted and may go ahead. A counted attempt must end with
+ * {@link recordLoginFailure}, {@link recordLoginSuccess} or
+ * {@link releaseLoginAttempt}.
+ */
+export async function beginLoginAttempt(throttle: LoginThrottle, attempt: LoginAttempt, now: Date = new Date()): Promise<number> {
+  const retryAfter = await loginRetryAfter(throttle, attempt, now)
+  if (retryAfter > 0) return retryAfter
+
+  const expiresAt = new Date(now.getTime() + throttle.lockoutSeconds * 1000)
+  const keys = attemptKeys(throttle, attempt)
+  const counted = await Promise.all(keys.map(([key]) => throttle.store.increment(key, now, expiresAt)))
+
+  // Attempts racing past the limit are refused without being checked
+  if (counted.some((attempts, i) => attempts.failures > keys[i]![1])) {
+    await releaseLoginAttempt(throttle, attempt)
+    return throttle.lockoutSeconds
+  }
+  return 0
+}
+
+/**
+ * Ends a counted attempt that failed, locking the email or IP when it reached
+ * the limit. Returns whether it locked either.
+ */
+export async function recordLoginFailure(throttle: LoginThrottle, attempt: LoginAttempt, now: Date = new Date()): Promise<boolean> {
+  let locked = false
+  for (const [key, maxFailures] of attemptKeys(throttle, attempt)) {
+    const attempts = await loadAttempts(throttle.store, key, now)
+    const locks = !!attempts && !attempts.lockedUntil && attempts.failures >= maxFailures
+    await throttle.store.recordFailure(key, now, locks ? new Date(now.getTime() + throttle.lockoutSeconds * 1000) : null)
+    locked ||= locks
+  }
+  return locked
+}
+
+/**
+ * Ends a counted attempt that signed the admin in: takes it back from the IP
+ * and clears the failures of the email. Those of the IP are kept, so that
+ * signing in to one account does not reset guessing at others.
+ */
+export async function recordLoginSuccess(throttle: LoginThrottle, attempt: LoginAttempt): Promise<void> {
+  await releaseLoginAttempt(throttle, attempt)
+  await clearLoginFailures(throttle, attempt.email)
+}
+
+/** Takes back a counted attempt that turned out not to be a guess, such as one with a valid password awaiting its two-factor code. */
+export async function releaseLoginAttempt(throttle: LoginThrottle, attempt: LoginAttempt): Promise<void> {
+  for (const [key] of attemptKeys(throttle, attempt)) {
+    await throttle.store.decrement(key)
+  }
+}
+
+/** Clears the failures of an email, lifting its lock. */
+export async function clearLoginFailures(throttle: LoginThrottle, email: string): Promise<void> {
+  await throttle.store.delete(emailKey(email))
+}
+
+export interface FailedLoginConfig {
+  db: AnyPgDatabase
+  adminUsers: PgTable
+  loginThrottle: LoginThrottle
+  auditLog?: AuditLogConfig
+}
+
+/**
+ * Ends a counted sign-in as failed and, when the audit log is on, records it
+ * there under the admin users table as `login_failed`, or `login_locked` when
+ * it locked the email or IP. Such entries have no admin, so `adminId` is 0 and
+ * `adminEmail` is the email that was tried.
+ */
+export async function recordFailedLogin(c: Context, config: FailedLoginConfig, email: string): Promise<void> {
+  const ip = clientIp(c)
+  const locked = await recordLoginFailure(config.loginThrottle, { email, ip })
+  if (!config.auditLog) return
+
+  await writeAuditEntries(config.db, config.auditLog.table, [{
+    adminId: 0,
+    adminEmail: email,
+    resource: getTableName(config.adminUsers),
+    recordId: null,
+    action: locked ? 'login_locked' : 'login_failed',
+    changes: null,
+    ip,
+    createdAt: new Date(),
+  }])
+}
+
+/**
+ * Counts a request for a password reset link against its email and IP, so
+ * that nobody can flood an inbox with them. Returns how many seconds to wait
+ * when the request is refused, or 0 when the link may be sent. Each email gets
+ * 3 links, and each IP `maxFailuresPerIp` requests, per `lockoutSeconds`.
+ */
+export async function beginPasswordReset(throttle: LoginThrottle, attempt: LoginAttempt, now: Date = new Date()): Promise<number> {
+  const keys: [string, number][] = [[`reset:${emailKey(attempt.email)}`, MAX_RESET_REQUESTS_PER_EMAIL]]
+  if (attempt.ip) keys.push([`reset:ip:${attempt.ip}`, throttle.maxFailuresPerIp])
+
+  const expiresAt = new Date(now.getTime() + throttle.lockoutSeconds * 1000)
+  let wait = 0
+  for (const [key, maxRequests] of keys) {
+    const requests = await throttle.store.increment(key, now, expiresAt)
+    if (requests.failures > maxRequests) {
+      wait = Math.max(wait, Math.ceil((requests.expiresAt.getTime() - now.getTime()) / 1000))
+    }
+  }
+  return wait
+}
+
+/** The message shown when a sign-in is refused for `seconds` more. */
+export function loginThrottledMessage(seconds: number): string {
+  return `Too many failed sign-in attempts. Try again in ${formatWait(seconds)}.`
+}
+
+/** The message shown when a reset link is refused for `seconds` more. */
+export function passwordResetThrottledMessage(seconds: number): string {
+  return `Too many reset links requested. Try again in ${formatWait(seconds)}.`
+}
+
+function formatWait(seconds: number): string {
+  return seconds < 60
+    ? `${seconds} second${seconds === 1 ? '' : 's'}`
+    : `${Math.ceil(seconds / 60)} minute${Math.ceil(seconds / 60) === 1 ? '' : 's'}`
+}
+
+function attemptKeys(throttle: LoginThrottle, attempt: LoginAttempt): [string, number][] {
+  const keys: [string, number][] = [[emailKey(attempt.email), throttle.maxFailuresPerEmail]]
+  if (attempt.ip) keys.push([`ip:${attempt.ip}`, throttle.maxFailuresPerIp])
+  return keys
+}
+
+function emailKey(email: string): string {
+  return `email:${email.trim().toLowerCase()}`
+}
+
+// Entries whose attempts were all taken back count as none
+async function loadAttempts(store: LoginAttemptStore, key: string, now: Date): Promise<LoginAttempts | undefined> {
+  const attempts = await store.get(key)
+  return attempts && attempts.expiresAt > now && (attempts.failures > 0 || attempts.lockedUntil) ? attempts : undefined
+}
+
+function backoffSeconds(failures: number): number {
+  return Math.min(2 ** (failures - 1), MAX_BACKOFF_SECONDS)
+}
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, afterEach } from 'vitest'
+import { mkdtemp, readdir, readFile, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createConsoleMailer, createFileMailer } from '@/mail/mailer.ts'
+
+const message = { to: 'a@test.com', subject: 'Hello', text: 'Set your password:\nhttps://example.com/set-password' }
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('createConsoleMailer', () => {
+  it('prints the email', async () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+    await createConsoleMailer().send(message)
+
+    expect(log).toHaveBeenCalledOnce()
+    expect(log.mock.calls[0]![0]).toContain('a@test.com')
+    expect(log.mock.calls[0]![0]).toContain('https://example.com/set-password')
+  })
+})
+
+describe('createFileMailer', () => {
+  it('writes each email to an .eml file, creating the directory', async () => {
+    const root = await mkdtemp(join(tmpdir(), 'drizzle-admin-mail-'))
+    try {
+      const directory = join(root, 'mail')
+      const mailer = createFileMailer(directory)
+      await mailer.send(message)
+      await mailer.send({ ...message, subject: 'Again' })
+
+      const files = await readdir(directory)
+      expect(files).toHaveLength(2)
+      expect(files.every(file => file.endsWith('.eml'))).toBe(true)
+
+      const contents = await Promise.all(files.map(file => readFile(join(directory, file), 'utf8')))
+      const first = contents.find(content => content.includes('Subject: Hello'))!
+      expect(first).toContain('To: a@test.com\r\n')
+      expect(first).toContain('Content-Type: text/plain; charset=utf-8\r\n\r\nSet your password:')
+    } finally {
+      await rm(root, { recursive: true, force: true })
+    }
+  })
+})
@@ -0,0 +1,54 @@
+import { mkdir, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+
+/** An email to one recipient. */
+export interface MailMessage {
+  to: string
+  subject: string
+  /** Plain-text body. */
+  text: string
+}
+
+/**
+ * Sends the emails of invitations and password resets. Implement it over your
+ * email provider; `createConsoleMailer()` and `createFileMailer()` suit
+ * development.
+ */
+export interface Mailer {
+  send(message: MailMessage): Promise<void>
+}
+
+/** Prints emails to the console instead of sending them, for development. */
+export function createConsoleMailer(): Mailer {
+  return {
+    async send(message) {
+      console.log(`[DrizzleAdmin] Mail to ${message.to}: ${message.subject}\n\n${message.text}`)
+    },
+  }
+}
+
+/**
+ * Writes each email to a `.eml` file in `directory`, created when missing,
+ * instead of sending it, for development. Mail clients open the files.
+ */
+export function createFileMailer(directory: string): Mailer {
+  return {
+    async send(message) {
+      await mkdir(directory, { recursive: true })
+      const name = `${new Date().toISOString().replace(/[:.]/g, '-')}-${crypto.randomUUID().slice(0, 8)}.eml`
+      await writeFile(join(directory, name), formatEml(message))
+    },
+  }
+}
+
+function formatEml(message: MailMessage): string {
+  return [
+    `To: ${message.to}`,
+    `Subject: ${message.subject}`,
+    `Date: ${new Date().toUTCString()}`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    '',
+    message.text,
+  ].join('\r\n')
+}
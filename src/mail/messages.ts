@@ -0,0 +1,33 @@
+import type { MailMessage } from '@/mail/mailer.ts'
+
+/** The email inviting `to` to the admin panel, with the link to set their password. */
+export function inviteMessage(to: string, invitedBy: string, link: string): MailMessage {
+  return {
+    to,
+    subject: 'You have been invited to DrizzleAdmin',
+    text: [
+      `${invitedBy} invited you to the admin panel.`,
+      '',
+      'Set your password to sign in:',
+      link,
+      '',
+      'The link expires in 7 days.',
+    ].join('\n'),
+  }
+}
+
+/** The email with the link to reset the password of `to`. */
+export function passwordResetMessage(to: string, link: string): MailMessage {
+  return {
+    to,
+    subject: 'Reset your DrizzleAdmin password',
+    text: [
+      'Someone asked to reset the password of your admin account.',
+      '',
+      'Choose a new password:',
+      link,
+      '',
+      'The link expires in 1 hour. If you did not ask for it, ignore this email.',
+    ].join('\n'),
+  }
+}
@@ -0,0 +1,68 @@
+import { describe, it, expect, vi } from 'vitest'
+import { hasHooks, HookAbortError, runBeforeWrite, runRecordHook, withWriteTransaction } from '@/resources/hooks.ts'
+import type { HookContext } from '@/resources/types.ts'
+import type { AnyPgDatabase } from '@/types.ts'
+
+const tx = { tx: true } as unknown as AnyPgDatabase
+const context: HookContext = { admin: { adminId: 1, email: 'admin@test.com' }, tx }
+
+describe('hasHooks', () => {
+  it('is true only when at least one hook is configured', () => {
+    expect(hasHooks(undefined)).toBe(false)
+    expect(hasHooks({})).toBe(false)
+    expect(hasHooks({ afterCreate: async () => {} })).toBe(true)
+  })
+})
+
+describe('withWriteTransaction', () => {
+  it('runs the write directly when not transactional', async () => {
+    const db = { transaction: vi.fn() } as unknown as AnyPgDatabase
+    const result = await withWriteTransaction(db, false, async (handle) => handle)
+    expect(result).toBe(db)
+    expect(db.transaction).not.toHaveBeenCalled()
+  })
+
+  it('runs the write in a transaction when transactional', async () => {
+    const db = { transaction: vi.fn((fn: (t: AnyPgDatabase) => unknown) => fn(tx)) } as unknown as AnyPgDatabase
+    const result = await withWriteTransaction(db, true, async (handle) => handle)
+    expect(result).toBe(tx)
+  })
+})
+
+describe('runBeforeWrite', () => {
+  it('returns the values unchanged without a hook', async () => {
+    expect(await runBeforeWrite('beforeCreate', undefined, { email: 'A@B.C' }, context)).toEqual({ email: 'A@B.C' })
+  })
+
+  it('uses the values returned by the hook', async () => {
+    const hook = (values: Record<string, unknown>) => ({ ...values, email: String(values.email).toLowerCase() })
+    expect(await runBeforeWrite('beforeCreate', hook, { email: 'A@B.C' }, context)).toEqual({ email: 'a@b.c' })
+  })
+
+  it('keeps the values when the hook returns nothing', async () => {
+    const hook = vi.fn()
+    expect(await runBeforeWrite('beforeUpdate', hook, { title: 'Hi' }, context)).toEqual({ title: 'Hi' })
+    expect(hook).toHaveBeenCalledWith({ title: 'Hi' }, context)
+  })
+
+  it('wraps errors thrown by the hook', async () => {
+    const hook = () => { throw new Error('Email domain not allowed') }
+    const error = await runBeforeWrite('beforeCreate', hook, {}, context).catch(e => e)
+    expect(error).toBeInstanceOf(HookAbortError)
+    expect(error.message).toBe('Email domain not allowed')
+    expect(error.hook).toBe('beforeCreate')
+  })
+})
+
+describe('runRecordHook', () => {
+  it('wraps errors thrown by beforeDelete', async () => {
+    const hook = async () => { throw new Error('Paid invoices cannot be deleted') }
+    await expect(runRecordHook('beforeDelete', hook, { id: 1 }, context)).rejects.toBeInstanceOf(HookAbortError)
+  })
+
+  it('propagates after-hook errors unchanged', async () => {
+    const failure = new Error('webhook failed')
+    const hook = async () => { throw failure }
+    await expect(runRecordHook('afterUpdate', hook, { id: 1 }, context)).rejects.toBe(failure)
+  })
+})
@@ -1,7 +1,9 @@
 import { describe, it, expect } from 'vitest'
 import { validateResources } from '@/resources/loader.ts'
 import type { ResourceDefinition } from '@/resources/types.ts'
-import type { PgTable } from 'drizzle-orm/pg-core'
+import { integer, pgTable, serial, timestamp, type PgTable } from 'drizzle-orm/pg-core'
+import type { ColumnMeta, DialectAdapter } from '@/dialects/types.ts'
+import { postgresqlAdapter } from '@/dialects/postgresql.ts'
 
 function makeResource(overrides: Partial<ResourceDefinition> = {}): ResourceDefinition {
   return {
@@ -54,4 +56,51 @@ describe('validateResources', () => {
     ]
     expect(validateResources(resources)).toEqual([])
   })
+
+  it('reports tables without a primary key when given an adapter', () => {
+    const column: ColumnMeta = {
+      name: 'body',
+      sqlName: 'body',
+      dataType: 'text',
+      isNullable: true,
+      isPrimaryKey: false,
+      hasDefault: false,
+    }
+    const adapter: DialectAdapter = { name: 'postgresql', extractColumns: () => [column] }
+    const errors = validateResources([makeResource({ tableName: 'logs' })], adapter)
+    expect(errors).toEqual([expect.stringContaining('"logs" has no primary key')])
+  })
+
+  it('reports a missing softDelete column and a conflicting Trash scope', () => {
+    const table = pgTable('posts', { id: serial('id').primaryKey(), deletedAt: timestamp('deleted_at') })
+    expect(validateResources([makeResource({ table, options: { softDelete: { column: 'deletedAt' } } })])).toEqual([])
+
+    const errors = validateResources([
+      makeResource({ table, options: { softDelete: { column: 'removedAt' }, scopes: [{ name: 'Trash' }] } }),
+    ])
+    expect(errors).toEqual([
+      expect.stringContaining('no softDelete column "removedAt"'),
+      expect.stringContaining('"Trash" scope'),
+    ])
+  })
+
+  it('reports panel foreign keys that do not reference the resource', () => {
+    const users = pgTable('users', { id: serial('id').primaryKey() })
+    const teams = pgTable('teams', { id: serial('id').primaryKey() })
+    const posts = pgTable('posts', {
+      id: serial('id').primaryKey(),
+      authorId: integer('author_id').references(() => users.id),
+      teamId: integer('team_id').references(() => teams.id),
+    })
+    const resources = (foreignKey: string) => [
+      makeResource({ table: users, tableName: 'users', routePath: 'users', options: { show: { panels: [{ resource: 'posts', foreignKey }] } } }),
+      makeResource({ table: teams, tableName: 'teams', routePath: 'teams' }),
+      makeResource({ table: posts, tableName: 'posts', routePath: 'posts' }),
+    ]
+
+    expect(validateResources(resources('authorId'), postgresqlAdapter)).toEqual([])
+    expect(validateResources(resources('teamId'), postgresqlAdapter)).toEqual([
+      expect.stringContaining('foreignKey "teamId", which is not a foreign key of "posts" referencing "users"'),
+    ])
+  })
 })
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest'
+import { bigint, boolean, date, jsonb, pgEnum, pgTable, real, serial, text, timestamp, uuid } from 'drizzle-orm/pg-core'
+import { buildOpenApiDocument, columnSchema } from '@/resources/openapi.ts'
+import { postgresqlAdapter } from '@/dialects/postgresql.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ResourceDefinition, ResourceOptions } from '@/resources/types.ts'
+
+const statusEnum = pgEnum('order_status', ['open', 'shipped'])
+
+const orders = pgTable('order_items', {
+  id: serial('id').primaryKey(),
+  reference: uuid('reference').notNull().defaultRandom(),
+  status: statusEnum('status').notNull(),
+  note: text('note'),
+  quantity: bigint('quantity', { mode: 'number' }).notNull(),
+  weight: real('weight'),
+  gift: boolean('gift').notNull().default(false),
+  shipOn: date('ship_on'),
+  meta: jsonb('meta'),
+  passwordHint: text('password_hint'),
+  createdAt: timestamp('created_at').notNull().defaultNow(),
+  updatedAt: timestamp('updated_at').notNull().defaultNow(),
+})
+
+function makeResource(options: ResourceOptions = {}): ResourceDefinition {
+  return {
+    table: orders,
+    tableName: 'order_items',
+    routePath: 'order-items',
+    displayName: 'Order Item',
+    options,
+  }
+}
+
+function build(options: ResourceOptions = {}, roles?: string[]) {
+  return buildOpenApiDocument({
+    resources: [makeResource(options)],
+    adapter: postgresqlAdapter,
+    serverUrl: '/admin/api',
+    admin: { adminId: 1, email: 'admin@test.com', roles },
+  })
+}
+
+function makeColumn(overrides: Partial<ColumnMeta> = {}): ColumnMeta {
+  return {
+    name: 'title',
+    sqlName: 'title',
+    dataType: 'text',
+    isNullable: false,
+    isPrimaryKey: false,
+    hasDefault: false,
+    ...overrides,
+  }
+}
+
+describe('columnSchema', () => {
+  it('allows null for nullable columns, including in enums', () => {
+    expect(columnSchema(makeColumn({ isNullable: true }))).toEqual({ type: ['string', 'null'] })
+    expect(columnSchema(makeColumn({ dataType: 'enum', enumValues: ['a'], isNullable: true })))
+      .toEqual({ type: ['string', 'null'], enum: ['a', null] })
+  })
+
+  it('accepts any value for JSON columns', () => {
+    expect(columnSchema(makeColumn({ dataType: 'json', isNullable: true }))).toEqual({})
+  })
+
+  it('formats timestamps, uuids and dates', () => {
+    expect(columnSchema(makeColumn({ dataType: 'timestamp' }))).toEqual({ type: 'string', format: 'date-time' })
+    expect(columnSchema(makeColumn({ sqlType: 'uuid' }))).toEqual({ type: 'string', format: 'uuid' })
+    expect(columnSchema(makeColumn({ sqlType: 'date' }))).toEqual({ type: 'string', format: 'date' })
+  })
+
+  it('tells floats and bigints from integers by SQL type', () => {
+    expect(columnSchema(makeColumn({ dataType: 'integer', sqlType: 'serial' }))).toEqual({ type: 'integer' })
+    expect(columnSchema(makeColumn({ dataType: 'integer', sqlType: 'bigint' }))).toEqual({ type: 'integer', format: 'int64' })
+    expect(columnSchema(makeColumn({ dataType: 'integer', sqlType: 'double precision' }))).toEqual({ type: 'number' })
+  })
+})
+
+describe('buildOpenApiDocument', () => {
+  it('describes the record schema from the table columns, without password columns', () => {
+    const schema = build().components.schemas.OrderItem!
+    expect(schema.properties).toEqual({
+      id: { type: 'integer' },
+      reference: { type: 'string', format: 'uuid' },
+      status: { type: 'string', enum: ['open', 'shipped'] },
+      note: { type: ['string', 'null'] },
+      quantity: { type: 'integer', format: 'int64' },
+      weight: { type: ['number', 'null'] },
+      gift: { type: 'boolean' },
+      shipOn: { type: ['string', 'null'], format: 'date' },
+      meta: {},
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' },
+    })
+    expect(schema.required).toHaveLength(11)
+  })
+
+  it('describes create and update bodies from the writable columns', () => {
+    const { schemas } = build({ permitParams: ['status', 'note', 'quantity', 'gift'] }).components
+    expect(Object.keys(schemas.OrderItemCreate!.properties!)).toEqual(['status', 'note', 'quantity', 'gift'])
+    expect(schemas.OrderItemCreate!.required).toEqual(['status', 'quantity'])
+    expect(Object.keys(schemas.OrderItemUpdate!.properties!)).toEqual(['status', 'note', 'quantity', 'gift'])
+    expect(schemas.OrderItemUpdate!.required).toBeUndefined()
+  })
+
+  it('describes the list, record and token endpoints', () => {
+    const document = build({ index: { search: ['note'], filters: ['status'] }, scopes: [{ name: 'Open', where: () => undefined }] })
+    expect(document.openapi).toBe('3.1.0')
+    expect(document.servers).toEqual([{ url: '/admin/api' }])
+    expect(Object.keys(document.paths)).toEqual(['/token', '/order-items', '/order-items/{id}'])
+    expect(Object.keys(document.paths['/order-items/{id}']!)).toEqual(['get', 'patch', 'put', 'delete'])
+    expect(document.paths['/token']!.post!.security).toEqual([])
+
+    const list = document.paths['/order-items']!.get!
+    expect(list.operationId).toBe('listOrderItems')
+    expect(list.parameters!.map(param => param.name)).toEqual(
+      ['page', 'perPage', 'q', 'sort', 'dir', 'scope', 'filter[status][contains]', 'filter[status][eq]'],
+    )
+    expect(list.parameters!.find(param => param.name === 'filter[status][eq]')!.schema.enum).toEqual(['open', 'shipped'])
+  })
+
+  it('describes member and collection action endpoints', () => {
+    const document = build({
+      memberActions: [{ name: 'Mark Shipped', handler: async () => {} }],
+      collectionActions: [{ name: 'Export CSV', handler: async () => {} }],
+    })
+    expect(document.paths['/order-items/{id}/actions/mark-shipped']!.post!.operationId).toBe('runMarkShippedOnOrderItem')
+    expect(document.paths['/order-items/actions/export-csv']!.post!.operationId).toBe('runExportCSVOnOrderItems')
+  })
+
+  it('leaves out resources, operations and actions the admin may not use', () => {
+    const document = build({
+      permissions: { create: ['editor'], delete: ['editor'], actions: { 'Mark Shipped': ['editor'] } },
+      memberActions: [{ name: 'Mark Shipped', handler: async () => {} }],
+    }, ['viewer'])
+    expect(document.paths['/order-items']!.post).toBeUndefined()
+    expect(Object.keys(document.paths['/order-items/{id}']!)).toEqual(['get', 'patch', 'put'])
+    expect(document.paths['/order-items/{id}/actions/mark-shipped']).toBeUndefined()
+    expect(document.components.schemas.OrderItemCreate).toBeUndefined()
+
+    const hidden = build({ permissions: { read: ['editor'] } }, ['viewer'])
+    expect(Object.keys(hidden.paths)).toEqual(['/token'])
+  })
+})
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest'
+import { integer, pgTable, PgDialect, primaryKey, serial, text } from 'drizzle-orm/pg-core'
+import {
+  decodeRecordId,
+  encodeRecordId,
+  getPrimaryKey,
+  recordPath,
+  recordWhere,
+} from '@/resources/primaryKey.ts'
+import { postgresqlAdapter } from '@/dialects/postgresql.ts'
+
+const articles = pgTable('articles', {
+  slug: text('slug').primaryKey(),
+  title: text('title').notNull(),
+})
+
+const memberships = pgTable('memberships', {
+  teamId: integer('team_id').notNull(),
+  userId: integer('user_id').notNull(),
+  role: text('role'),
+}, table => ({
+  pk: primaryKey({ columns: [table.teamId, table.userId] }),
+}))
+
+const posts = pgTable('posts', {
+  id: serial('id').primaryKey(),
+  title: text('title'),
+})
+
+const dialect = new PgDialect()
+const articleKey = getPrimaryKey(postgresqlAdapter.extractColumns(articles))
+const membershipKey = getPrimaryKey(postgresqlAdapter.extractColumns(memberships))
+
+describe('getPrimaryKey', () => {
+  it('returns single and composite key columns in declaration order', () => {
+    expect(articleKey.map(col => col.name)).toEqual(['slug'])
+    expect(membershipKey.map(col => col.name)).toEqual(['teamId', 'userId'])
+    expect(getPrimaryKey(postgresqlAdapter.extractColumns(posts)).map(col => col.name)).toEqual(['id'])
+  })
+})
+
+describe('encodeRecordId / decodeRecordId', () => {
+  it('uses a single key value as-is', () => {
+    expect(encodeRecordId({ slug: 'hello world', title: 'Hi' }, articleKey)).toBe('hello world')
+    expect(decodeRecordId('hello world', articleKey)).toEqual(['hello world'])
+  })
+
+  it('round-trips composite keys through a URL-safe string', () => {
+    const id = encodeRecordId({ teamId: 3, userId: 42, role: 'owner' }, membershipKey)
+    expect(id).toMatch(/^[A-Za-z0-9_-]+$/)
+    expect(decodeRecordId(id, membershipKey)).toEqual([3, 42])
+  })
+
+  it('rejects malformed composite ids', () => {
+    expect(decodeRecordId('not-json', membershipKey)).toBeUndefined()
+    const wrongLength = encodeRecordId({ teamId: 3, userId: 42, slug: 'x' }, [...membershipKey, ...articleKey])
+    expect(decodeRecordId(wrongLength, membershipKey)).toBeUndefined()
+  })
+})
+
+describe('recordWhere', () => {
+  it('matches a single key column', () => {
+    const where = recordWhere(articles, articleKey, 'hello')
+    expect(dialect.sqlToQuery(where!)).toMatchObject({ sql: '"articles"."slug" = $1', params: ['hello'] })
+  })
+
+  it('matches every column of a composite key', () => {
+    const id = encodeRecordId({ teamId: 3, userId: 42 }, membershipKey)
+    const where = recordWhere(memberships, membershipKey, id)
+    expect(dialect.sqlToQuery(where!)).toMatchObject({
+      sql: '("memberships"."team_id" = $1 and "memberships"."user_id" = $2)',
+      params: [3, 42],
+    })
+  })
+
+  it('returns undefined for malformed ids and tables without a key', () => {
+    expect(recordWhere(memberships, membershipKey, '!!')).toBeUndefined()
+    expect(recordWhere(articles, [], 'hello')).toBeUndefined()
+  })
+})
+
+describe('recordPath', () => {
+  it('URL-encodes the record id', () => {
+    expect(recordPath({ slug: 'a/b c' }, articleKey)).toBe('a%2Fb%20c')
+  })
+})
@@ -0,0 +1,455 @@
+import { describe, it, expect } from 'vitest'
+import { eq, type SQL } from 'drizzle-orm'
+import { PgDialect, pgEnum, pgTable, serial, text, integer, boolean, timestamp } from 'drizzle-orm/pg-core'
+import {
+  parseListParams,
+  listQuery,
+  getSearchConfig,
+  buildSearchCondition,
+  buildListWhere,
+  buildFilterConditions,
+  getFilterDefinitions,
+  getActiveSort,
+  buildListOrderBy,
+  getActiveScope,
+  getScopes,
+  buildScopeCounts,
+  buildKeysetCondition,
+  getListOrder,
+} from '@/resources/query.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ResourceDefinition, ResourceOptions } from '@/resources/types.ts'
+
+const tierEnum = pgEnum('tier', ['free', 'pro'])
+
+const customers = pgTable('customers', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+  email: text('email').notNull(),
+  age: integer('age'),
+  active: boolean('active').notNull(),
+  tier: tierEnum('tier').notNull(),
+  createdAt: timestamp('created_at').notNull(),
+})
+
+const columns: ColumnMeta[] = [
+  { name: 'id', sqlName: 'id', dataType: 'integer', isNullable: false, isPrimaryKey: true, hasDefault: true },
+  { name: 'name', sqlName: 'name', dataType: 'text', isNullable: false, isPrimaryKey: false, hasDefault: false },
+  { name: 'email', sqlName: 'email', dataType: 'text', isNullable: false, isPrimaryKey: false, hasDefault: false },
+  { name: 'age', sqlName: 'age', dataType: 'integer', isNullable: true, isPrimaryKey: false, hasDefault: false },
+  { name: 'active', sqlName: 'active', dataType: 'boolean', isNullable: false, isPrimaryKey: false, hasDefault: false },
+  { name: 'tier', sqlName: 'tier', dataType: 'enum', isNullable: false, isPrimaryKey: false, hasDefault: false, enumValues: ['free', 'pro'] },
+  { name: 'createdAt', sqlName: 'created_at', dataType: 'timestamp', isNullable: false, isPrimaryKey: false, hasDefault: false },
+]
+
+function makeResource(options: ResourceOptions = {}): ResourceDefinition {
+  return {
+    table: customers,
+    tableName: 'customers',
+    routePath: 'customers',
+    displayName: 'Customer',
+    options,
+  }
+}
+
+function toQuery(condition: SQL | undefined) {
+  return new PgDialect().sqlToQuery(condition!)
+}
+
+describe('parseListParams', () => {
+  it('defaults to page 1 without a search term', () => {
+    expect(parseListParams({})).toEqual({ page: 1, q: undefined })
+  })
+
+  it('parses page and trims the search term', () => {
+    expect(parseListParams({ page: '3', q: '  alice ' })).toEqual({ page: 3, q: 'alice' })
+  })
+
+  it('falls back to page 1 for invalid page values', () => {
+    expect(parseListParams({ page: 'abc' }).page).toBe(1)
+    expect(parseListParams({ page: '-2' }).page).toBe(1)
+  })
+
+  it('treats a blank search term as absent', () => {
+    expect(parseListParams({ q: '   ' }).q).toBeUndefined()
+  })
+
+  it('parses filter parameters', () => {
+    const params = parseListParams({
+      'filter[age][gte]': '18',
+      'filter[age][lte]': '65',
+      'filter[name][contains]': 'ali',
+    })
+    expect(params.filters).toEqual({ age: { gte: '18', lte: '65' }, name: { contains: 'ali' } })
+  })
+
+  it('parses the scope slug', () => {
+    expect(parseListParams({ scope: 'pending' }).scope).toBe('pending')
+  })
+
+  it('parses sort column and direction', () => {
+    expect(parseListParams({ sort: 'name', dir: 'desc' }).sort).toEqual({ column: 'name', direction: 'desc' })
+  })
+
+  it('defaults the sort direction to ascending', () => {
+    expect(parseListParams({ sort: 'name', dir: 'sideways' }).sort).toEqual({ column: 'name', direction: 'asc' })
+  })
+
+  it('ignores empty filter values and unknown operators', () => {
+    const params = parseListParams({ 'filter[age][gte]': '', 'filter[age][regex]': '.*' })
+    expect(params.filters).toBeUndefined()
+  })
+})
+
+describe('listQuery', () => {
+  it('omits the page and empty values', () => {
+    expect(listQuery({ page: 2 })).toEqual({})
+  })
+
+  it('includes the search term', () => {
+    expect(listQuery({ page: 2, q: 'bob' })).toEqual({ q: 'bob' })
+  })
+
+  it('serializes the scope', () => {
+    expect(listQuery({ page: 1, scope: 'pending' })).toEqual({ scope: 'pending' })
+  })
+
+  it('serializes the sort as sort and dir', () => {
+    expect(listQuery({ page: 1, sort: { column: 'age', direction: 'desc' } })).toEqual({ sort: 'age', dir: 'desc' })
+  })
+
+  it('serializes filters as filter[column][op] entries', () => {
+    expect(listQuery({ page: 1, filters: { age: { gte: '18' } } })).toEqual({ 'filter[age][gte]': '18' })
+  })
+})
+
+describe('getFilterDefinitions', () => {
+  it('derives widget types from column metadata', () => {
+    const resource = makeResource({ index: { filters: ['name', 'age', 'active', 'tier', 'createdAt'] } })
+    const types = getFilterDefinitions(resource, columns).map(f => f.type)
+    expect(types).toEqual(['text', 'number', 'boolean', 'enum', 'timestamp'])
+  })
+
+  it('accepts filter objects with label and type overrides', () => {
+    const resource = makeResource({ index: { filters: [{ column: 'age', label: 'Years', type: 'text' }] } })
+    const [filter] = getFilterDefinitions(resource, columns)
+    expect(filter.label).toBe('Years')
+    expect(filter.operators).toEqual(['contains', 'eq'])
+  })
+
+  it('drops filters for unknown columns', () => {
+    const resource = makeResource({ index: { filters: ['missing'] } })
+    expect(getFilterDefinitions(resource, columns)).toEqual([])
+  })
+})
+
+describe('buildFilterConditions', () => {
+  const resource = makeResource({ index: { filters: ['name', 'age', 'active', 'tier', 'createdAt'] } })
+
+  function render(filters: Parameters<typeof buildFilterConditions>[2]) {
+    return buildFilterConditions(resource, columns, filters).map(toQuery)
+  }
+
+  it('returns no conditions without filters', () => {
+    expect(render(undefined)).toEqual([])
+  })
+
+  it('builds a contains predicate for text filters', () => {
+    const [query] = render({ name: { contains: 'ali' } })
+    expect(query.sql).toBe('"customers"."name"::text ilike $1')
+    expect(query.params).toEqual(['%ali%'])
+  })
+
+  it('builds an equality predicate for text filters', () => {
+    const [query] = render({ name: { eq: 'Alice' } })
+    expect(query.sql).toBe('"customers"."name" = $1')
+  })
+
+  it('builds range predicates for number filters', () => {
+    const queries = render({ age: { gte: '18', lte: '65' } })
+    expect(queries.map(q => q.sql)).toEqual(['"customers"."age" >= $1', '"customers"."age" <= $1'])
+    expect(queries.map(q => q.params)).toEqual([[18], [65]])
+  })
+
+  it('ignores non-numeric values for number filters', () => {
+    expect(render({ age: { gte: 'abc' } })).toEqual([])
+  })
+
+  it('parses boolean filters', () => {
+    const [query] = render({ active: { eq: 'false' } })
+    expect(query.params).toEqual([false])
+  })
+
+  it('only accepts known enum values', () => {
+    expect(render({ tier: { eq: 'enterprise' } })).toEqual([])
+    expect(render({ tier: { eq: 'pro' } })).toHaveLength(1)
+  })
+
+  it('builds before/after predicates for timestamp filters', () => {
+    const queries = render({ createdAt: { gte: '2024-01-01T00:00', lte: 'not a date' } })
+    expect(queries).toHaveLength(1)
+    expect(queries[0].sql).toBe('"customers"."created_at" >= $1')
+  })
+
+  it('ignores columns that are not configured as filters', () => {
+    const unfiltered = makeResource({ index: { filters: ['age'] } })
+    expect(buildFilterConditions(unfiltered, columns, { name: { eq: 'Alice' } })).toEqual([])
+  })
+})
+
+describe('getSearchConfig', () => {
+  it('returns undefined when search is not configured', () => {
+    expect(getSearchConfig(makeResource())).toBeUndefined()
+  })
+
+  it('normalizes a column list', () => {
+    const resource = makeResource({ index: { search: ['name'] } })
+    expect(getSearchConfig(resource)).toEqual({ columns: ['name'] })
+  })
+})
+
+describe('buildSearchCondition', () => {
+  it('returns undefined without a search term', () => {
+    const resource = makeResource({ index: { search: ['name'] } })
+    expect(buildSearchCondition(resource, columns, undefined)).toBeUndefined()
+  })
+
+  it('returns undefined when the resource is not searchable', () => {
+    expect(buildSearchCondition(makeResource(), columns, 'alice')).toBeUndefined()
+  })
+
+  it('builds an ILIKE predicate across every search column', () => {
+    const resource = makeResource({ index: { search: ['name', 'email'] } })
+    const query = toQuery(buildSearchCondition(resource, columns, 'alice'))
+    expect(query.sql).toBe('("customers"."name"::text ilike $1 or "customers"."email"::text ilike $2)')
+    expect(query.params).toEqual(['%alice%', '%alice%'])
+  })
+
+  it('escapes LIKE wildcards in the search term', () => {
+    const resource = makeResource({ index: { search: ['name'] } })
+    const query = toQuery(buildSearchCondition(resource, columns, '50%_off'))
+    expect(query.params).toEqual(['%50\\%\\_off%'])
+  })
+
+  it('casts non-text columns to text', () => {
+    const resource = makeResource({ index: { search: ['age'] } })
+    const query = toQuery(buildSearchCondition(resource, columns, '42'))
+    expect(query.sql).toContain('"customers"."age"::text ilike')
+  })
+
+  it('ignores columns that do not exist', () => {
+    const resource = makeResource({ index: { search: ['nope'] } })
+    expect(buildSearchCondition(resource, columns, 'alice')).toBeUndefined()
+  })
+
+  it('uses to_tsvector in fulltext mode', () => {
+    const resource = makeResource({
+      index: { search: { columns: ['name', 'email'], mode: 'fulltext', language: 'english' } },
+    })
+    const query = toQuery(buildSearchCondition(resource, columns, 'alice smith'))
+    expect(query.sql).toContain('to_tsvector($1::regconfig')
+    expect(query.sql).toContain('plainto_tsquery($2::regconfig, $3)')
+    expect(query.params).toEqual(['english', 'english', 'alice smith'])
+  })
+})
+
+describe('buildListWhere', () => {
+  it('returns undefined for an unfiltered listing', () => {
+    expect(buildListWhere(makeResource({ index: { search: ['name'] } }), columns, { page: 1 })).toBeUndefined()
+  })
+
+  it('includes the search condition', () => {
+    const resource = makeResource({ index: { search: ['name'] } })
+    const query = toQuery(buildListWhere(resource, columns, { page: 1, q: 'alice' }))
+    expect(query.sql).toContain('ilike')
+  })
+
+  it('combines search and filters with AND', () => {
+    const resource = makeResource({ index: { search: ['name'], filters: ['age'] } })
+    const query = toQuery(buildListWhere(resource, columns, { page: 1, q: 'alice', filters: { age: { gte: '18' } } }))
+    expect(query.sql).toBe('("customers"."name"::text ilike $1 and "customers"."age" >= $2)')
+  })
+})
+
+describe('getActiveSort', () => {
+  it('returns the requested sort for a known column', () => {
+    const sort = getActiveSort(makeResource(), columns, { page: 1, sort: { column: 'age', direction: 'desc' } })
+    expect(sort).toEqual({ column: 'age', direction: 'desc' })
+  })
+
+  it('rejects unknown columns', () => {
+    expect(getActiveSort(makeResource(), columns, { page: 1, sort: { column: 'nope', direction: 'asc' } })).toBeUndefined()
+  })
+
+  it('rejects password columns', () => {
+    const withPassword = [...columns, { ...columns[1], name: 'passwordHash', sqlName: 'password_hash' }]
+    expect(getActiveSort(makeResource(), withPassword, { page: 1, sort: { column: 'passwordHash', direction: 'asc' } })).toBeUndefined()
+  })
+
+  it('rejects json columns but not jsonb ones', () => {
+    const withJson: ColumnMeta[] = [
+      ...columns,
+      { name: 'meta', sqlName: 'meta', dataType: 'json', sqlType: 'json', isNullable: true, isPrimaryKey: false, hasDefault: false },
+      { name: 'tags', sqlName: 'tags', dataType: 'json', sqlType: 'jsonb', isNullable: true, isPrimaryKey: false, hasDefault: false },
+    ]
+    expect(getActiveSort(makeResource(), withJson, { page: 1, sort: { column: 'meta', direction: 'asc' } })).toBeUndefined()
+    expect(getActiveSort(makeResource(), withJson, { page: 1, sort: { column: 'tags', direction: 'asc' } })).toEqual({ column: 'tags', direction: 'asc' })
+  })
+
+  it('falls back to defaultSort', () => {
+    const resource = makeResource({ index: { defaultSort: { column: 'createdAt', direction: 'desc' } } })
+    expect(getActiveSort(resource, columns, { page: 1 })).toEqual({ column: 'createdAt', direction: 'desc' })
+  })
+
+  it('defaults the defaultSort direction to ascending', () => {
+    const resource = makeResource({ index: { defaultSort: { column: 'name' } } })
+    expect(getActiveSort(resource, columns, { page: 1 })).toEqual({ column: 'name', direction: 'asc' })
+  })
+})
+
+describe('buildListOrderBy', () => {
+  function render(resource: ResourceDefinition, params: Parameters<typeof buildListOrderBy>[2]) {
+    return buildListOrderBy(resource, columns, params).map(order => toQuery(order).sql)
+  }
+
+  it('orders by primary key when no sort is active', () => {
+    expect(render(makeResource(), { page: 1 })).toEqual(['"customers"."id" asc'])
+  })
+
+  it('orders by the sort column with a primary key tiebreaker', () => {
+    expect(render(makeResource(), { page: 1, sort: { column: 'name', direction: 'desc' } }))
+      .toEqual(['"customers"."name" desc', '"customers"."id" asc'])
+  })
+
+  it('does not repeat the primary key when sorting by it', () => {
+    expect(render(makeResource(), { page: 1, sort: { column: 'id', direction: 'desc' } }))
+      .toEqual(['"customers"."id" desc'])
+  })
+
+  it('uses defaultSort when no sort is requested', () => {
+    const resource = makeResource({ index: { defaultSort: { column: 'age', direction: 'desc' } } })
+    expect(render(resource, { page: 1 })).toEqual(['"customers"."age" desc', '"customers"."id" asc'])
+  })
+})
+
+describe('buildKeysetCondition', () => {
+  const byAge = [{ column: 'age', direction: 'desc' as const }, { column: 'id', direction: 'asc' as const }]
+
+  it('resumes after the last primary key', () => {
+    const query = toQuery(buildKeysetCondition(customers, [{ column: 'id', direction: 'asc' }], ['42']))
+    expect(query.sql).toBe('("customers"."id" > $1::integer or "customers"."id" is null)')
+    expect(query.params).toEqual(['42'])
+  })
+
+  it('compares the sort column, then the tiebreaker among equal values', () => {
+    const query = toQuery(buildKeysetCondition(customers, byAge, ['30', '7']))
+    expect(query.sql).toBe(
+      '("customers"."age" < $1::integer or ("customers"."age" = $2::integer and ("customers"."id" > $3::integer or "customers"."id" is null)))',
+    )
+    expect(query.params).toEqual(['30', '30', '7'])
+  })
+
+  it('continues past NULLs, which sort first descending', () => {
+    const query = toQuery(buildKeysetCondition(customers, byAge, [null, '7']))
+    expect(query.sql).toBe(
+      '("customers"."age" is not null or ("customers"."age" is null and ("customers"."id" > $1::integer or "customers"."id" is null)))',
+    )
+  })
+
+  it('casts cursor values back to timestamps', () => {
+    const query = toQuery(buildKeysetCondition(customers, [{ column: 'createdAt', direction: 'asc' }], ['2024-01-01 00:00:00.123456']))
+    expect(query.sql).toContain('"customers"."created_at" > $1::timestamp')
+  })
+})
+
+describe('getListOrder', () => {
+  it('lists the sort column and the primary key tiebreaker', () => {
+    expect(getListOrder(makeResource(), columns, { page: 1, sort: { column: 'name', direction: 'desc' } }))
+      .toEqual([{ column: 'name', direction: 'desc' }, { column: 'id', direction: 'asc' }])
+  })
+})
+
+describe('getActiveScope', () => {
+  const scopes = [
+    { name: 'All' },
+    { name: 'Active Users', where: () => eq(customers.active, true), default: true },
+    { name: 'Pro', where: () => eq(customers.tier, 'pro') },
+  ]
+
+  it('returns undefined without scopes', () => {
+    expect(getActiveScope(makeResource(), { page: 1, scope: 'all' })).toBeUndefined()
+  })
+
+  it('selects the scope matching the slug', () => {
+    expect(getActiveScope(makeResource({ scopes }), { page: 1, scope: 'pro' })?.name).toBe('Pro')
+  })
+
+  it('falls back to the default scope', () => {
+    expect(getActiveScope(makeResource({ scopes }), { page: 1 })?.name).toBe('Active Users')
+    expect(getActiveScope(makeResource({ scopes }), { page: 1, scope: 'unknown' })?.name).toBe('Active Users')
+  })
+
+  it('returns undefined when nothing matches and there is no default', () => {
+    expect(getActiveScope(makeResource({ scopes: [{ name: 'All' }] }), { page: 1 })).toBeUndefined()
+  })
+})
+
+describe('scoped listings', () => {
+  const scopes = [
+    { name: 'All' },
+    { name: 'Pro', where: () => eq(customers.tier, 'pro') },
+  ]
+
+  it('applies the active scope in buildListWhere', () => {
+    const resource = makeResource({ scopes, index: { filters: ['age'] } })
+    const query = toQuery(buildListWhere(resource, columns, { page: 1, scope: 'pro', filters: { age: { gte: '18' } } }))
+    expect(query.sql).toBe('("customers"."age" >= $1 and "customers"."tier" = $2)')
+  })
+
+  it('builds one count per scope combined with search and filters', () => {
+    const resource = makeResource({ scopes, index: { search: ['name'] } })
+    const counts = buildScopeCounts(resource, columns, { page: 1, q: 'ali', scope: 'pro' })
+    expect(Object.keys(counts)).toEqual(['all', 'pro'])
+    expect(toQuery(counts.all).sql).toBe('count(*) filter (where "customers"."name"::text ilike $1)')
+    expect(toQuery(counts.pro).sql).toBe('count(*) filter (where ("customers"."name"::text ilike $1 and "customers"."tier" = $2))')
+  })
+
+  it('counts every row for an unconditioned scope without search or filters', () => {
+    const counts = buildScopeCounts(makeResource({ scopes }), columns, { page: 1 })
+    expect(toQuery(counts.all).sql).toBe('count(*)')
+  })
+})
+
+describe('soft-deleted listings', () => {
+  const articles = pgTable('articles', {
+    id: serial('id').primaryKey(),
+    title: text('title').notNull(),
+    deletedAt: timestamp('deleted_at'),
+  })
+  const articleColumns = columns.slice(0, 1)
+
+  function makeArticles(options: ResourceOptions = {}): ResourceDefinition {
+    return { ...makeResource({ softDelete: { column: 'deletedAt' }, ...options }), table: articles, tableName: 'articles' }
+  }
+
+  it('adds an All tab and a Trash tab', () => {
+    expect(getScopes(makeArticles()).map(scope => scope.name)).toEqual(['All', 'Trash'])
+    expect(getScopes(makeArticles({ scopes: [{ name: 'Drafts' }] })).map(scope => scope.name)).toEqual(['Drafts', 'Trash'])
+    expect(getScopes(makeResource()).map(scope => scope.name)).toEqual([])
+  })
+
+  it('excludes soft-deleted records outside the Trash tab', () => {
+    expect(toQuery(buildListWhere(makeArticles(), articleColumns, { page: 1 })).sql).toBe('"articles"."deleted_at" is null')
+  })
+
+  it('lists only soft-deleted records in the Trash tab', () => {
+    const query = toQuery(buildListWhere(makeArticles(), articleColumns, { page: 1, scope: 'trash' }))
+    expect(query.sql).toBe('"articles"."deleted_at" is not null')
+  })
+
+  it('counts live and trashed records per tab', () => {
+    const counts = buildScopeCounts(makeArticles(), articleColumns, { page: 1 })
+    expect(toQuery(counts.all).sql).toBe('count(*) filter (where "articles"."deleted_at" is null)')
+    expect(toQuery(counts.trash).sql).toBe('count(*) filter (where "articles"."deleted_at" is not null)')
+  })
+})
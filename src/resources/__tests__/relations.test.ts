@@ -0,0 +1,292 @@
+import { describe, it, expect, vi } from 'vitest'
+import { eq } from 'drizzle-orm'
+import { integer, pgTable, serial, text } from 'drizzle-orm/pg-core'
+import {
+  getDisplayField,
+  loadRelationFields,
+  loadRelationLabels,
+  loadRelationPanels,
+  LOOKUP_THRESHOLD,
+  lookupValueColumns,
+  resolveBelongsTo,
+  resolveHasMany,
+} from '@/resources/relations.ts'
+import { postgresqlAdapter } from '@/dialects/postgresql.ts'
+import type { ColumnMeta, DialectAdapter } from '@/dialects/types.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { AnyPgDatabase } from '@/types.ts'
+
+const admin: AdminTokenPayload = { adminId: 1, email: 'admin@test.com', roles: ['editor'] }
+
+const users = pgTable('users', {
+  id: serial('id').primaryKey(),
+  name: text('name').notNull(),
+})
+
+const posts = pgTable('posts', {
+  id: serial('id').primaryKey(),
+  title: text('title').notNull(),
+  authorId: integer('author_id').references(() => users.id),
+})
+
+function makeColumn(overrides: Partial<ColumnMeta> = {}): ColumnMeta {
+  return {
+    name: 'title',
+    sqlName: 'title',
+    dataType: 'text',
+    isNullable: false,
+    isPrimaryKey: false,
+    hasDefault: false,
+    ...overrides,
+  }
+}
+
+const userColumns = [
+  makeColumn({ name: 'id', isPrimaryKey: true, dataType: 'integer' }),
+  makeColumn({ name: 'name' }),
+]
+
+const authorId = makeColumn({
+  name: 'authorId',
+  sqlName: 'author_id',
+  dataType: 'integer',
+  isNullable: true,
+  references: { table: 'users', column: 'id' },
+})
+
+const usersResource: ResourceDefinition = {
+  table: users,
+  tableName: 'users',
+  routePath: 'users',
+  displayName: 'User',
+  options: {},
+}
+
+const adapter: DialectAdapter = {
+  name: 'postgresql',
+  extractColumns: () => userColumns,
+}
+
+// Resolves every query with the next queued result, recording the calls made
+// and the conditions passed to `where`
+function makeDb(results: unknown[][]) {
+  const calls: string[] = []
+  const wheres: unknown[] = []
+  const chain: Record<string, unknown> = {}
+  for (const method of ['from', 'where', 'orderBy', 'limit', 'offset']) {
+    chain[method] = (arg: unknown) => {
+      calls.push(method)
+      if (method === 'where') wheres.push(arg)
+      return chain
+    }
+  }
+  chain.then = (resolve: (v: unknown) => void) => resolve(results.shift() ?? [])
+  const db = { select: () => chain } as unknown as AnyPgDatabase
+  return { db, calls, wheres }
+}
+
+describe('getDisplayField', () => {
+  it('uses the displayField option when it names a column', () => {
+    const resource = { ...usersResource, options: { displayField: 'id' } }
+    expect(getDisplayField(resource, userColumns)).toBe('id')
+  })
+
+  it('falls back to a conventional name column', () => {
+    expect(getDisplayField(usersResource, userColumns)).toBe('name')
+  })
+
+  it('ignores a displayField that is not a column', () => {
+    const resource = { ...usersResource, options: { displayField: 'nickname' } }
+    expect(getDisplayField(resource, userColumns)).toBe('name')
+  })
+
+  it('falls back to the primary key', () => {
+    const columns = [makeColumn({ name: 'uuid', isPrimaryKey: true }), makeColumn({ name: 'body' })]
+    expect(getDisplayField(usersResource, columns)).toBe('uuid')
+  })
+})
+
+describe('resolveBelongsTo', () => {
+  it('resolves foreign key columns to their resources', () => {
+    const relations = resolveBelongsTo([makeColumn(), authorId], [usersResource], adapter)
+    expect(relations).toHaveLength(1)
+    expect(relations[0]).toMatchObject({
+      column: authorId,
+      resource: usersResource,
+      targetColumn: 'id',
+      displayField: 'name',
+    })
+  })
+
+  it('resolves foreign keys declared on a Drizzle table', () => {
+    const relations = resolveBelongsTo(postgresqlAdapter.extractColumns(posts), [usersResource], postgresqlAdapter)
+    expect(relations.map(r => [r.column.name, r.targetColumn, r.displayField])).toEqual([['authorId', 'id', 'name']])
+  })
+
+  it('skips foreign keys to tables without a resource', () => {
+    expect(resolveBelongsTo([authorId], [], adapter)).toEqual([])
+  })
+})
+
+describe('lookupValueColumns', () => {
+  it('allows the primary key and columns that foreign keys reference', () => {
+    const postsResource: ResourceDefinition = { table: posts, tableName: 'posts', routePath: 'posts', displayName: 'Post', options: {} }
+    const bySlug: DialectAdapter = {
+      name: 'postgresql',
+      extractColumns: (table) => table === posts ? [{ ...authorId, references: { table: 'users', column: 'name' } }] : userColumns,
+    }
+    expect(lookupValueColumns(usersResource, userColumns, [usersResource, postsResource], bySlug)).toEqual(['id', 'name'])
+    expect(lookupValueColumns(usersResource, userColumns, [usersResource], bySlug)).toEqual(['id'])
+  })
+})
+
+describe('loadRelationLabels', () => {
+  const relations = resolveBelongsTo([authorId], [usersResource], adapter)
+
+  it('maps referenced ids to labels', async () => {
+    const { db } = makeDb([[{ value: 1, label: 'Ada', pk0: 1 }, { value: 2, label: null, pk0: 2 }]])
+    const links = await loadRelationLabels(db, admin, relations, [{ authorId: 1 }, { authorId: 2 }, { authorId: 1 }])
+    expect(links.authorId).toEqual({ routePath: 'users', labels: { 1: 'Ada', 2: '#2' }, ids: { 1: '1', 2: '2' } })
+  })
+
+  it('links to the referenced record when the key is not its primary key', async () => {
+    const bySlug = resolveBelongsTo(
+      [{ ...authorId, dataType: 'text', references: { table: 'users', column: 'name' } }],
+      [usersResource],
+      adapter,
+    )
+    const { db } = makeDb([[{ value: 'ada', label: 'ada', pk0: 7 }]])
+    const links = await loadRelationLabels(db, admin, bySlug, [{ authorId: 'ada' }])
+    expect(links.authorId!.ids).toEqual({ ada: '7' })
+  })
+
+  it('skips the query when no record references anything', async () => {
+    const { db, calls } = makeDb([])
+    const links = await loadRelationLabels(db, admin, relations, [{ authorId: null }])
+    expect(calls).toEqual([])
+    expect(links.authorId!.labels).toEqual({})
+  })
+
+  it('leaves out resources the admin cannot read', async () => {
+    const restricted = resolveBelongsTo([authorId], [{ ...usersResource, options: { permissions: { read: ['owner'] } } }], adapter)
+    const { db, calls } = makeDb([])
+    expect(await loadRelationLabels(db, admin, restricted, [{ authorId: 1 }])).toEqual({})
+    expect(await loadRelationFields(db, admin, restricted, undefined, '')).toEqual({})
+    expect(calls).toEqual([])
+  })
+})
+
+describe('loadRelationFields', () => {
+  const relations = resolveBelongsTo([authorId], [usersResource], adapter)
+
+  it('lists every record for small tables', async () => {
+    const { db } = makeDb([[{ count: 2 }], [{ value: 1, label: 'Ada' }, { value: 2, label: 'Grace' }]])
+    const fields = await loadRelationFields(db, admin, relations, undefined, '/admin')
+    expect(fields.authorId).toEqual({
+      options: [{ value: '1', label: 'Ada' }, { value: '2', label: 'Grace' }],
+      lookupUrl: '/admin/users/lookup?value=id',
+    })
+  })
+
+  it('counts and lists only live records of soft-deleting resources', async () => {
+    const softUsers = pgTable('users', { id: serial('id').primaryKey(), name: text('name').notNull(), deletedAt: text('deleted_at') })
+    const softRelations = resolveBelongsTo(
+      [authorId],
+      [{ ...usersResource, table: softUsers, options: { softDelete: { column: 'deletedAt' } } }],
+      adapter,
+    )
+    const { db, wheres } = makeDb([[{ count: 1 }], [{ value: 1, label: 'Ada' }]])
+    await loadRelationFields(db, admin, softRelations, undefined, '')
+    expect(wheres).toHaveLength(2)
+    expect(wheres.every(where => where !== undefined)).toBe(true)
+  })
+
+  it('limits the count and options to the policy scope', async () => {
+    const scopeQuery = vi.fn(() => eq(users.id, 1))
+    const scoped = resolveBelongsTo([authorId], [{ ...usersResource, options: { policy: { scopeQuery } } }], adapter)
+    const { db, wheres } = makeDb([[{ count: 1 }], [{ value: 1, label: 'Ada' }]])
+    await loadRelationFields(db, admin, scoped, undefined, '')
+    expect(scopeQuery).toHaveBeenCalledTimes(2)
+    expect(scopeQuery).toHaveBeenCalledWith(admin)
+    expect(wheres.every(where => where !== undefined)).toBe(true)
+  })
+
+  it('uses a lookup with the selected label for large tables', async () => {
+    const { db } = makeDb([[{ count: LOOKUP_THRESHOLD + 1 }], [{ value: 7, label: 'Linus' }]])
+    const fields = await loadRelationFields(db, admin, relations, { authorId: 7 }, '')
+    expect(fields.authorId).toEqual({ lookupUrl: '/users/lookup?value=id', selectedLabel: 'Linus' })
+  })
+})
+
+describe('resolveHasMany', () => {
+  const postsResource: ResourceDefinition = {
+    table: posts,
+    tableName: 'posts',
+    routePath: 'posts',
+    displayName: 'Post',
+    options: {},
+  }
+
+  function withPanels(panels: NonNullable<NonNullable<ResourceDefinition['options']['show']>['panels']>): ResourceDefinition {
+    return { ...usersResource, options: { show: { panels } } }
+  }
+
+  it('infers the foreign key from the child table', () => {
+    const [relation] = resolveHasMany(withPanels([{ resource: 'posts' }]), [usersResource, postsResource], postgresqlAdapter)
+    expect(relation).toMatchObject({
+      key: 'posts',
+      label: 'Posts',
+      resource: postsResource,
+      foreignKey: 'authorId',
+      targetColumn: 'id',
+      perPage: 5,
+    })
+  })
+
+  it('honours an explicit foreign key, label and page size', () => {
+    const [relation] = resolveHasMany(
+      withPanels([{ resource: 'posts', foreignKey: 'authorId', label: 'Written Posts', perPage: 10 }]),
+      [postsResource],
+      postgresqlAdapter,
+    )
+    expect(relation).toMatchObject({ key: 'written-posts', label: 'Written Posts', foreignKey: 'authorId', perPage: 10 })
+  })
+
+  it('skips unknown resources and children without a foreign key', () => {
+    const resource = withPanels([{ resource: 'comments' }, { resource: 'posts', foreignKey: 'missing' }])
+    expect(resolveHasMany(resource, [postsResource], postgresqlAdapter)).toEqual([])
+  })
+
+  it('skips an explicit foreign key referencing another table', () => {
+    const resource = { ...postsResource, options: { show: { panels: [{ resource: 'posts', foreignKey: 'authorId' }] } } }
+    expect(resolveHasMany(resource, [postsResource], postgresqlAdapter)).toEqual([])
+  })
+})
+
+describe('loadRelationPanels', () => {
+  const postsResource: ResourceDefinition = {
+    table: posts,
+    tableName: 'posts',
+    routePath: 'posts',
+    displayName: 'Post',
+    options: {},
+  }
+  const usersWithPanels = { ...usersResource, options: { show: { panels: [{ resource: 'posts', perPage: 2 }] } } }
+  const relations = resolveHasMany(usersWithPanels, [postsResource], postgresqlAdapter)
+
+  it('loads the requested page of child records', async () => {
+    const { db, calls } = makeDb([[{ count: 5 }], [{ id: 3, title: 'Third' }, { id: 4, title: 'Fourth' }]])
+    const [panel] = await loadRelationPanels(db, admin, relations, { id: 1, name: 'Ada' }, { 'page[posts]': '2' })
+    expect(panel).toMatchObject({ currentPage: 2, totalPages: 3, parentValue: 1 })
+    expect(panel!.records).toHaveLength(2)
+    expect(calls).toContain('offset')
+  })
+
+  it('returns an empty panel without querying when the parent value is missing', async () => {
+    const { db, calls } = makeDb([])
+    const [panel] = await loadRelationPanels(db, admin, relations, { name: 'Ada' }, {})
+    expect(panel).toMatchObject({ records: [], totalPages: 0 })
+    expect(calls).toEqual([])
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi } from 'vitest'
+import { FORM_ERROR_KEY, mapConstraintError, validateValues } from '@/resources/validation.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { StandardSchemaIssue, StandardSchemaV1, ValidationContext } from '@/resources/types.ts'
+import type { AnyPgDatabase } from '@/types.ts'
+
+const context: ValidationContext = { action: 'create', db: {} as AnyPgDatabase }
+
+function makeSchema(
+  validate: (value: unknown) => { value: unknown } | { issues: StandardSchemaIssue[] },
+): StandardSchemaV1 {
+  return { '~standard': { version: 1, vendor: 'test', validate } }
+}
+
+function makeColumn(overrides: Partial<ColumnMeta> = {}): ColumnMeta {
+  return {
+    name: 'title',
+    sqlName: 'title',
+    dataType: 'text',
+    isNullable: false,
+    isPrimaryKey: false,
+    hasDefault: false,
+    ...overrides,
+  }
+}
+
+describe('validateValues', () => {
+  it('passes values through when no validator is configured', async () => {
+    const result = await validateValues(undefined, { title: 'Hi' }, context)
+    expect(result).toEqual({ values: { title: 'Hi' } })
+  })
+
+  it('returns the errors of a validate function', async () => {
+    const validate = vi.fn().mockReturnValue({ title: 'is too short' })
+    const result = await validateValues(validate, { title: 'Hi' }, context)
+    expect(result.errors).toEqual({ title: 'is too short' })
+    expect(validate).toHaveBeenCalledWith({ title: 'Hi' }, context)
+  })
+
+  it('treats an empty error map from a function as valid', async () => {
+    const result = await validateValues(async () => ({}), { title: 'Hi' }, context)
+    expect(result.errors).toBeUndefined()
+  })
+
+  it('keys Standard Schema issues by the first path segment', async () => {
+    const schema = makeSchema(() => ({
+      issues: [
+        { message: 'Too short', path: ['title'] },
+        { message: 'Also bad', path: ['title'] },
+        { message: 'Invalid email', path: [{ key: 'email' }, 'domain'] },
+        { message: 'Dates overlap' },
+      ],
+    }))
+    const result = await validateValues(schema, { title: 'Hi' }, context)
+    expect(result.errors).toEqual({
+      title: 'Too short',
+      email: 'Invalid email',
+      [FORM_ERROR_KEY]: 'Dates overlap',
+    })
+  })
+
+  it('merges the parsed schema output over the submitted values', async () => {
+    const schema = makeSchema(() => ({ value: { title: 'Trimmed' } }))
+    const result = await validateValues(schema, { title: ' Trimmed ', body: 'Text' }, context)
+    expect(result).toEqual({ values: { title: 'Trimmed', body: 'Text' } })
+  })
+})
+
+describe('mapConstraintError', () => {
+  const columns = [
+    makeColumn({ name: 'email', sqlName: 'email' }),
+    makeColumn({ name: 'authorId', sqlName: 'author_id' }),
+  ]
+
+  it('maps unique violations using the error detail', () => {
+    const err = { code: '23505', detail: 'Key (email)=(a@b.c) already exists.' }
+    expect(mapConstraintError(err, columns)).toEqual({ email: 'has already been taken' })
+  })
+
+  it('maps not-null violations using the column field', () => {
+    expect(mapConstraintError({ code: '23502', column: 'email' }, columns)).toEqual({ email: "can't be blank" })
+  })
+
+  it('maps foreign key violations to the JavaScript column name', () => {
+    const err = { code: '23503', detail: 'Key (author_id)=(9) is not present in table "users".' }
+    expect(mapConstraintError(err, columns)).toEqual({ authorId: 'does not reference an existing record' })
+  })
+
+  it('reads postgres.js column names and wrapped causes', () => {
+    const err = new Error('Failed query', { cause: { code: '23502', column_name: 'author_id' } })
+    expect(mapConstraintError(err, columns)).toEqual({ authorId: "can't be blank" })
+  })
+
+  it('reports violations it cannot attribute to a column as a form error', () => {
+    const err = { code: '23505', detail: 'Key (email, author_id)=(a, 1) already exists.' }
+    expect(mapConstraintError(err, columns)).toEqual({ [FORM_ERROR_KEY]: 'A record with these values already exists' })
+  })
+
+  it('ignores other errors', () => {
+    expect(mapConstraintError(new Error('connection refused'), columns)).toBeUndefined()
+    expect(mapConstraintError({ code: '42P01' }, columns)).toBeUndefined()
+  })
+})
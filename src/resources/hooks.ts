@@ -0,0 +1,69 @@
+import type { AnyPgDatabase } from '@/types.ts'
+import type { BeforeWriteHook, HookContext, RecordHook, ResourceHooks } from '@/resources/types.ts'
+
+/** Wraps an error thrown by a before-hook so handlers can show it to the admin. */
+export class HookAbortError extends Error {
+  constructor(readonly hook: keyof ResourceHooks, cause: unknown) {
+    super(cause instanceof Error ? cause.message : String(cause), { cause })
+    this.name = 'HookAbortError'
+  }
+}
+
+/** Whether a resource defines any lifecycle hook. */
+export function hasHooks(hooks: ResourceHooks | undefined): hooks is ResourceHooks {
+  return !!hooks && Object.keys(hooks).length > 0
+}
+
+/**
+ * Runs a write in a transaction when `transactional` is set, so hooks and
+ * audit entries commit or roll back with the write. Otherwise the write runs
+ * directly.
+ */
+export async function withWriteTransaction<T>(
+  db: AnyPgDatabase,
+  transactional: boolean,
+  write: (tx: AnyPgDatabase) => Promise<T>,
+): Promise<T> {
+  if (!transactional) {
+    return write(db)
+  }
+  return db.transaction(tx => write(tx))
+}
+
+/**
+ * Runs a before-create or before-update hook, returning the values to write.
+ * Errors thrown by the hook are rethrown as {@link HookAbortError}.
+ */
+export async function runBeforeWrite(
+  name: 'beforeCreate' | 'beforeUpdate',
+  hook: BeforeWriteHook | undefined,
+  values: Record<string, unknown>,
+  context: HookContext,
+): Promise<Record<string, unknown>> {
+  if (!hook) return values
+
+  try {
+    return (await hook(values, context)) ?? values
+  } catch (err) {
+    throw new HookAbortError(name, err)
+  }
+}
+
+/**
+ * Runs a record hook. Errors thrown by `beforeDelete` are rethrown as
+ * {@link HookAbortError}; after-hook errors propagate unchanged.
+ */
+export async function runRecordHook(
+  name: 'afterCreate' | 'afterUpdate' | 'beforeDelete' | 'afterDelete',
+  hook: RecordHook | undefined,
+  record: Record<string, unknown>,
+  context: HookContext,
+): Promise<void> {
+  if (!hook) return
+
+  try {
+    await hook(record, context)
+  } catch (err) {
+    throw name === 'beforeDelete' ? new HookAbortError(name, err) : err
+  }
+}
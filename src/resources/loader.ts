@@ -1,9 +1,13 @@
 import { readdir } from 'node:fs/promises'
 import { join, resolve, extname } from 'node:path'
 import { pathToFileURL } from 'node:url'
-import { getTableName } from 'drizzle-orm'
+import { getTableColumns, getTableName } from 'drizzle-orm'
 import { isResourceExport } from '@/resources/define.ts'
 import type { ResourceDefinition } from '@/resources/types.ts'
+import type { DialectAdapter } from '@/dialects/types.ts'
+import { getPrimaryKey } from '@/resources/primaryKey.ts'
+import { TRASH_SCOPE } from '@/resources/softDelete.ts'
+import { slugify } from '@/utils/slug.ts'
 import { tableNameToRoutePath, tableNameToDisplayName } from '@/utils/table.ts'
 
 export interface LoadResourcesResult {
@@ -70,7 +74,12 @@ export async function loadResources(
   return { resources, errors }
 }
 
-export function validateResources(resources: ResourceDefinition[]): string[] {
+/**
+ * Checks resources for configuration errors. When an adapter is given, also
+ * reports tables without a primary key, since their records cannot be addressed,
+ * and `show.panels` whose `foreignKey` does not reference their resource.
+ */
+export function validateResources(resources: ResourceDefinition[], adapter?: DialectAdapter): string[] {
   const errors: string[] = []
   const routePaths = new Map<string, string>()
 
@@ -85,6 +94,51 @@ export function validateResources(resources: ResourceDefinition[]): string[] {
     } else {
       routePaths.set(resource.routePath, resource.tableName)
     }
+
+    const softDelete = resource.options.softDelete
+    if (softDelete) {
+      if (!(softDelete.column in getTableColumns(resource.table))) {
+        errors.push(`Resource "${resource.tableName}" has no softDelete column "${softDelete.column}".`)
+      }
+      if (resource.options.scopes?.some(scope => slugify(scope.name) === slugify(TRASH_SCOPE.name))) {
+        errors.push(`Resource "${resource.tableName}" has a "${TRASH_SCOPE.name}" scope, which softDelete reserves.`)
+      }
+    }
+
+    if (adapter && getPrimaryKey(adapter.extractColumns(resource.table)).length === 0) {
+      errors.push(
+        `Table "${resource.tableName}" has no primary key. ` +
+        `Declare one with .primaryKey() or a composite primaryKey() constraint.`
+      )
+    }
+
+    if (adapter) {
+      errors.push(...validatePanelForeignKeys(resource, resources, adapter))
+    }
+  }
+
+  return errors
+}
+
+// An explicit panel foreign key must reference the resource, or the panel would list unrelated rows
+function validatePanelForeignKeys(
+  resource: ResourceDefinition,
+  resources: ResourceDefinition[],
+  adapter: DialectAdapter,
+): string[] {
+  const errors: string[] = []
+
+  for (const panel of resource.options.show?.panels ?? []) {
+    const child = resources.find(r => r.routePath === panel.resource || r.tableName === panel.resource)
+    if (!child || !panel.foreignKey) continue
+
+    const column = adapter.extractColumns(child.table).find(col => col.name === panel.foreignKey)
+    if (column?.references?.table !== resource.tableName) {
+      errors.push(
+        `Panel "${panel.resource}" of "${resource.tableName}" has foreignKey "${panel.foreignKey}", ` +
+        `which is not a foreign key of "${child.tableName}" referencing "${resource.tableName}".`
+      )
+    }
   }
 
   return errors
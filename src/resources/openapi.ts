@@ -0,0 +1,463 @@
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { ColumnMeta, DialectAdapter } from '@/dialects/types.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import { can, canRunAction } from '@/auth/permissions.ts'
+import { getFilterDefinitions, getScopes, getSearchConfig, isSortable } from '@/resources/query.ts'
+import { isWritableColumn } from '@/routes/crud.ts'
+import { slugify } from '@/utils/slug.ts'
+
+/** The subset of JSON Schema used to describe API payloads. */
+export interface JsonSchema {
+  type?: string | string[]
+  format?: string
+  enum?: unknown[]
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean | JsonSchema
+  $ref?: string
+  description?: string
+}
+
+export interface OpenApiParameter {
+  name: string
+  in: 'path' | 'query'
+  required?: boolean
+  description?: string
+  schema: JsonSchema
+}
+
+export interface OpenApiMediaType {
+  schema: JsonSchema
+}
+
+export interface OpenApiResponse {
+  description: string
+  content?: Record<string, OpenApiMediaType>
+}
+
+export interface OpenApiOperation {
+  operationId: string
+  summary: string
+  tags: string[]
+  parameters?: OpenApiParameter[]
+  requestBody?: { required: boolean; content: Record<string, OpenApiMediaType> }
+  responses: Record<string, OpenApiResponse>
+  /** Overrides the document's security; an empty list allows anonymous requests. */
+  security?: Record<string, string[]>[]
+}
+
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete'
+
+/** An OpenAPI 3.1 document describing the JSON API. */
+export interface OpenApiDocument {
+  openapi: '3.1.0'
+  info: { title: string; version: string; description?: string }
+  servers: { url: string }[]
+  tags: { name: string }[]
+  security: Record<string, string[]>[]
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>
+  components: {
+    schemas: Record<string, JsonSchema>
+    securitySchemes: Record<string, { type: 'http'; scheme: 'bearer'; bearerFormat?: string }>
+  }
+}
+
+export interface OpenApiOptions {
+  resources: ResourceDefinition[]
+  adapter: DialectAdapter
+  /** URL the API is served under, e.g. `/admin/api`. */
+  serverUrl: string
+  /** Only resources, operations and actions this admin may use are described. */
+  admin: AdminTokenPayload
+}
+
+const JSON_TYPE = 'application/json'
+
+/**
+ * Describes the JSON API of the given resources as an OpenAPI 3.1 document:
+ * one schema per resource for responses and one each for create and update
+ * bodies, the list, record and action endpoints, and the token endpoint.
+ */
+export function buildOpenApiDocument(options: OpenApiOptions): OpenApiDocument {
+  const { adapter, serverUrl, admin } = options
+  const resources = options.resources.filter(resource => can(admin, resource, 'read'))
+
+  const document: OpenApiDocument = {
+    openapi: '3.1.0',
+    info: {
+      title: 'DrizzleAdmin API',
+      version: '1.0.0',
+      description: 'Authenticate with `Authorization: Bearer <token>`, using a token from `POST /token`.',
+    },
+    servers: [{ url: serverUrl }],
+    tags: [{ name: 'Authentication' }, ...resources.map(resource => ({ name: tagName(resource) }))],
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/token': {
+        post: {
+          operationId: 'createToken',
+          summary: 'Exchange an email and password for a bearer token',
+          tags: ['Authentication'],
+          security: [],
+          requestBody: jsonBody({
+            type: 'object',
+            properties: {
+              email: { type: 'string', format: 'email' },
+              password: { type: 'string' },
+              code: { type: 'string', description: 'Authenticator or recovery code, for admins with two-factor authentication' },
+            },
+            required: ['email', 'password'],
+          }),
+          responses: {
+            200: jsonResponse('Token valid for as long as a session', {
+              type: 'object',
+              properties: { token: { type: 'string' } },
+              required: ['token'],
+            }),
+            400: errorResponse('Email or password missing'),
+            401: errorResponse('Invalid email, password or two-factor code'),
+            403: errorResponse('Two-factor authentication must be set up first'),
+            429: errorResponse('Too many failed attempts; wait the seconds in the `Retry-After` header'),
+          },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        Error: {
+          type: 'object',
+          properties: { error: { type: 'string' } },
+          required: ['error'],
+        },
+        ValidationErrors: {
+          type: 'object',
+          properties: {
+            errors: {
+              type: 'object',
+              description: 'Messages keyed by column name; `_form` holds errors not tied to a column.',
+              additionalProperties: { type: 'string' },
+            },
+          },
+          required: ['errors'],
+        },
+        Message: {
+          type: 'object',
+          properties: { message: { type: 'string' } },
+          required: ['message'],
+        },
+      },
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', bearerFormat: 'JWT' },
+      },
+    },
+  }
+
+  for (const resource of resources) {
+    describeResource(document, resource, adapter.extractColumns(resource.table), admin)
+  }
+
+  return document
+}
+
+/**
+ * The JSON Schema of a column's values as the API reads and writes them.
+ * Nullable columns also accept `null`; JSON columns accept any value.
+ */
+export function columnSchema(col: ColumnMeta): JsonSchema {
+  const schema = baseColumnSchema(col)
+  if (!col.isNullable || schema.type === undefined) return schema
+  return {
+    ...schema,
+    type: [schema.type as string, 'null'],
+    ...(schema.enum ? { enum: [...schema.enum, null] } : {}),
+  }
+}
+
+function baseColumnSchema(col: ColumnMeta): JsonSchema {
+  const sqlType = col.sqlType ?? ''
+  if (col.enumValues) return { type: 'string', enum: [...col.enumValues] }
+
+  switch (col.dataType) {
+    case 'boolean':
+      return { type: 'boolean' }
+    case 'integer':
+      if (/^(real|double precision|numeric|decimal)/.test(sqlType)) return { type: 'number' }
+      if (/^(bigint|bigserial)/.test(sqlType)) return { type: 'integer', format: 'int64' }
+      return { type: 'integer' }
+    case 'timestamp':
+      // Date values are sent as full ISO timestamps, whatever the SQL type
+      return { type: 'string', format: 'date-time' }
+    case 'json':
+      return {}
+    default:
+      if (sqlType === 'uuid') return { type: 'string', format: 'uuid' }
+      if (sqlType === 'date') return { type: 'string', format: 'date' }
+      return { type: 'string' }
+  }
+}
+
+function describeResource(
+  document: OpenApiDocument,
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  admin: AdminTokenPayload,
+) {
+  const name = schemaName(resource)
+  const tags = [tagName(resource)]
+  const plural = `${resource.displayName}s`
+  const collectionPath = `/${resource.routePath}`
+  const recordPath = `${collectionPath}/{id}`
+  const record = ref(name)
+  const { permitParams } = resource.options
+
+  // Password columns are never sent, as on the show page
+  const readable = columns.filter(col => !col.name.toLowerCase().includes('password'))
+  document.components.schemas[name] = objectSchema(readable, readable.map(col => col.name))
+
+  const collection: Partial<Record<HttpMethod, OpenApiOperation>> = {
+    get: {
+      operationId: `list${name}s`,
+      summary: `List ${plural.toLowerCase()}`,
+      tags,
+      parameters: listParameters(resource, columns),
+      responses: {
+        200: jsonResponse(`A page of ${plural.toLowerCase()}`, {
+          type: 'object',
+          properties: {
+            data: { type: 'array', items: record },
+            meta: {
+              type: 'object',
+              properties: {
+                page: { type: 'integer' },
+                perPage: { type: 'integer' },
+                total: { type: 'integer' },
+                totalPages: { type: 'integer' },
+              },
+              required: ['page', 'perPage', 'total', 'totalPages'],
+            },
+          },
+          required: ['data', 'meta'],
+        }),
+        401: errorResponse('Missing or invalid bearer token'),
+        403: errorResponse('Not permitted'),
+      },
+    },
+  }
+  const member: Partial<Record<HttpMethod, OpenApiOperation>> = {
+    get: {
+      operationId: `get${name}`,
+      summary: `Get a ${resource.displayName.toLowerCase()}`,
+      tags,
+      parameters: [idParameter()],
+      responses: recordResponses(`The ${resource.displayName.toLowerCase()}`, record),
+    },
+  }
+
+  if (can(admin, resource, 'create')) {
+    const writable = columns.filter(col => isWritableColumn(col, permitParams, 'create'))
+    document.components.schemas[`${name}Create`] = objectSchema(
+      writable,
+      writable.filter(col => !col.isNullable && !col.hasDefault).map(col => col.name),
+    )
+    collection.post = {
+      operationId: `create${name}`,
+      summary: `Create a ${resource.displayName.toLowerCase()}`,
+      tags,
+      requestBody: jsonBody(ref(`${name}Create`)),
+      responses: {
+        201: jsonResponse(`The created ${resource.displayName.toLowerCase()}`, dataSchema(record)),
+        400: errorResponse('Body is not a JSON object'),
+        401: errorResponse('Missing or invalid bearer token'),
+        403: errorResponse('Not permitted'),
+        422: jsonResponse('Validation failed', ref('ValidationErrors')),
+      },
+    }
+  }
+
+  if (can(admin, resource, 'update')) {
+    document.components.schemas[`${name}Update`] = objectSchema(
+      columns.filter(col => isWritableColumn(col, permitParams, 'update')),
+      [],
+    )
+    const update = (operationId: string): OpenApiOperation => ({
+      operationId,
+      summary: `Update a ${resource.displayName.toLowerCase()}'s submitted fields`,
+      tags,
+      parameters: [idParameter()],
+      requestBody: jsonBody(ref(`${name}Update`)),
+      responses: {
+        ...recordResponses(`The updated ${resource.displayName.toLowerCase()}`, record),
+        400: errorResponse('Body is not a JSON object'),
+        422: jsonResponse('Validation failed', ref('ValidationErrors')),
+      },
+    })
+    member.patch = update(`update${name}`)
+    member.put = update(`replace${name}`)
+  }
+
+  if (can(admin, resource, 'delete')) {
+    member.delete = {
+      operationId: `delete${name}`,
+      summary: resource.options.softDelete
+        ? `Move a ${resource.displayName.toLowerCase()} to the trash`
+        : `Delete a ${resource.displayName.toLowerCase()}`,
+      tags,
+      parameters: [idParameter()],
+      responses: {
+        204: { description: 'Deleted' },
+        401: errorResponse('Missing or invalid bearer token'),
+        403: errorResponse('Not permitted'),
+        404: errorResponse('Not found'),
+      },
+    }
+  }
+
+  document.paths[collectionPath] = collection
+  document.paths[recordPath] = member
+
+  for (const action of resource.options.memberActions ?? []) {
+    if (!canRunAction(admin, resource, 'member', action)) continue
+    document.paths[`${recordPath}/actions/${slugify(action.name)}`] = {
+      post: {
+        operationId: `run${pascalCase(action.name)}On${name}`,
+        summary: action.name,
+        tags,
+        parameters: [idParameter()],
+        responses: {
+          200: jsonResponse('The action completed', ref('Message')),
+          401: errorResponse('Missing or invalid bearer token'),
+          403: errorResponse('Not permitted'),
+          404: errorResponse('Not found'),
+          500: errorResponse('The action failed'),
+        },
+      },
+    }
+  }
+
+  for (const action of resource.options.collectionActions ?? []) {
+    if (!canRunAction(admin, resource, 'collection', action)) continue
+    document.paths[`${collectionPath}/actions/${slugify(action.name)}`] = {
+      post: {
+        operationId: `run${pascalCase(action.name)}On${name}s`,
+        summary: action.name,
+        tags,
+        parameters: listParameters(resource, columns).filter(param => param.name !== 'page' && param.name !== 'perPage'),
+        responses: {
+          200: {
+            description: 'The action completed; actions that answer themselves, such as exports, return their own content',
+            content: { [JSON_TYPE]: { schema: ref('Message') }, '*/*': { schema: {} } },
+          },
+          401: errorResponse('Missing or invalid bearer token'),
+          403: errorResponse('Not permitted'),
+          500: errorResponse('The action failed'),
+        },
+      },
+    }
+  }
+}
+
+// The index query parameters: paging, search, sort, scope and filters
+function listParameters(resource: ResourceDefinition, columns: ColumnMeta[]): OpenApiParameter[] {
+  const sortable = columns.filter(isSortable).map(col => col.name)
+  const parameters: OpenApiParameter[] = [
+    { name: 'page', in: 'query', description: '1-based page number', schema: { type: 'integer' } },
+    { name: 'perPage', in: 'query', description: 'Records per page, up to 100', schema: { type: 'integer' } },
+  ]
+
+  if (getSearchConfig(resource)) {
+    parameters.push({ name: 'q', in: 'query', description: 'Search term', schema: { type: 'string' } })
+  }
+
+  parameters.push(
+    { name: 'sort', in: 'query', description: 'Column to sort by', schema: { type: 'string', enum: sortable } },
+    { name: 'dir', in: 'query', description: 'Sort direction', schema: { type: 'string', enum: ['asc', 'desc'] } },
+  )
+
+  const scopes = getScopes(resource)
+  if (scopes.length > 0) {
+    parameters.push({
+      name: 'scope',
+      in: 'query',
+      description: 'Named subset of records',
+      schema: { type: 'string', enum: scopes.map(scope => slugify(scope.name)) },
+    })
+  }
+
+  for (const filter of getFilterDefinitions(resource, columns)) {
+    for (const op of filter.operators) {
+      parameters.push({
+        name: `filter[${filter.column.name}][${op}]`,
+        in: 'query',
+        description: `Filter by ${filter.label ?? filter.column.name} (${op})`,
+        schema: filter.column.enumValues
+          ? { type: 'string', enum: [...filter.column.enumValues] }
+          : filter.type === 'boolean'
+            ? { type: 'string', enum: ['true', 'false'] }
+            : { type: 'string' },
+      })
+    }
+  }
+
+  return parameters
+}
+
+function recordResponses(description: string, record: JsonSchema): Record<string, OpenApiResponse> {
+  return {
+    200: jsonResponse(description, dataSchema(record)),
+    401: errorResponse('Missing or invalid bearer token'),
+    403: errorResponse('Not permitted'),
+    404: errorResponse('Not found'),
+  }
+}
+
+function objectSchema(columns: ColumnMeta[], required: string[]): JsonSchema {
+  const properties = Object.fromEntries(columns.map(col => [col.name, columnSchema(col)]))
+  return { type: 'object', properties, ...(required.length > 0 ? { required } : {}) }
+}
+
+function idParameter(): OpenApiParameter {
+  return {
+    name: 'id',
+    in: 'path',
+    required: true,
+    description: 'The primary key, or the encoded key values for composite keys',
+    schema: { type: 'string' },
+  }
+}
+
+function dataSchema(schema: JsonSchema): JsonSchema {
+  return { type: 'object', properties: { data: schema }, required: ['data'] }
+}
+
+function jsonBody(schema: JsonSchema): NonNullable<OpenApiOperation['requestBody']> {
+  return { required: true, content: { [JSON_TYPE]: { schema } } }
+}
+
+function jsonResponse(description: string, schema: JsonSchema): OpenApiResponse {
+  return { description, content: { [JSON_TYPE]: { schema } } }
+}
+
+function errorResponse(description: string): OpenApiResponse {
+  return jsonResponse(description, ref('Error'))
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` }
+}
+
+function schemaName(resource: ResourceDefinition): string {
+  return pascalCase(resource.displayName)
+}
+
+function tagName(resource: ResourceDefinition): string {
+  return `${resource.displayName}s`
+}
+
+function pascalCase(name: string): string {
+  return name
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word[0]!.toUpperCase() + word.slice(1))
+    .join('')
+}
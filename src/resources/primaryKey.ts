@@ -0,0 +1,66 @@
+import { and, eq, getTableColumns, type SQL } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { ColumnMeta } from '@/dialects/types.ts'
+
+/** Returns the primary key columns of a table, in declaration order. */
+export function getPrimaryKey(columns: ColumnMeta[]): ColumnMeta[] {
+  return columns.filter(col => col.isPrimaryKey)
+}
+
+/**
+ * Encodes a record's primary key as the `:id` URL segment. Single-column keys
+ * are used as-is; composite keys are encoded as base64url JSON so they contain
+ * only URL-safe characters. Callers still URL-encode single keys in links.
+ */
+export function encodeRecordId(record: Record<string, unknown>, primaryKey: ColumnMeta[]): string {
+  if (primaryKey.length === 1) {
+    return String(record[primaryKey[0]!.name])
+  }
+
+  const values = primaryKey.map(col => record[col.name])
+  return toBase64Url(JSON.stringify(values))
+}
+
+/**
+ * Decodes a `:id` URL segment into primary key values, in the order of
+ * `primaryKey`. Returns `undefined` when a composite id is malformed.
+ */
+export function decodeRecordId(id: string, primaryKey: ColumnMeta[]): unknown[] | undefined {
+  if (primaryKey.length === 1) return [id]
+
+  try {
+    const values: unknown = JSON.parse(fromBase64Url(id))
+    return Array.isArray(values) && values.length === primaryKey.length ? values : undefined
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Builds the condition selecting the record identified by an encoded id.
+ * Returns `undefined` when the id is malformed or the table has no primary key.
+ */
+export function recordWhere(table: PgTable, primaryKey: ColumnMeta[], id: string): SQL | undefined {
+  const values = decodeRecordId(id, primaryKey)
+  if (!values || primaryKey.length === 0) return undefined
+
+  const cols = getTableColumns(table)
+  const conditions = primaryKey.map((col, i) => eq(cols[col.name]!, values[i]))
+  return conditions.length === 1 ? conditions[0] : and(...conditions)
+}
+
+/** Builds the URL path segment for a record, e.g. for `/${routePath}/${segment}`. */
+export function recordPath(record: Record<string, unknown>, primaryKey: ColumnMeta[]): string {
+  return encodeURIComponent(encodeRecordId(record, primaryKey))
+}
+
+// Web APIs rather than Buffer, so encoding works in every supported runtime
+function toBase64Url(text: string): string {
+  const binary = String.fromCharCode(...new TextEncoder().encode(text))
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'))
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)))
+}
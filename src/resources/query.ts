@@ -0,0 +1,445 @@
+import { and, asc, desc, eq, getTableColumns, gte, isNotNull, isNull, lte, or, sql, type Column, type SQL, type Table } from 'drizzle-orm'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { FilterType, ResourceDefinition, ScopeConfig, SearchConfig } from '@/resources/types.ts'
+import { slugify } from '@/utils/slug.ts'
+import { ALL_SCOPE, softDeleteWhere, TRASH_SCOPE } from '@/resources/softDelete.ts'
+
+/** Filter operators accepted in `?filter[column][op]=value`. */
+export type FilterOperator = 'contains' | 'eq' | 'gte' | 'lte'
+
+/** Query string parameters that shape an index listing. */
+export interface ListParams {
+  /** 1-based page number. */
+  page: number
+  /** Search term from the `?q=` parameter. */
+  q?: string
+  /** Active filter values keyed by column name, then operator. */
+  filters?: Record<string, Partial<Record<FilterOperator, string>>>
+  /** Explicit sort from `?sort=column&dir=asc|desc`. */
+  sort?: ListSort
+  /** Slug of the selected scope from `?scope=`. */
+  scope?: string
+}
+
+/** A sort column and direction for an index listing. */
+export interface ListSort {
+  column: string
+  direction: 'asc' | 'desc'
+}
+
+/** A filter from `index.filters` resolved against the table's columns. */
+export interface ResolvedFilter {
+  column: ColumnMeta
+  label?: string
+  type: FilterType
+  operators: FilterOperator[]
+}
+
+const FILTER_OPERATORS: Record<FilterType, FilterOperator[]> = {
+  text: ['contains', 'eq'],
+  number: ['eq', 'gte', 'lte'],
+  boolean: ['eq'],
+  enum: ['eq'],
+  timestamp: ['gte', 'lte'],
+}
+
+const FILTER_PARAM = /^filter\[([^\]]+)\]\[([^\]]+)\]$/
+
+/** Prefix of the aliases {@link selectKeysetCursor} selects the cursor under. */
+const KEYSET_PREFIX = '__cursor'
+
+/**
+ * Parses index list parameters from a request's query string.
+ *
+ * @param query - The query parameters, e.g. from `c.req.query()`.
+ */
+export function parseListParams(query: Record<string, string>): ListParams {
+  const page = parseInt(query.page ?? '1', 10)
+  const q = query.q?.trim()
+
+  const filters: NonNullable<ListParams['filters']> = {}
+  for (const [key, value] of Object.entries(query)) {
+    const match = FILTER_PARAM.exec(key)
+    if (!match || value.trim() === '') continue
+    const [, column, op] = match
+    if (!isFilterOperator(op)) continue
+    filters[column] = { ...filters[column], [op]: value.trim() }
+  }
+
+  const sort = query.sort
+    ? { column: query.sort, direction: query.dir === 'desc' ? 'desc' as const : 'asc' as const }
+    : undefined
+
+  return {
+    page: Number.isFinite(page) && page > 0 ? page : 1,
+    q: q || undefined,
+    filters: Object.keys(filters).length > 0 ? filters : undefined,
+    sort,
+    scope: query.scope || undefined,
+  }
+}
+
+/**
+ * Serializes list parameters back into query string entries, omitting the page.
+ * Used to carry the current listing state across pagination and other links.
+ */
+export function listQuery(params: ListParams): Record<string, string> {
+  const query: Record<string, string> = {}
+  if (params.scope) query.scope = params.scope
+  if (params.q) query.q = params.q
+  for (const [column, ops] of Object.entries(params.filters ?? {})) {
+    for (const [op, value] of Object.entries(ops)) {
+      if (value !== undefined) query[`filter[${column}][${op}]`] = value
+    }
+  }
+  if (params.sort) {
+    query.sort = params.sort.column
+    query.dir = params.sort.direction
+  }
+  return query
+}
+
+const DEFAULT_SELECT_ALL_LIMIT = 1000
+
+/** The `index.selectAllLimit` option with its default filled in. */
+export function getSelectAllLimit(resource: ResourceDefinition): number {
+  return resource.options.index?.selectAllLimit ?? DEFAULT_SELECT_ALL_LIMIT
+}
+
+/** Normalizes the `index.search` option into a {@link SearchConfig}, if any. */
+export function getSearchConfig(resource: ResourceDefinition): SearchConfig | undefined {
+  const search = resource.options.index?.search
+  if (!search) return undefined
+  if (Array.isArray(search)) return { columns: search }
+  return search
+}
+
+/**
+ * Resolves the `index.filters` option against the table's columns.
+ * Filters naming unknown columns are dropped.
+ */
+export function getFilterDefinitions(resource: ResourceDefinition, columns: ColumnMeta[]): ResolvedFilter[] {
+  const filters = resource.options.index?.filters ?? []
+  const resolved: ResolvedFilter[] = []
+
+  for (const filter of filters) {
+    const config = typeof filter === 'string' ? { column: filter } : filter
+    const column = columns.find(col => col.name === config.column)
+    if (!column) continue
+
+    const type = config.type ?? filterTypeFor(column)
+    resolved.push({ column, label: config.label, type, operators: FILTER_OPERATORS[type] })
+  }
+
+  return resolved
+}
+
+/**
+ * Builds the predicate matching the search term against the configured search columns.
+ * Returns `undefined` when there is no term or the resource is not searchable.
+ */
+export function buildSearchCondition(
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  q: string | undefined,
+): SQL | undefined {
+  const search = getSearchConfig(resource)
+  if (!search || !q) return undefined
+
+  const cols = getTableColumns(resource.table)
+  const searchable = columns.filter(col => search.columns.includes(col.name) && cols[col.name])
+  if (searchable.length === 0) return undefined
+
+  if (search.mode === 'fulltext') {
+    const language = search.language ?? 'simple'
+    const document = sql.join(searchable.map(col => sql`coalesce(${cols[col.name]}::text, '')`), sql` || ' ' || `)
+    return sql`to_tsvector(${language}::regconfig, ${document}) @@ plainto_tsquery(${language}::regconfig, ${q})`
+  }
+
+  return or(...searchable.map(col => containsCondition(cols[col.name]!, q)))
+}
+
+/**
+ * Builds the predicates for the active filters. Only columns listed in
+ * `index.filters` are honoured, and values that do not parse for the
+ * filter's type are ignored.
+ */
+export function buildFilterConditions(
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  filters: ListParams['filters'],
+): SQL[] {
+  if (!filters) return []
+
+  const cols = getTableColumns(resource.table)
+  const conditions: SQL[] = []
+
+  for (const filter of getFilterDefinitions(resource, columns)) {
+    const values = filters[filter.column.name]
+    const column = cols[filter.column.name]
+    if (!values || !column) continue
+
+    for (const op of filter.operators) {
+      const raw = values[op]
+      if (raw === undefined) continue
+
+      const value = parseFilterValue(filter, raw)
+      if (value === undefined) continue
+
+      if (op === 'contains') conditions.push(containsCondition(column, raw))
+      else if (op === 'eq') conditions.push(eq(column, value))
+      else if (op === 'gte') conditions.push(gte(column, value))
+      else conditions.push(lte(column, value))
+    }
+  }
+
+  return conditions
+}
+
+/**
+ * The scope tabs of a resource: its own `scopes`, followed by the Trash tab
+ * when it has `softDelete` (and an "All" tab before it if it has no scopes).
+ */
+export function getScopes(resource: ResourceDefinition): ScopeConfig[] {
+  const scopes = resource.options.scopes ?? []
+  if (!resource.options.softDelete) return scopes
+  return [...(scopes.length > 0 ? scopes : [ALL_SCOPE]), TRASH_SCOPE]
+}
+
+/**
+ * Resolves the scope in effect: the one whose slug matches `?scope=`, otherwise
+ * the scope marked `default`. Returns `undefined` when no scope applies.
+ */
+export function getActiveScope(resource: ResourceDefinition, params: ListParams): ScopeConfig | undefined {
+  const scopes = getScopes(resource)
+  if (params.scope) {
+    const selected = scopes.find(scope => slugify(scope.name) === params.scope)
+    if (selected) return selected
+  }
+  return scopes.find(scope => scope.default)
+}
+
+/**
+ * Builds the full `where` clause for an index listing from its parameters.
+ * Returns `undefined` when the listing is unfiltered.
+ */
+export function buildListWhere(
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  params: ListParams,
+): SQL | undefined {
+  const scope = getActiveScope(resource, params)
+  return combineConditions([
+    ...buildBaseConditions(resource, columns, params),
+    scope?.where?.(),
+    softDeleteWhere(resource, scope === TRASH_SCOPE),
+  ])
+}
+
+/**
+ * Builds one `count(*)` selection per scope, each combining the scope's
+ * condition with the active search and filters. Select them in a single
+ * query to get the live tab counts, keyed by scope slug.
+ */
+export function buildScopeCounts(
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  params: ListParams,
+): Record<string, SQL<number>> {
+  const base = buildBaseConditions(resource, columns, params)
+  const counts: Record<string, SQL<number>> = {}
+
+  for (const scope of getScopes(resource)) {
+    const where = combineConditions([...base, scope.where?.(), softDeleteWhere(resource, scope === TRASH_SCOPE)])
+    counts[slugify(scope.name)] = where
+      ? sql<number>`count(*) filter (where ${where})`.mapWith(Number)
+      : sql<number>`count(*)`.mapWith(Number)
+  }
+
+  return counts
+}
+
+/**
+ * Whether an index can be sorted by a column. Password columns are never
+ * sortable, nor are `json` columns, which PostgreSQL cannot compare (`jsonb` can).
+ */
+export function isSortable(column: ColumnMeta): boolean {
+  return !column.name.toLowerCase().includes('password') && column.sqlType !== 'json'
+}
+
+/**
+ * Resolves the sort in effect: the requested `?sort=` column when it names a
+ * sortable column, otherwise `index.defaultSort`.
+ */
+export function getActiveSort(
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  params: ListParams,
+): ListSort | undefined {
+  const sortable = (name: string) => columns.some(col => col.name === name && isSortable(col))
+
+  if (params.sort && sortable(params.sort.column)) {
+    return params.sort
+  }
+
+  const defaultSort = resource.options.index?.defaultSort
+  if (defaultSort && sortable(defaultSort.column)) {
+    return { column: defaultSort.column, direction: defaultSort.direction ?? 'asc' }
+  }
+
+  return undefined
+}
+
+/**
+ * Resolves the full order of an index listing: the active sort column, then
+ * the primary key columns as a tiebreaker so rows keep a stable order across pages.
+ */
+export function getListOrder(
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  params: ListParams,
+): ListSort[] {
+  const cols = getTableColumns(resource.table)
+  const order: ListSort[] = []
+
+  const sort = getActiveSort(resource, columns, params)
+  if (sort && cols[sort.column]) {
+    order.push(sort)
+  }
+
+  for (const col of columns) {
+    if (col.isPrimaryKey && col.name !== sort?.column && cols[col.name]) {
+      order.push({ column: col.name, direction: 'asc' })
+    }
+  }
+
+  return order
+}
+
+/**
+ * Builds the `ORDER BY` expressions for an index listing. The primary key is
+ * always appended as a tiebreaker so rows keep a stable order across pages.
+ */
+export function buildListOrderBy(
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  params: ListParams,
+): SQL[] {
+  const cols = getTableColumns(resource.table)
+  return getListOrder(resource, columns, params).map(({ column, direction }) =>
+    direction === 'desc' ? desc(cols[column]!) : asc(cols[column]!),
+  )
+}
+
+/**
+ * Selects each column of `order` in its text form, for use as a keyset cursor.
+ * Text keeps values JavaScript cannot represent exactly, such as the
+ * microseconds of a timestamp.
+ */
+export function selectKeysetCursor(table: Table, order: ListSort[]): Record<string, SQL<string | null>> {
+  const cols = getTableColumns(table)
+  return Object.fromEntries(order.map(({ column }, i) => [`${KEYSET_PREFIX}${i}`, sql<string | null>`${cols[column]!}::text`]))
+}
+
+/** Reads the cursor selected by {@link selectKeysetCursor} from a row. */
+export function readKeysetCursor(row: Record<string, unknown>, order: ListSort[]): (string | null)[] {
+  return order.map((_, i) => (row[`${KEYSET_PREFIX}${i}`] ?? null) as string | null)
+}
+
+/**
+ * Builds the condition for keyset pagination: rows that come after `cursor`
+ * in `order`. NULLs sort last ascending and first descending, as in Postgres.
+ * `order` must end with a unique key, such as the one from {@link getListOrder}.
+ */
+export function buildKeysetCondition(table: Table, order: ListSort[], cursor: (string | null)[]): SQL {
+  const cols = getTableColumns(table)
+  const branches: SQL[] = []
+
+  order.forEach(({ column, direction }, i) => {
+    const after = keyAfter(cols[column]!, direction, cursor[i] ?? null)
+    if (!after) return
+    const equal = order.slice(0, i).map((key, j) => keyEquals(cols[key.column]!, cursor[j] ?? null))
+    branches.push(and(...equal, after)!)
+  })
+
+  return branches.length > 0 ? or(...branches)! : sql`false`
+}
+
+// Serial columns report their pseudo-type, which is not valid in a cast
+const SERIAL_TYPES: Record<string, string> = { smallserial: 'smallint', serial: 'integer', bigserial: 'bigint' }
+
+// Cursor values are text, cast back to the column's type
+function keyValue(column: Column, value: string): SQL {
+  const type = column.getSQLType()
+  return sql`${value}::${sql.raw(SERIAL_TYPES[type] ?? type)}`
+}
+
+function keyEquals(column: Column, value: string | null): SQL {
+  return value === null ? isNull(column) : sql`${column} = ${keyValue(column, value)}`
+}
+
+function keyAfter(column: Column, direction: ListSort['direction'], value: string | null): SQL | undefined {
+  if (direction === 'asc') {
+    return value === null ? undefined : or(sql`${column} > ${keyValue(column, value)}`, isNull(column))
+  }
+  return value === null ? isNotNull(column) : sql`${column} < ${keyValue(column, value)}`
+}
+
+function buildBaseConditions(
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  params: ListParams,
+): (SQL | undefined)[] {
+  return [
+    buildSearchCondition(resource, columns, params.q),
+    ...buildFilterConditions(resource, columns, params.filters),
+  ]
+}
+
+function combineConditions(conditions: (SQL | undefined)[]): SQL | undefined {
+  const defined = conditions.filter((condition): condition is SQL => condition !== undefined)
+  return defined.length > 0 ? and(...defined) : undefined
+}
+
+function filterTypeFor(column: ColumnMeta): FilterType {
+  if (column.dataType === 'integer') return 'number'
+  if (column.dataType === 'boolean') return 'boolean'
+  if (column.dataType === 'enum' && column.enumValues) return 'enum'
+  if (column.dataType === 'timestamp') return 'timestamp'
+  return 'text'
+}
+
+function parseFilterValue(filter: ResolvedFilter, raw: string): unknown {
+  switch (filter.type) {
+    case 'number': {
+      const value = Number(raw)
+      return Number.isFinite(value) ? value : undefined
+    }
+    case 'boolean':
+      return raw === 'true' ? true : raw === 'false' ? false : undefined
+    case 'enum':
+      return filter.column.enumValues?.includes(raw) ? raw : undefined
+    case 'timestamp': {
+      const value = new Date(raw)
+      return Number.isNaN(value.getTime()) ? undefined : value
+    }
+    default:
+      return raw
+  }
+}
+
+/**
+ * Builds a case-insensitive substring match for a column. The column is cast
+ * to text so non-string columns (uuids, enums, numbers) can be matched too.
+ */
+export function containsCondition(column: Column, term: string): SQL {
+  return sql`${column}::text ilike ${`%${escapeLikePattern(term)}%`}`
+}
+
+function escapeLikePattern(value: string): string {
+  return value.replace(/[\\%_]/g, '\\$&')
+}
+
+function isFilterOperator(op: string): op is FilterOperator {
+  return op === 'contains' || op === 'eq' || op === 'gte' || op === 'lte'
+}
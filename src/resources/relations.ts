@@ -0,0 +1,407 @@
+import { and, asc, eq, getTableColumns, inArray, sql } from 'drizzle-orm'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { ColumnMeta, DialectAdapter } from '@/dialects/types.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import { can } from '@/auth/permissions.ts'
+import { policyScope } from '@/auth/policy.ts'
+import { buildListOrderBy, containsCondition } from '@/resources/query.ts'
+import { encodeRecordId, getPrimaryKey } from '@/resources/primaryKey.ts'
+import { softDeleteWhere } from '@/resources/softDelete.ts'
+import { slugify } from '@/utils/slug.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+/** Tables with more rows than this get a searchable lookup input instead of a select. */
+export const LOOKUP_THRESHOLD = 100
+
+/** Maximum number of matches returned by a lookup request. */
+const LOOKUP_LIMIT = 20
+
+const DISPLAY_FIELD_CANDIDATES = ['name', 'title', 'label', 'email']
+
+/** A foreign key column resolved to the resource it references. */
+export interface BelongsToRelation {
+  /** The foreign key column on the referencing resource. */
+  column: ColumnMeta
+  /** The referenced resource. */
+  resource: ResourceDefinition
+  /** Property name of the referenced column, usually its primary key. */
+  targetColumn: string
+  /** Property name of the column used to label referenced records. */
+  displayField: string
+  /** Primary key columns of the referenced resource, used to link to its records. */
+  targetPrimaryKey: ColumnMeta[]
+}
+
+/** Labels of referenced records for one foreign key column, keyed by the key value. */
+export interface RelationLink {
+  routePath: string
+  labels: Record<string, string>
+  /** Encoded record IDs of referenced records, keyed by the key value. */
+  ids: Record<string, string>
+}
+
+/** A referenced record offered as a choice in a belongs-to input. */
+export interface RelationOption {
+  value: string
+  label: string
+}
+
+/**
+ * Choices for a belongs-to form input. Small tables list every record in
+ * `options`; larger ones leave it unset and search `lookupUrl` instead.
+ */
+export interface RelationField {
+  options?: RelationOption[]
+  lookupUrl: string
+  /** Label of the currently selected record, shown in the lookup input. */
+  selectedLabel?: string
+}
+
+/** A `show.panels` entry resolved to the child resource and the foreign key linking it. */
+export interface HasManyRelation {
+  /** Slug identifying the panel in its `?page[key]=` parameter. */
+  key: string
+  /** Panel heading. */
+  label: string
+  /** The child resource. */
+  resource: ResourceDefinition
+  /** The child resource's columns. */
+  columns: ColumnMeta[]
+  /** Property name of the child's foreign key column. */
+  foreignKey: string
+  /** Property name of the parent column the foreign key references. */
+  targetColumn: string
+  /** Child columns shown in the panel, if configured. */
+  panelColumns?: string[]
+  perPage: number
+}
+
+/** One page of child records for a has-many panel. */
+export interface RelationPanel {
+  relation: HasManyRelation
+  records: Record<string, unknown>[]
+  currentPage: number
+  totalPages: number
+  /** The shown record's value for the referenced column, used to pre-fill new children. */
+  parentValue: unknown
+}
+
+/**
+ * Resolves a resource's foreign key columns to the resources they reference.
+ * Foreign keys pointing at tables without a registered resource are skipped.
+ */
+export function resolveBelongsTo(
+  columns: ColumnMeta[],
+  allResources: ResourceDefinition[],
+  adapter: DialectAdapter,
+): BelongsToRelation[] {
+  const relations: BelongsToRelation[] = []
+
+  for (const column of columns) {
+    if (!column.references) continue
+
+    const target = allResources.find(resource => resource.tableName === column.references!.table)
+    if (!target) continue
+
+    const targetColumns = adapter.extractColumns(target.table)
+    relations.push({
+      column,
+      resource: target,
+      targetColumn: column.references.column,
+      displayField: getDisplayField(target, targetColumns),
+      targetPrimaryKey: getPrimaryKey(targetColumns),
+    })
+  }
+
+  return relations
+}
+
+/**
+ * Resolves the `show.panels` option against the registered resources. Panels
+ * naming an unknown resource, or a child without a foreign key to this
+ * resource, are skipped. An explicit `foreignKey` that does not reference
+ * this resource is a configuration error, reported at startup.
+ */
+export function resolveHasMany(
+  resource: ResourceDefinition,
+  allResources: ResourceDefinition[],
+  adapter: DialectAdapter,
+): HasManyRelation[] {
+  const relations: HasManyRelation[] = []
+
+  for (const panel of resource.options.show?.panels ?? []) {
+    const child = allResources.find(r => r.routePath === panel.resource || r.tableName === panel.resource)
+    if (!child) continue
+
+    const columns = adapter.extractColumns(child.table)
+    const foreignKey = columns.find(col => col.references?.table === resource.tableName
+      && (!panel.foreignKey || col.name === panel.foreignKey))
+    if (!foreignKey) continue
+
+    const parentKey = getPrimaryKey(adapter.extractColumns(resource.table))
+
+    const label = panel.label ?? `${child.displayName}s`
+    relations.push({
+      key: slugify(label),
+      label,
+      resource: child,
+      columns,
+      foreignKey: foreignKey.name,
+      targetColumn: foreignKey.references?.column ?? parentKey[0]?.name ?? 'id',
+      panelColumns: panel.columns,
+      perPage: panel.perPage ?? 5,
+    })
+  }
+
+  return relations
+}
+
+/**
+ * Loads the current page of child records for each has-many panel, limited to
+ * the records the child resource's policy lets the admin see.
+ *
+ * @param query - The show page's query parameters; `page[key]` selects a panel's page.
+ */
+export async function loadRelationPanels(
+  db: AnyPgDatabase,
+  admin: AdminTokenPayload,
+  relations: HasManyRelation[],
+  record: Record<string, unknown>,
+  query: Record<string, string>,
+): Promise<RelationPanel[]> {
+  const panels: RelationPanel[] = []
+
+  for (const relation of relations) {
+    const parentValue = record[relation.targetColumn]
+    const foreignKey = getTableColumns(relation.resource.table)[relation.foreignKey]
+
+    if (parentValue === null || parentValue === undefined || !foreignKey) {
+      panels.push({ relation, records: [], currentPage: 1, totalPages: 0, parentValue })
+      continue
+    }
+
+    const requested = parseInt(query[`page[${relation.key}]`] ?? '1', 10)
+    const currentPage = Number.isFinite(requested) && requested > 0 ? requested : 1
+    const where = and(eq(foreignKey, parentValue), policyScope(admin, relation.resource), softDeleteWhere(relation.resource))
+
+    const [{ count }] = await db.select({ count: sql`count(*)` }).from(relation.resource.table).where(where)
+    const records = await db
+      .select()
+      .from(relation.resource.table)
+      .where(where)
+      .orderBy(...buildListOrderBy(relation.resource, relation.columns, { page: currentPage }))
+      .limit(relation.perPage)
+      .offset((currentPage - 1) * relation.perPage)
+
+    panels.push({
+      relation,
+      records,
+      currentPage,
+      totalPages: Math.ceil(Number(count) / relation.perPage),
+      parentValue,
+    })
+  }
+
+  return panels
+}
+
+/**
+ * Resolves the column that labels a resource's records: the `displayField`
+ * option when it names a column, otherwise a conventional name column,
+ * otherwise the primary key.
+ */
+export function getDisplayField(resource: ResourceDefinition, columns: ColumnMeta[]): string {
+  const names = columns.map(col => col.name)
+  const configured = resource.options.displayField
+  if (configured && names.includes(configured)) return configured
+
+  const conventional = DISPLAY_FIELD_CANDIDATES.find(name => names.includes(name))
+  if (conventional) return conventional
+
+  return getPrimaryKey(columns)[0]?.name ?? names[0] ?? 'id'
+}
+
+/**
+ * Loads the labels of every record referenced by the given records, with one
+ * query per foreign key column. Returns links keyed by foreign key column name.
+ * Columns referencing resources the admin cannot read are left out, so that
+ * they show the raw key.
+ */
+export async function loadRelationLabels(
+  db: AnyPgDatabase,
+  admin: AdminTokenPayload,
+  relations: BelongsToRelation[],
+  records: Record<string, unknown>[],
+): Promise<Record<string, RelationLink>> {
+  const links: Record<string, RelationLink> = {}
+
+  for (const relation of relations.filter(relation => can(admin, relation.resource, 'read'))) {
+    const values = [...new Set(
+      records
+        .map(record => record[relation.column.name])
+        .filter(value => value !== null && value !== undefined),
+    )]
+
+    const { labels, ids } = values.length > 0
+      ? await selectLabels(db, admin, relation, values)
+      : { labels: {}, ids: {} }
+
+    links[relation.column.name] = { routePath: relation.resource.routePath, labels, ids }
+  }
+
+  return links
+}
+
+/**
+ * Loads the choices for each belongs-to input on a create or edit form.
+ * Referenced tables above {@link LOOKUP_THRESHOLD} rows are searched through
+ * the referenced resource's lookup route instead of being listed in full.
+ * Columns referencing resources the admin cannot read are left out, so that
+ * they get a plain input for the key.
+ */
+export async function loadRelationFields(
+  db: AnyPgDatabase,
+  admin: AdminTokenPayload,
+  relations: BelongsToRelation[],
+  record: Record<string, unknown> | undefined,
+  basePath: string,
+): Promise<Record<string, RelationField>> {
+  const fields: Record<string, RelationField> = {}
+
+  for (const relation of relations.filter(relation => can(admin, relation.resource, 'read'))) {
+    const table = relation.resource.table
+    const lookupUrl = adminUrl(
+      basePath,
+      `/${relation.resource.routePath}/lookup?value=${encodeURIComponent(relation.targetColumn)}`,
+    )
+
+    const [{ count }] = await db
+      .select({ count: sql`count(*)` })
+      .from(table)
+      .where(and(policyScope(admin, relation.resource), softDeleteWhere(relation.resource)))
+    if (Number(count) <= LOOKUP_THRESHOLD) {
+      fields[relation.column.name] = { options: await selectOptions(db, admin, relation), lookupUrl }
+      continue
+    }
+
+    const current = record?.[relation.column.name]
+    const selectedLabel = current !== null && current !== undefined
+      ? (await selectLabels(db, admin, relation, [current])).labels[String(current)]
+      : undefined
+
+    fields[relation.column.name] = { lookupUrl, selectedLabel }
+  }
+
+  return fields
+}
+
+/**
+ * The columns a resource's lookup may return as option values: its primary
+ * key, and the columns foreign keys of registered resources reference.
+ */
+export function lookupValueColumns(
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  allResources: ResourceDefinition[],
+  adapter: DialectAdapter,
+): string[] {
+  const allowed = new Set(getPrimaryKey(columns).map(col => col.name))
+  for (const other of allResources) {
+    for (const column of adapter.extractColumns(other.table)) {
+      if (column.references?.table === resource.tableName) allowed.add(column.references.column)
+    }
+  }
+  return [...allowed]
+}
+
+/**
+ * Finds records of a resource whose display field contains the search term,
+ * among those the resource's policy lets the admin see. Backs the `/:resource/lookup` route used by belongs-to inputs on other resources.
+ *
+ * @param valueColumn - Property name of the column returned as each option's
+ *   value; one of {@link lookupValueColumns}.
+ */
+export async function lookupRelationOptions(
+  db: AnyPgDatabase,
+  admin: AdminTokenPayload,
+  resource: ResourceDefinition,
+  columns: ColumnMeta[],
+  q: string,
+  valueColumn: string,
+): Promise<RelationOption[]> {
+  const cols = getTableColumns(resource.table)
+  const displayField = getDisplayField(resource, columns)
+  const value = cols[valueColumn]
+  const label = cols[displayField]
+  if (!value || !label) return []
+
+  const rows = await db
+    .select({ value, label })
+    .from(resource.table)
+    .where(and(q ? containsCondition(label, q) : undefined, policyScope(admin, resource), softDeleteWhere(resource)))
+    .orderBy(asc(label))
+    .limit(LOOKUP_LIMIT)
+
+  return rows.map(row => toOption(row.value, row.label))
+}
+
+async function selectLabels(
+  db: AnyPgDatabase,
+  admin: AdminTokenPayload,
+  relation: BelongsToRelation,
+  values: unknown[],
+): Promise<Pick<RelationLink, 'labels' | 'ids'>> {
+  const cols = getTableColumns(relation.resource.table)
+  const value = cols[relation.targetColumn]
+  const label = cols[relation.displayField]
+  if (!value || !label) return { labels: {}, ids: {} }
+
+  // Select the primary key under its own keys so it cannot collide with value or label
+  const primaryKey = relation.targetPrimaryKey
+  const keyFields = Object.fromEntries(primaryKey.map((col, i) => [`pk${i}`, cols[col.name]!]))
+
+  const rows: Record<string, unknown>[] = await db
+    .select({ value, label, ...keyFields })
+    .from(relation.resource.table)
+    .where(and(inArray(value, values), policyScope(admin, relation.resource)))
+
+  const labels: Record<string, string> = {}
+  const ids: Record<string, string> = {}
+  for (const row of rows) {
+    const option = toOption(row.value, row.label)
+    labels[option.value] = option.label
+    if (primaryKey.length > 0) {
+      const key = Object.fromEntries(primaryKey.map((col, i) => [col.name, row[`pk${i}`]]))
+      ids[option.value] = encodeRecordId(key, primaryKey)
+    }
+  }
+  return { labels, ids }
+}
+
+async function selectOptions(
+  db: AnyPgDatabase,
+  admin: AdminTokenPayload,
+  relation: BelongsToRelation,
+): Promise<RelationOption[]> {
+  const cols = getTableColumns(relation.resource.table)
+  const value = cols[relation.targetColumn]
+  const label = cols[relation.displayField]
+  if (!value || !label) return []
+
+  // Like lookups, offer only live records the admin may see
+  const rows = await db
+    .select({ value, label })
+    .from(relation.resource.table)
+    .where(and(policyScope(admin, relation.resource), softDeleteWhere(relation.resource)))
+    .orderBy(asc(label))
+
+  return rows.map(row => toOption(row.value, row.label))
+}
+
+function toOption(value: unknown, label: unknown): RelationOption {
+  return {
+    value: String(value),
+    label: label === null || label === undefined ? `#${String(value)}` : String(label),
+  }
+}
@@ -0,0 +1,20 @@
+import { getTableColumns, isNotNull, isNull, type SQL } from 'drizzle-orm'
+import type { ResourceDefinition, ScopeConfig } from '@/resources/types.ts'
+
+/** Index tab listing the soft-deleted records of resources with `softDelete`. */
+export const TRASH_SCOPE: ScopeConfig = { name: 'Trash' }
+
+/** Tab listing live records, added when `softDelete` is set and the resource has no scopes of its own. */
+export const ALL_SCOPE: ScopeConfig = { name: 'All', default: true }
+
+/**
+ * Condition matching a resource's live records, or with `trashed` its
+ * soft-deleted ones. `undefined` for resources without `softDelete`.
+ */
+export function softDeleteWhere(resource: ResourceDefinition, trashed = false): SQL | undefined {
+  const config = resource.options.softDelete
+  if (!config) return undefined
+
+  const column = getTableColumns(resource.table)[config.column]!
+  return trashed ? isNotNull(column) : isNull(column)
+}
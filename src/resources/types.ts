@@ -1,6 +1,12 @@
 import type { Context } from 'hono'
+import type { SQL } from 'drizzle-orm'
 import type { PgTable } from 'drizzle-orm/pg-core'
 import type { AnyPgDatabase } from '@/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ListParams } from '@/resources/query.ts'
+import type { AuditEntry } from '@/audit/log.ts'
+import type { VersionEvent } from '@/versions/store.ts'
 
 /** Configuration for selecting which columns to display. */
 export interface ColumnConfig {
@@ -10,52 +16,337 @@ export interface ColumnConfig {
   exclude?: string[]
 }
 
+/** Configuration for the index view search box. */
+export interface SearchConfig {
+  /** Column names the search term is matched against. */
+  columns: string[]
+  /**
+   * How the term is matched. `"ilike"` (default) does a case-insensitive substring
+   * match on each column; `"fulltext"` uses `to_tsvector` / `plainto_tsquery`.
+   */
+  mode?: 'ilike' | 'fulltext'
+  /** Text search configuration used in `"fulltext"` mode. Defaults to `"simple"`. */
+  language?: string
+  /** Placeholder text for the search input. */
+  placeholder?: string
+}
+
+/** A column and direction the index table is ordered by. */
+export interface SortConfig {
+  /** Column name to sort on. */
+  column: string
+  /** Sort direction. Defaults to `"asc"`. */
+  direction?: 'asc' | 'desc'
+}
+
+/** Widget kinds available in the index filter sidebar. */
+export type FilterType = 'text' | 'number' | 'boolean' | 'enum' | 'timestamp'
+
+/** A filter shown in the index filter sidebar. */
+export interface FilterConfig {
+  /** Column name to filter on. */
+  column: string
+  /** Label shown above the widget. Defaults to the formatted column name. */
+  label?: string
+  /** Widget kind. Defaults to one derived from the column's data type. */
+  type?: FilterType
+}
+
 /** Configuration for the resource index (list) view. */
 export interface IndexConfig extends ColumnConfig {
   /** Number of records per page. Defaults to 20. */
   perPage?: number
+  /** Searchable columns, or a full {@link SearchConfig}. Enables the `?q=` search box. */
+  search?: string[] | SearchConfig
+  /**
+   * Columns shown as filters beside the index table, either as column names or
+   * {@link FilterConfig} objects. Applied via `?filter[column][op]=value`.
+   */
+  filters?: (string | FilterConfig)[]
+  /** Sort order used when the request has no `?sort=` parameter. */
+  defaultSort?: SortConfig
+  /** Most records "Select all matching" may run a batch action on. Defaults to 1000. */
+  selectAllLimit?: number
 }
 
 /** Configuration for the resource show (detail) view. */
-export interface ShowConfig extends ColumnConfig {}
+export interface ShowConfig extends ColumnConfig {
+  /** Child resources listed in paginated panels below the record. */
+  panels?: PanelConfig[]
+}
+
+/** A panel on the show page listing the child records that reference the shown record. */
+export interface PanelConfig {
+  /** Route path or table name of the child resource. */
+  resource: string
+  /**
+   * Foreign key column on the child resource that references this resource.
+   * Defaults to the child's first foreign key pointing at this resource's table.
+   */
+  foreignKey?: string
+  /** Panel heading. Defaults to the child resource's plural display name. */
+  label?: string
+  /** Child columns shown in the panel. Defaults to the child's index columns. */
+  columns?: string[]
+  /** Rows per panel page. Default: 5. */
+  perPage?: number
+}
 
 /** Configuration for the resource create/edit form. */
 export interface FormConfig extends ColumnConfig {}
 
+/** A named subset of records, rendered as a tab above the index table. */
+export interface ScopeConfig {
+  /** Tab label. Its slug selects the scope via `?scope=`. */
+  name: string
+  /** Builds the condition selecting the scope's records. Omit for an "all records" tab. */
+  where?: () => SQL | undefined
+  /** When `true`, the scope is applied if the request has no `?scope=` parameter. */
+  default?: boolean
+}
+
 /** An action that operates on a single record. */
 export interface MemberAction {
   /** Display name shown in the UI. */
   name: string
-  /** Handler called with the record ID and database instance. */
+  /**
+   * Handler called with the record ID and database instance. With an audit
+   * log, the instance is the transaction its entry is written in.
+   */
   handler: (id: string | number, db: AnyPgDatabase) => Promise<void>
   /** When `true`, the UI shows a destructive confirmation style. */
   destructive?: boolean
 }
 
+/** An action that operates on records selected on the index page. */
+export interface BatchAction {
+  /** Display name shown in the UI. */
+  name: string
+  /**
+   * Handler called with the selected record IDs and database instance. With an
+   * audit log, the instance is the transaction its entries are written in.
+   */
+  handler: (ids: string[], db: AnyPgDatabase) => Promise<void>
+  /** When `true` (default), the confirmation modal uses a destructive style. */
+  destructive?: boolean
+}
+
+/** Passed to collection action handlers, e.g. to render multi-step pages. */
+export interface ActionContext {
+  /** The resource the action runs on. */
+  resource: ResourceDefinition
+  /** Column metadata of the resource's table. */
+  columns: ColumnMeta[]
+  /** URL the action's forms post back to. */
+  actionUrl: string
+  /** The admin's mount path, for building links with `adminUrl`. */
+  basePath: string
+  /** CSRF token the action's forms must submit as `_csrf`. */
+  csrfToken: string
+  /** Search, filters, sort and scope of the index listing the action was run from. */
+  listParams: ListParams
+  /** Wraps content in the admin layout and returns the full HTML page. */
+  renderPage: (title: string, content: string) => string
+  /** Responds with the 403 page. */
+  forbidden: () => Response
+  /**
+   * Records a write in the audit log, using the write's transaction handle.
+   * Does nothing without `auditLog`.
+   */
+  audit: (tx: AnyPgDatabase, entry: Pick<AuditEntry, 'recordId' | 'action' | 'changes'>) => Promise<void>
+  /** Saves a row before the action overwrites it, when the resource has `versioning` enabled. */
+  snapshot: (tx: AnyPgDatabase, event: VersionEvent, recordId: string, record: Record<string, unknown>) => Promise<void>
+}
+
 /** An action that operates on the entire collection. */
 export interface CollectionAction {
   /** Display name shown in the UI. */
   name: string
-  /** Handler called with the Hono context and database instance. */
-  handler: (c: Context, db: AnyPgDatabase) => Promise<void | Response>
+  /**
+   * Handler called with the Hono context and database instance. Returning a
+   * `Response` sends it as is; otherwise a success message is flashed.
+   */
+  handler: (c: Context, db: AnyPgDatabase, context: ActionContext) => Promise<void | Response>
+  /**
+   * Set when the handler records its runs itself through `context.audit`.
+   * Otherwise every successful run is recorded under the action's name.
+   */
+  auditsItself?: boolean
+  /**
+   * Set when the action changes nothing, such as an export. API tokens with
+   * read-only access may run only these; other actions need read-write access.
+   */
+  readOnly?: boolean
+}
+
+/**
+ * The subset of the Standard Schema v1 interface (https://standardschema.dev)
+ * DrizzleAdmin validates with. Zod, Valibot and ArkType schemas implement it.
+ */
+export interface StandardSchemaV1<Output = unknown> {
+  readonly '~standard': {
+    readonly version: 1
+    readonly vendor: string
+    readonly validate: (value: unknown) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>
+  }
+}
+
+/** The result of validating a value against a {@link StandardSchemaV1}. */
+export type StandardSchemaResult<Output> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> }
+
+/** A single validation failure reported by a {@link StandardSchemaV1}. */
+export interface StandardSchemaIssue {
+  readonly message: string
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>
+}
+
+/** Validation error messages keyed by column name. */
+export type ValidationErrors = Record<string, string>
+
+/** Context passed to a {@link ValidateFunction}. */
+export interface ValidationContext {
+  /** Whether the values are being created or updated. */
+  action: 'create' | 'update'
+  /** ID of the record being updated. */
+  id?: string
+  /** The database instance, e.g. for uniqueness checks. */
+  db: AnyPgDatabase
+}
+
+/** Validates submitted form values, returning error messages keyed by column name. */
+export type ValidateFunction = (
+  values: Record<string, unknown>,
+  context: ValidationContext,
+) => ValidationErrors | void | Promise<ValidationErrors | void>
+
+/** Context passed to lifecycle hooks. */
+export interface HookContext {
+  /** The signed-in admin making the change. */
+  admin: AdminTokenPayload
+  /** The transaction the write runs in. Use it for related writes so they commit or roll back together. */
+  tx: AnyPgDatabase
+  /** ID of the record being changed; unset before a create. */
+  id?: string
+  /** The record as it was before an update or delete. */
+  previous?: Record<string, unknown>
+}
+
+/** Values returned by a before-hook replace the values being written. */
+export type BeforeWriteHook = (
+  values: Record<string, unknown>,
+  context: HookContext,
+) => Record<string, unknown> | void | Promise<Record<string, unknown> | void>
+
+/** Hook called with a record after it was written or before/after it is deleted. */
+export type RecordHook = (record: Record<string, unknown>, context: HookContext) => void | Promise<void>
+
+/**
+ * Lifecycle hooks run around create, update and delete. Hooks run in one
+ * transaction with the write: throwing from any hook rolls the write back,
+ * and an error thrown by a before-hook is shown to the admin.
+ */
+export interface ResourceHooks {
+  beforeCreate?: BeforeWriteHook
+  afterCreate?: RecordHook
+  beforeUpdate?: BeforeWriteHook
+  afterUpdate?: RecordHook
+  /** Called with the record about to be deleted. */
+  beforeDelete?: RecordHook
+  /** Called with the record that was deleted. */
+  afterDelete?: RecordHook
+}
+
+/**
+ * Roles allowed to perform each operation on a resource. An operation that is
+ * not listed is open to every admin; a listed one requires one of its roles.
+ * Every operation also requires `read`.
+ */
+export interface ResourcePermissions {
+  read?: string[]
+  create?: string[]
+  update?: string[]
+  delete?: string[]
+  /**
+   * Roles allowed to run each action, keyed by action name. Unlisted member
+   * and batch actions follow `update`; unlisted collection actions follow `read`.
+   */
+  actions?: Record<string, string[]>
+}
+
+/** Decides whether an admin may act on one record. May be async. */
+export type RecordPolicy = (admin: AdminTokenPayload, record: Record<string, unknown>) => boolean | Promise<boolean>
+
+/**
+ * Per-record authorization, checked after role `permissions`. Records outside
+ * `scopeQuery` are hidden entirely; the other checks answer with a 403 page.
+ */
+export interface ResourcePolicy {
+  /** Whether the admin may see the record, its edit form and its actions. */
+  canView?: RecordPolicy
+  /** Whether the admin may edit the record or run member and batch actions on it. */
+  canUpdate?: RecordPolicy
+  /** Whether the admin may delete the record. */
+  canDelete?: RecordPolicy
+  /** Condition restricting which records the admin sees, e.g. `eq(tickets.teamId, teamOf(admin))`. */
+  scopeQuery?: (admin: AdminTokenPayload) => SQL | undefined
+}
+
+/** Configuration for soft deletes. */
+export interface SoftDeleteConfig {
+  /** Nullable timestamp column set when a record is deleted, e.g. `deletedAt`. */
+  column: string
 }
 
 /** Options for customizing how a resource is displayed and managed. */
 export interface ResourceOptions {
   /** Optional folder name for grouping this resource in the sidebar. */
   folder?: string
+  /**
+   * Column used to label this resource's records wherever another resource
+   * references them. Defaults to the first of `name`, `title`, `label` or
+   * `email`, falling back to the primary key.
+   */
+  displayField?: string
   /** Whitelist of column names allowed in create/update forms. */
   permitParams?: string[]
+  /**
+   * Validates submitted values before they are written. Accepts a Standard
+   * Schema (Zod, Valibot, ...) or a function returning errors keyed by column.
+   */
+  validate?: StandardSchemaV1 | ValidateFunction
+  /** Lifecycle hooks run around create, update and delete. */
+  hooks?: ResourceHooks
+  /** Roles allowed to read, create, update, delete and run actions. */
+  permissions?: ResourcePermissions
+  /** Per-record checks deciding which records an admin may see, edit and delete. */
+  policy?: ResourcePolicy
+  /**
+   * Turns deletes into setting a timestamp column. Soft-deleted records are
+   * hidden from listings, show pages, relation panels and lookups, and listed
+   * in a "Trash" index tab where they can be restored or deleted permanently.
+   */
+  softDelete?: SoftDeleteConfig
+  /**
+   * Snapshots each record before every update and delete into the configured
+   * `versionsTable`, and adds a Versions page to compare and revert to snapshots.
+   */
+  versioning?: boolean
   /** Index view configuration. */
   index?: IndexConfig
   /** Show view configuration. */
   show?: ShowConfig
   /** Form view configuration. */
   form?: FormConfig
+  /** Named scopes shown as tabs on the index page. */
+  scopes?: ScopeConfig[]
   /** Actions available on individual records. */
   memberActions?: MemberAction[]
   /** Actions available on the collection as a whole. */
   collectionActions?: CollectionAction[]
+  /** Actions available on records selected with the index page checkboxes. */
+  batchActions?: BatchAction[]
 }
 
 /** A fully resolved resource definition used internally by DrizzleAdmin. */
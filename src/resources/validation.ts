@@ -0,0 +1,119 @@
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type {
+  StandardSchemaIssue,
+  StandardSchemaV1,
+  ValidateFunction,
+  ValidationContext,
+  ValidationErrors,
+} from '@/resources/types.ts'
+
+/** The outcome of running a resource's `validate` option. */
+export interface ValidationResult {
+  /** The values to write. A schema's parsed output is merged over the submitted values. */
+  values: Record<string, unknown>
+  /** Error messages keyed by column name; unset when the values are valid. */
+  errors?: ValidationErrors
+}
+
+/** Key under which errors that do not belong to a single field are reported. */
+export const FORM_ERROR_KEY = '_form'
+
+/**
+ * Runs a resource's `validate` option against submitted form values.
+ * Standard Schema issues are keyed by the first segment of their path.
+ */
+export async function validateValues(
+  validate: StandardSchemaV1 | ValidateFunction | undefined,
+  values: Record<string, unknown>,
+  context: ValidationContext,
+): Promise<ValidationResult> {
+  if (!validate) return { values }
+
+  if (typeof validate === 'function') {
+    const errors = await validate(values, context)
+    return errors && Object.keys(errors).length > 0 ? { values, errors } : { values }
+  }
+
+  const result = await validate['~standard'].validate(values)
+  if (result.issues) {
+    return { values, errors: issuesToErrors(result.issues) }
+  }
+
+  const output = result.value
+  return {
+    values: output && typeof output === 'object' ? { ...values, ...output } : values,
+  }
+}
+
+/**
+ * Maps a Postgres constraint violation (unique, not-null or foreign key) to an
+ * error on the offending column. Returns `undefined` for any other error.
+ * Reads the error fields exposed by both `pg` and `postgres.js`, including
+ * errors wrapped in a `cause`.
+ */
+export function mapConstraintError(err: unknown, columns: ColumnMeta[]): ValidationErrors | undefined {
+  const pgError = findPgError(err)
+  if (!pgError) return undefined
+
+  const sqlName = pgError.column ?? pgError.column_name ?? parseDetailColumn(pgError.detail)
+  const column = sqlName ? columns.find(col => col.sqlName === sqlName || col.name === sqlName) : undefined
+  const key = column?.name ?? FORM_ERROR_KEY
+
+  switch (pgError.code) {
+    case '23505':
+      return { [key]: column ? 'has already been taken' : 'A record with these values already exists' }
+    case '23502':
+      return { [key]: column ? "can't be blank" : 'A required value is missing' }
+    case '23503':
+      return { [key]: column ? 'does not reference an existing record' : 'A referenced record does not exist' }
+    default:
+      return undefined
+  }
+}
+
+/** Whether the error is a Postgres unique violation, such as a duplicate key. */
+export function isUniqueViolation(err: unknown): boolean {
+  return findPgError(err)?.code === '23505'
+}
+
+interface PgError {
+  code: string
+  column?: string
+  column_name?: string
+  detail?: string
+}
+
+function findPgError(err: unknown): PgError | undefined {
+  let current = err
+  for (let depth = 0; depth < 5 && current && typeof current === 'object'; depth++) {
+    const candidate = current as Partial<PgError> & { cause?: unknown }
+    if (typeof candidate.code === 'string' && /^23\d{3}$/.test(candidate.code)) {
+      return candidate as PgError
+    }
+    current = candidate.cause
+  }
+  return undefined
+}
+
+// Unique and foreign key violations name the column in the detail, e.g.
+// `Key (email)=(a@b.c) already exists.` Composite keys are left unmatched.
+function parseDetailColumn(detail: string | undefined): string | undefined {
+  const match = detail ? /^Key \(([^,)]+)\)=/.exec(detail) : null
+  return match?.[1]?.replace(/^"|"$/g, '')
+}
+
+function issuesToErrors(issues: ReadonlyArray<StandardSchemaIssue>): ValidationErrors {
+  const errors: ValidationErrors = {}
+
+  for (const issue of issues) {
+    const segment = issue.path?.[0]
+    const key = segment === undefined
+      ? FORM_ERROR_KEY
+      : String(typeof segment === 'object' ? segment.key : segment)
+
+    // Keep the first message per field, which is usually the most specific
+    errors[key] ??= issue.message
+  }
+
+  return errors
+}
@@ -0,0 +1,263 @@
+import { describe, it, expect, vi } from 'vitest'
+import { Hono } from 'hono'
+import type { SQL } from 'drizzle-orm'
+import { PgDialect, pgTable, serial, text, timestamp } from 'drizzle-orm/pg-core'
+import { createActionRoutes } from '@/routes/actions.ts'
+import { ADMIN_CONTEXT_KEY } from '@/auth/middleware.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import { generateCsrfToken } from '@/auth/csrf.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { AnyPgDatabase } from '@/types.ts'
+
+const SECRET = 'test-secret-at-least-32-characters-long'
+
+const cards = pgTable('cards', {
+  id: serial('id').primaryKey(),
+  title: text('title').notNull(),
+})
+
+const columns: ColumnMeta[] = [
+  { name: 'id', sqlName: 'id', dataType: 'integer', isNullable: false, isPrimaryKey: true, hasDefault: true },
+  { name: 'title', sqlName: 'title', dataType: 'text', isNullable: false, isPrimaryKey: false, hasDefault: false },
+]
+
+function makeResource(overrides: Partial<ResourceDefinition['options']> = {}): ResourceDefinition {
+  return {
+    table: cards,
+    tableName: 'cards',
+    routePath: 'cards',
+    displayName: 'Card',
+    options: { index: { search: ['title'] }, ...overrides },
+  }
+}
+
+function makeDb(rows: Record<string, unknown>[] = []) {
+  const where = vi.fn((_condition: unknown) => Object.assign(Promise.resolve(rows), {
+    limit: async (count: number) => rows.slice(0, count),
+  }))
+  const db = { select: () => ({ from: () => ({ where }) }) } as unknown as AnyPgDatabase
+  return { db, where }
+}
+
+// Mounts the routes behind a stand-in for the auth middleware
+function withAdmin(app: Hono, roles?: string[]) {
+  const root = new Hono<{ Variables: { admin: AdminTokenPayload } }>()
+  root.use(async (c, next) => {
+    c.set(ADMIN_CONTEXT_KEY, { adminId: 1, email: 'agent@test.com', roles })
+    await next()
+  })
+  root.route('/', app)
+  return root
+}
+
+async function postBatch(app: Pick<Hono, 'request'>, action: string, fields: [string, string][]) {
+  const token = await generateCsrfToken(SECRET)
+  const body = new URLSearchParams([['_csrf', token], ...fields])
+  return app.request(`/actions/batch/${action}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-www-form-urlencoded',
+      Cookie: `_csrf=${token}`,
+    },
+    body,
+  })
+}
+
+function flashOf(res: Response): { type: string; message: string } {
+  const cookie = res.headers.getSetCookie().find(c => c.startsWith('_flash='))!
+  return JSON.parse(decodeURIComponent(cookie.slice('_flash='.length).split(';')[0]!))
+}
+
+describe('batch action route', () => {
+  it('calls the handler with the selected ids', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined)
+    const { db } = makeDb()
+    const app = createActionRoutes({
+      db,
+      resource: makeResource({ batchActions: [{ name: 'Archive', handler }] }),
+      columns,
+      sessionSecret: SECRET,
+      allResources: [],
+      basePath: '/admin',
+    })
+
+    const res = await postBatch(app, 'archive', [['ids[]', '1'], ['ids[]', '3'], ['_query', 'q=foo']])
+
+    expect(res.status).toBe(302)
+    expect(res.headers.get('Location')).toBe('/admin/cards?q=foo')
+    expect(handler).toHaveBeenCalledWith(['1', '3'], db)
+    expect(flashOf(res)).toEqual({ type: 'success', message: 'Archive completed for 2 cards.' })
+  })
+
+  it('resolves all matching records when "all" is set', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined)
+    const { db, where } = makeDb([{ id: 1 }, { id: 2 }, { id: 5 }])
+    const app = createActionRoutes({
+      db,
+      resource: makeResource({ batchActions: [{ name: 'Archive', handler }] }),
+      columns,
+      sessionSecret: SECRET,
+      allResources: [],
+      basePath: '',
+    })
+
+    await postBatch(app, 'archive', [['ids[]', '1'], ['all', 'true'], ['_query', 'q=foo']])
+
+    expect(where.mock.calls[0]![0]).toBeDefined()
+    expect(handler).toHaveBeenCalledWith(['1', '2', '5'], db)
+  })
+
+  it('leaves trashed records out of all matching records', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined)
+    const trashable = pgTable('cards', { id: serial('id').primaryKey(), deletedAt: timestamp('deleted_at') })
+    const { db, where } = makeDb([{ id: 1 }])
+    const app = createActionRoutes({
+      db,
+      resource: { ...makeResource({ softDelete: { column: 'deletedAt' }, batchActions: [{ name: 'Archive', handler }] }), table: trashable },
+      columns,
+      sessionSecret: SECRET,
+      allResources: [],
+      basePath: '',
+    })
+
+    await postBatch(app, 'archive', [['all', 'true'], ['_query', 'scope=trash']])
+
+    expect(new PgDialect().sqlToQuery(where.mock.calls[0]![0] as SQL).sql).toBe('("cards"."deleted_at" is not null and "cards"."deleted_at" is null)')
+  })
+
+  it('refuses to select all when more records match than the limit', async () => {
+    const handler = vi.fn()
+    const { db } = makeDb([{ id: 1 }, { id: 2 }, { id: 5 }])
+    const app = createActionRoutes({
+      db,
+      resource: makeResource({ index: { selectAllLimit: 2 }, batchActions: [{ name: 'Archive', handler }] }),
+      columns,
+      sessionSecret: SECRET,
+      allResources: [],
+      basePath: '',
+    })
+
+    const res = await postBatch(app, 'archive', [['all', 'true'], ['_query', 'q=foo']])
+
+    expect(res.headers.get('Location')).toBe('/cards?q=foo')
+    expect(flashOf(res)).toEqual({
+      type: 'error',
+      message: 'Select all is limited to 2 cards. Narrow the search or filters and try again.',
+    })
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('flashes an error when nothing is selected', async () => {
+    const handler = vi.fn()
+    const app = createActionRoutes({
+      db: makeDb().db,
+      resource: makeResource({ batchActions: [{ name: 'Archive', handler }] }),
+      columns,
+      sessionSecret: SECRET,
+      allResources: [],
+      basePath: '',
+    })
+
+    const res = await postBatch(app, 'archive', [])
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(flashOf(res)).toEqual({ type: 'error', message: 'No cards selected.' })
+  })
+
+  it('flashes the error when the handler throws', async () => {
+    const handler = vi.fn().mockRejectedValue(new Error('locked'))
+    const app = createActionRoutes({
+      db: makeDb().db,
+      resource: makeResource({ batchActions: [{ name: 'Archive', handler }] }),
+      columns,
+      sessionSecret: SECRET,
+      allResources: [],
+      basePath: '',
+    })
+
+    const res = await postBatch(app, 'archive', [['ids[]', '1']])
+
+    expect(flashOf(res)).toEqual({ type: 'error', message: 'Archive failed: locked' })
+  })
+
+  it('rejects requests without a valid CSRF token', async () => {
+    const handler = vi.fn()
+    const app = createActionRoutes({
+      db: makeDb().db,
+      resource: makeResource({ batchActions: [{ name: 'Archive', handler }] }),
+      columns,
+      sessionSecret: SECRET,
+      allResources: [],
+      basePath: '',
+    })
+
+    const res = await app.request('/actions/batch/archive', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams([['ids[]', '1']]),
+    })
+
+    expect(handler).not.toHaveBeenCalled()
+    expect(flashOf(res).type).toBe('error')
+  })
+})
+
+describe('action route policies', () => {
+  const policy = { canUpdate: (_admin: unknown, record: Record<string, unknown>) => record.title !== 'Locked' }
+
+  it('returns 403 when the policy denies any selected record', async () => {
+    const handler = vi.fn()
+    const { db } = makeDb([{ id: 1, title: 'Open' }, { id: 2, title: 'Locked' }])
+    const app = withAdmin(createActionRoutes({
+      db,
+      resource: makeResource({ policy, batchActions: [{ name: 'Archive', handler }] }),
+      columns,
+      sessionSecret: SECRET,
+      allResources: [],
+      basePath: '',
+    }))
+
+    const res = await postBatch(app, 'archive', [['ids[]', '1'], ['ids[]', '2']])
+
+    expect(res.status).toBe(403)
+    expect(await res.text()).toContain('Forbidden')
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('treats selected records outside the policy scope as denied', async () => {
+    const handler = vi.fn()
+    const { db } = makeDb([{ id: 1, title: 'Open' }])
+    const app = withAdmin(createActionRoutes({
+      db,
+      resource: makeResource({ policy, batchActions: [{ name: 'Archive', handler }] }),
+      columns,
+      sessionSecret: SECRET,
+      allResources: [],
+      basePath: '',
+    }))
+
+    const res = await postBatch(app, 'archive', [['ids[]', '1'], ['ids[]', '9']])
+
+    expect(res.status).toBe(403)
+    expect(handler).not.toHaveBeenCalled()
+  })
+
+  it('runs the action when the policy allows every selected record', async () => {
+    const handler = vi.fn().mockResolvedValue(undefined)
+    const { db } = makeDb([{ id: 1, title: 'Open' }])
+    const app = withAdmin(createActionRoutes({
+      db,
+      resource: makeResource({ policy, batchActions: [{ name: 'Archive', handler }] }),
+      columns,
+      sessionSecret: SECRET,
+      allResources: [],
+      basePath: '',
+    }))
+
+    const res = await postBatch(app, 'archive', [['ids[]', '1']])
+
+    expect(res.status).toBe(302)
+    expect(handler).toHaveBeenCalledWith(['1'], db)
+  })
+})
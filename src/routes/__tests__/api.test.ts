@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { parseJsonValues } from '@/routes/api.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+
+function makeColumn(overrides: Partial<ColumnMeta> = {}): ColumnMeta {
+  return {
+    name: 'title',
+    sqlName: 'title',
+    dataType: 'text',
+    isNullable: false,
+    isPrimaryKey: false,
+    hasDefault: false,
+    ...overrides,
+  }
+}
+
+describe('parseJsonValues', () => {
+  const columns = [
+    makeColumn({ name: 'id', dataType: 'integer', isPrimaryKey: true, hasDefault: true }),
+    makeColumn({ name: 'title' }),
+    makeColumn({ name: 'views', dataType: 'integer' }),
+    makeColumn({ name: 'published', dataType: 'boolean' }),
+    makeColumn({ name: 'publishedAt', dataType: 'timestamp' }),
+    makeColumn({ name: 'meta', dataType: 'json' }),
+    makeColumn({ name: 'createdAt', dataType: 'timestamp', hasDefault: true }),
+  ]
+
+  it('leaves out columns absent from the body', () => {
+    expect(parseJsonValues({ title: 'Hello' }, columns)).toEqual({ title: 'Hello' })
+  })
+
+  it('skips keys, managed timestamps and unknown fields', () => {
+    const result = parseJsonValues({ id: 5, createdAt: '2024-01-01', title: 'Hello', other: 1 }, columns)
+    expect(result).toEqual({ title: 'Hello' })
+  })
+
+  it('takes typed values as given', () => {
+    const result = parseJsonValues({ views: 3, published: false, title: null }, columns)
+    expect(result).toEqual({ views: 3, published: false, title: null })
+  })
+
+  it('coerces string values like form fields', () => {
+    const result = parseJsonValues({ views: '42', published: 'true', publishedAt: '2024-01-15T10:30:00Z' }, columns)
+    expect(result.views).toBe(42)
+    expect(result.published).toBe(true)
+    expect(result.publishedAt).toEqual(new Date('2024-01-15T10:30:00Z'))
+  })
+
+  it('keeps JSON column values, including strings, as given', () => {
+    expect(parseJsonValues({ meta: { tags: ['a'] } }, columns).meta).toEqual({ tags: ['a'] })
+    expect(parseJsonValues({ meta: 'plain' }, columns).meta).toBe('plain')
+  })
+
+  it('applies permitParams', () => {
+    expect(parseJsonValues({ title: 'Hello', views: 3 }, columns, ['views'])).toEqual({ views: 3 })
+  })
+
+  it('accepts natural primary keys on create only', () => {
+    const keyed = [makeColumn({ name: 'slug', isPrimaryKey: true })]
+    expect(parseJsonValues({ slug: 'hello' }, keyed, undefined, 'create')).toEqual({ slug: 'hello' })
+    expect(parseJsonValues({ slug: 'hello' }, keyed)).toEqual({})
+  })
+})
@@ -38,6 +38,16 @@ describe('parseFormValues', () => {
     expect(result.title).toBe('Hello')
   })
 
+  it('accepts primary keys without a default on create only', () => {
+    const columns = [
+      makeColumn({ name: 'slug', isPrimaryKey: true }),
+      makeColumn({ name: 'id', isPrimaryKey: true, hasDefault: true }),
+    ]
+    const body = { slug: 'hello', id: '1' }
+    expect(parseFormValues(body, columns, undefined, 'create')).toEqual({ slug: 'hello' })
+    expect(parseFormValues(body, columns)).toEqual({})
+  })
+
   it('skips createdAt columns', () => {
     const columns = [
       makeColumn({ name: 'createdAt' }),
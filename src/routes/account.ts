@@ -0,0 +1,229 @@
+import { Hono } from 'hono'
+import type { Context } from 'hono'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { AuditLogConfig, TwoFactorConfig } from '@/config.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import { validateCsrf, setCsrfCookie } from '@/auth/csrf.ts'
+import { clearAuthCookie, getAdmin } from '@/auth/middleware.ts'
+import { checkPassword, updatePassword, validateNewPassword } from '@/auth/credentials.ts'
+import { can, hasRole, type Operation } from '@/auth/permissions.ts'
+import { canViewAuditLog } from '@/audit/log.ts'
+import { createApiToken, listApiTokens, revokeApiToken, type ApiTokenScopes } from '@/apiTokens/store.ts'
+import { loadTwoFactor } from '@/twoFactor/store.ts'
+import { beginLoginAttempt, loginThrottledMessage, recordFailedLogin, releaseLoginAttempt, type LoginThrottle } from '@/loginAttempts/throttle.ts'
+import { endAdminSessions, listActiveSessions, revokeSession, type Sessions } from '@/sessions/lifecycle.ts'
+import { clientIp } from '@/utils/request.ts'
+import { setFlash, getFlash } from '@/utils/flash.ts'
+import { layout } from '@/views/layout.ts'
+import { accountView, type ApiTokenForm, type GrantableResource } from '@/views/account.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+export interface AccountRoutesConfig {
+  db: AnyPgDatabase
+  adminUsers: PgTable
+  sessionSecret: string
+  allResources: ResourceDefinition[]
+  basePath: string
+  auditLog?: AuditLogConfig
+  /** Table of personal API tokens; the token section is hidden when unset. */
+  apiTokensTable?: PgTable
+  /** Shows whether two-factor authentication is on, linking its page. */
+  twoFactor?: TwoFactorConfig
+  /** Wrong current passwords count as failed sign-ins. */
+  loginThrottle: LoginThrottle
+  /** Lists the admin's sessions for signing out; the section is hidden when unset. */
+  sessions?: Sessions
+  /** Links the Invite Admin page for admins with these roles. */
+  invitations?: { roles: string[] }
+}
+
+const WRITE_OPERATIONS: Operation[] = ['create', 'update', 'delete']
+
+/**
+ * Creates the Account page, where admins see who they are signed in as and
+ * whether they use two-factor authentication, and change their password. When
+ * `sessions` is set they sign out their sessions, and when `apiTokensTable` is
+ * set they create and revoke their personal API tokens.
+ */
+export function createAccountRoutes(config: AccountRoutesConfig): Hono {
+  const { db, sessionSecret, allResources, basePath, auditLog, apiTokensTable, twoFactor, sessions, invitations } = config
+  const app = new Hono()
+  const accountUrl = adminUrl(basePath, '/account')
+
+  // A token can only grant what its admin may do: read access to resources they
+  // can read, and write access where they can also create, update or delete
+  const grantableResources = (admin: AdminTokenPayload): GrantableResource[] => allResources
+    .filter(resource => can(admin, resource, 'read'))
+    .map(resource => ({ resource, writable: WRITE_OPERATIONS.some(op => can(admin, resource, op)) }))
+
+  const render = async (
+    c: Context,
+    props: { form?: ApiTokenForm; errors?: string[]; newToken?: string; passwordErrors?: string[] },
+    status: 200 | 422 | 429 = 200,
+  ) => {
+    const admin = getAdmin(c)
+    const flash = getFlash(c)
+    const csrfToken = await setCsrfCookie(c, sessionSecret)
+
+    const { content, modals } = accountView({
+      admin,
+      resources: grantableResources(admin),
+      tokens: apiTokensTable ? await listApiTokens(db, apiTokensTable, admin.adminId) : undefined,
+      twoFactor: twoFactor ? { enabled: !!(await loadTwoFactor(db, twoFactor.table, admin.adminId))?.enabledAt } : undefined,
+      sessions: sessions ? await listActiveSessions(sessions, admin.adminId) : undefined,
+      canInvite: !!invitations && hasRole(admin, invitations.roles),
+      csrfToken,
+      basePath,
+      ...props,
+    })
+
+    return c.html(layout({
+      title: 'Account',
+      content,
+      admin,
+      resources: allResources,
+      currentPath: '/account',
+      basePath,
+      flash,
+      modals,
+      auditLog: canViewAuditLog(admin, auditLog),
+    }), status)
+  }
+
+  // GET /account - Signed-in admin, their sessions and API tokens
+  app.get('/account', (c) => render(c, {}))
+
+  // POST /account/password - Change the admin's password, signing out their other sessions
+  app.post('/account/password', async (c) => {
+    const csrfValid = await validateCsrf(c, sessionSecret)
+    if (!csrfValid) {
+      setFlash(c, 'error', 'Invalid request. Please try again.')
+      return c.redirect(accountUrl)
+    }
+
+    // The current password is guessed against the same limits as at sign-in
+    const admin = getAdmin(c)
+    const attempt = { email: admin.email, ip: clientIp(c) }
+    const retryAfter = await beginLoginAttempt(config.loginThrottle, attempt)
+    if (retryAfter > 0) {
+      c.header('Retry-After', String(retryAfter))
+      return render(c, { passwordErrors: [loginThrottledMessage(retryAfter)] }, 429)
+    }
+
+    const body = await c.req.parseBody()
+    const field = (name: string) => typeof body[name] === 'string' ? body[name] : ''
+    const password = field('newPassword')
+    const passwordError = validateNewPassword(password, field('confirmPassword'))
+
+    const errors: string[] = []
+    if (!await checkPassword(config, admin.adminId, field('currentPassword'))) {
+      await recordFailedLogin(c, config, admin.email)
+      errors.push('Current password is incorrect.')
+    } else {
+      await releaseLoginAttempt(config.loginThrottle, attempt)
+    }
+    if (passwordError) errors.push(passwordError)
+    if (errors.length > 0) {
+      return render(c, { passwordErrors: errors }, 422)
+    }
+
+    await updatePassword(config, admin.adminId, password)
+    if (sessions) {
+      await endAdminSessions(sessions, admin.adminId, admin.sessionId)
+    }
+    setFlash(c, 'success', sessions ? 'Password changed. Your other sessions were signed out.' : 'Password changed.')
+    return c.redirect(accountUrl)
+  })
+
+  if (sessions) {
+    // POST /account/sessions/:id/revoke - Sign out one of the admin's sessions
+    app.post('/account/sessions/:id/revoke', async (c) => {
+      const csrfValid = await validateCsrf(c, sessionSecret)
+      if (!csrfValid) {
+        setFlash(c, 'error', 'Invalid request. Please try again.')
+        return c.redirect(accountUrl)
+      }
+
+      const admin = getAdmin(c)
+      const id = c.req.param('id')
+      if (!await revokeSession(sessions, admin.adminId, id)) {
+        setFlash(c, 'error', 'Session not found.')
+        return c.redirect(accountUrl)
+      }
+      if (id === admin.sessionId) {
+        clearAuthCookie(c, basePath)
+        return c.redirect(adminUrl(basePath, '/login'))
+      }
+      setFlash(c, 'success', 'Session signed out.')
+      return c.redirect(accountUrl)
+    })
+
+    // POST /account/sessions/revoke-all - Sign out every session, this one included
+    app.post('/account/sessions/revoke-all', async (c) => {
+      const csrfValid = await validateCsrf(c, sessionSecret)
+      if (!csrfValid) {
+        setFlash(c, 'error', 'Invalid request. Please try again.')
+        return c.redirect(accountUrl)
+      }
+
+      await endAdminSessions(sessions, getAdmin(c).adminId)
+      clearAuthCookie(c, basePath)
+      return c.redirect(adminUrl(basePath, '/login'))
+    })
+  }
+
+  if (!apiTokensTable) return app
+
+  // POST /account/tokens - Create a token and show it once
+  app.post('/account/tokens', async (c) => {
+    const csrfValid = await validateCsrf(c, sessionSecret)
+    if (!csrfValid) {
+      setFlash(c, 'error', 'Invalid request. Please try again.')
+      return c.redirect(accountUrl)
+    }
+
+    const admin = getAdmin(c)
+    const body = await c.req.parseBody()
+    const name = typeof body.name === 'string' ? body.name.trim() : ''
+
+    const scopes: ApiTokenScopes = {}
+    for (const { resource, writable } of grantableResources(admin)) {
+      const access = body[`scope.${resource.tableName}`]
+      if (access === 'read' || (access === 'write' && writable)) {
+        scopes[resource.tableName] = access
+      }
+    }
+
+    const errors: string[] = []
+    if (!name) errors.push('Name is required.')
+    if (Object.keys(scopes).length === 0) errors.push('Choose at least one resource.')
+    if (errors.length > 0) {
+      return render(c, { form: { name, scopes }, errors }, 422)
+    }
+
+    const token = await createApiToken(db, apiTokensTable, { adminId: admin.adminId, name, scopes })
+    return render(c, { newToken: token })
+  })
+
+  // POST /account/tokens/:id/revoke - Delete one of the admin's tokens
+  app.post('/account/tokens/:id/revoke', async (c) => {
+    const csrfValid = await validateCsrf(c, sessionSecret)
+    if (!csrfValid) {
+      setFlash(c, 'error', 'Invalid request. Please try again.')
+      return c.redirect(accountUrl)
+    }
+
+    const id = parseInt(c.req.param('id'), 10)
+    const revoked = Number.isFinite(id) && await revokeApiToken(db, apiTokensTable, getAdmin(c).adminId, id)
+    if (revoked) {
+      setFlash(c, 'success', 'API token revoked.')
+    } else {
+      setFlash(c, 'error', 'API token not found.')
+    }
+    return c.redirect(accountUrl)
+  })
+
+  return app
+}
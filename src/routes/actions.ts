@@ -1,8 +1,25 @@
 import { Hono } from 'hono'
-import type { ResourceDefinition, MemberAction, CollectionAction } from '@/resources/types.ts'
+import type { Context } from 'hono'
+import { and, getTableColumns, or } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ActionContext, ResourceDefinition, MemberAction, CollectionAction, BatchAction } from '@/resources/types.ts'
+import { buildListWhere, getSelectAllLimit, parseListParams } from '@/resources/query.ts'
+import { encodeRecordId, getPrimaryKey, recordWhere } from '@/resources/primaryKey.ts'
+import { softDeleteWhere } from '@/resources/softDelete.ts'
+import { withWriteTransaction } from '@/resources/hooks.ts'
 import { validateCsrf } from '@/auth/csrf.ts'
+import { getAdmin } from '@/auth/middleware.ts'
+import { canRunAction } from '@/auth/permissions.ts'
+import { authorize, policyScope } from '@/auth/policy.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { AuditLogConfig } from '@/config.ts'
+import { buildAuditEntry, canViewAuditLog, writeAuditEntries } from '@/audit/log.ts'
+import { saveVersion } from '@/versions/store.ts'
 import { setFlash } from '@/utils/flash.ts'
-import { slugify } from '@/views/components/actions.ts'
+import { slugify } from '@/utils/slug.ts'
+import { forbiddenPage } from '@/views/forbidden.ts'
+import { layout } from '@/views/layout.ts'
 import { adminUrl } from '@/utils/url.ts'
 
 import type { AnyPgDatabase } from '@/types.ts'
@@ -10,13 +27,53 @@ import type { AnyPgDatabase } from '@/types.ts'
 export interface ActionRoutesConfig {
   db: AnyPgDatabase
   resource: ResourceDefinition
+  columns: ColumnMeta[]
   sessionSecret: string
+  allResources: ResourceDefinition[]
   basePath: string
+  auditLog?: AuditLogConfig
+  /** Receives snapshots when the resource has `versioning` enabled. */
+  versionsTable?: PgTable
 }
 
 export function createActionRoutes(config: ActionRoutesConfig): Hono {
-  const { db, resource, sessionSecret, basePath } = config
+  const { db, resource, columns, sessionSecret, allResources, basePath, auditLog, versionsTable } = config
   const app = new Hono()
+  const primaryKey = getPrimaryKey(columns)
+
+  const forbidden = (c: Context) => {
+    const admin = getAdmin(c)
+    const page = forbiddenPage({ resource, admin, resources: allResources, basePath, auditLog: canViewAuditLog(admin, auditLog) })
+    return c.html(page, 403)
+  }
+
+  // Records a completed action, once per affected record, using the action's transaction
+  async function audit(c: Context, tx: AnyPgDatabase, actionName: string, recordIds: (string | null)[]) {
+    if (!auditLog) return
+    const entries = recordIds.map(recordId =>
+      buildAuditEntry(c, { resource: resource.tableName, recordId, action: actionName, changes: null }))
+    await writeAuditEntries(tx, auditLog.table, entries)
+  }
+
+  // Whether the policy lets the admin update every listed record. Records outside
+  // the policy scope, soft-deleted or no longer existing, count as denied
+  async function canUpdateAll(admin: AdminTokenPayload, ids: string[]): Promise<boolean> {
+    if (!resource.options.policy) return true
+
+    const matches = ids.map(id => recordWhere(resource.table, primaryKey, id))
+    if (matches.some(match => !match)) return false
+
+    const records = await db
+      .select()
+      .from(resource.table)
+      .where(and(or(...matches), policyScope(admin, resource), softDeleteWhere(resource)))
+    if (records.length < new Set(ids).size) return false
+
+    for (const record of records) {
+      if (!await authorize(admin, resource, 'update', record)) return false
+    }
+    return true
+  }
 
   // Member action routes: POST /:id/actions/:actionName
   app.post('/:id/actions/:actionName', async (c) => {
@@ -26,24 +83,102 @@ export function createActionRoutes(config: ActionRoutesConfig): Hono {
     const csrfValid = await validateCsrf(c, sessionSecret)
     if (!csrfValid) {
       setFlash(c, 'error', 'Invalid request. Please try again.')
-      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${id}`))
+      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(id)}`))
     }
 
     const action = findMemberAction(resource, actionName)
     if (!action) {
       setFlash(c, 'error', `Action "${actionName}" not found.`)
-      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${id}`))
+      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(id)}`))
+    }
+
+    const admin = getAdmin(c)
+    if (!canRunAction(admin, resource, 'member', action) || !await canUpdateAll(admin, [id])) {
+      return forbidden(c)
     }
 
     try {
-      await action.handler(id, db)
+      await withWriteTransaction(db, !!auditLog, async (tx) => {
+        await action.handler(id, tx)
+        await audit(c, tx, action.name, [id])
+      })
       setFlash(c, 'success', `${action.name} completed successfully.`)
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error'
       setFlash(c, 'error', `${action.name} failed: ${message}`)
     }
 
-    return c.redirect(adminUrl(basePath, `/${resource.routePath}/${id}`))
+    return c.redirect(adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(id)}`))
+  })
+
+  // Batch action routes: POST /actions/batch/:actionName
+  app.post('/actions/batch/:actionName', async (c) => {
+    const actionName = c.req.param('actionName')
+    const body = await c.req.parseBody()
+    const query = typeof body._query === 'string' ? body._query : ''
+    const indexUrl = adminUrl(basePath, `/${resource.routePath}${query ? `?${query}` : ''}`)
+
+    const csrfValid = await validateCsrf(c, sessionSecret)
+    if (!csrfValid) {
+      setFlash(c, 'error', 'Invalid request. Please try again.')
+      return c.redirect(indexUrl)
+    }
+
+    const action = findBatchAction(resource, actionName)
+    if (!action) {
+      setFlash(c, 'error', `Action "${actionName}" not found.`)
+      return c.redirect(indexUrl)
+    }
+
+    const admin = getAdmin(c)
+    if (!canRunAction(admin, resource, 'batch', action)) {
+      return forbidden(c)
+    }
+
+    let ids: string[]
+    if (body.all === 'true') {
+      // Resolve "all matching" against the same search, filters and scope as the
+      // listing, leaving out trashed records
+      const params = parseListParams(Object.fromEntries(new URLSearchParams(query)))
+      const cols = getTableColumns(resource.table)
+      const limit = getSelectAllLimit(resource)
+      const rows = await db
+        .select(Object.fromEntries(primaryKey.map(col => [col.name, cols[col.name]!])))
+        .from(resource.table)
+        .where(and(buildListWhere(resource, columns, params), policyScope(admin, resource), softDeleteWhere(resource)))
+        .limit(limit + 1)
+      if (rows.length > limit) {
+        setFlash(c, 'error', `Select all is limited to ${limit} ${resource.displayName.toLowerCase()}s. Narrow the search or filters and try again.`)
+        return c.redirect(indexUrl)
+      }
+      ids = rows.map(row => encodeRecordId(row, primaryKey))
+    } else {
+      const selected = body['ids[]']
+      ids = (Array.isArray(selected) ? selected : selected ? [selected] : [])
+        .filter((id): id is string => typeof id === 'string')
+    }
+
+    if (ids.length === 0) {
+      setFlash(c, 'error', `No ${resource.displayName.toLowerCase()}s selected.`)
+      return c.redirect(indexUrl)
+    }
+
+    if (!await canUpdateAll(admin, ids)) {
+      return forbidden(c)
+    }
+
+    try {
+      await withWriteTransaction(db, !!auditLog, async (tx) => {
+        await action.handler(ids, tx)
+        await audit(c, tx, action.name, ids)
+      })
+      setFlash(c, 'success', `${action.name} completed for ${ids.length} ${resource.displayName.toLowerCase()}${ids.length === 1 ? '' : 's'}.`)
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      setFlash(c, 'error', `${action.name} failed: ${message}`)
+    }
+
+    return c.redirect(indexUrl)
   })
 
   // Collection action routes: POST /actions/:actionName
@@ -62,13 +197,51 @@ export function createActionRoutes(config: ActionRoutesConfig): Hono {
       return c.redirect(adminUrl(basePath, `/${resource.routePath}`))
     }
 
+    const admin = getAdmin(c)
+    if (!canRunAction(admin, resource, 'collection', action)) {
+      return forbidden(c)
+    }
+
+    const body = await c.req.parseBody()
+    const context: ActionContext = {
+      resource,
+      columns,
+      actionUrl: adminUrl(basePath, `/${resource.routePath}/actions/${actionName}`),
+      basePath,
+      csrfToken: String(body._csrf),
+      listParams: parseListParams(Object.fromEntries(new URLSearchParams(typeof body._query === 'string' ? body._query : ''))),
+      renderPage: (title, content) => layout({
+        title,
+        content,
+        admin,
+        resources: allResources,
+        currentPath: `/${resource.routePath}`,
+        basePath,
+        auditLog: canViewAuditLog(admin, auditLog),
+      }),
+      forbidden: () => forbidden(c),
+      audit: async (tx, entry) => {
+        if (!auditLog) return
+        await writeAuditEntries(tx, auditLog.table, [buildAuditEntry(c, { resource: resource.tableName, ...entry })])
+      },
+      snapshot: async (tx, event, recordId, record) => {
+        if (!resource.options.versioning || !versionsTable) return
+        await saveVersion(tx, versionsTable, { resource: resource.tableName, recordId, event, record, admin })
+      },
+    }
+
     try {
-      const result = await action.handler(c, db)
+      const result = await action.handler(c, db, context)
 
+      // Responses such as the 403 page mean the action did not run. Responses may
+      // stream after the handler returns, so collection actions run outside a transaction
       if (result instanceof Response) {
+        if (result.ok && !action.auditsItself) await audit(c, db, action.name, [null])
         return result
       }
 
+      if (!action.auditsItself) await audit(c, db, action.name, [null])
+
       setFlash(c, 'success', `${action.name} completed successfully.`)
       return c.redirect(adminUrl(basePath, `/${resource.routePath}`))
     } catch (err) {
@@ -88,3 +261,7 @@ function findMemberAction(resource: ResourceDefinition, slugName: string): Membe
 function findCollectionAction(resource: ResourceDefinition, slugName: string): CollectionAction | undefined {
   return resource.options.collectionActions?.find(a => slugify(a.name) === slugName)
 }
+
+function findBatchAction(resource: ResourceDefinition, slugName: string): BatchAction | undefined {
+  return resource.options.batchActions?.find(a => slugify(a.name) === slugName)
+}
@@ -0,0 +1,523 @@
+import { Hono } from 'hono'
+import type { Context, MiddlewareHandler } from 'hono'
+import { and, sql, type SQL } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { ActionContext, ResourceDefinition, ValidationErrors } from '@/resources/types.ts'
+import type { ColumnMeta, DialectAdapter } from '@/dialects/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { AuditLogConfig, TwoFactorConfig } from '@/config.ts'
+import { authenticate } from '@/auth/credentials.ts'
+import { apiTokenMiddleware, bearerAuthMiddleware, getAdmin } from '@/auth/middleware.ts'
+import { can, canRunAction, type Operation } from '@/auth/permissions.ts'
+import { authorize, policyScope, type PolicyCheck } from '@/auth/policy.ts'
+import { buildListOrderBy, buildListWhere, parseListParams } from '@/resources/query.ts'
+import { encodeRecordId, getPrimaryKey, recordWhere } from '@/resources/primaryKey.ts'
+import { FORM_ERROR_KEY, mapConstraintError, validateValues } from '@/resources/validation.ts'
+import { hasHooks, HookAbortError, runBeforeWrite, runRecordHook, withWriteTransaction } from '@/resources/hooks.ts'
+import { softDeleteWhere } from '@/resources/softDelete.ts'
+import { buildAuditEntry, canViewAuditLog, diffRecords, writeAuditEntries, type AuditChanges } from '@/audit/log.ts'
+import { saveVersion, type VersionEvent } from '@/versions/store.ts'
+import { isTwoFactorRequired, loadTwoFactor, verifySecondFactor } from '@/twoFactor/store.ts'
+import {
+  beginLoginAttempt,
+  loginThrottledMessage,
+  recordFailedLogin,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  type LoginThrottle,
+} from '@/loginAttempts/throttle.ts'
+import { buildOpenApiDocument } from '@/resources/openapi.ts'
+import { serializeValue } from '@/actions/export.ts'
+import { coerceFormValue, isWritableColumn } from '@/routes/crud.ts'
+import { slugify } from '@/utils/slug.ts'
+import { layout } from '@/views/layout.ts'
+import { apiDocsView } from '@/views/apiDocs.ts'
+import { adminUrl } from '@/utils/url.ts'
+import { clientIp } from '@/utils/request.ts'
+import { createSessionToken, type Sessions } from '@/sessions/lifecycle.ts'
+
+/** Largest page a list request may ask for with `?perPage=`. */
+const MAX_PER_PAGE = 100
+
+export interface ApiRoutesConfig {
+  db: AnyPgDatabase
+  adminUsers: PgTable
+  /** Column of `adminUsers` holding each admin's role or roles. */
+  roleColumn?: string
+  adapter: DialectAdapter
+  sessionSecret: string
+  resources: ResourceDefinition[]
+  basePath: string
+  auditLog?: AuditLogConfig
+  versionsTable?: PgTable
+  /** Table of personal API tokens, accepted alongside session tokens when set. */
+  apiTokensTable?: PgTable
+  twoFactor?: TwoFactorConfig
+  loginThrottle: LoginThrottle
+  /** Records each token from `POST /token` as a session, checked on every request, when set. */
+  sessions?: Sessions
+}
+
+/**
+ * Creates the JSON API: `POST /token` exchanges an admin's email and password
+ * for a bearer token, and `/:resource` routes mirror each resource's CRUD and
+ * action routes with the same permissions, policies, validation and hooks.
+ * Personal API tokens are accepted too when `apiTokensTable` is set.
+ */
+export function createApiRoutes(config: ApiRoutesConfig): Hono {
+  const app = new Hono()
+
+  // POST /token - Sign in and receive a bearer token
+  app.post('/token', async (c) => {
+    const body = await readJsonBody(c)
+    const email = body?.email
+    const password = body?.password
+    if (typeof email !== 'string' || typeof password !== 'string' || !email || !password) {
+      return c.json({ error: 'Email and password are required.' }, 400)
+    }
+
+    const attempt = { email, ip: clientIp(c) }
+    const retryAfter = await beginLoginAttempt(config.loginThrottle, attempt)
+    if (retryAfter > 0) {
+      c.header('Retry-After', String(retryAfter))
+      return c.json({ error: loginThrottledMessage(retryAfter) }, 429)
+    }
+
+    const admin = await authenticate(config, email, password)
+    if (!admin) {
+      await recordFailedLogin(c, config, email)
+      return c.json({ error: 'Invalid email or password.' }, 401)
+    }
+
+    const { twoFactor } = config
+    const record = twoFactor && await loadTwoFactor(config.db, twoFactor.table, admin.adminId)
+    if (twoFactor && record?.enabledAt) {
+      const code = body?.code
+      if (typeof code !== 'string' || !code) {
+        await releaseLoginAttempt(config.loginThrottle, attempt)
+        return c.json({ error: 'Two-factor code required.' }, 401)
+      }
+      if (!await verifySecondFactor(config.db, twoFactor.table, record, code)) {
+        await recordFailedLogin(c, config, email)
+        return c.json({ error: 'Invalid two-factor code.' }, 401)
+      }
+    } else if (isTwoFactorRequired(admin, twoFactor)) {
+      await releaseLoginAttempt(config.loginThrottle, attempt)
+      return c.json({ error: 'Set up two-factor authentication before using the API.' }, 403)
+    }
+
+    await recordLoginSuccess(config.loginThrottle, attempt)
+    return c.json({ token: await createSessionToken(c, admin, config.sessionSecret, config.sessions) })
+  })
+
+  const { apiTokensTable } = config
+  app.use('/*', apiTokensTable ? apiTokenMiddleware({ ...config, apiTokensTable }) : bearerAuthMiddleware(config.sessionSecret, config.sessions))
+
+  for (const resource of config.resources) {
+    app.route(`/${resource.routePath}`, createResourceApiRoutes(config, resource))
+  }
+
+  // Unknown API paths answer in JSON rather than falling through to the HTML routes
+  app.all('/*', (c) => c.json({ error: 'Not found' }, 404))
+
+  return app
+}
+
+/**
+ * Creates the session-authenticated routes documenting the JSON API:
+ * `GET /openapi.json` and the `GET /api-docs` page rendering it. Both describe
+ * only what the signed-in admin may use.
+ */
+export function createApiDocsRoutes(config: Pick<ApiRoutesConfig, 'adapter' | 'resources' | 'basePath' | 'auditLog'>): Hono {
+  const { adapter, resources, basePath, auditLog } = config
+  const app = new Hono()
+
+  const buildDocument = (c: Context) => buildOpenApiDocument({
+    resources,
+    adapter,
+    serverUrl: adminUrl(basePath, '/api'),
+    admin: getAdmin(c),
+  })
+
+  // GET /openapi.json - OpenAPI 3.1 document
+  app.get('/openapi.json', (c) => c.json(buildDocument(c)))
+
+  // GET /api-docs - API reference page
+  app.get('/api-docs', (c) => {
+    const admin = getAdmin(c)
+    const content = apiDocsView({ document: buildDocument(c), specUrl: adminUrl(basePath, '/openapi.json') })
+    return c.html(layout({
+      title: 'API Docs',
+      content,
+      admin,
+      resources,
+      currentPath: '/api-docs',
+      basePath,
+      auditLog: canViewAuditLog(admin, auditLog),
+    }))
+  })
+
+  return app
+}
+
+function createResourceApiRoutes(config: ApiRoutesConfig, resource: ResourceDefinition): Hono {
+  const { db, adapter, resources, basePath, auditLog, versionsTable } = config
+  const app = new Hono()
+  const pgTable = resource.table
+  const columns = adapter.extractColumns(resource.table)
+  const primaryKey = getPrimaryKey(columns)
+  // Password columns are never sent, as on the show page
+  const readable = columns.filter(col => !col.name.toLowerCase().includes('password'))
+  const defaultPerPage = resource.options.index?.perPage ?? 20
+  const versioned = !!resource.options.versioning && !!versionsTable
+  const tracked = !!auditLog || versioned
+  const transactional = hasHooks(resource.options.hooks) || tracked
+
+  const allow = (operation: Operation): MiddlewareHandler => async (c, next) => {
+    if (!can(getAdmin(c), resource, operation)) {
+      return forbidden(c)
+    }
+    await next()
+  }
+
+  const forbidden = (c: Context) => c.json({ error: 'Forbidden' }, 403)
+  const notFound = (c: Context) => c.json({ error: `${resource.displayName} not found` }, 404)
+  const serialize = (row: Record<string, unknown>) =>
+    Object.fromEntries(readable.map(col => [col.name, serializeValue(row[col.name], col)]))
+
+  // GET / - List
+  app.get('/', allow('read'), async (c) => {
+    const query = c.req.query()
+    const listParams = parseListParams(query)
+    const perPage = parsePerPage(query.perPage, defaultPerPage)
+    const where = and(buildListWhere(resource, columns, listParams), policyScope(getAdmin(c), resource))
+
+    const [{ count }] = await db.select({ count: sql`count(*)` }).from(pgTable).where(where)
+    const records = await db
+      .select()
+      .from(pgTable)
+      .where(where)
+      .orderBy(...buildListOrderBy(resource, columns, listParams))
+      .limit(perPage)
+      .offset((listParams.page - 1) * perPage)
+
+    const total = Number(count)
+    return c.json({
+      data: records.map(serialize),
+      meta: { page: listParams.page, perPage, total, totalPages: Math.ceil(total / perPage) },
+    })
+  })
+
+  // POST / - Create
+  app.post('/', allow('create'), async (c) => {
+    const body = await readJsonBody(c)
+    if (!body) return invalidBody(c)
+
+    const submitted = parseJsonValues(body, columns, resource.options.permitParams, 'create')
+    const { values, errors } = await validateValues(resource.options.validate, submitted, { action: 'create', db })
+    if (errors) return c.json({ errors }, 422)
+
+    const hooks = resource.options.hooks
+    const admin = getAdmin(c)
+
+    try {
+      const created = await withWriteTransaction(db, transactional, async (tx) => {
+        const data = await runBeforeWrite('beforeCreate', hooks?.beforeCreate, values, { admin, tx })
+        const [row] = await tx.insert(pgTable).values(data).returning()
+        const id = encodeRecordId(row, primaryKey)
+        await runRecordHook('afterCreate', hooks?.afterCreate, row, { admin, tx, id })
+        await audit(c, tx, 'create', id, diffRecords(undefined, row))
+        return row
+      })
+      return c.json({ data: serialize(created) }, 201)
+    } catch (err) {
+      return writeFailed(c, err, 'create')
+    }
+  })
+
+  // GET /:id - Show
+  app.get('/:id', allow('read'), async (c) => {
+    const loaded = await loadRecord(c, 'view')
+    if ('denied' in loaded) return loaded.denied
+    return c.json({ data: serialize(loaded.record) })
+  })
+
+  // PATCH /:id and PUT /:id - Update the submitted fields
+  const update = async (c: Context) => {
+    const loaded = await loadRecord(c, 'update')
+    if ('denied' in loaded) return loaded.denied
+    const { id, admin } = loaded
+
+    const body = await readJsonBody(c)
+    if (!body) return invalidBody(c)
+
+    const submitted = parseJsonValues(body, columns, resource.options.permitParams, 'update')
+    const { values, errors } = await validateValues(resource.options.validate, submitted, { action: 'update', id, db })
+    if (errors) return c.json({ errors }, 422)
+
+    values.updatedAt = new Date()
+
+    const hooks = resource.options.hooks
+    const where = and(recordWhere(pgTable, primaryKey, id), policyScope(admin, resource), softDeleteWhere(resource))
+
+    try {
+      const updated = await withWriteTransaction(db, transactional, async (tx) => {
+        const previous = await findRecord(tx, id, admin)
+        if (!previous) return undefined
+
+        const context = { admin, tx, id, previous }
+        const data = await runBeforeWrite('beforeUpdate', hooks?.beforeUpdate, values, context)
+        const [row] = await tx.update(pgTable).set(data).where(where).returning()
+        if (row) {
+          await snapshot(tx, 'update', id, previous, admin)
+          await runRecordHook('afterUpdate', hooks?.afterUpdate, row, context)
+          await audit(c, tx, 'update', id, diffRecords(previous, row))
+        }
+        return row
+      })
+      if (!updated) return notFound(c)
+      return c.json({ data: serialize(updated) })
+    } catch (err) {
+      return writeFailed(c, err, 'update')
+    }
+  }
+  app.patch('/:id', allow('update'), update)
+  app.put('/:id', allow('update'), update)
+
+  // DELETE /:id - Delete (soft delete with `softDelete`)
+  app.delete('/:id', allow('delete'), async (c) => {
+    const loaded = await loadRecord(c, 'delete')
+    if ('denied' in loaded) return loaded.denied
+    const { id, admin } = loaded
+
+    const hooks = resource.options.hooks
+    const where = and(recordWhere(pgTable, primaryKey, id), policyScope(admin, resource), softDeleteWhere(resource))
+
+    try {
+      await withWriteTransaction(db, transactional, async (tx) => {
+        if (!hooks?.beforeDelete && !hooks?.afterDelete && !tracked) {
+          await remove(tx, where)
+          return
+        }
+
+        const previous = await findRecord(tx, id, admin)
+        if (!previous) return
+
+        const context = { admin, tx, id, previous }
+        await runRecordHook('beforeDelete', hooks?.beforeDelete, previous, context)
+        await remove(tx, where)
+        await snapshot(tx, 'delete', id, previous, admin)
+        await runRecordHook('afterDelete', hooks?.afterDelete, previous, context)
+        await audit(c, tx, 'delete', id, diffRecords(previous, undefined))
+      })
+      return c.body(null, 204)
+    } catch (err) {
+      return writeFailed(c, err, 'delete')
+    }
+  })
+
+  // POST /:id/actions/:actionName - Run a member action
+  app.post('/:id/actions/:actionName', async (c) => {
+    const actionName = c.req.param('actionName')
+    const action = resource.options.memberActions?.find(a => slugify(a.name) === actionName)
+    if (!action) {
+      return c.json({ error: `Action "${actionName}" not found` }, 404)
+    }
+    if (!canRunAction(getAdmin(c), resource, 'member', action)) {
+      return forbidden(c)
+    }
+
+    // Member actions are updates, so the policy must allow updating the record
+    const loaded = await loadRecord(c, 'update')
+    if ('denied' in loaded) return loaded.denied
+
+    try {
+      await withWriteTransaction(db, !!auditLog, async (tx) => {
+        await action.handler(loaded.id, tx)
+        await auditAction(c, tx, action.name, loaded.id)
+      })
+      return c.json({ message: `${action.name} completed successfully.` })
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      return c.json({ error: `${action.name} failed: ${message}` }, 500)
+    }
+  })
+
+  // POST /actions/:actionName - Run a collection action on the listing given by the query string
+  app.post('/actions/:actionName', async (c) => {
+    const actionName = c.req.param('actionName')
+    const action = resource.options.collectionActions?.find(a => slugify(a.name) === actionName)
+    if (!action) {
+      return c.json({ error: `Action "${actionName}" not found` }, 404)
+    }
+
+    const admin = getAdmin(c)
+    if (!canRunAction(admin, resource, 'collection', action)) {
+      return forbidden(c)
+    }
+
+    const context: ActionContext = {
+      resource,
+      columns,
+      actionUrl: adminUrl(basePath, `/api/${resource.routePath}/actions/${actionName}`),
+      basePath,
+      csrfToken: '',
+      listParams: parseListParams(c.req.query()),
+      renderPage: (title, content) => layout({
+        title,
+        content,
+        admin,
+        resources,
+        currentPath: `/${resource.routePath}`,
+        basePath,
+        auditLog: canViewAuditLog(admin, auditLog),
+      }),
+      forbidden: () => forbidden(c),
+      audit: async (tx, entry) => {
+        if (!auditLog) return
+        await writeAuditEntries(tx, auditLog.table, [buildAuditEntry(c, { resource: resource.tableName, ...entry })])
+      },
+      snapshot: (tx, event, recordId, record) => snapshot(tx, event, recordId, record, admin),
+    }
+
+    try {
+      const result = await action.handler(c, db, context)
+
+      // Responses such as downloads are passed through; a 403 means the action did not run
+      if (result instanceof Response) {
+        if (result.ok && !action.auditsItself) await auditAction(c, db, action.name, null)
+        return result
+      }
+
+      if (!action.auditsItself) await auditAction(c, db, action.name, null)
+      return c.json({ message: `${action.name} completed successfully.` })
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      return c.json({ error: `${action.name} failed: ${message}` }, 500)
+    }
+  })
+
+  // Loads the record named by the `:id` parameter, answering with a 404 when it
+  // is missing, outside the policy scope or soft-deleted, and with a 403 when
+  // the policy denies the check
+  async function loadRecord(c: Context, check: PolicyCheck) {
+    const id = c.req.param('id')!
+    const admin = getAdmin(c)
+    const record = await findRecord(db, id, admin)
+    if (!record) return { denied: notFound(c) }
+    if (!await authorize(admin, resource, check, record)) return { denied: forbidden(c) }
+    return { id, admin, record }
+  }
+
+  async function findRecord(
+    handle: AnyPgDatabase,
+    id: string,
+    admin: AdminTokenPayload,
+  ): Promise<Record<string, unknown> | undefined> {
+    const where = recordWhere(pgTable, primaryKey, id)
+    if (!where) return undefined
+    const [record] = await handle
+      .select()
+      .from(pgTable)
+      .where(and(where, policyScope(admin, resource), softDeleteWhere(resource)))
+      .limit(1)
+    return record
+  }
+
+  // Constraint violations and before-hook errors answer with a 422 like
+  // validation errors; anything else is an unexpected failure
+  function writeFailed(c: Context, err: unknown, operation: string) {
+    const errors: ValidationErrors | undefined = err instanceof HookAbortError
+      ? { [FORM_ERROR_KEY]: err.message }
+      : mapConstraintError(err, columns)
+    if (errors) return c.json({ errors }, 422)
+
+    const message = err instanceof Error ? err.message : 'Unknown error'
+    return c.json({ error: `Failed to ${operation}: ${message}` }, 500)
+  }
+
+  async function audit(c: Context, tx: AnyPgDatabase, action: string, recordId: string, changes: AuditChanges) {
+    if (!auditLog) return
+    const entry = buildAuditEntry(c, { resource: resource.tableName, recordId, action, changes })
+    await writeAuditEntries(tx, auditLog.table, [entry])
+  }
+
+  async function auditAction(c: Context, tx: AnyPgDatabase, actionName: string, recordId: string | null) {
+    if (!auditLog) return
+    const entry = buildAuditEntry(c, { resource: resource.tableName, recordId, action: actionName, changes: null })
+    await writeAuditEntries(tx, auditLog.table, [entry])
+  }
+
+  async function snapshot(
+    tx: AnyPgDatabase,
+    event: VersionEvent,
+    recordId: string,
+    record: Record<string, unknown>,
+    admin: AdminTokenPayload,
+  ) {
+    if (!versioned) return
+    await saveVersion(tx, versionsTable!, { resource: resource.tableName, recordId, event, record, admin })
+  }
+
+  async function remove(tx: AnyPgDatabase, where: SQL | undefined) {
+    const softDelete = resource.options.softDelete
+    if (softDelete) {
+      await tx.update(pgTable).set({ [softDelete.column]: new Date() }).where(where)
+    } else {
+      await tx.delete(pgTable).where(where)
+    }
+  }
+
+  return app
+}
+
+/**
+ * Picks the writable columns present in a JSON request body and coerces their
+ * values like form fields. Strings are coerced as submitted form values; JSON
+ * columns, numbers, booleans and `null` are taken as given. Absent columns are
+ * left out, so updates only change the fields they send.
+ */
+export function parseJsonValues(
+  body: Record<string, unknown>,
+  columns: ColumnMeta[],
+  permitParams?: string[],
+  action: 'create' | 'update' = 'update',
+): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+
+  for (const col of columns) {
+    if (!Object.hasOwn(body, col.name)) continue
+    if (!isWritableColumn(col, permitParams, action)) continue
+
+    const value = body[col.name]
+    values[col.name] = col.dataType !== 'json' && typeof value === 'string'
+      ? coerceFormValue(col, value)
+      : value
+  }
+
+  return values
+}
+
+// Parses `?perPage=`, falling back to the resource's page size and capping at MAX_PER_PAGE
+function parsePerPage(raw: string | undefined, fallback: number): number {
+  const perPage = parseInt(raw ?? '', 10)
+  if (!Number.isFinite(perPage) || perPage < 1) return fallback
+  return Math.min(perPage, MAX_PER_PAGE)
+}
+
+// Reads a JSON object body; anything else, including malformed JSON, reads as undefined
+async function readJsonBody(c: Context): Promise<Record<string, unknown> | undefined> {
+  try {
+    const body: unknown = await c.req.json()
+    return body !== null && typeof body === 'object' && !Array.isArray(body)
+      ? body as Record<string, unknown>
+      : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function invalidBody(c: Context) {
+  return c.json({ error: 'Request body must be a JSON object' }, 400)
+}
@@ -0,0 +1,103 @@
+import { Hono } from 'hono'
+import { and } from 'drizzle-orm'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { AuditLogConfig } from '@/config.ts'
+import type { DialectAdapter } from '@/dialects/types.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import { getAdmin } from '@/auth/middleware.ts'
+import { can } from '@/auth/permissions.ts'
+import { authorize, policyScope } from '@/auth/policy.ts'
+import { canViewAuditLog, loadAuditPage, type AuditChanges, type AuditEntry } from '@/audit/log.ts'
+import { getPrimaryKey, recordWhere } from '@/resources/primaryKey.ts'
+import { layout } from '@/views/layout.ts'
+import { auditLogView } from '@/views/audit.ts'
+import { forbiddenPage } from '@/views/forbidden.ts'
+
+interface AuditRoutesConfig {
+  db: AnyPgDatabase
+  adapter: DialectAdapter
+  auditLog: AuditLogConfig
+  allResources: ResourceDefinition[]
+  basePath: string
+}
+
+const PER_PAGE = 50
+
+export function createAuditRoutes(config: AuditRoutesConfig): Hono {
+  const { db, adapter, auditLog, allResources, basePath } = config
+  const app = new Hono()
+  const byTable = new Map(allResources.map(r => [r.tableName, r]))
+
+  // GET /audit-log - Paginated log, filtered by ?resource= and ?recordId=
+  app.get('/audit-log', async (c) => {
+    const admin = getAdmin(c)
+    if (!canViewAuditLog(admin, auditLog)) {
+      return c.html(forbiddenPage({ admin, resources: allResources, basePath }), 403)
+    }
+
+    const parsedPage = parseInt(c.req.query('page') ?? '1', 10)
+    const page = Number.isFinite(parsedPage) && parsedPage > 0 ? parsedPage : 1
+    const resource = c.req.query('resource') || undefined
+    const recordId = c.req.query('recordId') || undefined
+
+    // Entries show field values, so those of resources the admin cannot read stay hidden
+    const hiddenResources = allResources.filter(r => !can(admin, r, 'read')).map(r => r.tableName)
+    const { entries, totalPages } = await loadAuditPage(db, auditLog.table, { page, perPage: PER_PAGE, resource, recordId, hiddenResources })
+
+    const content = auditLogView({
+      entries: await hidePolicyChanges(admin, entries),
+      resources: allResources.filter(r => can(admin, r, 'read')),
+      currentPage: page,
+      totalPages,
+      basePath,
+      resource,
+      recordId,
+    })
+
+    return c.html(layout({
+      title: 'Audit Log',
+      content,
+      admin,
+      resources: allResources,
+      currentPath: '/audit-log',
+      basePath,
+      auditLog: true,
+    }))
+  })
+
+  // Entries of records the resource's policy hides from the admin are listed
+  // without their changes. Each record is checked once per page
+  async function hidePolicyChanges(admin: AdminTokenPayload, entries: AuditEntry[]): Promise<AuditEntry[]> {
+    const checks = new Map<string, Promise<boolean>>()
+    return Promise.all(entries.map(async (entry) => {
+      const target = byTable.get(entry.resource)
+      if (!target?.options.policy || entry.recordId === null || !entry.changes) return entry
+
+      const key = `${entry.resource}:${entry.recordId}`
+      if (!checks.has(key)) checks.set(key, canViewRecord(admin, target, entry.recordId, entry.changes))
+      return await checks.get(key)! ? entry : { ...entry, changes: null }
+    }))
+  }
+
+  async function canViewRecord(
+    admin: AdminTokenPayload,
+    resource: ResourceDefinition,
+    recordId: string,
+    changes: AuditChanges,
+  ): Promise<boolean> {
+    const match = recordWhere(resource.table, getPrimaryKey(adapter.extractColumns(resource.table)), recordId)
+    if (!match) return false
+
+    const [record] = await db.select().from(resource.table).where(and(match, policyScope(admin, resource))).limit(1)
+    if (record) return authorize(admin, resource, 'view', record)
+
+    // Whether a deleted record was in the scope cannot be told; without a
+    // scope it is checked against the values its newest entry shows
+    if (resource.options.policy?.scopeQuery) return false
+    const values = Object.fromEntries(Object.entries(changes).map(([name, change]) => [name, change.to ?? change.from]))
+    return authorize(admin, resource, 'view', values)
+  }
+
+  return app
+}
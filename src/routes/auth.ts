@@ -1,31 +1,70 @@
 import { Hono } from 'hono'
-import { eq, getTableColumns } from 'drizzle-orm'
-import { verifyPassword } from '@/auth/password.ts'
-import { createToken } from '@/auth/jwt.ts'
-import { setAuthCookie, clearAuthCookie } from '@/auth/middleware.ts'
+import type { Context } from 'hono'
+import { authenticate } from '@/auth/credentials.ts'
+import { createToken, verifyToken, type AdminTokenPayload } from '@/auth/jwt.ts'
+import {
+  setAuthCookie,
+  getAuthCookie,
+  clearAuthCookie,
+  setTwoFactorCookie,
+  getTwoFactorCookie,
+  clearTwoFactorCookie,
+} from '@/auth/middleware.ts'
 import { setCsrfCookie, validateCsrf } from '@/auth/csrf.ts'
+import { isTwoFactorRequired, loadTwoFactor, verifySecondFactor } from '@/twoFactor/store.ts'
+import {
+  beginLoginAttempt,
+  loginThrottledMessage,
+  recordFailedLogin,
+  recordLoginSuccess,
+  releaseLoginAttempt,
+  type LoginThrottle,
+} from '@/loginAttempts/throttle.ts'
 import { adminUrl } from '@/utils/url.ts'
+import { getFlash } from '@/utils/flash.ts'
+import { clientIp } from '@/utils/request.ts'
+import { createSessionToken, endSession, type Sessions } from '@/sessions/lifecycle.ts'
 
 import type { PgTable } from 'drizzle-orm/pg-core'
 import type { AnyPgDatabase } from '@/types.ts'
+import type { AuditLogConfig, TwoFactorConfig } from '@/config.ts'
+
+type RenderAuthPage = (props: { error?: string; notice?: string; csrfToken: string; basePath: string }) => string
 
 interface AuthRoutesConfig {
   db: AnyPgDatabase
   adminUsers: PgTable
   sessionSecret: string
   basePath: string
-  renderLogin: (props: { error?: string; csrfToken: string; basePath: string }) => string
+  /** Column of `adminUsers` holding each admin's role or roles. */
+  roleColumn?: string
+  twoFactor?: TwoFactorConfig
+  loginThrottle: LoginThrottle
+  /** Receives failed sign-ins when set. */
+  auditLog?: AuditLogConfig
+  sessions?: Sessions
+  renderLogin: RenderAuthPage
+  renderTwoFactor: RenderAuthPage
 }
 
+/** How long an admin has to enter their code after their password. */
+const TWO_FACTOR_EXPIRY = '5m'
+
+
 export function createAuthRoutes(config: AuthRoutesConfig): Hono {
   const { basePath } = config
   const app = new Hono()
-  const adminTable = config.adminUsers
-  const cols = getTableColumns(config.adminUsers)
 
   app.get('/login', async (c) => {
+    // Pages that send admins back here, such as Set Password, leave a flash
+    const flash = getFlash(c)
     const csrfToken = await setCsrfCookie(c, config.sessionSecret)
-    const html = config.renderLogin({ csrfToken, basePath })
+    const html = config.renderLogin({
+      error: flash?.type === 'error' ? flash.message : undefined,
+      notice: flash?.type === 'success' ? flash.message : undefined,
+      csrfToken,
+      basePath,
+    })
     return c.html(html)
   })
 
@@ -53,15 +92,16 @@ export function createAuthRoutes(config: AuthRoutesConfig): Hono {
       }))
     }
 
-    const [row] = await config.db
-      .select()
-      .from(adminTable)
-      .where(eq(cols.email!, email))
-      .limit(1)
-
-    const admin = row as Record<string, unknown> | undefined
+    // Counted before the password is checked, so that concurrent guesses cannot slip past the limits
+    const attempt = { email, ip: clientIp(c) }
+    const retryAfter = await beginLoginAttempt(config.loginThrottle, attempt)
+    if (retryAfter > 0) {
+      return throttled(c, retryAfter, config.renderLogin)
+    }
 
+    const admin = await authenticate(config, email, password)
     if (!admin) {
+      await recordFailedLogin(c, config, email)
       const csrfToken = await setCsrfCookie(c, config.sessionSecret)
       return c.html(config.renderLogin({
         error: 'Invalid email or password.',
@@ -70,29 +110,109 @@ export function createAuthRoutes(config: AuthRoutesConfig): Hono {
       }))
     }
 
-    const valid = await verifyPassword(password, admin.passwordHash as string)
-    if (!valid) {
+    const { twoFactor } = config
+    if (twoFactor) {
+      const record = await loadTwoFactor(config.db, twoFactor.table, admin.adminId)
+      if (record?.enabledAt) {
+        // The code is counted on its own
+        await releaseLoginAttempt(config.loginThrottle, attempt)
+        setTwoFactorCookie(c, await createToken(admin, twoFactorSecret(config.sessionSecret), TWO_FACTOR_EXPIRY), basePath)
+        return c.redirect(adminUrl(basePath, '/login/two-factor'))
+      }
+      if (isTwoFactorRequired(admin, twoFactor)) {
+        await recordLoginSuccess(config.loginThrottle, attempt)
+        await signIn(c, { ...admin, twoFactorSetup: true })
+        return c.redirect(adminUrl(basePath, '/account/two-factor'))
+      }
+    }
+
+    await recordLoginSuccess(config.loginThrottle, attempt)
+    await signIn(c, admin)
+
+    return c.redirect(adminUrl(basePath, '/'))
+  })
+
+  // GET /login/two-factor - Second step for admins with two-factor authentication
+  app.get('/login/two-factor', async (c) => {
+    const pending = await verifyPendingLogin(getTwoFactorCookie(c))
+    if (!pending) {
+      return c.redirect(adminUrl(basePath, '/login'))
+    }
+
+    const csrfToken = await setCsrfCookie(c, config.sessionSecret)
+    return c.html(config.renderTwoFactor({ csrfToken, basePath }))
+  })
+
+  app.post('/login/two-factor', async (c) => {
+    const pending = await verifyPendingLogin(getTwoFactorCookie(c))
+    const record = pending && config.twoFactor && await loadTwoFactor(config.db, config.twoFactor.table, pending.adminId)
+    if (!pending || !record?.enabledAt) {
+      clearTwoFactorCookie(c, basePath)
+      return c.redirect(adminUrl(basePath, '/login'))
+    }
+
+    // Codes are guessed against the same limits as passwords
+    const attempt = { email: pending.email, ip: clientIp(c) }
+    const retryAfter = await beginLoginAttempt(config.loginThrottle, attempt)
+    if (retryAfter > 0) {
+      return throttled(c, retryAfter, config.renderTwoFactor)
+    }
+
+    const csrfValid = await validateCsrf(c, config.sessionSecret)
+    const body = await c.req.parseBody()
+    const code = typeof body.code === 'string' ? body.code : ''
+    if (!csrfValid || !code || !await verifySecondFactor(config.db, config.twoFactor!.table, record, code)) {
+      if (csrfValid) await recordFailedLogin(c, config, pending.email)
+      else await releaseLoginAttempt(config.loginThrottle, attempt)
       const csrfToken = await setCsrfCookie(c, config.sessionSecret)
-      return c.html(config.renderLogin({
-        error: 'Invalid email or password.',
+      return c.html(config.renderTwoFactor({
+        error: csrfValid ? 'Invalid code.' : 'Invalid request. Please try again.',
         csrfToken,
         basePath,
       }))
     }
 
-    const token = await createToken(
-      { adminId: admin.id as number, email: admin.email as string },
-      config.sessionSecret
-    )
-    setAuthCookie(c, token, basePath)
+    await recordLoginSuccess(config.loginThrottle, attempt)
+    clearTwoFactorCookie(c, basePath)
+    await signIn(c, { adminId: pending.adminId, email: pending.email, roles: pending.roles })
 
     return c.redirect(adminUrl(basePath, '/'))
   })
 
-  app.all('/logout', (c) => {
+  app.all('/logout', async (c) => {
+    // Ending the session makes a copy of the cookie useless too
+    const token = getAuthCookie(c)
+    const payload = config.sessions && token ? await verifyToken(token, config.sessionSecret) : null
+    if (payload?.sessionId) {
+      await endSession(config.sessions!, payload.sessionId)
+    }
+
     clearAuthCookie(c, basePath)
+    clearTwoFactorCookie(c, basePath)
     return c.redirect(adminUrl(basePath, '/login'))
   })
 
+  async function signIn(c: Context, admin: Pick<AdminTokenPayload, 'adminId' | 'email' | 'roles' | 'twoFactorSetup'>) {
+    const token = await createSessionToken(c, admin, config.sessionSecret, config.sessions)
+    setAuthCookie(c, token, basePath, config.sessions?.maxAgeSeconds)
+  }
+
+  async function throttled(c: Context, retryAfter: number, render: RenderAuthPage) {
+    const csrfToken = await setCsrfCookie(c, config.sessionSecret)
+    c.header('Retry-After', String(retryAfter))
+    return c.html(render({ error: loginThrottledMessage(retryAfter), csrfToken, basePath }), 429)
+  }
+
+  async function verifyPendingLogin(token: string | undefined) {
+    if (!token || !config.twoFactor) return null
+    return verifyToken(token, twoFactorSecret(config.sessionSecret))
+  }
+
   return app
 }
+
+// Key for the token carried between the password and code steps. Deriving it
+// from the session secret keeps those tokens from passing as sessions
+function twoFactorSecret(sessionSecret: string): string {
+  return `${sessionSecret}:two-factor`
+}
@@ -1,18 +1,57 @@
 import { Hono } from 'hono'
-import type { Context } from 'hono'
-import { eq, getTableColumns, sql } from 'drizzle-orm'
+import type { Context, MiddlewareHandler } from 'hono'
+import { and, sql, type SQL } from 'drizzle-orm'
 import type { AnyPgDatabase } from '@/types.ts'
-import type { ResourceDefinition } from '@/resources/types.ts'
+import type { ResourceDefinition, ValidationErrors } from '@/resources/types.ts'
 import type { ColumnMeta, DialectAdapter } from '@/dialects/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { AuditLogConfig } from '@/config.ts'
+import type { PgTable } from 'drizzle-orm/pg-core'
 import { setFlash, getFlash } from '@/utils/flash.ts'
 import { setCsrfCookie, validateCsrf } from '@/auth/csrf.ts'
 import { layout } from '@/views/layout.ts'
 import { indexView } from '@/views/index.ts'
 import { showView } from '@/views/show.ts'
-import { formView } from '@/views/form.ts'
+import { forbiddenPage } from '@/views/forbidden.ts'
+import { formView, isNaturalKey } from '@/views/form.ts'
 import { createActionRoutes } from '@/routes/actions.ts'
+import { createVersionRoutes } from '@/routes/versions.ts'
 import { getAdmin } from '@/auth/middleware.ts'
+import { can, getAbilities, withPermittedActions, type Abilities, type Operation } from '@/auth/permissions.ts'
+import { authorize, policyScope, recordAbilities, type PolicyCheck } from '@/auth/policy.ts'
 import { adminUrl } from '@/utils/url.ts'
+import { buildListOrderBy, buildListWhere, buildScopeCounts, getScopes, parseListParams } from '@/resources/query.ts'
+import {
+  loadRelationFields,
+  loadRelationLabels,
+  loadRelationPanels,
+  lookupRelationOptions,
+  lookupValueColumns,
+  resolveBelongsTo,
+  resolveHasMany,
+} from '@/resources/relations.ts'
+import { encodeRecordId, getPrimaryKey, recordPath, recordWhere } from '@/resources/primaryKey.ts'
+import { FORM_ERROR_KEY, mapConstraintError, validateValues } from '@/resources/validation.ts'
+import { hasHooks, HookAbortError, runBeforeWrite, runRecordHook, withWriteTransaction } from '@/resources/hooks.ts'
+import {
+  buildAuditEntry,
+  canViewAuditLog,
+  diffRecords,
+  loadRecordHistory,
+  writeAuditEntries,
+  type AuditChanges,
+} from '@/audit/log.ts'
+import { saveVersion, type VersionEvent } from '@/versions/store.ts'
+import { softDeleteWhere, TRASH_SCOPE } from '@/resources/softDelete.ts'
+import { slugify } from '@/utils/slug.ts'
+
+interface FormPageOptions {
+  /** The record being edited; omitted for the create form. */
+  record?: Record<string, unknown>
+  /** Initial values for the create form. */
+  values?: Record<string, unknown>
+  errors?: ValidationErrors
+}
 
 interface CrudRoutesConfig {
   db: AnyPgDatabase
@@ -21,37 +60,89 @@ interface CrudRoutesConfig {
   sessionSecret: string
   allResources: ResourceDefinition[]
   basePath: string
+  auditLog?: AuditLogConfig
+  /** Receives snapshots when the resource has `versioning` enabled. */
+  versionsTable?: PgTable
 }
 
 export function createCrudRoutes(config: CrudRoutesConfig): Hono {
-  const { db, resource, adapter, sessionSecret, allResources, basePath } = config
+  const { db, resource, adapter, sessionSecret, allResources, basePath, auditLog, versionsTable } = config
   const app = new Hono()
   const pgTable = resource.table
-  const cols = getTableColumns(resource.table)
   const columns = adapter.extractColumns(resource.table)
+  const primaryKey = getPrimaryKey(columns)
   const perPage = resource.options.index?.perPage ?? 20
+  const belongsTo = resolveBelongsTo(columns, allResources, adapter)
+  const hasMany = resolveHasMany(resource, allResources, adapter)
+  const lookupColumns = lookupValueColumns(resource, columns, allResources, adapter)
+  const versioned = !!resource.options.versioning && !!versionsTable
+  // Audit entries and versions need the row as it was before the write
+  const tracked = !!auditLog || versioned
+  // Hooks, audit entries and versions must commit or roll back with the write they belong to
+  const transactional = hasHooks(resource.options.hooks) || tracked
+
+  // Rejects requests from admins whose roles do not allow the operation
+  const allow = (operation: Operation): MiddlewareHandler => async (c, next) => {
+    if (!can(getAdmin(c), resource, operation)) {
+      return forbidden(c)
+    }
+    await next()
+  }
+
+  const forbidden = (c: Context) => {
+    const admin = getAdmin(c)
+    const page = forbiddenPage({ resource, admin, resources: allResources, basePath, auditLog: canViewAuditLog(admin, auditLog) })
+    return c.html(page, 403)
+  }
 
   // GET / - Index
-  app.get('/', async (c) => {
-    const page = parseInt(c.req.query('page') ?? '1', 10)
+  app.get('/', allow('read'), async (c) => {
+    const listParams = parseListParams(c.req.query())
+    const page = listParams.page
     const offset = (page - 1) * perPage
+    const admin = getAdmin(c)
+    const scope = policyScope(admin, resource)
+    const where = and(buildListWhere(resource, columns, listParams), scope)
 
-    const [{ count }] = await db.select({ count: sql`count(*)` }).from(pgTable)
+    const [{ count }] = await db.select({ count: sql`count(*)` }).from(pgTable).where(where)
     const totalPages = Math.ceil(Number(count) / perPage)
 
-    const records = await db.select().from(pgTable).limit(perPage).offset(offset)
+    let scopeCounts: Record<string, number> | undefined
+    if (getScopes(resource).length > 0) {
+      const [counts] = await db.select(buildScopeCounts(resource, columns, listParams)).from(pgTable).where(scope)
+      scopeCounts = counts
+    }
+
+    const records = await db
+      .select()
+      .from(pgTable)
+      .where(where)
+      .orderBy(...buildListOrderBy(resource, columns, listParams))
+      .limit(perPage)
+      .offset(offset)
+
+    const relations = await loadRelationLabels(db, admin, belongsTo, records)
+    const abilities = getAbilities(admin, resource)
+    const rowAbilities = resource.options.policy
+      ? await loadRowAbilities(admin, records, abilities)
+      : undefined
 
     const flash = getFlash(c)
-    const admin = getAdmin(c)
     const csrfToken = await setCsrfCookie(c, sessionSecret)
 
     const content = indexView({
-      resource,
+      resource: withPermittedActions(admin, resource),
       columns,
       records,
       pagination: { currentPage: page, totalPages, baseUrl: adminUrl(basePath, `/${resource.routePath}`) },
       csrfToken,
       basePath,
+      listParams,
+      scopeCounts,
+      totalCount: Number(count),
+      relations,
+      abilities,
+      rowAbilities,
     })
 
     return c.html(layout({
@@ -62,33 +153,31 @@ export function createCrudRoutes(config: CrudRoutesConfig): Hono {
       currentPath: `/${resource.routePath}`,
       basePath,
       flash,
+      auditLog: canViewAuditLog(admin, auditLog),
     }))
   })
 
   // GET /new - Create form
-  app.get('/new', async (c) => {
-    const csrfToken = await setCsrfCookie(c, sessionSecret)
-    const admin = getAdmin(c)
-
-    const content = formView({
-      resource,
-      columns,
-      csrfToken,
-      basePath,
-    })
+  app.get('/new', allow('create'), async (c) => {
+    // Query parameters naming a column pre-fill it, e.g. `?authorId=3` from a show page panel
+    const query = c.req.query()
+    const values = Object.fromEntries(columns.filter(col => Object.hasOwn(query, col.name)).map(col => [col.name, query[col.name]]))
+    return c.html(await renderFormPage(c, { values }))
+  })
 
-    return c.html(layout({
-      title: `Create ${resource.displayName}`,
-      content,
-      admin,
-      resources: allResources,
-      currentPath: `/${resource.routePath}`,
-      basePath,
-    }))
+  // GET /lookup - Search records by display field for belongs-to inputs on other resources
+  app.get('/lookup', allow('read'), async (c) => {
+    const valueColumn = c.req.query('value') ?? primaryKey[0]?.name ?? 'id'
+    // The value column comes from the query string, so only keys other resources link by may be read
+    if (!lookupColumns.includes(valueColumn)) {
+      return c.json({ error: `Lookups cannot return "${valueColumn}"` }, 400)
+    }
+    const options = await lookupRelationOptions(db, getAdmin(c), resource, columns, c.req.query('q')?.trim() ?? '', valueColumn)
+    return c.json(options)
   })
 
   // POST / - Create
-  app.post('/', async (c) => {
+  app.post('/', allow('create'), async (c) => {
     const csrfValid = await validateCsrf(c, sessionSecret)
     if (!csrfValid) {
       setFlash(c, 'error', 'Invalid request. Please try again.')
@@ -96,13 +185,33 @@ export function createCrudRoutes(config: CrudRoutesConfig): Hono {
     }
 
     const body = await c.req.parseBody()
-    const values = parseFormValues(body, columns, resource.options.permitParams)
+    const submitted = parseFormValues(body, columns, resource.options.permitParams, 'create')
+    const { values, errors } = await validateValues(resource.options.validate, submitted, { action: 'create', db })
+
+    if (errors) {
+      return c.html(await renderFormPage(c, { values: submitted, errors }), 422)
+    }
+
+    const hooks = resource.options.hooks
+    const admin = getAdmin(c)
 
     try {
-      const [created] = await db.insert(pgTable).values(values).returning()
+      const created = await withWriteTransaction(db, transactional, async (tx) => {
+        const data = await runBeforeWrite('beforeCreate', hooks?.beforeCreate, values, { admin, tx })
+        const [row] = await tx.insert(pgTable).values(data).returning()
+        const id = encodeRecordId(row, primaryKey)
+        await runRecordHook('afterCreate', hooks?.afterCreate, row, { admin, tx, id })
+        await audit(c, tx, 'create', id, diffRecords(undefined, row))
+        return row
+      })
       setFlash(c, 'success', `${resource.displayName} created successfully.`)
-      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${created.id}`))
+      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${recordPath(created, primaryKey)}`))
     } catch (err) {
+      const writeErrors = mapWriteError(err)
+      if (writeErrors) {
+        return c.html(await renderFormPage(c, { values: submitted, errors: writeErrors }), 422)
+      }
+
       const message = err instanceof Error ? err.message : 'Unknown error'
       setFlash(c, 'error', `Failed to create: ${message}`)
       return c.redirect(adminUrl(basePath, `/${resource.routePath}/new`))
@@ -110,24 +219,42 @@ export function createCrudRoutes(config: CrudRoutesConfig): Hono {
   })
 
   // GET /:id - Show
-  app.get('/:id', async (c) => {
+  app.get('/:id', allow('read'), async (c) => {
     const id = c.req.param('id')
-    const [record] = await db.select().from(pgTable).where(eq(cols.id!, id)).limit(1)
+    const admin = getAdmin(c)
+    const record = await findRecord(db, id, admin)
 
     if (!record) {
       return c.html(render404(resource, basePath), 404)
     }
+    if (!await authorize(admin, resource, 'view', record)) {
+      return forbidden(c)
+    }
+
+    const abilities = await recordAbilities(admin, resource, record, getAbilities(admin, resource))
+    const permitted = withPermittedActions(admin, resource)
+    const readablePanels = hasMany.filter(relation => can(admin, relation.resource, 'read'))
+    const relations = await loadRelationLabels(db, admin, belongsTo, [record])
+    const panels = await loadRelationPanels(db, admin, readablePanels, record, c.req.query())
+    const showAuditLog = canViewAuditLog(admin, auditLog)
+    const history = showAuditLog
+      ? await loadRecordHistory(db, auditLog!.table, resource.tableName, encodeRecordId(record, primaryKey))
+      : undefined
 
     const flash = getFlash(c)
-    const admin = getAdmin(c)
     const csrfToken = await setCsrfCookie(c, sessionSecret)
 
     const { content, modals } = showView({
-      resource,
+      // Member actions are updates, so a policy denying the update hides them too
+      resource: abilities.update ? permitted : { ...permitted, options: { ...permitted.options, memberActions: [] } },
       columns,
       record,
       csrfToken,
       basePath,
+      relations,
+      panels,
+      abilities,
+      history,
     })
 
     return c.html(layout({
@@ -139,126 +266,414 @@ export function createCrudRoutes(config: CrudRoutesConfig): Hono {
       basePath,
       flash,
       modals,
+      auditLog: showAuditLog,
     }))
   })
 
   // GET /:id/edit - Edit form
-  app.get('/:id/edit', async (c) => {
+  app.get('/:id/edit', allow('update'), async (c) => {
     const id = c.req.param('id')
-    const [record] = await db.select().from(pgTable).where(eq(cols.id!, id)).limit(1)
+    const admin = getAdmin(c)
+    const record = await findRecord(db, id, admin)
 
     if (!record) {
       return c.html(render404(resource, basePath), 404)
     }
+    if (!await authorize(admin, resource, 'update', record)) {
+      return forbidden(c)
+    }
 
-    const csrfToken = await setCsrfCookie(c, sessionSecret)
-    const admin = getAdmin(c)
-
-    const content = formView({
-      resource,
-      columns,
-      record,
-      csrfToken,
-      basePath,
-    })
-
-    return c.html(layout({
-      title: `Edit ${resource.displayName} #${id}`,
-      content,
-      admin,
-      resources: allResources,
-      currentPath: `/${resource.routePath}`,
-      basePath,
-    }))
+    return c.html(await renderFormPage(c, { record }))
   })
 
   // POST /:id - Update or Delete (method override)
   app.post('/:id', async (c) => {
     const method = c.req.query('_method')
+    if (!can(getAdmin(c), resource, method === 'DELETE' ? 'delete' : 'update')) {
+      return forbidden(c)
+    }
+
     if (method === 'DELETE') {
       return handleDelete(c)
     }
 
     const id = c.req.param('id')
+    const admin = getAdmin(c)
+    const match = recordWhere(pgTable, primaryKey, id)
+    if (!match) {
+      return c.html(render404(resource, basePath), 404)
+    }
+    const where = and(match, policyScope(admin, resource), softDeleteWhere(resource))
+
+    const denied = await checkPolicy(c, id, 'update')
+    if (denied) return denied
 
     const csrfValid = await validateCsrf(c, sessionSecret)
     if (!csrfValid) {
       setFlash(c, 'error', 'Invalid request. Please try again.')
-      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${id}/edit`))
+      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(id)}/edit`))
     }
 
     const body = await c.req.parseBody()
-    const values = parseFormValues(body, columns, resource.options.permitParams)
+    const submitted = parseFormValues(body, columns, resource.options.permitParams)
+    const { values, errors } = await validateValues(resource.options.validate, submitted, { action: 'update', id, db })
+
+    if (errors) {
+      return renderEditErrors(c, id, submitted, errors)
+    }
+
     values.updatedAt = new Date()
 
+    const hooks = resource.options.hooks
+
     try {
-      await db.update(pgTable).set(values).where(eq(cols.id!, id))
+      await withWriteTransaction(db, transactional, async (tx) => {
+        if (!hooks?.beforeUpdate && !hooks?.afterUpdate && !tracked) {
+          await tx.update(pgTable).set(values).where(where)
+          return
+        }
+
+        const previous = await findRecord(tx, id, admin)
+        const context = { admin, tx, id, previous }
+        const data = await runBeforeWrite('beforeUpdate', hooks?.beforeUpdate, values, context)
+        const [updated] = await tx.update(pgTable).set(data).where(where).returning()
+        if (updated) {
+          await snapshot(tx, 'update', id, previous!, admin)
+          await runRecordHook('afterUpdate', hooks?.afterUpdate, updated, context)
+          await audit(c, tx, 'update', id, diffRecords(previous, updated))
+        }
+      })
       setFlash(c, 'success', `${resource.displayName} updated successfully.`)
-      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${id}`))
+      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(id)}`))
     } catch (err) {
+      const writeErrors = mapWriteError(err)
+      if (writeErrors) {
+        return renderEditErrors(c, id, submitted, writeErrors)
+      }
+
       const message = err instanceof Error ? err.message : 'Unknown error'
       setFlash(c, 'error', `Failed to update: ${message}`)
-      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${id}/edit`))
+      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(id)}/edit`))
     }
   })
 
+  // Renders the create or edit form page. With errors, the submitted values are
+  // shown again alongside a message per field.
+  async function renderFormPage(c: Context, options: FormPageOptions): Promise<string> {
+    const { record, values, errors } = options
+    const admin = getAdmin(c)
+    const relations = await loadRelationFields(db, admin, belongsTo, record ?? values, basePath)
+    const csrfToken = await setCsrfCookie(c, sessionSecret)
+
+    const content = formView({
+      resource,
+      columns,
+      record,
+      csrfToken,
+      basePath,
+      errors,
+      relations,
+      values,
+    })
+
+    return layout({
+      title: record ? `Edit ${resource.displayName} #${encodeRecordId(record, primaryKey)}` : `Create ${resource.displayName}`,
+      content,
+      admin,
+      resources: allResources,
+      currentPath: `/${resource.routePath}`,
+      basePath,
+      flash: errors
+        ? { type: 'error', message: errors[FORM_ERROR_KEY] ?? 'Please correct the errors below.' }
+        : undefined,
+      auditLog: canViewAuditLog(admin, auditLog),
+    })
+  }
+
+  // Records a write in the audit table, using the write's transaction
+  async function audit(c: Context, tx: AnyPgDatabase, action: string, recordId: string, changes: AuditChanges) {
+    if (!auditLog) return
+    const entry = buildAuditEntry(c, { resource: resource.tableName, recordId, action, changes })
+    await writeAuditEntries(tx, auditLog.table, [entry])
+  }
+
+  // Saves the row as it was before a write when the resource is versioned
+  async function snapshot(
+    tx: AnyPgDatabase,
+    event: VersionEvent,
+    recordId: string,
+    record: Record<string, unknown>,
+    admin: AdminTokenPayload,
+  ) {
+    if (!versioned) return
+    await saveVersion(tx, versionsTable!, { resource: resource.tableName, recordId, event, record, admin })
+  }
+
+  // Loads the record identified by an encoded `:id` segment. Malformed ids,
+  // records outside the admin's policy scope and soft-deleted records find
+  // nothing; with `trashed`, only soft-deleted records are found
+  async function findRecord(
+    handle: AnyPgDatabase,
+    id: string,
+    admin: AdminTokenPayload,
+    trashed = false,
+  ): Promise<Record<string, unknown> | undefined> {
+    const where = recordWhere(pgTable, primaryKey, id)
+    if (!where) return undefined
+    const [record] = await handle
+      .select()
+      .from(pgTable)
+      .where(and(where, policyScope(admin, resource), softDeleteWhere(resource, trashed)))
+      .limit(1)
+    return record
+  }
+
+  // Answers with a 404 or 403 page when the policy hides or denies the record.
+  // Resources without a policy skip the extra query
+  async function checkPolicy(c: Context, id: string, check: PolicyCheck): Promise<Response | undefined> {
+    if (!resource.options.policy) return undefined
+
+    const admin = getAdmin(c)
+    const record = await findRecord(db, id, admin)
+    if (!record) return c.html(render404(resource, basePath), 404)
+    if (!await authorize(admin, resource, check, record)) return forbidden(c)
+    return undefined
+  }
+
+  // Policy-narrowed abilities for each listed record, keyed by encoded record ID
+  async function loadRowAbilities(
+    admin: AdminTokenPayload,
+    records: Record<string, unknown>[],
+    abilities: Abilities,
+  ): Promise<Record<string, Abilities>> {
+    const rows: Record<string, Abilities> = {}
+    for (const record of records) {
+      rows[encodeRecordId(record, primaryKey)] = await recordAbilities(admin, resource, record, abilities)
+    }
+    return rows
+  }
+
+  // Constraint violations and before-hook errors are shown on the form; anything
+  // else is treated as an unexpected failure
+  function mapWriteError(err: unknown): ValidationErrors | undefined {
+    if (err instanceof HookAbortError) return { [FORM_ERROR_KEY]: err.message }
+    return mapConstraintError(err, columns)
+  }
+
+  async function renderEditErrors(c: Context, id: string, submitted: Record<string, unknown>, errors: ValidationErrors) {
+    const record = await findRecord(db, id, getAdmin(c))
+    if (!record) {
+      return c.html(render404(resource, basePath), 404)
+    }
+    return c.html(await renderFormPage(c, { record: { ...record, ...submitted }, errors }), 422)
+  }
+
   async function handleDelete(c: Context) {
     const id = c.req.param('id')
+    const admin = getAdmin(c)
+    const match = recordWhere(pgTable, primaryKey, id)
+    if (!match) {
+      return c.html(render404(resource, basePath), 404)
+    }
+    const where = and(match, policyScope(admin, resource), softDeleteWhere(resource))
+
+    const denied = await checkPolicy(c, id, 'delete')
+    if (denied) return denied
+
+    const hooks = resource.options.hooks
 
     try {
-      await db.delete(pgTable).where(eq(cols.id!, id))
+      await withWriteTransaction(db, transactional, async (tx) => {
+        if (!hooks?.beforeDelete && !hooks?.afterDelete && !tracked) {
+          await remove(tx, where)
+          return
+        }
+
+        const previous = await findRecord(tx, id, admin)
+        if (!previous) return
+
+        const context = { admin, tx, id, previous }
+        await runRecordHook('beforeDelete', hooks?.beforeDelete, previous, context)
+        await remove(tx, where)
+        await snapshot(tx, 'delete', id, previous, admin)
+        await runRecordHook('afterDelete', hooks?.afterDelete, previous, context)
+        await audit(c, tx, 'delete', id, diffRecords(previous, undefined))
+      })
       setFlash(c, 'success', `${resource.displayName} deleted successfully.`)
       return c.redirect(adminUrl(basePath, `/${resource.routePath}`))
     } catch (err) {
       const message = err instanceof Error ? err.message : 'Unknown error'
       setFlash(c, 'error', `Failed to delete: ${message}`)
-      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${id}`))
+      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(id)}`))
     }
   }
 
+  // Deletes records, or with `softDelete` stamps them as deleted
+  async function remove(tx: AnyPgDatabase, where: SQL | undefined) {
+    const softDelete = resource.options.softDelete
+    if (softDelete) {
+      await tx.update(pgTable).set({ [softDelete.column]: new Date() }).where(where)
+    } else {
+      await tx.delete(pgTable).where(where)
+    }
+  }
+
+  if (resource.options.softDelete) {
+    const { column } = resource.options.softDelete
+    const trashUrl = adminUrl(basePath, `/${resource.routePath}?scope=${slugify(TRASH_SCOPE.name)}`)
+
+    // Loads a soft-deleted record for restore or permanent delete, answering
+    // with a 404 or 403 page when it is missing or the policy denies the check
+    const loadTrashed = async (c: Context, check: PolicyCheck) => {
+      const id = c.req.param('id')!
+      const admin = getAdmin(c)
+      const record = await findRecord(db, id, admin, true)
+      if (!record) return { denied: c.html(render404(resource, basePath), 404) }
+      if (!await authorize(admin, resource, check, record)) return { denied: forbidden(c) }
+      return { id, admin, record, where: and(recordWhere(pgTable, primaryKey, id), softDeleteWhere(resource, true)) }
+    }
+
+    // POST /:id/restore - Clear the soft delete column
+    app.post('/:id/restore', allow('update'), async (c) => {
+      if (!await validateCsrf(c, sessionSecret)) {
+        setFlash(c, 'error', 'Invalid request. Please try again.')
+        return c.redirect(trashUrl)
+      }
+
+      const loaded = await loadTrashed(c, 'update')
+      if ('denied' in loaded) return loaded.denied
+      const { id, admin, record, where } = loaded
+
+      try {
+        await withWriteTransaction(db, transactional, async (tx) => {
+          const hooks = resource.options.hooks
+          const context = { admin, tx, id, previous: record }
+          const data = await runBeforeWrite('beforeUpdate', hooks?.beforeUpdate, { [column]: null }, context)
+          await snapshot(tx, 'update', id, record, admin)
+          const [restored] = await tx.update(pgTable).set(data).where(where).returning()
+          if (restored) await runRecordHook('afterUpdate', hooks?.afterUpdate, restored, context)
+          await audit(c, tx, 'restore', id, diffRecords(record, restored ?? { ...record, ...data }))
+        })
+        setFlash(c, 'success', `${resource.displayName} restored successfully.`)
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error'
+        setFlash(c, 'error', `Failed to restore: ${message}`)
+      }
+      return c.redirect(trashUrl)
+    })
+
+    // POST /:id/purge - Permanently delete a soft-deleted record
+    app.post('/:id/purge', allow('delete'), async (c) => {
+      if (!await validateCsrf(c, sessionSecret)) {
+        setFlash(c, 'error', 'Invalid request. Please try again.')
+        return c.redirect(trashUrl)
+      }
+
+      const loaded = await loadTrashed(c, 'delete')
+      if ('denied' in loaded) return loaded.denied
+      const { id, admin, record, where } = loaded
+
+      try {
+        await withWriteTransaction(db, transactional, async (tx) => {
+          const hooks = resource.options.hooks
+          const context = { admin, tx, id, previous: record }
+          await runRecordHook('beforeDelete', hooks?.beforeDelete, record, context)
+          await snapshot(tx, 'delete', id, record, admin)
+          await tx.delete(pgTable).where(where)
+          await runRecordHook('afterDelete', hooks?.afterDelete, record, context)
+          await audit(c, tx, 'purge', id, diffRecords(record, undefined))
+        })
+        setFlash(c, 'success', `${resource.displayName} permanently deleted.`)
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Unknown error'
+        setFlash(c, 'error', `Failed to delete permanently: ${message}`)
+      }
+      return c.redirect(trashUrl)
+    })
+  }
+
   // Mount action routes
   const actionRoutes = createActionRoutes({
     db,
     resource,
+    columns,
     sessionSecret,
+    allResources,
     basePath,
+    auditLog,
+    versionsTable,
   })
   app.route('/', actionRoutes)
 
+  if (versioned) {
+    app.route('/', createVersionRoutes({
+      db,
+      resource,
+      columns,
+      versionsTable: versionsTable!,
+      sessionSecret,
+      allResources,
+      basePath,
+      auditLog,
+    }))
+  }
+
   return app
 }
 
-export function parseFormValues(body: Record<string, string | File>, columns: ColumnMeta[], permitParams?: string[]): Record<string, unknown> {
+export function parseFormValues(
+  body: Record<string, string | File>,
+  columns: ColumnMeta[],
+  permitParams?: string[],
+  action: 'create' | 'update' = 'update',
+): Record<string, unknown> {
   const values: Record<string, unknown> = {}
 
   for (const col of columns) {
-    if (col.isPrimaryKey) continue
-    if (col.name === 'createdAt' || col.name === 'created_at') continue
-    if (col.name === 'updatedAt' || col.name === 'updated_at') continue
-    if (permitParams && !permitParams.includes(col.name)) continue
-
-    const rawValue = body[col.name]
-
-    if (col.dataType === 'boolean') {
-      values[col.name] = rawValue === 'true'
-    } else if (col.dataType === 'integer') {
-      values[col.name] = rawValue ? parseInt(String(rawValue), 10) : null
-    } else if (col.dataType === 'json') {
-      try {
-        values[col.name] = rawValue ? JSON.parse(String(rawValue)) : null
-      } catch {
-        values[col.name] = null
-      }
-    } else if (col.dataType === 'timestamp') {
-      values[col.name] = rawValue ? new Date(String(rawValue)) : null
-    } else {
-      values[col.name] = rawValue ?? null
-    }
+    if (!isWritableColumn(col, permitParams, action)) continue
+    values[col.name] = coerceFormValue(col, body[col.name])
   }
 
   return values
 }
 
+/**
+ * Whether a submitted value may set the column: timestamps are managed and
+ * columns outside `permitParams` are ignored.
+ */
+export function isWritableColumn(
+  col: ColumnMeta,
+  permitParams: string[] | undefined,
+  action: 'create' | 'update',
+): boolean {
+  // Keys are never updated, but natural keys have no default and must be given on create
+  if (col.isPrimaryKey && !(action === 'create' && isNaturalKey(col))) return false
+  if (col.name === 'createdAt' || col.name === 'created_at') return false
+  if (col.name === 'updatedAt' || col.name === 'updated_at') return false
+  return !permitParams || permitParams.includes(col.name)
+}
+
+/**
+ * Coerces one submitted value to its column's type: booleans from `'true'`,
+ * integers, JSON, and timestamps. Blank or unparseable JSON becomes `null`.
+ */
+export function coerceFormValue(col: ColumnMeta, rawValue: string | File | undefined): unknown {
+  if (col.dataType === 'boolean') {
+    return rawValue === 'true'
+  } else if (col.dataType === 'integer') {
+    return rawValue ? parseInt(String(rawValue), 10) : null
+  } else if (col.dataType === 'json') {
+    try {
+      return rawValue ? JSON.parse(String(rawValue)) : null
+    } catch {
+      return null
+    }
+  } else if (col.dataType === 'timestamp') {
+    return rawValue ? new Date(String(rawValue)) : null
+  }
+  return rawValue ?? null
+}
+
 export function render404(resource: ResourceDefinition, basePath: string = ''): string {
   return `
     <div class="text-center py-12">
@@ -0,0 +1,148 @@
+import { Hono } from 'hono'
+import type { Context } from 'hono'
+import { getTableName } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { AuditLogConfig } from '@/config.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { Mailer } from '@/mail/mailer.ts'
+import { validateCsrf, setCsrfCookie } from '@/auth/csrf.ts'
+import { getAdmin } from '@/auth/middleware.ts'
+import { hasRole } from '@/auth/permissions.ts'
+import { createInvitedAdmin, roleColumnHoldsList } from '@/auth/credentials.ts'
+import { createPasswordToken, setPasswordUrl } from '@/auth/passwordTokens.ts'
+import { buildAuditEntry, canViewAuditLog, writeAuditEntries } from '@/audit/log.ts'
+import { inviteMessage } from '@/mail/messages.ts'
+import { setFlash, getFlash } from '@/utils/flash.ts'
+import { layout } from '@/views/layout.ts'
+import { inviteView } from '@/views/invite.ts'
+import { forbiddenPage } from '@/views/forbidden.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+export interface InviteRoutesConfig {
+  db: AnyPgDatabase
+  adminUsers: PgTable
+  sessionSecret: string
+  allResources: ResourceDefinition[]
+  basePath: string
+  mailer: Mailer
+  /** Origin that emailed links point to. */
+  publicUrl: string
+  /** Column of `adminUsers` holding each admin's role or roles. */
+  roleColumn: string
+  /** Roles allowed to invite admins. */
+  roles: string[]
+  /** Receives an `invite` entry for each admin added. */
+  auditLog?: AuditLogConfig
+}
+
+// Loose on purpose: the invitation email is the real check
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+$/
+
+/**
+ * Creates the Invite Admin page, which adds an admin by email and mails them
+ * a link to set their password. The inviter chooses the new admin's roles
+ * from their own, so that nobody can invite an admin with more access than
+ * they have.
+ */
+export function createInviteRoutes(config: InviteRoutesConfig): Hono {
+  const { db, adminUsers, sessionSecret, allResources, basePath, mailer, publicUrl, roleColumn, roles, auditLog } = config
+  const app = new Hono()
+  const accountUrl = adminUrl(basePath, '/account')
+  const multipleRoles = roleColumnHoldsList(config)
+
+  const render = async (c: Context, props: { email?: string; roles?: string[]; error?: string }) => {
+    const admin = getAdmin(c)
+    const csrfToken = await setCsrfCookie(c, sessionSecret)
+    return c.html(layout({
+      title: 'Invite Admin',
+      content: inviteView({
+        csrfToken,
+        basePath,
+        email: props.email,
+        roleOptions: admin.roles ?? [],
+        selectedRoles: props.roles ?? [],
+        multipleRoles,
+        error: props.error,
+      }),
+      admin,
+      resources: allResources,
+      currentPath: '/account',
+      basePath,
+      flash: getFlash(c),
+      auditLog: canViewAuditLog(admin, auditLog),
+    }), props.error ? 422 : 200)
+  }
+
+  app.use('/invite', async (c, next) => {
+    const admin = getAdmin(c)
+    if (!hasRole(admin, roles)) {
+      return c.html(forbiddenPage({ admin, resources: allResources, basePath, auditLog: canViewAuditLog(admin, auditLog) }), 403)
+    }
+    await next()
+  })
+
+  // GET /invite - Form for the new admin's email
+  app.get('/invite', (c) => render(c, {}))
+
+  // POST /invite - Add the admin and email them their link
+  app.post('/invite', async (c) => {
+    const csrfValid = await validateCsrf(c, sessionSecret)
+    if (!csrfValid) {
+      setFlash(c, 'error', 'Invalid request. Please try again.')
+      return c.redirect(adminUrl(basePath, '/invite'))
+    }
+
+    const body = await c.req.parseBody()
+    const email = typeof body.email === 'string' ? body.email.trim() : ''
+    const selected = body['roles[]']
+    const invitedRoles = (Array.isArray(selected) ? selected : selected ? [selected] : [])
+      .filter((role): role is string => typeof role === 'string')
+    if (!EMAIL_PATTERN.test(email)) {
+      return render(c, { email, roles: invitedRoles, error: 'Enter a valid email address.' })
+    }
+    const roleError = validateInvitedRoles(getAdmin(c).roles ?? [], invitedRoles, multipleRoles)
+    if (roleError) {
+      return render(c, { email, roles: invitedRoles, error: roleError })
+    }
+
+    const invited = await createInvitedAdmin(config, email, invitedRoles)
+    if (!invited) {
+      return render(c, { email, roles: invitedRoles, error: 'An admin with this email already exists.' })
+    }
+
+    if (auditLog) {
+      await writeAuditEntries(db, auditLog.table, [buildAuditEntry(c, {
+        resource: getTableName(adminUsers),
+        recordId: String(invited.id),
+        action: 'invite',
+        changes: {
+          email: { from: null, to: email },
+          [roleColumn]: { from: null, to: multipleRoles ? invitedRoles : invitedRoles[0] },
+        },
+      })])
+    }
+
+    try {
+      const token = await createPasswordToken(invited, 'invite', sessionSecret)
+      await mailer.send(inviteMessage(email, getAdmin(c).email, setPasswordUrl(publicUrl, basePath, token)))
+    } catch (error) {
+      console.error(`[DrizzleAdmin] Failed to send invitation email: ${error instanceof Error ? error.message : error}`)
+      setFlash(c, 'error', `${email} was added, but the invitation could not be sent. They can still set a password with "Forgot password?".`)
+      return c.redirect(accountUrl)
+    }
+
+    setFlash(c, 'success', `Invitation sent to ${email}.`)
+    return c.redirect(accountUrl)
+  })
+
+  return app
+}
+
+// New admins get at least one role, and only roles the inviter has
+function validateInvitedRoles(own: string[], invited: string[], multiple: boolean): string | undefined {
+  if (invited.length === 0) return 'Choose a role for the new admin.'
+  if (!multiple && invited.length > 1) return 'Choose one role for the new admin.'
+  if (invited.some(role => !own.includes(role))) return 'You can only give roles you have.'
+  return undefined
+}
@@ -0,0 +1,148 @@
+import { Hono } from 'hono'
+import type { Context } from 'hono'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { Mailer } from '@/mail/mailer.ts'
+import { validateCsrf, setCsrfCookie } from '@/auth/csrf.ts'
+import { loadCredentials, updatePassword, validateNewPassword } from '@/auth/credentials.ts'
+import { createPasswordToken, setPasswordUrl, verifyPasswordToken } from '@/auth/passwordTokens.ts'
+import {
+  beginPasswordReset,
+  clearLoginFailures,
+  passwordResetThrottledMessage,
+  type LoginThrottle,
+} from '@/loginAttempts/throttle.ts'
+import { endAdminSessions, type Sessions } from '@/sessions/lifecycle.ts'
+import { passwordResetMessage } from '@/mail/messages.ts'
+import { setFlash, getFlash } from '@/utils/flash.ts'
+import { forgotPasswordPage, setPasswordPage } from '@/views/login.ts'
+import { adminUrl } from '@/utils/url.ts'
+import { clientIp } from '@/utils/request.ts'
+
+export interface PasswordRoutesConfig {
+  db: AnyPgDatabase
+  adminUsers: PgTable
+  sessionSecret: string
+  basePath: string
+  mailer: Mailer
+  /** Origin that emailed links point to. */
+  publicUrl: string
+  /** Limits reset links per email and IP. Setting a password lifts any lock on its email. */
+  loginThrottle: LoginThrottle
+  /** Every session of the admin is signed out once their password is set. */
+  sessions?: Sessions
+}
+
+const SENT_NOTICE = 'If an admin with that email exists, a link to reset the password is on its way.'
+const INVALID_LINK = 'This link is invalid, expired or already used. Request a new one below.'
+
+/**
+ * Creates the Forgot Password page, which emails admins a link to reset their
+ * password, and the Set Password page those links and invitations lead to.
+ */
+export function createPasswordRoutes(config: PasswordRoutesConfig): Hono {
+  const { sessionSecret, basePath, mailer, publicUrl, loginThrottle, sessions } = config
+  const app = new Hono()
+  const forgotUrl = adminUrl(basePath, '/forgot-password')
+
+  const renderForgot = async (c: Context, props: { error?: string; notice?: string }, status: 200 | 429 = 200) => {
+    const csrfToken = await setCsrfCookie(c, sessionSecret)
+    return c.html(forgotPasswordPage({ csrfToken, basePath, ...props }), status)
+  }
+
+  // Looks up the admin and mails the link after the response, so that the
+  // time taken does not reveal whether the email belongs to an admin
+  const sendResetLink = (email: string) => {
+    const send = async () => {
+      const admin = await loadCredentials(config, { email })
+      if (!admin) return
+
+      const token = await createPasswordToken(admin, 'reset', sessionSecret)
+      await mailer.send(passwordResetMessage(admin.email, setPasswordUrl(publicUrl, basePath, token)))
+    }
+    send().catch((error) => {
+      console.error(`[DrizzleAdmin] Failed to send password reset email: ${error instanceof Error ? error.message : error}`)
+    })
+  }
+
+  // GET /forgot-password - Ask for the email to send a reset link to
+  app.get('/forgot-password', (c) => {
+    const flash = getFlash(c)
+    return renderForgot(c, { error: flash?.type === 'error' ? flash.message : undefined })
+  })
+
+  // POST /forgot-password - Email a reset link, answering the same whether or not the admin exists
+  app.post('/forgot-password', async (c) => {
+    const csrfValid = await validateCsrf(c, sessionSecret)
+    if (!csrfValid) {
+      return renderForgot(c, { error: 'Invalid request. Please try again.' })
+    }
+
+    const body = await c.req.parseBody()
+    const email = typeof body.email === 'string' ? body.email.trim() : ''
+    if (!email) {
+      return renderForgot(c, { error: 'Email is required.' })
+    }
+
+    // Counted whether or not the email belongs to an admin, so that refusals reveal nothing either
+    const retryAfter = await beginPasswordReset(loginThrottle, { email, ip: clientIp(c) })
+    if (retryAfter > 0) {
+      c.header('Retry-After', String(retryAfter))
+      return renderForgot(c, { error: passwordResetThrottledMessage(retryAfter) }, 429)
+    }
+
+    sendResetLink(email)
+    return renderForgot(c, { notice: SENT_NOTICE })
+  })
+
+  // GET /set-password?token= - Choose a password from an invitation or reset link
+  app.get('/set-password', async (c) => {
+    const token = c.req.query('token') ?? ''
+    const target = await verifyPasswordToken(config, token, sessionSecret)
+    if (!target) {
+      setFlash(c, 'error', INVALID_LINK)
+      return c.redirect(forgotUrl)
+    }
+
+    // The token is in the URL; keep it from leaking to the stylesheet's CDN
+    c.header('Referrer-Policy', 'no-referrer')
+    const csrfToken = await setCsrfCookie(c, sessionSecret)
+    return c.html(setPasswordPage({ csrfToken, basePath, token, purpose: target.purpose, email: target.email }))
+  })
+
+  // POST /set-password - Store the new password, using up the token
+  app.post('/set-password', async (c) => {
+    const csrfValid = await validateCsrf(c, sessionSecret)
+    const body = await c.req.parseBody()
+    const field = (name: string) => typeof body[name] === 'string' ? body[name] : ''
+    const token = field('token')
+
+    const target = await verifyPasswordToken(config, token, sessionSecret)
+    if (!target) {
+      setFlash(c, 'error', INVALID_LINK)
+      return c.redirect(forgotUrl)
+    }
+
+    const password = field('newPassword')
+    const error = csrfValid ? validateNewPassword(password, field('confirmPassword')) : 'Invalid request. Please try again.'
+    if (error) {
+      c.header('Referrer-Policy', 'no-referrer')
+      const csrfToken = await setCsrfCookie(c, sessionSecret)
+      return c.html(setPasswordPage({ csrfToken, basePath, token, purpose: target.purpose, email: target.email, error }), 422)
+    }
+
+    await updatePassword(config, target.adminId, password)
+    // Whoever knew the old password is signed out, and a lock from guessing it lifted
+    if (sessions) {
+      await endAdminSessions(sessions, target.adminId)
+    }
+    await clearLoginFailures(loginThrottle, target.email)
+
+    setFlash(c, 'success', target.purpose === 'invite'
+      ? 'Password set. Sign in to continue.'
+      : 'Password reset. Sign in with your new password.')
+    return c.redirect(adminUrl(basePath, '/login'))
+  })
+
+  return app
+}
@@ -0,0 +1,192 @@
+import { Hono } from 'hono'
+import type { Context } from 'hono'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { AuditLogConfig, TwoFactorConfig } from '@/config.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import { validateCsrf, setCsrfCookie } from '@/auth/csrf.ts'
+import { getAdmin, setAuthCookie } from '@/auth/middleware.ts'
+import { totpUri, verifyTotp } from '@/auth/totp.ts'
+import { canViewAuditLog } from '@/audit/log.ts'
+import {
+  beginLoginAttempt,
+  loginThrottledMessage,
+  recordFailedLogin,
+  releaseLoginAttempt,
+  type LoginThrottle,
+} from '@/loginAttempts/throttle.ts'
+import {
+  disableTwoFactor,
+  enableTwoFactor,
+  isTwoFactorRequired,
+  loadTwoFactor,
+  regenerateRecoveryCodes,
+  startEnrollment,
+  verifySecondFactor,
+} from '@/twoFactor/store.ts'
+import { setFlash, getFlash } from '@/utils/flash.ts'
+import { layout } from '@/views/layout.ts'
+import { recoveryCodesView, twoFactorManageView, twoFactorSetupView } from '@/views/twoFactor.ts'
+import { adminUrl } from '@/utils/url.ts'
+import { clientIp } from '@/utils/request.ts'
+import { reissueSessionToken, type Sessions } from '@/sessions/lifecycle.ts'
+
+export interface TwoFactorRoutesConfig {
+  db: AnyPgDatabase
+  adminUsers: PgTable
+  twoFactor: TwoFactorConfig
+  /** Wrong codes for changing an enabled setup count as failed sign-ins. */
+  loginThrottle: LoginThrottle
+  sessionSecret: string
+  allResources: ResourceDefinition[]
+  basePath: string
+  auditLog?: AuditLogConfig
+  sessions?: Sessions
+}
+
+const DEFAULT_ISSUER = 'DrizzleAdmin'
+
+/**
+ * Creates the two-factor page under the Account page, where admins turn TOTP
+ * on by scanning a QR code and confirming a code, get new recovery codes, and
+ * turn it off again unless it is required for them.
+ */
+export function createTwoFactorRoutes(config: TwoFactorRoutesConfig): Hono {
+  const { db, twoFactor, sessionSecret, allResources, basePath, auditLog, sessions } = config
+  const { table } = twoFactor
+  const app = new Hono()
+  const pageUrl = adminUrl(basePath, '/account/two-factor')
+
+  const render = (c: Context, content: string, status: 200 | 422 = 200) => {
+    const admin = getAdmin(c)
+    return c.html(layout({
+      title: 'Two-Factor Authentication',
+      content,
+      admin,
+      resources: allResources,
+      currentPath: '/account',
+      basePath,
+      flash: getFlash(c),
+      auditLog: canViewAuditLog(admin, auditLog),
+    }), status)
+  }
+
+  const renderSetup = async (c: Context, error?: string) => {
+    const admin = getAdmin(c)
+    const record = await startEnrollment(db, table, admin.adminId)
+    return render(c, twoFactorSetupView({
+      secret: record.secret,
+      uri: totpUri(record.secret, admin.email, twoFactor.issuer ?? DEFAULT_ISSUER),
+      required: isTwoFactorRequired(admin, twoFactor),
+      error,
+      csrfToken: await setCsrfCookie(c, sessionSecret),
+      basePath,
+    }), error ? 422 : 200)
+  }
+
+  // GET /account/two-factor - Enrollment, or recovery codes and turning off once enabled
+  app.get('/account/two-factor', async (c) => {
+    const admin = getAdmin(c)
+    const record = await loadTwoFactor(db, table, admin.adminId)
+    if (!record?.enabledAt) {
+      return renderSetup(c)
+    }
+
+    return render(c, twoFactorManageView({
+      recoveryCodesLeft: record.recoveryCodes.length,
+      canDisable: !isTwoFactorRequired(admin, twoFactor),
+      csrfToken: await setCsrfCookie(c, sessionSecret),
+      basePath,
+    }))
+  })
+
+  // POST /account/two-factor - Confirm a first code and turn two-factor authentication on
+  app.post('/account/two-factor', async (c) => {
+    const csrfValid = await validateCsrf(c, sessionSecret)
+    if (!csrfValid) {
+      setFlash(c, 'error', 'Invalid request. Please try again.')
+      return c.redirect(pageUrl)
+    }
+
+    const admin = getAdmin(c)
+    const record = await loadTwoFactor(db, table, admin.adminId)
+    if (!record || record.enabledAt) {
+      return c.redirect(pageUrl)
+    }
+
+    const body = await c.req.parseBody()
+    const step = await verifyTotp(record.secret, typeof body.code === 'string' ? body.code : '')
+    if (step === undefined) {
+      return renderSetup(c, 'Invalid code. Check that your device\'s clock is correct and try again.')
+    }
+
+    const codes = await enableTwoFactor(db, table, record.id, step)
+    // Sessions that were waiting on setup may now reach the rest of the panel
+    if (admin.twoFactorSetup) {
+      const token = await reissueSessionToken(
+        { adminId: admin.adminId, email: admin.email, roles: admin.roles, sessionId: admin.sessionId },
+        sessionSecret,
+        sessions,
+      )
+      setAuthCookie(c, token, basePath, sessions?.maxAgeSeconds)
+    }
+    return render(c, recoveryCodesView({ codes, basePath }))
+  })
+
+  // POST /account/two-factor/recovery-codes - Replace the recovery codes
+  app.post('/account/two-factor/recovery-codes', async (c) => {
+    const record = await verifyCurrentCode(c)
+    if (!record) return c.redirect(pageUrl)
+
+    const codes = await regenerateRecoveryCodes(db, table, record.id)
+    return render(c, recoveryCodesView({ codes, basePath }))
+  })
+
+  // POST /account/two-factor/disable - Turn two-factor authentication off
+  app.post('/account/two-factor/disable', async (c) => {
+    if (isTwoFactorRequired(getAdmin(c), twoFactor)) {
+      setFlash(c, 'error', 'Two-factor authentication is required for your account.')
+      return c.redirect(pageUrl)
+    }
+
+    const record = await verifyCurrentCode(c)
+    if (!record) return c.redirect(pageUrl)
+
+    await disableTwoFactor(db, table, record.adminId)
+    setFlash(c, 'success', 'Two-factor authentication turned off.')
+    return c.redirect(adminUrl(basePath, '/account'))
+  })
+
+  // Changes to an enabled setup need a current code, so that a session left
+  // open is not enough to take over the second factor. Flashes the problem
+  // and returns undefined when the request may not proceed
+  async function verifyCurrentCode(c: Context) {
+    if (!await validateCsrf(c, sessionSecret)) {
+      setFlash(c, 'error', 'Invalid request. Please try again.')
+      return undefined
+    }
+
+    const admin = getAdmin(c)
+    const record = await loadTwoFactor(db, table, admin.adminId)
+    if (!record?.enabledAt) return undefined
+
+    // Codes are guessed against the same limits as at sign-in
+    const attempt = { email: admin.email, ip: clientIp(c) }
+    const retryAfter = await beginLoginAttempt(config.loginThrottle, attempt)
+    if (retryAfter > 0) {
+      setFlash(c, 'error', loginThrottledMessage(retryAfter))
+      return undefined
+    }
+
+    const body = await c.req.parseBody()
+    if (!await verifySecondFactor(db, table, record, typeof body.code === 'string' ? body.code : '')) {
+      await recordFailedLogin(c, config, admin.email)
+      setFlash(c, 'error', 'Invalid code.')
+      return undefined
+    }
+    await releaseLoginAttempt(config.loginThrottle, attempt)
+    return record
+  }
+
+  return app
+}
@@ -0,0 +1,270 @@
+import { Hono } from 'hono'
+import type { Context } from 'hono'
+import { and, type SQL } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ResourceDefinition, ValidationErrors } from '@/resources/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { AuditLogConfig } from '@/config.ts'
+import { validateCsrf, setCsrfCookie } from '@/auth/csrf.ts'
+import { getAdmin } from '@/auth/middleware.ts'
+import { can } from '@/auth/permissions.ts'
+import { authorize, policyScope } from '@/auth/policy.ts'
+import { buildAuditEntry, canViewAuditLog, diffRecords, writeAuditEntries } from '@/audit/log.ts'
+import { getPrimaryKey, recordWhere } from '@/resources/primaryKey.ts'
+import { HookAbortError, runBeforeWrite, runRecordHook, withWriteTransaction } from '@/resources/hooks.ts'
+import { FORM_ERROR_KEY, mapConstraintError, validateValues } from '@/resources/validation.ts'
+import { loadVersions, restoreSnapshot, saveVersion, type RecordVersion } from '@/versions/store.ts'
+import { setFlash, getFlash } from '@/utils/flash.ts'
+import { layout } from '@/views/layout.ts'
+import { versionsView } from '@/views/versions.ts'
+import { forbiddenPage } from '@/views/forbidden.ts'
+import { formatColumnHeader } from '@/views/index.ts'
+import { render404 } from '@/routes/crud.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+export interface VersionRoutesConfig {
+  db: AnyPgDatabase
+  resource: ResourceDefinition
+  columns: ColumnMeta[]
+  versionsTable: PgTable
+  sessionSecret: string
+  allResources: ResourceDefinition[]
+  basePath: string
+  auditLog?: AuditLogConfig
+}
+
+/** Thrown inside the revert transaction to roll back a write the admin's scope would hide. */
+class OutOfScopeError extends Error {
+  constructor() {
+    super('Reverted record is outside the policy scope')
+    this.name = 'OutOfScopeError'
+  }
+}
+
+export function createVersionRoutes(config: VersionRoutesConfig): Hono {
+  const { db, resource, columns, versionsTable, sessionSecret, allResources, basePath, auditLog } = config
+  const app = new Hono()
+  const pgTable = resource.table
+  const primaryKey = getPrimaryKey(columns)
+
+  const forbidden = (c: Context) => {
+    const admin = getAdmin(c)
+    const page = forbiddenPage({ resource, admin, resources: allResources, basePath, auditLog: canViewAuditLog(admin, auditLog) })
+    return c.html(page, 403)
+  }
+
+  const versionsUrl = (id: string) => adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(id)}/versions`)
+
+  // GET /:id/versions - Version list and side-by-side comparison (?a=&b=)
+  app.get('/:id/versions', async (c) => {
+    const id = c.req.param('id')
+    const admin = getAdmin(c)
+    if (!can(admin, resource, 'read')) {
+      return forbidden(c)
+    }
+
+    const match = recordWhere(pgTable, primaryKey, id)
+    const loaded = match && await loadHistory(id, match, admin)
+    if (!loaded) {
+      return c.html(render404(resource, basePath), 404)
+    }
+    const { current, trashed, versions } = loaded
+
+    // Deleted records are checked against their last snapshot
+    const latest = restoreSnapshot(versions[0]?.snapshot ?? {}, columns)
+    if (!await authorize(admin, resource, 'view', current ?? latest)) {
+      return forbidden(c)
+    }
+
+    const flash = getFlash(c)
+    const csrfToken = await setCsrfCookie(c, sessionSecret)
+
+    const { content, modals } = versionsView({
+      resource,
+      columns,
+      recordId: id,
+      current,
+      versions,
+      compare: { a: c.req.query('a'), b: c.req.query('b') },
+      canRevert: !trashed && await canRevert(admin, current, [latest]),
+      csrfToken,
+      basePath,
+    })
+
+    return c.html(layout({
+      title: `${resource.displayName} #${id} Versions`,
+      content,
+      admin,
+      resources: allResources,
+      currentPath: `/${resource.routePath}`,
+      basePath,
+      flash,
+      modals,
+      auditLog: canViewAuditLog(admin, auditLog),
+    }))
+  })
+
+  // POST /:id/versions/:versionId/revert - Restore a snapshot, re-inserting deleted records
+  app.post('/:id/versions/:versionId/revert', async (c) => {
+    const id = c.req.param('id')
+    const admin = getAdmin(c)
+
+    const csrfValid = await validateCsrf(c, sessionSecret)
+    if (!csrfValid) {
+      setFlash(c, 'error', 'Invalid request. Please try again.')
+      return c.redirect(versionsUrl(id))
+    }
+
+    const match = recordWhere(pgTable, primaryKey, id)
+    const loaded = match && await loadHistory(id, match, admin)
+    const version = loaded?.versions.find(v => String(v.id) === c.req.param('versionId'))
+    if (!match || !loaded || !version) {
+      return c.html(render404(resource, basePath), 404)
+    }
+
+    const { current, trashed, versions } = loaded
+    if (trashed) {
+      setFlash(c, 'error', `This ${resource.displayName.toLowerCase()} is in the Trash. Restore it before reverting it.`)
+      return c.redirect(versionsUrl(id))
+    }
+
+    const restored = restoreSnapshot(version.snapshot, columns)
+    const latest = restoreSnapshot(versions[0]!.snapshot, columns)
+    if (!can(admin, resource, 'read') || !await canRevert(admin, current, [restored, latest])) {
+      return forbidden(c)
+    }
+
+    // A revert is checked like the edit or create it amounts to, since the
+    // snapshot may predate the resource's current rules
+    const submitted = current
+      ? Object.fromEntries(Object.entries(restored).filter(([name]) => !primaryKey.some(col => col.name === name)))
+      : restored
+    const { values, errors } = await validateValues(
+      resource.options.validate,
+      submitted,
+      current ? { action: 'update', id, db } : { action: 'create', db },
+    )
+    if (errors) {
+      return revertFailed(c, id, errors)
+    }
+
+    try {
+      await withWriteTransaction(db, true, async (tx) => {
+        const reverted = current
+          ? await revertRecord(tx, admin, id, match, current, values)
+          : await restoreRecord(tx, admin, id, values)
+        await assertInScope(tx, admin, match)
+
+        if (auditLog) {
+          const entry = buildAuditEntry(c, { resource: resource.tableName, recordId: id, action: 'revert', changes: diffRecords(current, reverted) })
+          await writeAuditEntries(tx, auditLog.table, [entry])
+        }
+      })
+      setFlash(c, 'success', `${resource.displayName} reverted to version #${version.id}.`)
+      return c.redirect(adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(id)}`))
+    } catch (err) {
+      if (err instanceof OutOfScopeError) {
+        return forbidden(c)
+      }
+
+      // Constraint violations and before-hook errors are explained like validation errors
+      const writeErrors = err instanceof HookAbortError ? { [FORM_ERROR_KEY]: err.message } : mapConstraintError(err, columns)
+      if (writeErrors) {
+        return revertFailed(c, id, writeErrors)
+      }
+
+      const message = err instanceof Error ? err.message : 'Unknown error'
+      setFlash(c, 'error', `Failed to revert: ${message}`)
+      return c.redirect(versionsUrl(id))
+    }
+  })
+
+  function revertFailed(c: Context, id: string, errors: ValidationErrors) {
+    const messages = Object.entries(errors)
+      .map(([name, message]) => name === FORM_ERROR_KEY ? message : `${formatColumnHeader(name)} ${message}`)
+    setFlash(c, 'error', `Failed to revert: ${messages.join('; ')}.`)
+    return c.redirect(versionsUrl(id))
+  }
+
+  // Overwrites an existing record with the snapshot's values, saving its current ones as a version
+  async function revertRecord(
+    tx: AnyPgDatabase,
+    admin: AdminTokenPayload,
+    id: string,
+    match: SQL,
+    current: Record<string, unknown>,
+    values: Record<string, unknown>,
+  ): Promise<Record<string, unknown> | undefined> {
+    const hooks = resource.options.hooks
+    await saveVersion(tx, versionsTable, { resource: resource.tableName, recordId: id, event: 'revert', record: current, admin })
+    const context = { admin, tx, id, previous: current }
+    const data = await runBeforeWrite('beforeUpdate', hooks?.beforeUpdate, { ...values, updatedAt: new Date() }, context)
+    const [updated] = await tx.update(pgTable).set(data).where(match).returning()
+    if (updated) await runRecordHook('afterUpdate', hooks?.afterUpdate, updated, context)
+    return updated
+  }
+
+  // Re-inserts a deleted record from the snapshot, under its old primary key
+  async function restoreRecord(
+    tx: AnyPgDatabase,
+    admin: AdminTokenPayload,
+    id: string,
+    values: Record<string, unknown>,
+  ): Promise<Record<string, unknown> | undefined> {
+    const hooks = resource.options.hooks
+    const data = await runBeforeWrite('beforeCreate', hooks?.beforeCreate, values, { admin, tx })
+    const [created] = await tx.insert(pgTable).values(data).returning()
+    if (created) await runRecordHook('afterCreate', hooks?.afterCreate, created, { admin, tx, id })
+    return created
+  }
+
+  // Rolls a revert back when the written row falls outside the admin's policy scope
+  async function assertInScope(tx: AnyPgDatabase, admin: AdminTokenPayload, match: SQL): Promise<void> {
+    const scope = policyScope(admin, resource)
+    if (!scope) return
+
+    const [visible] = await tx.select().from(pgTable).where(and(match, scope)).limit(1)
+    if (!visible) throw new OutOfScopeError()
+  }
+
+  // Loads the current row, if any, and its versions. Finds nothing for ids
+  // without versions and records hidden by the admin's policy scope; flags
+  // soft-deleted rows, which are reverted only once restored from the Trash
+  async function loadHistory(
+    id: string,
+    match: SQL,
+    admin: AdminTokenPayload,
+  ): Promise<{ current: Record<string, unknown> | undefined; trashed: boolean; versions: RecordVersion[] } | undefined> {
+    const [current] = await db.select().from(pgTable).where(and(match, policyScope(admin, resource))).limit(1)
+    if (!current && resource.options.policy?.scopeQuery) {
+      // A row that exists outside the scope is hidden, not deleted
+      const [hidden] = await db.select().from(pgTable).where(match).limit(1)
+      if (hidden) return undefined
+    }
+
+    const versions = await loadVersions(db, versionsTable, resource.tableName, id)
+    if (!current && versions.length === 0) return undefined
+    const softDelete = resource.options.softDelete
+    const trashed = !!current && !!softDelete && current[softDelete.column] != null
+    return { current, trashed, versions }
+  }
+
+  // Reverting an existing record is an update. Restoring a deleted one is a
+  // create, and the policy must let the admin view the record it brings back
+  async function canRevert(
+    admin: AdminTokenPayload,
+    current: Record<string, unknown> | undefined,
+    snapshots: Record<string, unknown>[],
+  ): Promise<boolean> {
+    if (current) return can(admin, resource, 'update') && await authorize(admin, resource, 'update', current)
+    if (!can(admin, resource, 'create')) return false
+    for (const snapshot of snapshots) {
+      if (!await authorize(admin, resource, 'view', snapshot)) return false
+    }
+    return true
+  }
+
+  return app
+}
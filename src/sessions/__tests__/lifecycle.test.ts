@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+import type { Context } from 'hono'
+import { verifyToken } from '@/auth/jwt.ts'
+import { createMemorySessionStore } from '@/sessions/store.ts'
+import {
+  acceptsSessionToken,
+  checkSession,
+  createSessionToken,
+  endAdminSessions,
+  listActiveSessions,
+  resolveSessions,
+  revokeSession,
+} from '@/sessions/lifecycle.ts'
+
+const SECRET = 'test-secret'
+const admin = { adminId: 1, email: 'ada@example.com' }
+
+function makeContext(headers: Record<string, string> = {}, remoteAddress?: string): Context {
+  return {
+    req: { header: (name: string) => headers[name] },
+    env: { incoming: { socket: { remoteAddress } } },
+    get: () => undefined,
+  } as unknown as Context
+}
+
+function makeSessions(overrides: { idleTimeoutSeconds?: number; maxAgeSeconds?: number } = {}) {
+  return resolveSessions({ store: createMemorySessionStore(), ...overrides })!
+}
+
+describe('resolveSessions', () => {
+  it('is unset without config and defaults to a 24 hour idle timeout and 30 day lifetime', () => {
+    expect(resolveSessions(undefined)).toBeUndefined()
+    expect(makeSessions()).toMatchObject({ idleTimeoutSeconds: 86400, maxAgeSeconds: 2592000 })
+  })
+})
+
+describe('createSessionToken', () => {
+  it('records the client of a new session and signs its ID into the token', async () => {
+    const sessions = makeSessions()
+    const token = await createSessionToken(makeContext({ 'user-agent': 'Firefox' }, '203.0.113.7'), admin, SECRET, sessions)
+
+    const payload = (await verifyToken(token, SECRET))!
+    const [session] = await sessions.store.listForAdmin(1)
+    expect(payload.sessionId).toBe(session!.id)
+    expect(session).toMatchObject({ adminId: 1, ip: '203.0.113.7', userAgent: 'Firefox' })
+    expect(payload.exp! - payload.iat!).toBe(2592000)
+  })
+
+  it('signs a plain token without sessions', async () => {
+    const payload = await verifyToken(await createSessionToken(makeContext(), admin, SECRET, undefined), SECRET)
+    expect(payload?.sessionId).toBeUndefined()
+    expect(payload!.exp! - payload!.iat!).toBe(86400)
+  })
+})
+
+describe('checkSession', () => {
+  async function start(sessions = makeSessions()) {
+    const payload = (await verifyToken(await createSessionToken(makeContext(), admin, SECRET, sessions), SECRET))!
+    const session = (await sessions.store.get(payload.sessionId!))!
+    return { sessions, payload, session }
+  }
+
+  const later = (date: Date, seconds: number) => new Date(date.getTime() + seconds * 1000)
+
+  it('extends active sessions by the idle timeout, at most once a minute', async () => {
+    const { sessions, payload, session } = await start(makeSessions({ idleTimeoutSeconds: 3600 }))
+
+    expect(await checkSession(sessions, payload, later(session.createdAt, 30))).toBe(true)
+    expect((await sessions.store.get(session.id))!.lastSeenAt).toEqual(session.createdAt)
+
+    const now = later(session.createdAt, 1800)
+    expect(await checkSession(sessions, payload, now)).toBe(true)
+    expect(await sessions.store.get(session.id)).toMatchObject({ lastSeenAt: now, expiresAt: later(now, 3600) })
+    expect(await checkSession(sessions, payload, later(now, 3599))).toBe(true)
+  })
+
+  it('refuses idle sessions and those past their lifetime', async () => {
+    const idle = await start(makeSessions({ idleTimeoutSeconds: 3600 }))
+    expect(await checkSession(idle.sessions, idle.payload, later(idle.session.createdAt, 3600))).toBe(false)
+
+    const old = await start(makeSessions({ idleTimeoutSeconds: 3600, maxAgeSeconds: 5400 }))
+    expect(await checkSession(old.sessions, old.payload, later(old.session.createdAt, 3000))).toBe(true)
+    expect(await checkSession(old.sessions, old.payload, later(old.session.createdAt, 5400))).toBe(false)
+  })
+
+  it('refuses tokens without a session, of ended sessions or naming another admin', async () => {
+    const { sessions, payload, session } = await start()
+    expect(await checkSession(sessions, { ...payload, sessionId: undefined })).toBe(false)
+    expect(await checkSession(sessions, { ...payload, adminId: 2 })).toBe(false)
+
+    await sessions.store.delete(session.id)
+    expect(await checkSession(sessions, payload)).toBe(false)
+  })
+})
+
+describe('acceptsSessionToken', () => {
+  it('refuses long-lived session tokens once sessions are turned off', async () => {
+    const sessions = makeSessions()
+    const payload = (await verifyToken(await createSessionToken(makeContext(), admin, SECRET, sessions), SECRET))!
+    expect(await acceptsSessionToken(sessions, payload)).toBe(true)
+
+    expect(await acceptsSessionToken(undefined, payload)).toBe(false)
+    expect(await acceptsSessionToken(undefined, { ...payload, sessionId: undefined })).toBe(true)
+  })
+})
+
+describe('ending sessions', () => {
+  it('revokes only sessions of the given admin', async () => {
+    const sessions = makeSessions()
+    await createSessionToken(makeContext(), admin, SECRET, sessions)
+    const [session] = await sessions.store.listForAdmin(1)
+
+    expect(await revokeSession(sessions, 2, session!.id)).toBe(false)
+    expect(await revokeSession(sessions, 1, session!.id)).toBe(true)
+    expect(await listActiveSessions(sessions, 1)).toEqual([])
+  })
+
+  it('ends every session of an admin but the one kept', async () => {
+    const sessions = makeSessions()
+    for (let i = 0; i < 3; i++) await createSessionToken(makeContext(), admin, SECRET, sessions)
+    const [kept] = await sessions.store.listForAdmin(1)
+
+    await endAdminSessions(sessions, 1, kept!.id)
+
+    expect((await listActiveSessions(sessions, 1)).map(session => session.id)).toEqual([kept!.id])
+  })
+})
@@ -0,0 +1,73 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+
+vi.mock('drizzle-orm', () => ({
+  getTableColumns: (table: Record<string, unknown>) => (table as Record<string, unknown>)._columns,
+  eq: (column: string, value: unknown) => ({ eq: [column, value] }),
+  lt: (column: string, value: unknown) => ({ lt: [column, value] }),
+}))
+
+import { createMemorySessionStore, createTableSessionStore, type AdminSession } from '@/sessions/store.ts'
+
+const table = {
+  _columns: {
+    id: 'id', adminId: 'adminId', ip: 'ip', userAgent: 'userAgent', createdAt: 'createdAt', lastSeenAt: 'lastSeenAt', expiresAt: 'expiresAt',
+  },
+} as unknown as PgTable
+
+function makeSession(overrides: Partial<AdminSession> = {}): AdminSession {
+  return {
+    id: 'a',
+    adminId: 1,
+    ip: '203.0.113.7',
+    userAgent: 'Firefox',
+    createdAt: new Date('2026-01-01T00:00:00Z'),
+    lastSeenAt: new Date('2026-01-01T00:00:00Z'),
+    expiresAt: new Date('2026-01-02T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('createMemorySessionStore', () => {
+  it('keeps sessions by ID and lists them per admin', async () => {
+    const store = createMemorySessionStore()
+    await store.create(makeSession())
+    await store.create(makeSession({ id: 'b' }))
+    await store.create(makeSession({ id: 'c', adminId: 2 }))
+
+    const lastSeenAt = new Date('2026-01-01T01:00:00Z')
+    await store.update('a', { lastSeenAt, expiresAt: new Date('2026-01-02T01:00:00Z') })
+    expect((await store.get('a'))?.lastSeenAt).toEqual(lastSeenAt)
+    expect((await store.listForAdmin(1)).map(session => session.id)).toEqual(['a', 'b'])
+
+    await store.delete('a')
+    expect(await store.get('a')).toBeUndefined()
+  })
+})
+
+describe('createTableSessionStore', () => {
+  it('rejects tables missing a required column', () => {
+    expect(() => createTableSessionStore({} as AnyPgDatabase, { _columns: { id: {} } } as unknown as PgTable)).toThrow('"adminId"')
+  })
+
+  it('inserts new sessions and drops expired ones', async () => {
+    const values = vi.fn().mockResolvedValue(undefined)
+    const deleteWhere = vi.fn().mockResolvedValue(undefined)
+    const db = { insert: () => ({ values }), delete: () => ({ where: deleteWhere }) } as unknown as AnyPgDatabase
+    const session = makeSession()
+
+    await createTableSessionStore(db, table).create(session)
+
+    expect(values).toHaveBeenCalledWith(session)
+    expect(deleteWhere).toHaveBeenCalledWith({ lt: ['expiresAt', session.createdAt] })
+  })
+
+  it('loads only the session columns of a row', async () => {
+    const where = vi.fn(() => ({ limit: async () => [{ ...makeSession(), extra: true }] }))
+    const db = { select: () => ({ from: () => ({ where }) }) } as unknown as AnyPgDatabase
+
+    expect(await createTableSessionStore(db, table).get('a')).toEqual(makeSession())
+    expect(where).toHaveBeenCalledWith({ eq: ['id', 'a'] })
+  })
+})
@@ -0,0 +1,128 @@
+import type { Context } from 'hono'
+import type { SessionsConfig } from '@/config.ts'
+import { createToken, type AdminTokenPayload } from '@/auth/jwt.ts'
+import type { AdminSession, SessionStore } from '@/sessions/store.ts'
+import { clientIp } from '@/utils/request.ts'
+
+/** Session settings with their defaults filled in. */
+export interface Sessions {
+  store: SessionStore
+  idleTimeoutSeconds: number
+  maxAgeSeconds: number
+}
+
+const DEFAULT_IDLE_TIMEOUT_SECONDS = 24 * 60 * 60
+const DEFAULT_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+/** Requests this soon after the last recorded one leave `lastSeenAt` alone, sparing a write per request. */
+const TOUCH_INTERVAL_MS = 60 * 1000
+
+/** Fills in the defaults, or returns `undefined` when sessions are not configured. */
+export function resolveSessions(config: SessionsConfig | undefined): Sessions | undefined {
+  if (!config) return undefined
+  return {
+    store: config.store,
+    idleTimeoutSeconds: config.idleTimeoutSeconds ?? DEFAULT_IDLE_TIMEOUT_SECONDS,
+    maxAgeSeconds: config.maxAgeSeconds ?? DEFAULT_MAX_AGE_SECONDS,
+  }
+}
+
+/**
+ * Signs a session token for an admin who just signed in. With sessions on,
+ * records a session for the requesting client and signs the token for the
+ * longest the session may last; the store then decides when it ends.
+ */
+export async function createSessionToken(
+  c: Context,
+  admin: Pick<AdminTokenPayload, 'adminId' | 'email' | 'roles' | 'twoFactorSetup'>,
+  sessionSecret: string,
+  sessions: Sessions | undefined,
+): Promise<string> {
+  if (!sessions) return createToken(admin, sessionSecret)
+
+  const now = new Date()
+  const session: AdminSession = {
+    id: crypto.randomUUID(),
+    adminId: admin.adminId,
+    ip: clientIp(c),
+    userAgent: c.req.header('user-agent') ?? null,
+    createdAt: now,
+    lastSeenAt: now,
+    expiresAt: expiresAt(sessions, now, now),
+  }
+  await sessions.store.create(session)
+  return reissueSessionToken({ ...admin, sessionId: session.id }, sessionSecret, sessions)
+}
+
+/** Signs a new token for the same session, such as once two-factor setup is done. */
+export function reissueSessionToken(
+  admin: Pick<AdminTokenPayload, 'adminId' | 'email' | 'roles' | 'twoFactorSetup' | 'sessionId'>,
+  sessionSecret: string,
+  sessions: Sessions | undefined,
+): Promise<string> {
+  return createToken(admin, sessionSecret, sessions ? `${sessions.maxAgeSeconds}s` : undefined)
+}
+
+/**
+ * Whether the session of a verified token is still active. Active sessions
+ * are extended by `idleTimeoutSeconds` from now, up to `maxAgeSeconds` after
+ * sign-in. Tokens without a session, from before sessions were configured,
+ * are refused.
+ */
+export async function checkSession(sessions: Sessions, payload: AdminTokenPayload, now: Date = new Date()): Promise<boolean> {
+  if (!payload.sessionId) return false
+
+  const session = await sessions.store.get(payload.sessionId)
+  if (!session || session.adminId !== payload.adminId || session.expiresAt <= now) return false
+
+  if (now.getTime() - session.lastSeenAt.getTime() >= TOUCH_INTERVAL_MS) {
+    await sessions.store.update(session.id, { lastSeenAt: now, expiresAt: expiresAt(sessions, session.createdAt, now) })
+  }
+  return true
+}
+
+/**
+ * Whether a verified session token may be used. With sessions on, its session
+ * must be active, as {@link checkSession} checks. With them off, tokens signed
+ * for a server-side session are refused: they last `maxAgeSeconds` rather than
+ * the usual 24 hours, and could no longer be revoked.
+ */
+export async function acceptsSessionToken(sessions: Sessions | undefined, payload: AdminTokenPayload, now: Date = new Date()): Promise<boolean> {
+  if (!sessions) return !payload.sessionId
+  return checkSession(sessions, payload, now)
+}
+
+/** An admin's active sessions, most recently used first. */
+export async function listActiveSessions(sessions: Sessions, adminId: number, now: Date = new Date()): Promise<AdminSession[]> {
+  const all = await sessions.store.listForAdmin(adminId)
+  return all
+    .filter(session => session.expiresAt > now)
+    .sort((a, b) => b.lastSeenAt.getTime() - a.lastSeenAt.getTime())
+}
+
+/** Ends one session. Does nothing when it has already ended. */
+export async function endSession(sessions: Sessions, sessionId: string): Promise<void> {
+  await sessions.store.delete(sessionId)
+}
+
+/** Ends one of an admin's sessions. Returns `false` when they have no such session. */
+export async function revokeSession(sessions: Sessions, adminId: number, sessionId: string): Promise<boolean> {
+  const session = await sessions.store.get(sessionId)
+  if (!session || session.adminId !== adminId) return false
+
+  await sessions.store.delete(sessionId)
+  return true
+}
+
+/** Ends every session of an admin, except `keepSessionId` when given. */
+export async function endAdminSessions(sessions: Sessions, adminId: number, keepSessionId?: string): Promise<void> {
+  for (const session of await sessions.store.listForAdmin(adminId)) {
+    if (session.id !== keepSessionId) await sessions.store.delete(session.id)
+  }
+}
+
+function expiresAt(sessions: Sessions, createdAt: Date, now: Date): Date {
+  return new Date(Math.min(
+    now.getTime() + sessions.idleTimeoutSeconds * 1000,
+    createdAt.getTime() + sessions.maxAgeSeconds * 1000,
+  ))
+}
@@ -0,0 +1,111 @@
+import { eq, getTableColumns, lt } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import { validateSessionsTable } from '@/sessions/contract.ts'
+
+/** A signed-in browser or API client of one admin. */
+export interface AdminSession {
+  /** Random ID carried in the session token. */
+  id: string
+  adminId: number
+  /** Client IP at sign-in. */
+  ip: string | null
+  /** `User-Agent` header at sign-in. */
+  userAgent: string | null
+  createdAt: Date
+  /** Time of the latest request, updated at most once a minute. */
+  lastSeenAt: Date
+  /** When the session ends unless it is used again. Expired sessions are ignored. */
+  expiresAt: Date
+}
+
+/**
+ * Where sessions are kept. Stores may drop sessions once they have expired.
+ * Sessions missing from the store are signed out.
+ */
+export interface SessionStore {
+  create(session: AdminSession): Promise<void>
+  get(id: string): Promise<AdminSession | undefined>
+  update(id: string, changes: Pick<AdminSession, 'lastSeenAt' | 'expiresAt'>): Promise<void>
+  /** Every session of one admin, expired or not. */
+  listForAdmin(adminId: number): Promise<AdminSession[]>
+  delete(id: string): Promise<void>
+}
+
+// Past this many sessions, expired ones are swept on the next sign-in
+const MEMORY_SWEEP_SIZE = 10_000
+
+/**
+ * Keeps sessions in process memory. Everyone is signed out when the process
+ * restarts, and sessions started on one instance are unknown to the others,
+ * so this suits a single process only.
+ */
+export function createMemorySessionStore(): SessionStore {
+  const sessions = new Map<string, AdminSession>()
+
+  return {
+    async create(session) {
+      if (sessions.size >= MEMORY_SWEEP_SIZE) {
+        for (const [id, { expiresAt }] of sessions) {
+          if (expiresAt <= session.createdAt) sessions.delete(id)
+        }
+      }
+      sessions.set(session.id, { ...session })
+    },
+    async get(id) {
+      const session = sessions.get(id)
+      return session && { ...session }
+    },
+    async update(id, changes) {
+      const session = sessions.get(id)
+      if (session) Object.assign(session, changes)
+    },
+    async listForAdmin(adminId) {
+      return [...sessions.values()].filter(session => session.adminId === adminId).map(session => ({ ...session }))
+    },
+    async delete(id) {
+      sessions.delete(id)
+    },
+  }
+}
+
+/**
+ * Keeps sessions in a database table shared by every instance. The table
+ * needs `id` (text primary key), `adminId`, `ip`, `userAgent`, `createdAt`,
+ * `lastSeenAt` and `expiresAt` columns.
+ */
+export function createTableSessionStore(db: AnyPgDatabase, table: PgTable): SessionStore {
+  validateSessionsTable(table)
+  const cols = getTableColumns(table)
+
+  return {
+    async create(session) {
+      await db.insert(table).values({ ...session })
+      // Sessions nobody came back to would otherwise stay forever
+      await db.delete(table).where(lt(cols.expiresAt!, session.createdAt))
+    },
+    async get(id) {
+      const [row] = await db
+        .select()
+        .from(table)
+        .where(eq(cols.id!, id))
+        .limit(1)
+      return row ? toSession(row) : undefined
+    },
+    async update(id, changes) {
+      await db.update(table).set({ ...changes }).where(eq(cols.id!, id))
+    },
+    async listForAdmin(adminId) {
+      const rows = await db.select().from(table).where(eq(cols.adminId!, adminId))
+      return rows.map(toSession)
+    },
+    async delete(id) {
+      await db.delete(table).where(eq(cols.id!, id))
+    },
+  }
+}
+
+function toSession(row: Record<string, unknown>): AdminSession {
+  const { id, adminId, ip, userAgent, createdAt, lastSeenAt, expiresAt } = row as unknown as AdminSession
+  return { id, adminId, ip, userAgent, createdAt, lastSeenAt, expiresAt }
+}
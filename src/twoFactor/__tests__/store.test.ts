@@ -0,0 +1,119 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+
+vi.mock('drizzle-orm', () => ({
+  getTableColumns: () => ({
+    id: 'id',
+    adminId: 'adminId',
+    lastUsedStep: 'lastUsedStep',
+    recoveryCodes: { name: 'recoveryCodes', getSQLType: () => 'jsonb' },
+  }),
+  eq: (column: string, value: unknown) => ({ column, value }),
+  and: (...conditions: unknown[]) => ({ and: conditions }),
+  or: (...conditions: unknown[]) => ({ or: conditions }),
+  isNull: (column: string) => ({ isNull: column }),
+  lt: (column: string, value: unknown) => ({ lt: [column, value] }),
+  sql: Object.assign(
+    (strings: TemplateStringsArray, ...values: unknown[]) => ({ sql: strings.join('?'), values }),
+    { raw: (raw: string) => ({ raw }) },
+  ),
+}))
+
+import { enableTwoFactor, isTwoFactorRequired, verifySecondFactor, type TwoFactorRecord } from '@/twoFactor/store.ts'
+import { totpCode, totpStep } from '@/auth/totp.ts'
+import { sha256Hex } from '@/utils/hash.ts'
+
+const table = {} as PgTable
+const SECRET = 'JBSWY3DPEHPK3PXPJBSWY3DPEHPK3PXP'
+
+// Updates match a row unless `matched` is false, as when a concurrent request got there first
+function makeDb(matched = true) {
+  const returning = vi.fn().mockResolvedValue(matched ? [{ id: 2 }] : [])
+  const where = vi.fn(() => Object.assign(Promise.resolve(undefined), { returning }))
+  const set = vi.fn(() => ({ where }))
+  const db = { update: () => ({ set }) } as unknown as AnyPgDatabase
+  return { db, set, where }
+}
+
+function makeRecord(overrides: Partial<TwoFactorRecord> = {}): TwoFactorRecord {
+  return {
+    id: 2,
+    adminId: 1,
+    secret: SECRET,
+    recoveryCodes: [],
+    lastUsedStep: null,
+    enabledAt: new Date(),
+    createdAt: new Date(),
+    ...overrides,
+  }
+}
+
+describe('isTwoFactorRequired', () => {
+  const admin = { adminId: 1, email: 'ada@example.com', roles: ['editor'] }
+
+  it('requires nobody by default, everybody with true, or the listed roles', () => {
+    expect(isTwoFactorRequired(admin, undefined)).toBe(false)
+    expect(isTwoFactorRequired(admin, { table })).toBe(false)
+    expect(isTwoFactorRequired(admin, { table, required: true })).toBe(true)
+    expect(isTwoFactorRequired(admin, { table, required: ['editor'] })).toBe(true)
+    expect(isTwoFactorRequired(admin, { table, required: ['owner'] })).toBe(false)
+  })
+})
+
+describe('enableTwoFactor', () => {
+  it('stores hashes of ten new recovery codes and returns the codes', async () => {
+    const { db, set } = makeDb()
+
+    const codes = await enableTwoFactor(db, table, 2, 100)
+
+    expect(codes).toHaveLength(10)
+    expect(new Set(codes).size).toBe(10)
+    expect(codes[0]).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/)
+    expect(set).toHaveBeenCalledWith({
+      enabledAt: expect.any(Date),
+      lastUsedStep: 100,
+      recoveryCodes: await Promise.all(codes.map(code => sha256Hex(code.replace('-', '')))),
+    })
+  })
+})
+
+describe('verifySecondFactor', () => {
+  it('accepts a current code and records its step', async () => {
+    const { db, set, where } = makeDb()
+    const step = totpStep()
+
+    expect(await verifySecondFactor(db, table, makeRecord(), await totpCode(SECRET, step))).toBe('totp')
+    expect(set).toHaveBeenCalledWith({ lastUsedStep: step })
+    expect(where).toHaveBeenCalledWith({
+      and: [{ column: 'id', value: 2 }, { or: [{ isNull: 'lastUsedStep' }, { lt: ['lastUsedStep', step] }] }],
+    })
+  })
+
+  it('accepts a recovery code once, in any case and with or without the dash', async () => {
+    const { db, set, where } = makeDb()
+    const hash = await sha256Hex('abcdefghjk')
+    const record = makeRecord({ recoveryCodes: [hash, await sha256Hex('mnpqrstuvw')] })
+
+    expect(await verifySecondFactor(db, table, record, 'ABCDE-FGHJK')).toBe('recovery')
+    expect(set).toHaveBeenCalledWith({ recoveryCodes: expect.objectContaining({ values: [expect.anything(), hash, { raw: 'jsonb' }] }) })
+    expect(where).toHaveBeenCalledWith({
+      and: [{ column: 'id', value: 2 }, expect.objectContaining({ values: [expect.anything(), JSON.stringify([hash])] })],
+    })
+  })
+
+  it('refuses codes a concurrent request used first', async () => {
+    const { db } = makeDb(false)
+    const record = makeRecord({ recoveryCodes: [await sha256Hex('abcdefghjk')] })
+
+    expect(await verifySecondFactor(db, table, makeRecord(), await totpCode(SECRET, totpStep()))).toBeUndefined()
+    expect(await verifySecondFactor(db, table, record, 'abcde-fghjk')).toBeUndefined()
+  })
+
+  it('refuses wrong codes without writing', async () => {
+    const { db, set } = makeDb()
+    expect(await verifySecondFactor(db, table, makeRecord(), '000000')).toBeUndefined()
+    expect(await verifySecondFactor(db, table, makeRecord(), 'abcde-fghjk')).toBeUndefined()
+    expect(set).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,25 @@
+import { getTableColumns } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+const REQUIRED_COLUMNS = [
+  'id',
+  'adminId',
+  'secret',
+  'recoveryCodes',
+  'lastUsedStep',
+  'enabledAt',
+  'createdAt',
+] as const
+
+export function validateTwoFactorTable(table: PgTable): void {
+  const columnNames = Object.keys(getTableColumns(table))
+
+  for (const required of REQUIRED_COLUMNS) {
+    if (!columnNames.includes(required)) {
+      throw new Error(
+        `twoFactor.table must have a "${required}" column. ` +
+        `Found columns: ${columnNames.join(', ')}`
+      )
+    }
+  }
+}
@@ -0,0 +1,149 @@
+import { and, eq, getTableColumns, isNull, lt, or, sql } from 'drizzle-orm'
+import type { PgColumn, PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { TwoFactorConfig } from '@/config.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import { hasRole } from '@/auth/permissions.ts'
+import { generateTotpSecret, verifyTotp } from '@/auth/totp.ts'
+import { sha256Hex } from '@/utils/hash.ts'
+
+/** One row of the two-factor table. */
+export interface TwoFactorRecord {
+  id: number
+  adminId: number
+  /** Base32 TOTP secret. */
+  secret: string
+  /** Hashes of the unused recovery codes. */
+  recoveryCodes: string[]
+  /** Time step of the last accepted code; older codes are refused. */
+  lastUsedStep: number | null
+  /** Unset while the admin has scanned the code but not yet confirmed it. */
+  enabledAt: Date | null
+  createdAt: Date
+}
+
+const RECOVERY_CODE_COUNT = 10
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'
+
+/** Whether an admin must set up two-factor authentication before using the panel. */
+export function isTwoFactorRequired(admin: AdminTokenPayload, config: TwoFactorConfig | undefined): boolean {
+  const required = config?.required
+  if (!required) return false
+  return required === true || hasRole(admin, required)
+}
+
+/** Loads an admin's two-factor row, enabled or not. */
+export async function loadTwoFactor(db: AnyPgDatabase, table: PgTable, adminId: number): Promise<TwoFactorRecord | undefined> {
+  const cols = getTableColumns(table)
+  const [row] = await db
+    .select()
+    .from(table)
+    .where(eq(cols.adminId!, adminId))
+    .limit(1)
+  return row as unknown as TwoFactorRecord | undefined
+}
+
+/**
+ * Returns the secret an admin is enrolling with, creating it on first use so
+ * that reloading the enrollment page keeps showing the same QR code.
+ */
+export async function startEnrollment(db: AnyPgDatabase, table: PgTable, adminId: number): Promise<TwoFactorRecord> {
+  const existing = await loadTwoFactor(db, table, adminId)
+  if (existing) return existing
+
+  const record = {
+    adminId,
+    secret: generateTotpSecret(),
+    recoveryCodes: [],
+    lastUsedStep: null,
+    enabledAt: null,
+    createdAt: new Date(),
+  }
+  const [row] = await db.insert(table).values(record).returning()
+  return row as unknown as TwoFactorRecord
+}
+
+/**
+ * Turns two-factor authentication on once the admin has confirmed a code.
+ * Returns the recovery codes, which cannot be recovered later.
+ */
+export async function enableTwoFactor(db: AnyPgDatabase, table: PgTable, id: number, step: number): Promise<string[]> {
+  const codes = generateRecoveryCodes()
+  const cols = getTableColumns(table)
+  await db
+    .update(table)
+    .set({ enabledAt: new Date(), lastUsedStep: step, recoveryCodes: await hashRecoveryCodes(codes) })
+    .where(eq(cols.id!, id))
+  return codes
+}
+
+/** Replaces an admin's recovery codes with new ones and returns them. */
+export async function regenerateRecoveryCodes(db: AnyPgDatabase, table: PgTable, id: number): Promise<string[]> {
+  const codes = generateRecoveryCodes()
+  const cols = getTableColumns(table)
+  await db.update(table).set({ recoveryCodes: await hashRecoveryCodes(codes) }).where(eq(cols.id!, id))
+  return codes
+}
+
+/** Turns two-factor authentication off, forgetting the secret and recovery codes. */
+export async function disableTwoFactor(db: AnyPgDatabase, table: PgTable, adminId: number): Promise<void> {
+  const cols = getTableColumns(table)
+  await db.delete(table).where(eq(cols.adminId!, adminId))
+}
+
+/**
+ * Checks a code from an authenticator app, or failing that a recovery code,
+ * recording its use so it cannot be used again. Returns which kind matched.
+ * Each use is recorded by an update that applies only while the code is still
+ * unused, so that concurrent requests cannot both spend the same code.
+ */
+export async function verifySecondFactor(
+  db: AnyPgDatabase,
+  table: PgTable,
+  record: TwoFactorRecord,
+  code: string,
+): Promise<'totp' | 'recovery' | undefined> {
+  const cols = getTableColumns(table)
+
+  const step = await verifyTotp(record.secret, code, { lastUsedStep: record.lastUsedStep })
+  if (step !== undefined) {
+    const used = await db
+      .update(table)
+      .set({ lastUsedStep: step })
+      .where(and(eq(cols.id!, record.id), or(isNull(cols.lastUsedStep!), lt(cols.lastUsedStep!, step))))
+      .returning({ id: cols.id! })
+    return used.length > 0 ? 'totp' : undefined
+  }
+
+  const hash = await sha256Hex(normalizeRecoveryCode(code))
+  if (!record.recoveryCodes.includes(hash)) return undefined
+  const recoveryCodes = cols.recoveryCodes!
+  const used = await db
+    .update(table)
+    .set({ recoveryCodes: withoutRecoveryCode(recoveryCodes, hash) })
+    .where(and(eq(cols.id!, record.id), sql`${recoveryCodes}::jsonb @> ${JSON.stringify([hash])}::jsonb`))
+    .returning({ id: cols.id! })
+  return used.length > 0 ? 'recovery' : undefined
+}
+
+// Removed in the database rather than written back, so that a code spent
+// concurrently is not restored. Works for json and jsonb columns alike
+function withoutRecoveryCode(column: PgColumn, hash: string) {
+  return sql`(${column}::jsonb - ${hash})::${sql.raw(column.getSQLType())}`
+}
+
+// Codes like `k7m2p-x9q4r`, avoiding characters that are easily confused
+function generateRecoveryCodes(): string[] {
+  return Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const chars = Array.from(crypto.getRandomValues(new Uint8Array(10)), byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length])
+    return `${chars.slice(0, 5).join('')}-${chars.slice(5).join('')}`
+  })
+}
+
+function hashRecoveryCodes(codes: string[]): Promise<string[]> {
+  return Promise.all(codes.map(code => sha256Hex(normalizeRecoveryCode(code))))
+}
+
+function normalizeRecoveryCode(code: string): string {
+  return code.toLowerCase().replace(/[\s-]/g, '')
+}
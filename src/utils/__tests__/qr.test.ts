@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest'
+import { encodeQr, qrSvg, type QrMatrix } from '@/utils/qr.ts'
+
+function rows(matrix: QrMatrix): string[] {
+  return matrix.map(row => row.map(dark => dark ? '1' : '0').join(''))
+}
+
+// The 15 format bits around the top-left finder, as [x, y] from the least significant
+function formatBits(matrix: QrMatrix): number {
+  const cells: [number, number][] = [
+    [8, 0], [8, 1], [8, 2], [8, 3], [8, 4], [8, 5], [8, 7], [8, 8],
+    [7, 8], [5, 8], [4, 8], [3, 8], [2, 8], [1, 8], [0, 8],
+  ]
+  return cells.reduce((bits, [x, y], i) => bits | (matrix[y]![x] ? 1 << i : 0), 0)
+}
+
+const FINDER = ['1111111', '1000001', '1011101', '1011101', '1011101', '1000001', '1111111']
+
+describe('encodeQr', () => {
+  it('matches a reference encoding', () => {
+    // Byte mode, level M, as produced by other encoders for "a"
+    expect(rows(encodeQr('a'))).toEqual([
+      '111111100101101111111',
+      '100000101011001000001',
+      '101110101101001011101',
+      '101110101011001011101',
+      '101110100100101011101',
+      '100000100011001000001',
+      '111111101010101111111',
+      '000000001100000000000',
+      '100000101011011001110',
+      '100110000001110111001',
+      '001011100110101100000',
+      '010101011001111101010',
+      '110100111101111111111',
+      '000000001100100000101',
+      '111111100111010011110',
+      '100000100010001000111',
+      '101110100111010011100',
+      '101110100101111101000',
+      '101110100101110111011',
+      '100000100011111101000',
+      '111111101010100100110',
+    ])
+  })
+
+  it('picks the smallest version that fits', () => {
+    expect(encodeQr('a')).toHaveLength(21)
+    expect(encodeQr('x'.repeat(14))).toHaveLength(21)
+    expect(encodeQr('x'.repeat(15))).toHaveLength(25)
+    expect(encodeQr('x'.repeat(650))).toHaveLength(97)
+  })
+
+  it('draws the finder patterns and level M format information', () => {
+    const text = 'otpauth://totp/DrizzleAdmin:ada%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=DrizzleAdmin'
+    const matrix = rows(encodeQr(text))
+    const size = matrix.length
+    for (let i = 0; i < 7; i++) {
+      expect(matrix[i]!.slice(0, 7)).toBe(FINDER[i])
+      expect(matrix[i]!.slice(size - 7)).toBe(FINDER[i])
+      expect(matrix[size - 7 + i]!.slice(0, 7)).toBe(FINDER[i])
+    }
+
+    const level = (formatBits(encodeQr(text)) ^ 0x5412) >>> 13
+    expect(level).toBe(0b00)
+  })
+
+  it('refuses text beyond version 20', () => {
+    expect(() => encodeQr('x'.repeat(700))).toThrow('Text is too long for a QR code (700 bytes)')
+  })
+})
+
+describe('qrSvg', () => {
+  it('renders dark modules as a path inside a quiet zone', () => {
+    const svg = qrSvg('a', { size: 120 })
+    expect(svg).toMatch(/^<svg [^>]*viewBox="0 0 29 29" width="120" height="120"/)
+    expect(svg).toContain('M4 4h1v1h-1z')
+    expect(svg).not.toContain('M3 ')
+  })
+})
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { Hono } from 'hono'
+import { clientIp, trustProxyMiddleware } from '@/utils/request.ts'
+
+async function ipOf(headers: Record<string, string>, options: { trustProxy?: boolean; env?: unknown } = {}) {
+  const app = new Hono()
+  if (options.trustProxy) app.use('/*', trustProxyMiddleware())
+  app.get('/', (c) => c.json({ ip: clientIp(c) }))
+  const res = await app.request('/', { headers }, options.env)
+  return (await res.json() as { ip: string | null }).ip
+}
+
+describe('clientIp', () => {
+  const headers = { 'X-Forwarded-For': '203.0.113.7, 10.0.0.1', 'X-Real-IP': '198.51.100.2' }
+
+  it('uses the Node socket address and ignores proxy headers by default', async () => {
+    expect(await ipOf(headers, { env: { incoming: { socket: { remoteAddress: '192.0.2.1' } } } })).toBe('192.0.2.1')
+  })
+
+  it('uses the Deno connection address', async () => {
+    expect(await ipOf(headers, { env: { remoteAddr: { hostname: '192.0.2.2' } } })).toBe('192.0.2.2')
+  })
+
+  it('is null when the connection is unknown', async () => {
+    expect(await ipOf(headers)).toBeNull()
+  })
+
+  it('takes the first X-Forwarded-For address behind a trusted proxy', async () => {
+    expect(await ipOf(headers, { trustProxy: true })).toBe('203.0.113.7')
+  })
+
+  it('falls back to X-Real-IP behind a trusted proxy', async () => {
+    expect(await ipOf({ 'X-Real-IP': '198.51.100.2' }, { trustProxy: true })).toBe('198.51.100.2')
+  })
+})
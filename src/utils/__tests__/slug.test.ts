@@ -0,0 +1,16 @@
+import { describe, it, expect } from 'vitest'
+import { slugify } from '@/utils/slug.ts'
+
+describe('slugify', () => {
+  it('converts to lowercase slug', () => {
+    expect(slugify('Export CSV')).toBe('export-csv')
+  })
+
+  it('removes special characters', () => {
+    expect(slugify('Archive!')).toBe('archive')
+  })
+
+  it('handles single word', () => {
+    expect(slugify('Delete')).toBe('delete')
+  })
+})
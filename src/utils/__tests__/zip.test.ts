@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { createZip } from '@/utils/zip.ts'
+
+async function collect(chunks: AsyncIterable<Uint8Array<ArrayBuffer>>): Promise<Uint8Array> {
+  const parts: Uint8Array<ArrayBuffer>[] = []
+  for await (const chunk of chunks) parts.push(chunk)
+  return new Uint8Array(await new Blob(parts).arrayBuffer())
+}
+
+// Reads entries through the central directory, as spreadsheet apps do
+async function readZip(bytes: Uint8Array): Promise<{ name: string; crc: number; text: string }[]> {
+  const view = new DataView(bytes.buffer)
+  const end = bytes.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+
+  const entries = []
+  let pos = view.getUint32(end + 16, true)
+  for (let i = 0; i < view.getUint16(end + 10, true); i++) {
+    expect(view.getUint32(pos, true)).toBe(0x02014b50)
+    const crc = view.getUint32(pos + 16, true)
+    const compressedSize = view.getUint32(pos + 20, true)
+    const nameLength = view.getUint16(pos + 28, true)
+    const offset = view.getUint32(pos + 42, true)
+    const name = new TextDecoder().decode(bytes.subarray(pos + 46, pos + 46 + nameLength))
+
+    expect(view.getUint32(offset, true)).toBe(0x04034b50)
+    const start = offset + 30 + view.getUint16(offset + 26, true) + view.getUint16(offset + 28, true)
+    const data = bytes.slice(start, start + compressedSize)
+    const text = await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))).text()
+
+    entries.push({ name, crc, text })
+    pos += 46 + nameLength
+  }
+  return entries
+}
+
+describe('createZip', () => {
+  it('writes entries that can be read back through the central directory', async () => {
+    async function* lines() {
+      yield 'first\n'
+      yield new TextEncoder().encode('second\n')
+    }
+    const bytes = await collect(createZip([
+      { name: 'a.txt', content: 'hello' },
+      { name: 'dir/ü.txt', content: lines() },
+    ]))
+
+    const entries = await readZip(bytes)
+    expect(entries.map(entry => [entry.name, entry.text])).toEqual([
+      ['a.txt', 'hello'],
+      ['dir/ü.txt', 'first\nsecond\n'],
+    ])
+  })
+
+  it('records the CRC-32 of each entry', async () => {
+    const [entry] = await readZip(await collect(createZip([{ name: 'check.txt', content: '123456789' }])))
+    expect(entry!.crc).toBe(0xcbf43926)
+  })
+
+  it('propagates errors from entry content', async () => {
+    async function* failing(): AsyncGenerator<string> {
+      yield 'partial'
+      throw new Error('query failed')
+    }
+    await expect(collect(createZip([{ name: 'a.txt', content: failing() }]))).rejects.toThrow('query failed')
+  })
+})
@@ -0,0 +1,5 @@
+/** Hashes text as hex-encoded SHA-256, for secrets that are looked up but never shown again. */
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
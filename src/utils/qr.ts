@@ -0,0 +1,311 @@
+/** A QR code as rows of modules, `true` for dark. */
+export type QrMatrix = boolean[][]
+
+// Error correction blocks of versions 1 to 20 at level M: EC codewords per
+// block, then the count and data codewords of each group of blocks
+const BLOCKS: [ec: number, blocks1: number, data1: number, blocks2: number, data2: number][] = [
+  [10, 1, 16, 0, 0], [16, 1, 28, 0, 0], [26, 1, 44, 0, 0], [18, 2, 32, 0, 0], [24, 2, 43, 0, 0],
+  [16, 4, 27, 0, 0], [18, 4, 31, 0, 0], [22, 2, 38, 2, 39], [22, 3, 36, 2, 37], [26, 4, 43, 1, 44],
+  [30, 1, 50, 4, 51], [22, 6, 36, 2, 37], [22, 8, 37, 1, 38], [24, 4, 40, 5, 41], [24, 5, 41, 5, 42],
+  [28, 7, 45, 3, 46], [28, 10, 46, 1, 47], [26, 9, 43, 4, 44], [26, 3, 44, 11, 45], [26, 3, 41, 13, 42],
+]
+
+// Format information bits for level M
+const EC_LEVEL_BITS = 0b00
+
+const MASKS: ((x: number, y: number) => boolean)[] = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => (x * y) % 2 + (x * y) % 3 === 0,
+  (x, y) => ((x * y) % 2 + (x * y) % 3) % 2 === 0,
+  (x, y) => ((x + y) % 2 + (x * y) % 3) % 2 === 0,
+]
+
+/**
+ * Encodes text as a QR code in byte mode with medium error correction, using
+ * the smallest version that fits (up to version 20, about 660 bytes of UTF-8)
+ * and the mask with the lowest penalty.
+ */
+export function encodeQr(text: string): QrMatrix {
+  const bytes = new TextEncoder().encode(text)
+  const version = BLOCKS.findIndex((_, i) => 4 + countBits(i + 1) + bytes.length * 8 <= dataCodewords(i + 1) * 8) + 1
+  if (version === 0) throw new Error(`Text is too long for a QR code (${bytes.length} bytes)`)
+
+  const codewords = addErrorCorrection(encodeData(bytes, version), version)
+  const qr = new QrBuilder(version)
+  qr.drawCodewords(codewords)
+
+  let best: QrMatrix | undefined
+  let bestPenalty = Infinity
+  for (let mask = 0; mask < MASKS.length; mask++) {
+    const modules = qr.withMask(mask)
+    const penalty = penaltyScore(modules)
+    if (penalty < bestPenalty) {
+      best = modules
+      bestPenalty = penalty
+    }
+  }
+  return best!
+}
+
+/** Renders text as an SVG QR code with a four-module quiet zone. */
+export function qrSvg(text: string, options: { size?: number } = {}): string {
+  const modules = encodeQr(text)
+  const dimension = modules.length + 8
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => dark ? `M${x + 4} ${y + 4}h1v1h-1z` : ''))
+    .join('')
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${dimension} ${dimension}" width="${options.size ?? 200}" height="${options.size ?? 200}" shape-rendering="crispEdges" role="img" aria-label="QR code">` +
+    `<rect width="100%" height="100%" fill="#fff"/><path d="${path}" fill="#000"/></svg>`
+}
+
+function countBits(version: number): number {
+  return version < 10 ? 8 : 16
+}
+
+function dataCodewords(version: number): number {
+  const [, blocks1, data1, blocks2, data2] = BLOCKS[version - 1]!
+  return blocks1 * data1 + blocks2 * data2
+}
+
+// Mode indicator, length, the bytes, a terminator and padding to the version's capacity
+function encodeData(bytes: Uint8Array, version: number): number[] {
+  const bits: number[] = []
+  const push = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  push(0b0100, 4)
+  push(bytes.length, countBits(version))
+  for (const byte of bytes) push(byte, 8)
+
+  const capacity = dataCodewords(version) * 8
+  push(0, Math.min(4, capacity - bits.length))
+  push(0, (8 - bits.length % 8) % 8)
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  for (let pad = 0xec; codewords.length < capacity / 8; pad ^= 0xec ^ 0x11) codewords.push(pad)
+  return codewords
+}
+
+// Splits the data into blocks, appends each block's Reed-Solomon codewords and interleaves them
+function addErrorCorrection(data: number[], version: number): number[] {
+  const [ec, blocks1, data1, blocks2, data2] = BLOCKS[version - 1]!
+  const divisor = reedSolomonDivisor(ec)
+
+  const blocks: number[][] = []
+  let offset = 0
+  for (let i = 0; i < blocks1 + blocks2; i++) {
+    const length = i < blocks1 ? data1 : data2
+    blocks.push(data.slice(offset, offset + length))
+    offset += length
+  }
+  const ecBlocks = blocks.map(block => reedSolomonRemainder(block, divisor))
+
+  const result: number[] = []
+  for (let i = 0; i < Math.max(data1, data2); i++) {
+    for (const block of blocks) if (i < block.length) result.push(block[i]!)
+  }
+  for (let i = 0; i < ec; i++) {
+    for (const block of ecBlocks) result.push(block[i]!)
+  }
+  return result
+}
+
+function gfMultiply(a: number, b: number): number {
+  let result = 0
+  for (let i = 7; i >= 0; i--) {
+    result = (result << 1) ^ ((result >>> 7) * 0x11d)
+    result ^= ((b >>> i) & 1) * a
+  }
+  return result
+}
+
+function reedSolomonDivisor(degree: number): number[] {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < degree; j++) {
+      result[j] = gfMultiply(result[j]!, root)
+      if (j + 1 < degree) result[j]! ^= result[j + 1]!
+    }
+    root = gfMultiply(root, 0x02)
+  }
+  return result
+}
+
+function reedSolomonRemainder(data: number[], divisor: number[]): number[] {
+  const result = divisor.map(() => 0)
+  for (const byte of data) {
+    const factor = byte ^ result.shift()!
+    result.push(0)
+    divisor.forEach((coefficient, i) => { result[i]! ^= gfMultiply(coefficient, factor) })
+  }
+  return result
+}
+
+// Places the function patterns and data of one version; masks are applied to copies
+class QrBuilder {
+  readonly size: number
+  private modules: QrMatrix
+  private reserved: boolean[][]
+
+  constructor(private readonly version: number) {
+    this.size = version * 4 + 17
+    this.modules = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+    this.reserved = Array.from({ length: this.size }, () => new Array<boolean>(this.size).fill(false))
+
+    for (let i = 0; i < this.size; i++) {
+      this.set(6, i, i % 2 === 0)
+      this.set(i, 6, i % 2 === 0)
+    }
+    this.drawFinder(3, 3)
+    this.drawFinder(this.size - 4, 3)
+    this.drawFinder(3, this.size - 4)
+
+    const positions = this.alignmentPositions()
+    const last = positions.length - 1
+    positions.forEach((x, i) => positions.forEach((y, j) => {
+      // Alignment patterns never overlap the finders
+      if ((i === 0 && j === 0) || (i === 0 && j === last) || (i === last && j === 0)) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) this.set(x + dx, y + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+      }
+    }))
+
+    this.drawFormat(0)
+    this.drawVersion()
+  }
+
+  drawCodewords(codewords: number[]): void {
+    let i = 0
+    for (let right = this.size - 1; right >= 1; right -= 2) {
+      if (right === 6) right = 5
+      for (let vertical = 0; vertical < this.size; vertical++) {
+        for (let j = 0; j < 2; j++) {
+          const x = right - j
+          const upward = ((right + 1) & 2) === 0
+          const y = upward ? this.size - 1 - vertical : vertical
+          if (this.reserved[y]![x] || i >= codewords.length * 8) continue
+          this.modules[y]![x] = ((codewords[i >>> 3]! >>> (7 - (i & 7))) & 1) === 1
+          i++
+        }
+      }
+    }
+  }
+
+  withMask(mask: number): QrMatrix {
+    const saved = this.modules
+    this.modules = saved.map((row, y) => row.map((dark, x) => this.reserved[y]![x] ? dark : dark !== MASKS[mask]!(x, y)))
+    this.drawFormat(mask)
+    const result = this.modules
+    this.modules = saved
+    return result
+  }
+
+  private set(x: number, y: number, dark: boolean): void {
+    this.modules[y]![x] = dark
+    this.reserved[y]![x] = true
+  }
+
+  private drawFinder(cx: number, cy: number): void {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = cx + dx
+        const y = cy + dy
+        if (x < 0 || x >= this.size || y < 0 || y >= this.size) continue
+        const distance = Math.max(Math.abs(dx), Math.abs(dy))
+        this.set(x, y, distance !== 2 && distance !== 4)
+      }
+    }
+  }
+
+  private alignmentPositions(): number[] {
+    if (this.version === 1) return []
+    const count = Math.floor(this.version / 7) + 2
+    const step = Math.ceil((this.version * 4 + 4) / (count * 2 - 2)) * 2
+    const positions = [6]
+    for (let position = this.size - 7; positions.length < count; position -= step) positions.splice(1, 0, position)
+    return positions
+  }
+
+  // The error correction level and mask, BCH-protected, beside the finders
+  private drawFormat(mask: number): void {
+    const data = (EC_LEVEL_BITS << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+    const bit = (i: number) => ((bits >>> i) & 1) === 1
+
+    for (let i = 0; i <= 5; i++) this.set(8, i, bit(i))
+    this.set(8, 7, bit(6))
+    this.set(8, 8, bit(7))
+    this.set(7, 8, bit(8))
+    for (let i = 9; i < 15; i++) this.set(14 - i, 8, bit(i))
+
+    for (let i = 0; i < 8; i++) this.set(this.size - 1 - i, 8, bit(i))
+    for (let i = 8; i < 15; i++) this.set(8, this.size - 15 + i, bit(i))
+    this.set(8, this.size - 8, true)
+  }
+
+  private drawVersion(): void {
+    if (this.version < 7) return
+    let remainder = this.version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    const bits = (this.version << 12) | remainder
+
+    for (let i = 0; i < 18; i++) {
+      const dark = ((bits >>> i) & 1) === 1
+      const a = this.size - 11 + i % 3
+      const b = Math.floor(i / 3)
+      this.set(a, b, dark)
+      this.set(b, a, dark)
+    }
+  }
+}
+
+// Penalty rules of the QR specification: long runs, 2x2 blocks, finder-like
+// patterns and an unbalanced share of dark modules
+function penaltyScore(modules: QrMatrix): number {
+  const size = modules.length
+  const columns = modules.map((_, x) => modules.map(row => row[x]!))
+  let penalty = 0
+
+  for (const line of [...modules, ...columns]) {
+    let run = 1
+    for (let i = 1; i <= size; i++) {
+      if (i < size && line[i] === line[i - 1]) {
+        run++
+        continue
+      }
+      if (run >= 5) penalty += run - 2
+      run = 1
+    }
+
+    const text = line.map(dark => dark ? '1' : '0').join('')
+    for (const pattern of ['10111010000', '00001011101']) {
+      for (let at = text.indexOf(pattern); at !== -1; at = text.indexOf(pattern, at + 1)) penalty += 40
+    }
+  }
+
+  for (let y = 0; y < size - 1; y++) {
+    for (let x = 0; x < size - 1; x++) {
+      const dark = modules[y]![x]
+      if (dark === modules[y]![x + 1] && dark === modules[y + 1]![x] && dark === modules[y + 1]![x + 1]) penalty += 3
+    }
+  }
+
+  const dark = modules.reduce((count, row) => count + row.filter(Boolean).length, 0)
+  const total = size * size
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+
+  return penalty
+}
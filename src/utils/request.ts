@@ -0,0 +1,36 @@
+import type { Context, MiddlewareHandler } from 'hono'
+
+const TRUST_PROXY_KEY = 'trustProxy'
+
+/**
+ * Marks requests as arriving through a proxy that sets `X-Forwarded-For` or
+ * `X-Real-IP`, so that {@link clientIp} reads those headers.
+ */
+export function trustProxyMiddleware(): MiddlewareHandler {
+  return async (c, next) => {
+    c.set(TRUST_PROXY_KEY, true)
+    await next()
+  }
+}
+
+/**
+ * The client IP. Behind a trusted proxy it is read from the `X-Forwarded-For`
+ * or `X-Real-IP` headers; otherwise it is the address of the connection,
+ * since clients can send any headers they like.
+ */
+export function clientIp(c: Context): string | null {
+  if (c.get(TRUST_PROXY_KEY)) {
+    const forwarded = c.req.header('x-forwarded-for')?.split(',')[0]?.trim()
+    return forwarded || c.req.header('x-real-ip') || null
+  }
+  return socketAddress(c)
+}
+
+// Node servers pass the request's socket in `env.incoming`, Deno.serve the connection info
+function socketAddress(c: Context): string | null {
+  const env = c.env as {
+    incoming?: { socket?: { remoteAddress?: string } }
+    remoteAddr?: { hostname?: string }
+  } | undefined
+  return env?.incoming?.socket?.remoteAddress ?? env?.remoteAddr?.hostname ?? null
+}
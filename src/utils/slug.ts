@@ -0,0 +1,9 @@
+/**
+ * Turns a display name into the slug used in URLs and query parameters, such
+ * as action paths and `?scope=`.
+ *
+ * slugify('Export CSV')  => 'export-csv'
+ */
+export function slugify(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '')
+}
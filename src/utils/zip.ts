@@ -0,0 +1,139 @@
+/** A file to add to a zip archive. */
+export interface ZipEntry {
+  /** Path of the file inside the archive. */
+  name: string
+  content: string | AsyncIterable<string | Uint8Array<ArrayBuffer>>
+}
+
+interface CentralRecord {
+  name: Uint8Array
+  crc: number
+  compressedSize: number
+  size: number
+  offset: number
+}
+
+const encoder = new TextEncoder()
+
+// General purpose flags: sizes follow the data in a descriptor (bit 3), names are UTF-8 (bit 11)
+const FLAGS = 0x0808
+const DEFLATE = 8
+// 1980-01-01 00:00 in MS-DOS date format; entry times are not meaningful here
+const DOS_DATE = 0x0021
+
+/**
+ * Streams a zip archive of the given entries. Each entry is compressed with
+ * deflate as it is read, so entries can be generated lazily and never held
+ * in memory whole. Archives are limited to 4 GB (no Zip64).
+ */
+export async function* createZip(entries: ZipEntry[]): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  const records: CentralRecord[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const header = new DataView(new ArrayBuffer(30))
+    header.setUint32(0, 0x04034b50, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, FLAGS, true)
+    header.setUint16(8, DEFLATE, true)
+    header.setUint16(12, DOS_DATE, true)
+    header.setUint16(26, name.length, true)
+    yield concat(new Uint8Array(header.buffer), name)
+
+    let crc = 0xffffffff
+    let size = 0
+    let compressedSize = 0
+    const input = async function* (): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+      const content = typeof entry.content === 'string' ? [entry.content] : entry.content
+      for await (const chunk of content) {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk
+        crc = updateCrc32(crc, bytes)
+        size += bytes.length
+        yield bytes
+      }
+    }
+    for await (const chunk of deflate(input())) {
+      compressedSize += chunk.length
+      yield chunk
+    }
+    crc = (crc ^ 0xffffffff) >>> 0
+
+    const descriptor = new DataView(new ArrayBuffer(16))
+    descriptor.setUint32(0, 0x08074b50, true)
+    descriptor.setUint32(4, crc, true)
+    descriptor.setUint32(8, compressedSize, true)
+    descriptor.setUint32(12, size, true)
+    yield new Uint8Array(descriptor.buffer)
+
+    records.push({ name, crc, compressedSize, size, offset })
+    offset += 30 + name.length + compressedSize + 16
+  }
+
+  const directoryOffset = offset
+  for (const record of records) {
+    const header = new DataView(new ArrayBuffer(46))
+    header.setUint32(0, 0x02014b50, true)
+    header.setUint16(4, 20, true)
+    header.setUint16(6, 20, true)
+    header.setUint16(8, FLAGS, true)
+    header.setUint16(10, DEFLATE, true)
+    header.setUint16(14, DOS_DATE, true)
+    header.setUint32(16, record.crc, true)
+    header.setUint32(20, record.compressedSize, true)
+    header.setUint32(24, record.size, true)
+    header.setUint16(28, record.name.length, true)
+    header.setUint32(42, record.offset, true)
+    yield concat(new Uint8Array(header.buffer), record.name)
+    offset += 46 + record.name.length
+  }
+
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, records.length, true)
+  end.setUint16(10, records.length, true)
+  end.setUint32(12, offset - directoryOffset, true)
+  end.setUint32(16, directoryOffset, true)
+  yield new Uint8Array(end.buffer)
+}
+
+// Compresses chunks with the platform's CompressionStream, available in
+// Deno, Node 18+, Bun and browsers
+async function* deflate(chunks: AsyncIterable<Uint8Array<ArrayBuffer>>): AsyncGenerator<Uint8Array<ArrayBuffer>> {
+  const stream = new CompressionStream('deflate-raw')
+  const writer = stream.writable.getWriter()
+  const pump = (async () => {
+    try {
+      for await (const chunk of chunks) await writer.write(chunk)
+      await writer.close()
+    } catch (err) {
+      await writer.abort(err).catch(() => {})
+    }
+  })()
+
+  const reader = stream.readable.getReader()
+  for (;;) {
+    const { done, value } = await reader.read()
+    if (done) break
+    yield value
+  }
+  await pump
+}
+
+function concat(a: Uint8Array, b: Uint8Array): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(a.length + b.length)
+  result.set(a)
+  result.set(b, a.length)
+  return result
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  return c >>> 0
+})
+
+function updateCrc32(crc: number, bytes: Uint8Array): number {
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff]! ^ (crc >>> 8)
+  return crc
+}
@@ -0,0 +1,46 @@
+import { describe, it, expect, vi } from 'vitest'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { AnyPgDatabase } from '@/types.ts'
+import { restoreSnapshot, saveVersion } from '@/versions/store.ts'
+
+const columns: ColumnMeta[] = [
+  { name: 'id', sqlName: 'id', dataType: 'integer', isNullable: false, isPrimaryKey: true, hasDefault: true },
+  { name: 'title', sqlName: 'title', dataType: 'text', isNullable: false, isPrimaryKey: false, hasDefault: false },
+  { name: 'publishedAt', sqlName: 'published_at', dataType: 'timestamp', isNullable: true, isPrimaryKey: false, hasDefault: false },
+]
+
+describe('saveVersion', () => {
+  it('inserts the record in JSON form with the admin and event', async () => {
+    const values = vi.fn().mockResolvedValue(undefined)
+    const db = { insert: () => ({ values }) } as unknown as AnyPgDatabase
+
+    await saveVersion(db, {} as PgTable, {
+      resource: 'posts',
+      recordId: '1',
+      event: 'update',
+      record: { id: 1, title: 'Hello', publishedAt: new Date('2024-01-01T00:00:00Z') },
+      admin: { adminId: 7, email: 'ada@example.com' },
+    })
+
+    expect(values).toHaveBeenCalledWith(expect.objectContaining({
+      resource: 'posts',
+      recordId: '1',
+      event: 'update',
+      snapshot: { id: 1, title: 'Hello', publishedAt: '2024-01-01T00:00:00.000Z' },
+      adminId: 7,
+      adminEmail: 'ada@example.com',
+    }))
+  })
+})
+
+describe('restoreSnapshot', () => {
+  it('turns timestamps back into dates', () => {
+    const values = restoreSnapshot({ id: 1, title: 'Hello', publishedAt: '2024-01-01T00:00:00.000Z' }, columns)
+    expect(values).toEqual({ id: 1, title: 'Hello', publishedAt: new Date('2024-01-01T00:00:00Z') })
+  })
+
+  it('keeps nulls and drops keys that are no longer columns', () => {
+    expect(restoreSnapshot({ id: 1, publishedAt: null, legacy: 'x' }, columns)).toEqual({ id: 1, publishedAt: null })
+  })
+})
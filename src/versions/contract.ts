@@ -0,0 +1,26 @@
+import { getTableColumns } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+const REQUIRED_COLUMNS = [
+  'id',
+  'resource',
+  'recordId',
+  'event',
+  'snapshot',
+  'adminId',
+  'adminEmail',
+  'createdAt',
+] as const
+
+export function validateVersionsTable(table: PgTable): void {
+  const columnNames = Object.keys(getTableColumns(table))
+
+  for (const required of REQUIRED_COLUMNS) {
+    if (!columnNames.includes(required)) {
+      throw new Error(
+        `versionsTable must have a "${required}" column. ` +
+        `Found columns: ${columnNames.join(', ')}`
+      )
+    }
+  }
+}
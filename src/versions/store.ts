@@ -0,0 +1,84 @@
+import { and, desc, eq, getTableColumns } from 'drizzle-orm'
+import type { PgTable } from 'drizzle-orm/pg-core'
+import type { AnyPgDatabase } from '@/types.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import { toJsonValue } from '@/audit/log.ts'
+
+/**
+ * Why a snapshot was taken: before an update, before a delete, or before a
+ * revert replaced the row with an older version.
+ */
+export type VersionEvent = 'update' | 'delete' | 'revert'
+
+/** One row of the versions table: a record as it was before a write. */
+export interface RecordVersion {
+  id: number
+  /** SQL name of the resource's table. */
+  resource: string
+  /** Encoded record ID. */
+  recordId: string
+  event: VersionEvent
+  /** The row's column values, in JSON form. */
+  snapshot: Record<string, unknown>
+  adminId: number
+  adminEmail: string
+  createdAt: Date
+}
+
+export interface SaveVersionParams {
+  resource: string
+  recordId: string
+  event: VersionEvent
+  /** The row as it is before the write. */
+  record: Record<string, unknown>
+  admin: AdminTokenPayload
+}
+
+/** Snapshots a row before it is overwritten or deleted. Pass the write's transaction handle. */
+export async function saveVersion(db: AnyPgDatabase, table: PgTable, params: SaveVersionParams): Promise<void> {
+  const { resource, recordId, event, record, admin } = params
+  const snapshot = Object.fromEntries(Object.entries(record).map(([key, value]) => [key, toJsonValue(value)]))
+
+  await db.insert(table).values({
+    resource,
+    recordId,
+    event,
+    snapshot,
+    adminId: admin.adminId,
+    adminEmail: admin.email,
+    createdAt: new Date(),
+  })
+}
+
+/** Loads every version of one record, newest first. */
+export async function loadVersions(
+  db: AnyPgDatabase,
+  table: PgTable,
+  resource: string,
+  recordId: string,
+): Promise<RecordVersion[]> {
+  const cols = getTableColumns(table)
+  const rows = await db
+    .select()
+    .from(table)
+    .where(and(eq(cols.resource!, resource), eq(cols.recordId!, recordId)))
+    .orderBy(desc(cols.id!))
+  return rows as unknown as RecordVersion[]
+}
+
+/**
+ * Turns a snapshot back into column values that can be written: unknown keys
+ * are dropped and timestamps become dates again.
+ */
+export function restoreSnapshot(snapshot: Record<string, unknown>, columns: ColumnMeta[]): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+
+  for (const col of columns) {
+    if (!(col.name in snapshot)) continue
+    const value = snapshot[col.name]
+    values[col.name] = col.dataType === 'timestamp' && typeof value === 'string' ? new Date(value) : value
+  }
+
+  return values
+}
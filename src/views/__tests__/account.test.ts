@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest'
+import { accountView, type AccountViewProps } from '@/views/account.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { ApiToken } from '@/apiTokens/store.ts'
+import type { AdminSession } from '@/sessions/store.ts'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+function makeResource(tableName: string, displayName: string): ResourceDefinition {
+  return { table: {} as PgTable, tableName, routePath: tableName, displayName, options: {} }
+}
+
+function makeToken(overrides: Partial<ApiToken> = {}): ApiToken {
+  return {
+    id: 4,
+    adminId: 1,
+    name: 'CI',
+    tokenHash: 'hash',
+    scopes: { posts: 'read', users: 'write' },
+    lastUsedAt: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+function makeSession(id: string, overrides: Partial<AdminSession> = {}): AdminSession {
+  return {
+    id,
+    adminId: 1,
+    ip: '203.0.113.7',
+    userAgent: 'Mozilla/5.0 <Firefox>',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    lastSeenAt: new Date('2024-01-02T00:00:00Z'),
+    expiresAt: new Date('2024-01-03T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+function render(overrides: Partial<AccountViewProps> = {}) {
+  return accountView({
+    admin: { adminId: 1, email: 'ada@example.com', roles: ['editor'] },
+    resources: [
+      { resource: makeResource('posts', 'Post'), writable: true },
+      { resource: makeResource('users', 'User'), writable: false },
+    ],
+    tokens: [makeToken()],
+    csrfToken: 'csrf',
+    basePath: '/admin',
+    ...overrides,
+  })
+}
+
+describe('accountView', () => {
+  it('leaves out API tokens and sessions when they are not configured', () => {
+    const { content, modals } = render({ tokens: undefined })
+    expect(content).toContain('ada@example.com')
+    expect(content).toContain('Roles: editor')
+    expect(content).not.toContain('API Tokens')
+    expect(content).not.toContain('aria-label="Sessions"')
+    expect(modals).toBe('')
+  })
+
+  it('links the Invite Admin page only for admins who may invite', () => {
+    expect(render().content).not.toContain('/admin/invite')
+    expect(render({ canInvite: true }).content).toContain('href="/admin/invite"')
+  })
+
+  it('shows the Change Password form with its errors', () => {
+    const { content } = render({ passwordErrors: ['Current password is incorrect.'] })
+    expect(content).toContain('action="/admin/account/password"')
+    expect(content).toContain('name="currentPassword"')
+    expect(content).toContain('<li>Current password is incorrect.</li>')
+  })
+
+  it('lists sessions, marking the current one and offering to sign out the others', () => {
+    const { content, modals } = render({
+      admin: { adminId: 1, email: 'ada@example.com', sessionId: 'current' },
+      sessions: [makeSession('current'), makeSession('other', { ip: null, userAgent: null })],
+    })
+    expect(content).toContain('Mozilla/5.0 &lt;Firefox&gt;')
+    expect(content).toContain('203.0.113.7')
+    expect(content).toContain('Unknown')
+    expect(content).toContain('This session')
+    expect(modals).toContain('action="/admin/account/sessions/other/revoke"')
+    expect(modals).not.toContain('action="/admin/account/sessions/current/revoke"')
+    expect(modals).toContain('action="/admin/account/sessions/revoke-all"')
+  })
+
+  it('lists tokens with their access, last use and a revoke confirmation', () => {
+    const { content, modals } = render({ tokens: [makeToken(), makeToken({ id: 5, lastUsedAt: new Date() })] })
+    expect(content).toContain('Read: Post · Write: User')
+    expect(content).toContain('Never')
+    expect(modals).toContain('action="/admin/account/tokens/4/revoke"')
+    expect(modals).toContain('action="/admin/account/tokens/5/revoke"')
+  })
+
+  it('offers write access only for writable resources', () => {
+    const { content } = render()
+    const users = content.slice(content.indexOf('name="scope.users"'))
+    expect(content).toContain('name="scope.posts"')
+    expect(users.slice(0, users.indexOf('</select>'))).not.toContain('value="write"')
+  })
+
+  it('shows a new token and form errors', () => {
+    expect(render({ newToken: 'da_secret' }).content).toContain('value="da_secret"')
+
+    const { content } = render({ form: { name: 'Deploys', scopes: { posts: 'write' } }, errors: ['Choose at least one resource.'] })
+    expect(content).toContain('value="Deploys"')
+    expect(content).toContain('<option value="write" selected>')
+    expect(content).toContain('Choose at least one resource.')
+  })
+})
@@ -52,7 +52,7 @@ describe('isAutoManaged', () => {
 
 describe('formView', () => {
   const columns = [
-    makeColumn({ name: 'id', isPrimaryKey: true }),
+    makeColumn({ name: 'id', isPrimaryKey: true, hasDefault: true }),
     makeColumn({ name: 'title' }),
     makeColumn({ name: 'createdAt', dataType: 'timestamp', hasDefault: true }),
   ]
@@ -125,6 +125,16 @@ describe('formView', () => {
       expect(html).not.toContain('name="createdAt"')
       expect(html).toContain('name="title"')
     })
+
+    it('renders primary keys without a default as inputs', () => {
+      const html = formView({
+        resource: makeResource(),
+        columns: [makeColumn({ name: 'slug', isPrimaryKey: true }), makeColumn({ name: 'title' })],
+        csrfToken: 'token',
+        basePath: '',
+      })
+      expect(html).toContain('name="slug"')
+    })
   })
 
   describe('edit form', () => {
@@ -210,4 +220,50 @@ describe('formView', () => {
     expect(html).toContain('name="title"')
     expect(html).not.toContain('name="body"')
   })
+
+  it('renders a select for foreign keys with listed options', () => {
+    const html = formView({
+      resource: makeResource(),
+      columns: [...columns, makeColumn({ name: 'authorId', dataType: 'integer' })],
+      record: { id: 1, title: 'Hello', authorId: 2 },
+      csrfToken: 'token',
+      basePath: '',
+      relations: {
+        authorId: {
+          options: [{ value: '1', label: 'Ada' }, { value: '2', label: 'Grace' }],
+          lookupUrl: '/users/lookup?value=id',
+        },
+      },
+    })
+    expect(html).toContain('<select id="authorId" name="authorId"')
+    expect(html).toContain('<option value="2" selected>Grace</option>')
+    expect(html).not.toContain('data-relation-lookup')
+  })
+
+  it('renders a lookup input for foreign keys to large tables', () => {
+    const html = formView({
+      resource: makeResource(),
+      columns: [...columns, makeColumn({ name: 'authorId', dataType: 'integer' })],
+      record: { id: 1, title: 'Hello', authorId: 7 },
+      csrfToken: 'token',
+      basePath: '',
+      relations: { authorId: { lookupUrl: '/users/lookup?value=id', selectedLabel: 'Linus' } },
+    })
+    expect(html).toContain('data-relation-lookup="/users/lookup?value=id"')
+    expect(html).toContain('<input type="hidden" name="authorId" value="7" data-relation-value>')
+    expect(html).toContain('value="Linus"')
+    expect(html).toContain("fetch(url + '&q='")
+  })
+
+  it('pre-fills a create form from values', () => {
+    const html = formView({
+      resource: makeResource(),
+      columns,
+      csrfToken: 'token',
+      basePath: '',
+      values: { title: 'Prefilled' },
+    })
+    expect(html).toContain('value="Prefilled"')
+    expect(html).toContain('action="/cards"')
+  })
 })
@@ -175,4 +175,228 @@ describe('indexView', () => {
     expect(html).toContain('View')
     expect(html).toContain('Edit')
   })
+
+  it('does not render a search box when search is not configured', () => {
+    const html = indexView({ ...baseProps, records: [] })
+    expect(html).not.toContain('name="q"')
+  })
+
+  it('renders a search box with the current term when search is configured', () => {
+    const html = indexView({
+      ...baseProps,
+      resource: makeResource({ options: { index: { search: ['title'] } } }),
+      records: [{ id: 1, title: 'Test' }],
+      listParams: { page: 1, q: 'Test' },
+    })
+    expect(html).toContain('name="q"')
+    expect(html).toContain('value="Test"')
+    expect(html).toContain('Clear')
+  })
+
+  it('renders a no-match message when a search finds nothing', () => {
+    const html = indexView({
+      ...baseProps,
+      resource: makeResource({ options: { index: { search: ['title'] } } }),
+      records: [],
+      listParams: { page: 1, q: '<b>x</b>' },
+    })
+    expect(html).toContain('match')
+    expect(html).toContain('&lt;b&gt;x&lt;/b&gt;')
+  })
+
+  it('preserves the search term in pagination links', () => {
+    const html = indexView({
+      ...baseProps,
+      records: [{ id: 1, title: 'Test' }],
+      pagination: { currentPage: 1, totalPages: 2, baseUrl: '/cards' },
+      listParams: { page: 1, q: 'Test' },
+    })
+    expect(html).toContain('page=2&amp;q=Test')
+  })
+
+  it('renders a filter sidebar when filters are configured', () => {
+    const html = indexView({
+      ...baseProps,
+      resource: makeResource({ options: { index: { filters: ['title'] } } }),
+      records: [{ id: 1, title: 'Test' }],
+    })
+    expect(html).toContain('Filters')
+    expect(html).toContain('filter[title][contains]')
+  })
+
+  it('preserves filters in pagination links', () => {
+    const html = indexView({
+      ...baseProps,
+      resource: makeResource({ options: { index: { filters: ['title'] } } }),
+      records: [{ id: 1, title: 'Test' }],
+      pagination: { currentPage: 1, totalPages: 2, baseUrl: '/cards' },
+      listParams: { page: 1, filters: { title: { contains: 'Te' } } },
+    })
+    expect(html).toContain('page=2&amp;filter%5Btitle%5D%5Bcontains%5D=Te')
+  })
+
+  it('renders column headers as sort links', () => {
+    const html = indexView({ ...baseProps, records: [{ id: 1, title: 'Test' }] })
+    expect(html).toContain('href="/cards?sort=title&amp;dir=asc"')
+  })
+
+  it('leaves json column headers unlinked', () => {
+    const html = indexView({
+      ...baseProps,
+      columns: [...baseProps.columns, makeColumn({ name: 'meta', dataType: 'json', sqlType: 'json' })],
+      records: [{ id: 1, title: 'Test', meta: {} }],
+    })
+    expect(html).toContain('>Meta</th>')
+    expect(html).not.toContain('sort=meta')
+  })
+
+  it('flips the direction and marks the active sort column', () => {
+    const html = indexView({
+      ...baseProps,
+      records: [{ id: 1, title: 'Test' }],
+      listParams: { page: 1, sort: { column: 'title', direction: 'asc' } },
+    })
+    expect(html).toContain('href="/cards?sort=title&amp;dir=desc"')
+    expect(html).toContain('aria-sort="ascending"')
+    expect(html).toContain('▲')
+  })
+
+  it('marks the defaultSort column as active', () => {
+    const html = indexView({
+      ...baseProps,
+      resource: makeResource({ options: { index: { defaultSort: { column: 'title', direction: 'desc' } } } }),
+      records: [{ id: 1, title: 'Test' }],
+    })
+    expect(html).toContain('aria-sort="descending"')
+  })
+
+  it('preserves search and sort in pagination links', () => {
+    const html = indexView({
+      ...baseProps,
+      records: [{ id: 1, title: 'Test' }],
+      pagination: { currentPage: 1, totalPages: 2, baseUrl: '/cards' },
+      listParams: { page: 1, q: 'Te', sort: { column: 'title', direction: 'desc' } },
+    })
+    expect(html).toContain('page=2&amp;q=Te&amp;sort=title&amp;dir=desc')
+  })
+
+  it('renders scope tabs with counts and highlights the active scope', () => {
+    const html = indexView({
+      ...baseProps,
+      resource: makeResource({ options: { scopes: [{ name: 'All' }, { name: 'Drafts', default: true }] } }),
+      records: [{ id: 1, title: 'Test' }],
+      scopeCounts: { all: 10, drafts: 3 },
+    })
+    expect(html).toContain('href="/cards?scope=all"')
+    expect(html).toContain('href="/cards?scope=drafts" class="px-3 py-2 text-sm font-medium text-zinc-100')
+    expect(html).toContain('>3</span>')
+    expect(html).toContain('>10</span>')
+  })
+
+  it('preserves the scope in pagination and sort links', () => {
+    const html = indexView({
+      ...baseProps,
+      resource: makeResource({ options: { scopes: [{ name: 'Drafts' }] } }),
+      records: [{ id: 1, title: 'Test' }],
+      pagination: { currentPage: 1, totalPages: 2, baseUrl: '/cards' },
+      listParams: { page: 1, scope: 'drafts' },
+    })
+    expect(html).toContain('page=2&amp;scope=drafts')
+    expect(html).toContain('href="/cards?scope=drafts&amp;sort=title&amp;dir=asc"')
+  })
+
+  it('does not render row checkboxes without batch actions', () => {
+    const html = indexView({ ...baseProps, records: [{ id: 1, title: 'Test' }] })
+    expect(html).not.toContain('data-batch-item')
+  })
+
+  it('renders row checkboxes and the batch toolbar when batch actions are configured', () => {
+    const html = indexView({
+      ...baseProps,
+      resource: makeResource({ options: { batchActions: [{ name: 'Archive', handler: async () => {} }] } }),
+      records: [{ id: 1, title: 'Test' }, { id: 2, title: 'Other' }],
+      listParams: { page: 1, q: 'te' },
+      totalCount: 30,
+    })
+    expect(html).toContain('data-batch-toggle')
+    expect(html).toContain('name="ids[]" value="1"')
+    expect(html).toContain('name="ids[]" value="2"')
+    expect(html).toContain('name="_query" value="q=te"')
+    expect(html).toContain('Select all 30 matching')
+  })
+
+  it('renders foreign keys as links to the referenced record', () => {
+    const html = indexView({
+      ...baseProps,
+      columns: [...baseProps.columns, makeColumn({ name: 'authorId', dataType: 'integer' })],
+      records: [{ id: 1, title: 'Test', authorId: 3 }, { id: 2, title: 'Other', authorId: 9 }],
+      relations: { authorId: { routePath: 'users', labels: { 3: 'Ada' }, ids: { 3: '3' } } },
+    })
+    expect(html).toContain('<a href="/users/3" class="text-zinc-100 underline hover:text-zinc-300">Ada</a>')
+    expect(html).toContain('>#9</a>')
+  })
+
+  it('hides create and edit links when the admin may not use them', () => {
+    const html = indexView({
+      ...baseProps,
+      records: [{ id: 1, title: 'Test' }],
+      abilities: { create: false, update: false, delete: false },
+    })
+    expect(html).not.toContain('Create New')
+    expect(html).not.toContain('/cards/1/edit')
+    expect(html).toContain('href="/cards/1"')
+  })
+
+  it('hides edit links for records the policy denies', () => {
+    const html = indexView({
+      ...baseProps,
+      records: [{ id: 1, title: 'Mine' }, { id: 2, title: 'Theirs' }],
+      rowAbilities: { 2: { create: true, update: false, delete: false } },
+    })
+    expect(html).toContain('/cards/1/edit')
+    expect(html).not.toContain('/cards/2/edit')
+  })
+
+  it('renders Trash tab rows with Restore and Delete Permanently instead of View, Edit and batch actions', () => {
+    const html = indexView({
+      ...baseProps,
+      resource: makeResource({
+        options: { softDelete: { column: 'deletedAt' }, batchActions: [{ name: 'Archive', handler: async () => {} }] },
+      }),
+      records: [{ id: 1, title: 'Gone' }],
+      listParams: { page: 1, scope: 'trash' },
+    })
+    expect(html).toContain('aria-current="page"')
+    expect(html).toContain('action="/cards/1/restore"')
+    expect(html).toContain('action="/cards/1/purge"')
+    expect(html).toContain('name="_csrf" value="test-token"')
+    expect(html).not.toContain('href="/cards/1"')
+    expect(html).not.toContain('/cards/1/edit')
+    expect(html).not.toContain('Archive')
+  })
+
+  it('hides Trash row buttons the admin may not use', () => {
+    const html = indexView({
+      ...baseProps,
+      resource: makeResource({ options: { softDelete: { column: 'deletedAt' } } }),
+      records: [{ id: 1, title: 'Gone' }],
+      listParams: { page: 1, scope: 'trash' },
+      abilities: { create: true, update: true, delete: false },
+    })
+    expect(html).toContain('action="/cards/1/restore"')
+    expect(html).not.toContain('/cards/1/purge')
+  })
+
+  it('links rows by a non-id primary key', () => {
+    const html = indexView({
+      ...baseProps,
+      columns: [makeColumn({ name: 'slug', isPrimaryKey: true }), makeColumn({ name: 'title' })],
+      records: [{ slug: 'hello world', title: 'Test' }],
+      totalCount: 1,
+      resource: makeResource({ options: { batchActions: [{ name: 'Archive', handler: async () => {} }] } }),
+    })
+    expect(html).toContain('href="/cards/hello%20world"')
+    expect(html).toContain('href="/cards/hello%20world/edit"')
+    expect(html).toContain('value="hello world"')
+  })
 })
@@ -45,6 +45,19 @@ describe('layout', () => {
     expect(html).toContain('Cards')
   })
 
+  it('hides resources the admin cannot read from the sidebar', () => {
+    const html = layout({
+      ...baseProps,
+      admin: { ...baseProps.admin, roles: ['editor'] },
+      resources: [
+        makeResource(),
+        makeResource({ tableName: 'payments', routePath: 'payments', displayName: 'Payment', options: { permissions: { read: ['finance'] } } }),
+      ],
+    })
+    expect(html).toContain('Cards')
+    expect(html).not.toContain('Payments')
+  })
+
   it('highlights active nav item', () => {
     const html = layout(baseProps)
     // active link uses navLinkActive style (bg-zinc-800)
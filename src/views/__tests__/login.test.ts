@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import { loginPage } from '@/views/login.ts'
+import { forgotPasswordPage, loginPage, setPasswordPage, twoFactorLoginPage } from '@/views/login.ts'
 
 describe('loginPage', () => {
   it('returns full HTML document', () => {
@@ -57,4 +57,58 @@ describe('loginPage', () => {
     const html = loginPage({ csrfToken: 'token', basePath: '' })
     expect(html).toContain('action="/login"')
   })
+
+  it('renders a notice and links Forgot Password when resets are possible', () => {
+    expect(loginPage({ csrfToken: 'token', basePath: '/admin' })).not.toContain('Forgot password?')
+
+    const html = loginPage({ csrfToken: 'token', basePath: '/admin', canResetPassword: true, notice: 'Password set.' })
+    expect(html).toContain('href="/admin/forgot-password"')
+    expect(html).toContain('Password set.')
+  })
+})
+
+describe('forgotPasswordPage', () => {
+  it('asks for an email with CSRF protection', () => {
+    const html = forgotPasswordPage({ csrfToken: 'my-csrf-token', basePath: '/admin', notice: 'Check your email.' })
+    expect(html).toContain('Forgot Password | DrizzleAdmin')
+    expect(html).toContain('action="/admin/forgot-password"')
+    expect(html).toContain('name="email"')
+    expect(html).toContain('value="my-csrf-token"')
+    expect(html).toContain('Check your email.')
+  })
+})
+
+describe('setPasswordPage', () => {
+  it('posts the token back with the new password', () => {
+    const html = setPasswordPage({ csrfToken: 'csrf', basePath: '/admin', token: 'a"b', purpose: 'reset', email: 'a@test.com' })
+    expect(html).toContain('Reset Password | DrizzleAdmin')
+    expect(html).toContain('Choose a new password for a@test.com')
+    expect(html).toContain('action="/admin/set-password"')
+    expect(html).toContain('name="token" value="a&quot;b"')
+    expect(html).toContain('name="newPassword"')
+    expect(html).toContain('name="confirmPassword"')
+  })
+
+  it('titles invitations differently and escapes errors', () => {
+    const html = setPasswordPage({ csrfToken: 'csrf', basePath: '', token: 't', purpose: 'invite', email: 'a@test.com', error: '<b>Too short</b>' })
+    expect(html).toContain('Set Password | DrizzleAdmin')
+    expect(html).toContain('&lt;b&gt;Too short&lt;/b&gt;')
+  })
+})
+
+describe('twoFactorLoginPage', () => {
+  it('asks for a code with CSRF protection', () => {
+    const html = twoFactorLoginPage({ csrfToken: 'my-csrf-token', basePath: '/admin' })
+    expect(html).toContain('Two-Factor Authentication | DrizzleAdmin')
+    expect(html).toContain('action="/admin/login/two-factor"')
+    expect(html).toContain('name="code"')
+    expect(html).toContain('autocomplete="one-time-code"')
+    expect(html).toContain('value="my-csrf-token"')
+    expect(html).not.toContain('type="password"')
+  })
+
+  it('escapes error messages', () => {
+    const html = twoFactorLoginPage({ csrfToken: 'token', basePath: '', error: '<b>Invalid code.</b>' })
+    expect(html).toContain('&lt;b&gt;Invalid code.&lt;/b&gt;')
+  })
 })
@@ -124,4 +124,36 @@ describe('showView', () => {
     expect(content).toContain('test@test.com')
     expect(content).not.toContain('passwordHash')
   })
+
+  it('renders foreign keys as links to the referenced record', () => {
+    const { content } = showView({
+      ...baseProps,
+      columns: [...baseProps.columns, makeColumn({ name: 'authorId', dataType: 'integer' })],
+      record: { id: 1, title: 'Test Card', authorId: 3 },
+      relations: { authorId: { routePath: 'users', labels: { 3: 'Ada <3' }, ids: { 3: '3' } } },
+    })
+    expect(content).toContain('href="/users/3"')
+    expect(content).toContain('Ada &lt;3')
+  })
+
+  it('hides edit and delete when the admin may not use them', () => {
+    const { content, modals } = showView({ ...baseProps, abilities: { create: true, update: false, delete: false } })
+    expect(content).not.toContain('/cards/1/edit')
+    expect(content).not.toContain("openModal('delete-1')")
+    expect(modals).not.toContain('_method=DELETE')
+  })
+
+  it('addresses records by a composite primary key', () => {
+    const { content, modals } = showView({
+      ...baseProps,
+      columns: [
+        makeColumn({ name: 'teamId', isPrimaryKey: true, dataType: 'integer' }),
+        makeColumn({ name: 'userId', isPrimaryKey: true, dataType: 'integer' }),
+      ],
+      record: { teamId: 3, userId: 42 },
+    })
+    // base64url of the JSON array [3,42]
+    expect(content).toContain('href="/cards/WzMsNDJd/edit"')
+    expect(modals).toContain('/cards/WzMsNDJd?_method=DELETE')
+  })
 })
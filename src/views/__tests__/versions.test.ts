@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest'
+import { versionsView, type VersionsViewProps } from '@/views/versions.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { RecordVersion } from '@/versions/store.ts'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+const columns: ColumnMeta[] = [
+  { name: 'id', sqlName: 'id', dataType: 'integer', isNullable: false, isPrimaryKey: true, hasDefault: true },
+  { name: 'title', sqlName: 'title', dataType: 'text', isNullable: false, isPrimaryKey: false, hasDefault: false },
+  { name: 'body', sqlName: 'body', dataType: 'text', isNullable: true, isPrimaryKey: false, hasDefault: false },
+]
+
+const resource: ResourceDefinition = {
+  table: {} as PgTable,
+  tableName: 'posts',
+  routePath: 'posts',
+  displayName: 'Post',
+  options: { versioning: true },
+}
+
+function makeVersion(id: number, snapshot: Record<string, unknown>): RecordVersion {
+  return {
+    id,
+    resource: 'posts',
+    recordId: '1',
+    event: 'update',
+    snapshot,
+    adminId: 1,
+    adminEmail: 'ada@example.com',
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+  }
+}
+
+function render(overrides: Partial<VersionsViewProps> = {}) {
+  return versionsView({
+    resource,
+    columns,
+    recordId: '1',
+    current: { id: 1, title: 'Third', body: 'Same' },
+    versions: [makeVersion(2, { id: 1, title: 'Second', body: 'Same' }), makeVersion(1, { id: 1, title: 'First', body: 'Same' })],
+    compare: {},
+    canRevert: true,
+    csrfToken: 'token',
+    basePath: '/admin',
+    ...overrides,
+  })
+}
+
+// Cells of the comparison row for a field, from the rendered HTML
+function comparisonRow(html: string, field: string): string {
+  const start = html.indexOf(`>${field}</td>`)
+  return html.slice(start, html.indexOf('</tr>', start))
+}
+
+describe('versionsView', () => {
+  it('compares the latest version with the current record by default', () => {
+    const { content } = render()
+    expect(comparisonRow(content, 'Title')).toContain('Second')
+    expect(comparisonRow(content, 'Title')).toContain('Third')
+  })
+
+  it('compares the requested versions', () => {
+    const { content } = render({ compare: { a: '1', b: '2' } })
+    expect(comparisonRow(content, 'Title')).toContain('First')
+    expect(comparisonRow(content, 'Title')).toContain('Second')
+    expect(comparisonRow(content, 'Title')).not.toContain('Third')
+  })
+
+  it('highlights only the fields that differ', () => {
+    const { content } = render()
+    expect(content.match(/data-changed/g)).toHaveLength(1)
+  })
+
+  it('renders a CSRF-protected revert modal per version', () => {
+    const { content, modals } = render()
+    expect(content).toContain("openModal('revert-2')")
+    expect(modals).toContain('action="/admin/posts/1/versions/2/revert"')
+    expect(modals).toContain('action="/admin/posts/1/versions/1/revert"')
+    expect(modals).toContain('name="_csrf" value="token"')
+  })
+
+  it('hides revert buttons when the admin may not revert', () => {
+    const { content, modals } = render({ canRevert: false })
+    expect(content).not.toContain('Revert')
+    expect(modals).toBe('')
+  })
+
+  it('compares the two latest versions of a deleted record', () => {
+    const { content, modals } = render({ current: undefined })
+    expect(content).toContain('This post has been deleted.')
+    expect(content).not.toContain('Back to record')
+    expect(comparisonRow(content, 'Title')).toContain('First')
+    expect(comparisonRow(content, 'Title')).toContain('Second')
+    expect(modals).toContain('restored from this version')
+  })
+})
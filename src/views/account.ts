@@ -0,0 +1,282 @@
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import type { ApiToken, ApiTokenScopes } from '@/apiTokens/store.ts'
+import type { AdminSession } from '@/sessions/store.ts'
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { linkButton } from '@/views/components/button.ts'
+import { confirmModal, modalTrigger } from '@/views/components/modal.ts'
+import { formatAuditTime } from '@/views/components/history.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+/** A resource a new token may be scoped to. */
+export interface GrantableResource {
+  resource: ResourceDefinition
+  /** Whether the admin may give the token write access. */
+  writable: boolean
+}
+
+/** Values of a rejected New Token form, shown again. */
+export interface ApiTokenForm {
+  name: string
+  scopes: ApiTokenScopes
+}
+
+export interface AccountViewProps {
+  admin: AdminTokenPayload
+  resources: GrantableResource[]
+  /** The admin's tokens; unset when API tokens are not configured. */
+  tokens?: ApiToken[]
+  /** The admin's two-factor status; unset when two-factor authentication is not configured. */
+  twoFactor?: { enabled: boolean }
+  /** The admin's active sessions; unset when sessions are not configured. */
+  sessions?: AdminSession[]
+  /** Whether to link the Invite Admin page. */
+  canInvite?: boolean
+  /** A token just created, shown once. */
+  newToken?: string
+  form?: ApiTokenForm
+  errors?: string[]
+  /** Problems with a rejected Change Password form. */
+  passwordErrors?: string[]
+  csrfToken: string
+  basePath: string
+}
+
+/**
+ * Renders the Account page: the signed-in admin, their two-factor status, a
+ * link to invite admins when they may, and the Change Password form, their
+ * active sessions with Sign Out buttons when sessions are configured, and
+ * their API tokens with Revoke buttons and the New Token form when API tokens
+ * are configured.
+ */
+export function accountView(props: AccountViewProps): { content: string; modals: string } {
+  const { admin, tokens, twoFactor, sessions, basePath } = props
+
+  const profile = `
+    <section class="${styles.cardPadded} space-y-1" aria-label="Profile">
+      <p>${escapeHtml(admin.email)}</p>
+      ${admin.roles?.length ? `<p class="${styles.textMuted} text-sm">Roles: ${admin.roles.map(escapeHtml).join(', ')}</p>` : ''}
+    </section>
+    ${twoFactor ? `
+      <section class="${styles.cardPadded} mt-6 flex items-center justify-between gap-4" aria-label="Two-factor authentication">
+        <p>Two-factor authentication: ${twoFactor.enabled ? `<span class="${styles.textSuccess}">On</span>` : `<span class="${styles.textMuted}">Off</span>`}</p>
+        ${linkButton({ label: twoFactor.enabled ? 'Manage' : 'Set up', href: adminUrl(basePath, '/account/two-factor'), variant: 'secondary' })}
+      </section>
+    ` : ''}
+    ${props.canInvite ? `
+      <section class="${styles.cardPadded} mt-6 flex items-center justify-between gap-4" aria-label="Invite admin">
+        <p>Give a colleague access to the admin panel.</p>
+        ${linkButton({ label: 'Invite admin', href: adminUrl(basePath, '/invite'), variant: 'secondary' })}
+      </section>
+    ` : ''}
+    ${renderPasswordForm(props)}
+  `
+
+  const sessionList = sessions ? renderSessions(props, sessions) : { content: '', modals: '' }
+  const tokenList = tokens ? renderTokens(props, tokens) : { content: '', modals: '' }
+
+  return {
+    content: profile + sessionList.content + tokenList.content,
+    modals: sessionList.modals + tokenList.modals,
+  }
+}
+
+function renderPasswordForm(props: AccountViewProps): string {
+  const { passwordErrors, csrfToken, basePath } = props
+  const field = (name: string, label: string, autocomplete: string) => `
+    <div>
+      <label for="${name}" class="${styles.label}">${label}</label>
+      <input id="${name}" type="password" name="${name}" required autocomplete="${autocomplete}" class="${styles.input}">
+    </div>
+  `
+
+  return `
+    <form method="POST" action="${adminUrl(basePath, '/account/password')}" class="${styles.cardPadded} mt-6 space-y-4" aria-label="Change password">
+      <input type="hidden" name="_csrf" value="${csrfToken}">
+      <h3 class="font-semibold">Change Password</h3>
+      ${passwordErrors?.length ? `<ul class="${styles.textError} text-sm space-y-1">${passwordErrors.map(error => `<li>${escapeHtml(error)}</li>`).join('')}</ul>` : ''}
+      ${field('currentPassword', 'Current password', 'current-password')}
+      ${field('newPassword', 'New password', 'new-password')}
+      ${field('confirmPassword', 'Confirm new password', 'new-password')}
+      <button type="submit" class="${styles.btnPrimary}">Change password</button>
+    </form>
+  `
+}
+
+function renderSessions(props: AccountViewProps, sessions: AdminSession[]): { content: string; modals: string } {
+  const { admin, csrfToken, basePath } = props
+  const sessionsUrl = adminUrl(basePath, '/account/sessions')
+
+  let modals = confirmModal({
+    id: 'revoke-all-sessions',
+    title: 'Sign out everywhere',
+    message: 'Every session, including this one, will be signed out.',
+    confirmLabel: 'Sign out everywhere',
+    formAction: `${sessionsUrl}/revoke-all`,
+    csrfToken,
+  })
+
+  const rows = sessions.map(session => {
+    const current = session.id === admin.sessionId
+    const modalId = `revoke-session-${session.id}`
+    if (!current) {
+      modals += confirmModal({
+        id: modalId,
+        title: 'Sign out session',
+        message: 'The browser or client using this session will be signed out.',
+        confirmLabel: 'Sign out',
+        formAction: `${sessionsUrl}/${encodeURIComponent(session.id)}/revoke`,
+        csrfToken,
+      })
+    }
+    return `
+      <tr class="${styles.tableRow}">
+        <td class="${styles.tableCell} max-w-xs truncate" title="${escapeHtml(session.userAgent ?? '')}">${session.userAgent ? escapeHtml(session.userAgent) : `<span class="${styles.textMuted}">Unknown</span>`}</td>
+        <td class="${styles.tableCell}">${session.ip ? escapeHtml(session.ip) : `<span class="${styles.textMuted}">—</span>`}</td>
+        <td class="${styles.tableCell} whitespace-nowrap">${formatAuditTime(session.createdAt)}</td>
+        <td class="${styles.tableCell} whitespace-nowrap">${formatAuditTime(session.lastSeenAt)}</td>
+        <td class="${styles.tableCell} text-right">${current ? `<span class="${styles.textSuccess} text-sm">This session</span>` : modalTrigger(modalId, 'Sign out')}</td>
+      </tr>
+    `
+  }).join('')
+
+  const content = `
+    <div class="flex items-center justify-between mt-6 mb-2">
+      <h2 class="text-lg font-semibold">Sessions</h2>
+      ${modalTrigger('revoke-all-sessions', 'Sign out everywhere', 'danger')}
+    </div>
+    <section class="${styles.card} overflow-x-auto" aria-label="Sessions">
+      <table class="${styles.table}">
+        <thead>
+          <tr class="border-b border-zinc-800">
+            <th class="px-4 py-3 ${styles.tableHeader}">Device</th>
+            <th class="px-4 py-3 ${styles.tableHeader}">IP</th>
+            <th class="px-4 py-3 ${styles.tableHeader}">Signed in</th>
+            <th class="px-4 py-3 ${styles.tableHeader}">Last seen</th>
+            <th class="px-4 py-3"></th>
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </section>
+  `
+
+  return { content, modals }
+}
+
+function renderTokens(props: AccountViewProps, tokens: ApiToken[]): { content: string; modals: string } {
+  const { csrfToken, basePath } = props
+  const names = new Map(props.resources.map(({ resource }) => [resource.tableName, resource.displayName]))
+  const tokensUrl = adminUrl(basePath, '/account/tokens')
+
+  let modals = ''
+  const tokenRows = tokens.map(token => {
+    const modalId = `revoke-token-${token.id}`
+    modals += confirmModal({
+      id: modalId,
+      title: `Revoke ${token.name}`,
+      message: 'Requests using this token will be rejected. This cannot be undone.',
+      confirmLabel: 'Revoke',
+      formAction: `${tokensUrl}/${token.id}/revoke`,
+      csrfToken,
+    })
+    return `
+      <tr class="${styles.tableRow}">
+        <td class="${styles.tableCell}">${escapeHtml(token.name)}</td>
+        <td class="${styles.tableCell}">${formatScopes(token.scopes, names)}</td>
+        <td class="${styles.tableCell} whitespace-nowrap">${formatAuditTime(token.createdAt)}</td>
+        <td class="${styles.tableCell} whitespace-nowrap">${token.lastUsedAt ? formatAuditTime(token.lastUsedAt) : 'Never'}</td>
+        <td class="${styles.tableCell} text-right">${modalTrigger(modalId, 'Revoke')}</td>
+      </tr>
+    `
+  }).join('')
+
+  const tokenList = tokens.length === 0
+    ? `<p class="text-center py-12 ${styles.textMuted}">No API tokens yet.</p>`
+    : `
+      <table class="${styles.table}">
+        <thead>
+          <tr class="border-b border-zinc-800">
+            <th class="px-4 py-3 ${styles.tableHeader}">Name</th>
+            <th class="px-4 py-3 ${styles.tableHeader}">Access</th>
+            <th class="px-4 py-3 ${styles.tableHeader}">Created</th>
+            <th class="px-4 py-3 ${styles.tableHeader}">Last used</th>
+            <th class="px-4 py-3"></th>
+          </tr>
+        </thead>
+        <tbody>${tokenRows}</tbody>
+      </table>
+    `
+
+  const content = `
+    ${props.newToken ? renderNewToken(props.newToken) : ''}
+    <h2 class="text-lg font-semibold mt-6 mb-2">API Tokens</h2>
+    <section class="${styles.card} overflow-x-auto" aria-label="API tokens">
+      ${tokenList}
+    </section>
+    ${renderTokenForm(props, tokensUrl)}
+  `
+
+  return { content, modals }
+}
+
+function renderNewToken(token: string): string {
+  return `
+    <section class="${styles.cardPadded} mt-6 space-y-2 border-emerald-700" aria-label="New token">
+      <p class="${styles.textSuccess}">Token created. Copy it now, it will not be shown again.</p>
+      <input type="text" readonly value="${escapeHtml(token)}" class="${styles.input} font-mono" onclick="this.select()">
+    </section>
+  `
+}
+
+function renderTokenForm(props: AccountViewProps, action: string): string {
+  const { resources, form, errors, csrfToken } = props
+
+  const rows = resources.map(({ resource, writable }) => {
+    const field = `scope.${resource.tableName}`
+    const selected = form?.scopes[resource.tableName] ?? ''
+    const option = (value: string, label: string) =>
+      `<option value="${value}"${selected === value ? ' selected' : ''}>${label}</option>`
+    return `
+      <tr class="${styles.tableRow}">
+        <td class="${styles.tableCell}"><label for="${escapeHtml(field)}">${escapeHtml(resource.displayName)}s</label></td>
+        <td class="${styles.tableCell}">
+          <select id="${escapeHtml(field)}" name="${escapeHtml(field)}" class="${styles.input} w-40">
+            ${option('', 'No access')}
+            ${option('read', 'Read only')}
+            ${writable ? option('write', 'Read and write') : ''}
+          </select>
+        </td>
+      </tr>
+    `
+  }).join('')
+
+  return `
+    <form method="POST" action="${action}" class="${styles.cardPadded} mt-6 space-y-4" aria-label="New API token">
+      <input type="hidden" name="_csrf" value="${csrfToken}">
+      <h3 class="font-semibold">New Token</h3>
+      ${errors?.length ? `<ul class="${styles.textError} text-sm space-y-1">${errors.map(error => `<li>${escapeHtml(error)}</li>`).join('')}</ul>` : ''}
+      <div>
+        <label for="token-name" class="${styles.label}">Name</label>
+        <input id="token-name" type="text" name="name" value="${escapeHtml(form?.name ?? '')}" class="${styles.input}" placeholder="CI deploys">
+      </div>
+      <table class="${styles.table}"><tbody>${rows}</tbody></table>
+      <button type="submit" class="${styles.btnPrimary}">Create token</button>
+    </form>
+  `
+}
+
+// Summarises scopes as "Read: Posts · Write: Users", naming resources that
+// no longer exist by their table
+function formatScopes(scopes: ApiTokenScopes, names: Map<string, string>): string {
+  const label = (tableName: string) => escapeHtml(names.get(tableName) ?? tableName)
+  const entries = Object.entries(scopes)
+  const read = entries.filter(([, access]) => access === 'read').map(([tableName]) => label(tableName))
+  const write = entries.filter(([, access]) => access === 'write').map(([tableName]) => label(tableName))
+
+  return [
+    read.length > 0 ? `Read: ${read.join(', ')}` : '',
+    write.length > 0 ? `Write: ${write.join(', ')}` : '',
+  ].filter(Boolean).join(' · ')
+}
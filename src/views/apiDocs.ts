@@ -0,0 +1,172 @@
+import type { HttpMethod, JsonSchema, OpenApiDocument, OpenApiOperation } from '@/resources/openapi.ts'
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { linkButton } from '@/views/components/button.ts'
+
+export interface ApiDocsViewProps {
+  document: OpenApiDocument
+  /** URL of the document as JSON. */
+  specUrl: string
+}
+
+const METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete']
+
+const METHOD_STYLES: Record<HttpMethod, string> = {
+  get: 'bg-sky-500/15 text-sky-300',
+  post: 'bg-emerald-500/15 text-emerald-300',
+  put: 'bg-amber-500/15 text-amber-300',
+  patch: 'bg-amber-500/15 text-amber-300',
+  delete: 'bg-red-500/15 text-red-300',
+}
+
+/**
+ * Renders the API docs page from an OpenAPI document: the endpoints grouped by
+ * tag, each expandable to its parameters, request body and responses, followed
+ * by the schemas.
+ */
+export function apiDocsView(props: ApiDocsViewProps): string {
+  const { document, specUrl } = props
+  const server = document.servers[0]?.url ?? ''
+
+  const operations = Object.entries(document.paths).flatMap(([path, item]) =>
+    METHODS.filter(method => item[method]).map(method => ({ path, method, operation: item[method]! })))
+
+  const sections = document.tags.map(tag => {
+    const tagged = operations.filter(({ operation }) => operation.tags.includes(tag.name))
+    if (tagged.length === 0) return ''
+    return `
+      <section class="${styles.card}" aria-label="${escapeHtml(tag.name)}">
+        <h2 class="px-4 py-3 border-b border-zinc-800 font-semibold">${escapeHtml(tag.name)}</h2>
+        <div class="divide-y divide-zinc-800">
+          ${tagged.map(({ path, method, operation }) => renderOperation(path, method, operation)).join('')}
+        </div>
+      </section>
+    `
+  }).join('')
+
+  const schemas = Object.entries(document.components.schemas).map(([name, schema]) => `
+    <section class="${styles.card}" id="schema-${escapeHtml(name)}" aria-label="${escapeHtml(name)} schema">
+      <h3 class="px-4 py-3 border-b border-zinc-800 font-mono text-sm">${escapeHtml(name)}</h3>
+      ${renderProperties(schema)}
+    </section>
+  `).join('')
+
+  return `
+    <div class="space-y-6">
+      <div class="${styles.cardPadded} flex items-start justify-between gap-4">
+        <div class="space-y-1">
+          <p>${escapeHtml(document.info.title)} <span class="${styles.textMuted}">${escapeHtml(document.info.version)}</span></p>
+          <p class="${styles.textMuted} text-sm">Base URL: <code>${escapeHtml(server)}</code></p>
+          ${document.info.description ? `<p class="${styles.textMuted} text-sm">${renderCode(document.info.description)}</p>` : ''}
+        </div>
+        ${linkButton({ label: 'OpenAPI JSON', href: specUrl, variant: 'secondary' })}
+      </div>
+      ${sections}
+      <h2 class="text-lg font-semibold pt-2">Schemas</h2>
+      ${schemas}
+    </div>
+  `
+}
+
+function renderOperation(path: string, method: HttpMethod, operation: OpenApiOperation): string {
+  const parameters = operation.parameters ?? []
+  const body = operation.requestBody?.content['application/json']?.schema
+
+  const parameterRows = parameters.map(param => `
+    <tr class="${styles.tableRow}">
+      <td class="${styles.tableCell} font-mono">${escapeHtml(param.name)}${param.required ? ' <span class="text-red-400">*</span>' : ''}</td>
+      <td class="${styles.tableCell}">${escapeHtml(param.in)}</td>
+      <td class="${styles.tableCell}">${renderType(param.schema)}</td>
+      <td class="${styles.tableCell} ${styles.textMuted}">${escapeHtml(param.description ?? '')}</td>
+    </tr>
+  `).join('')
+
+  const responseRows = Object.entries(operation.responses).map(([status, response]) => {
+    const schema = response.content?.['application/json']?.schema
+    return `
+      <tr class="${styles.tableRow}">
+        <td class="${styles.tableCell} font-mono">${escapeHtml(status)}</td>
+        <td class="${styles.tableCell}">${escapeHtml(response.description)}</td>
+        <td class="${styles.tableCell}">${schema ? renderType(schema) : ''}</td>
+      </tr>
+    `
+  }).join('')
+
+  return `
+    <details class="group">
+      <summary class="flex items-center gap-3 px-4 py-3 cursor-pointer list-none ${styles.bgHover}">
+        <span class="w-16 text-center text-xs font-semibold uppercase rounded px-2 py-1 ${METHOD_STYLES[method]}">${method}</span>
+        <code class="text-sm">${escapeHtml(path)}</code>
+        <span class="${styles.textMuted} text-sm">${escapeHtml(operation.summary)}</span>
+        ${operation.security?.length === 0 ? `<span class="${styles.textMuted} text-xs ml-auto">No token</span>` : ''}
+      </summary>
+      <div class="px-4 pb-4 space-y-4">
+        <p class="${styles.textMuted} text-xs font-mono">${escapeHtml(operation.operationId)}</p>
+        ${parameters.length > 0 ? renderTable(['Parameter', 'In', 'Type', 'Description'], parameterRows) : ''}
+        ${body ? `<p class="text-sm">Request body: ${renderType(body)}</p>` : ''}
+        ${renderTable(['Status', 'Description', 'Body'], responseRows)}
+      </div>
+    </details>
+  `
+}
+
+function renderProperties(schema: JsonSchema): string {
+  const properties = Object.entries(schema.properties ?? {})
+  if (properties.length === 0) {
+    return `<p class="px-4 py-3 text-sm ${styles.textMuted}">${schema.additionalProperties ? 'Any properties' : 'No properties'}</p>`
+  }
+
+  const required = new Set(schema.required ?? [])
+  const rows = properties.map(([name, property]) => `
+    <tr class="${styles.tableRow}">
+      <td class="${styles.tableCell} font-mono">${escapeHtml(name)}${required.has(name) ? ' <span class="text-red-400">*</span>' : ''}</td>
+      <td class="${styles.tableCell}">${renderType(property)}</td>
+      <td class="${styles.tableCell} ${styles.textMuted}">${property.description ? renderCode(property.description) : ''}</td>
+    </tr>
+  `).join('')
+  return renderTable(['Property', 'Type', 'Description'], rows)
+}
+
+function renderTable(headers: string[], rows: string): string {
+  return `
+    <div class="overflow-x-auto">
+      <table class="${styles.table}">
+        <thead>
+          <tr class="border-b border-zinc-800">
+            ${headers.map(header => `<th class="px-4 py-2 ${styles.tableHeader}">${header}</th>`).join('')}
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    </div>
+  `
+}
+
+/** Renders a schema as a short type, linking references to their schema. */
+function renderType(schema: JsonSchema): string {
+  if (schema.$ref) {
+    const name = schema.$ref.split('/').pop()!
+    return `<a href="#schema-${escapeHtml(name)}" class="${styles.link} font-mono">${escapeHtml(name)}</a>`
+  }
+
+  if (schema.properties && Object.keys(schema.properties).length > 0) {
+    const fields = Object.entries(schema.properties).map(([name, property]) => `${escapeHtml(name)}: ${renderType(property)}`)
+    return `<span class="font-mono">{ ${fields.join(', ')} }</span>`
+  }
+
+  const types = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : []
+  let label = types.length > 0
+    ? types.map(type => type === 'array' && schema.items ? `${renderType(schema.items)}[]` : escapeHtml(type)).join(' | ')
+    : 'any'
+  if (schema.format) label += ` <span class="${styles.textMuted}">(${escapeHtml(schema.format)})</span>`
+  if (schema.enum) {
+    const values = schema.enum.filter(value => value !== null).map(value => escapeHtml(String(value)))
+    label += ` <span class="${styles.textMuted}">${values.join(', ')}</span>`
+  }
+  return `<span class="font-mono">${label}</span>`
+}
+
+// Shows `code` spans of descriptions as code
+function renderCode(text: string): string {
+  return escapeHtml(text).replace(/`([^`]+)`/g, '<code>$1</code>')
+}
@@ -0,0 +1,104 @@
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { AuditEntry } from '@/audit/log.ts'
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { renderPagination } from '@/views/components/pagination.ts'
+import { formatAuditTime, renderChanges } from '@/views/components/history.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+export interface AuditLogViewProps {
+  entries: AuditEntry[]
+  /** Resources the admin may read; entries of other resources are shown without links. */
+  resources: ResourceDefinition[]
+  currentPage: number
+  totalPages: number
+  basePath: string
+  /** Active `?resource=` filter (a table name). */
+  resource?: string
+  /** Active `?recordId=` filter. */
+  recordId?: string
+}
+
+/** Renders the Audit Log page: a resource filter and a paginated table of writes, newest first. */
+export function auditLogView(props: AuditLogViewProps): string {
+  const { entries, resources, currentPage, totalPages, basePath, resource, recordId } = props
+  const baseUrl = adminUrl(basePath, '/audit-log')
+  const byTable = new Map(resources.map(r => [r.tableName, r]))
+
+  const options = resources
+    .map(r => `<option value="${escapeHtml(r.tableName)}"${r.tableName === resource ? ' selected' : ''}>${escapeHtml(r.displayName)}s</option>`)
+    .join('')
+
+  const filterForm = `
+    <form method="GET" action="${baseUrl}" class="flex items-center gap-2 mb-4">
+      <select name="resource" aria-label="Resource" class="${styles.input} w-56" onchange="this.form.submit()">
+        <option value="">All resources</option>
+        ${options}
+      </select>
+      ${recordId ? `<input type="hidden" name="recordId" value="${escapeHtml(recordId)}">` : ''}
+      ${resource || recordId ? `<a href="${baseUrl}" class="${styles.btnGhost} text-sm">Clear</a>` : ''}
+    </form>
+  `
+
+  const rows = entries.map(entry => {
+    const target = byTable.get(entry.resource)
+    const resourceCell = target
+      ? `<a href="${adminUrl(basePath, `/${target.routePath}`)}" class="${styles.link}">${escapeHtml(target.displayName)}</a>`
+      : escapeHtml(entry.resource)
+    const recordCell = entry.recordId === null
+      ? `<span class="${styles.textMuted}">—</span>`
+      : target
+        ? renderRecordLink(target, entry, basePath)
+        : escapeHtml(entry.recordId)
+
+    return `
+      <tr class="${styles.tableRow} align-top">
+        <td class="${styles.tableCell} whitespace-nowrap">${formatAuditTime(entry.createdAt)}</td>
+        <td class="${styles.tableCell}">${escapeHtml(entry.adminEmail)}</td>
+        <td class="${styles.tableCell}">${resourceCell}</td>
+        <td class="${styles.tableCell}">${recordCell}</td>
+        <td class="${styles.tableCell}">${escapeHtml(entry.action)}</td>
+        <td class="${styles.tableCell}">${renderChanges(entry.changes)}</td>
+      </tr>
+    `
+  }).join('')
+
+  const table = entries.length === 0
+    ? `<p class="text-center py-12 ${styles.textMuted}">No entries found.</p>`
+    : `
+      <table class="${styles.table}">
+        <thead>
+          <tr class="border-b border-zinc-800">
+            ${['Time', 'Admin', 'Resource', 'Record', 'Action', 'Changes'].map(h => `<th class="px-4 py-3 ${styles.tableHeader}">${h}</th>`).join('')}
+          </tr>
+        </thead>
+        <tbody>${rows}</tbody>
+      </table>
+    `
+
+  const params: Record<string, string> = {}
+  if (resource) params.resource = resource
+  if (recordId) params.recordId = recordId
+
+  return `
+    ${filterForm}
+    <div class="${styles.card} overflow-x-auto">
+      ${table}
+    </div>
+    ${renderPagination({ currentPage, totalPages, baseUrl, params })}
+  `
+}
+
+// Deleted records no longer have a show page; versioned ones can still be
+// restored from their Versions page
+function renderRecordLink(resource: ResourceDefinition, entry: AuditEntry, basePath: string): string {
+  const recordId = entry.recordId!
+  const path = `/${resource.routePath}/${encodeURIComponent(recordId)}`
+  if (entry.action !== 'delete') {
+    return `<a href="${adminUrl(basePath, path)}" class="${styles.link}">${escapeHtml(recordId)}</a>`
+  }
+  if (resource.options.versioning) {
+    return `<a href="${adminUrl(basePath, `${path}/versions`)}" class="${styles.link}">${escapeHtml(recordId)}</a>`
+  }
+  return escapeHtml(recordId)
+}
@@ -1,21 +1,12 @@
 import { describe, it, expect } from 'vitest'
-import { slugify, renderMemberActions, renderCollectionActions } from '@/views/components/actions.ts'
+import {
+  renderMemberActions,
+  renderCollectionActions,
+  renderBatchActions,
+  batchCheckbox,
+} from '@/views/components/actions.ts'
 import type { ResourceDefinition } from '@/resources/types.ts'
 
-describe('slugify', () => {
-  it('converts to lowercase slug', () => {
-    expect(slugify('Export CSV')).toBe('export-csv')
-  })
-
-  it('removes special characters', () => {
-    expect(slugify('Archive!')).toBe('archive')
-  })
-
-  it('handles single word', () => {
-    expect(slugify('Delete')).toBe('delete')
-  })
-})
-
 import type { PgTable } from 'drizzle-orm/pg-core'
 
 function makeResource(overrides: Partial<ResourceDefinition> = {}): ResourceDefinition {
@@ -89,5 +80,62 @@ describe('renderCollectionActions', () => {
     const result = renderCollectionActions({ resource, csrfToken: 'token', basePath: '' })
     expect(result).toContain('Export CSV')
     expect(result).toContain('actions/export-csv')
+    expect(result).not.toContain('_query')
+  })
+
+  it('carries the current list query', () => {
+    const resource = makeResource({
+      options: {
+        collectionActions: [
+          { name: 'Export CSV', handler: async () => {} },
+        ],
+      },
+    })
+    const result = renderCollectionActions({ resource, csrfToken: 'token', basePath: '', query: 'q=a&sort=title' })
+    expect(result).toContain('name="_query" value="q=a&amp;sort=title"')
+  })
+})
+
+describe('renderBatchActions', () => {
+  const props = { csrfToken: 'token', basePath: '/admin', query: 'q=foo', totalCount: 5, pageCount: 5 }
+
+  it('returns empty when no batch actions', () => {
+    const result = renderBatchActions({ ...props, resource: makeResource() })
+    expect(result.toolbar).toBe('')
+    expect(result.modals).toBe('')
+  })
+
+  it('renders the batch form with CSRF token and list query', () => {
+    const resource = makeResource({
+      options: { batchActions: [{ name: 'Archive', handler: async () => {} }] },
+    })
+    const result = renderBatchActions({ ...props, resource })
+    expect(result.toolbar).toContain('id="batch-form"')
+    expect(result.toolbar).toContain('name="_csrf" value="token"')
+    expect(result.toolbar).toContain('name="_query" value="q=foo"')
+    expect(result.toolbar).toContain("openModal('modal-batch-archive')")
+    expect(result.modals).toContain('formaction="/admin/cards/actions/batch/archive"')
+  })
+
+  it('offers selecting all matching records only when they span several pages', () => {
+    const resource = makeResource({
+      options: { batchActions: [{ name: 'Archive', handler: async () => {} }] },
+    })
+    expect(renderBatchActions({ ...props, resource }).toolbar).not.toContain('Select all')
+    expect(renderBatchActions({ ...props, resource, totalCount: 42 }).toolbar).toContain('Select all 42 matching')
+
+    const limited = makeResource({
+      options: { index: { selectAllLimit: 40 }, batchActions: [{ name: 'Archive', handler: async () => {} }] },
+    })
+    expect(renderBatchActions({ ...props, resource: limited, totalCount: 42 }).toolbar).not.toContain('Select all')
+  })
+})
+
+describe('batchCheckbox', () => {
+  it('binds the row checkbox to the batch form', () => {
+    const html = batchCheckbox(7)
+    expect(html).toContain('name="ids[]"')
+    expect(html).toContain('value="7"')
+    expect(html).toContain('form="batch-form"')
   })
 })
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import { renderFilterSidebar } from '@/views/components/filters.ts'
+import type { ResolvedFilter } from '@/resources/query.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+
+function makeColumn(overrides: Partial<ColumnMeta> = {}): ColumnMeta {
+  return {
+    name: 'title',
+    sqlName: 'title',
+    dataType: 'text',
+    isNullable: false,
+    isPrimaryKey: false,
+    hasDefault: false,
+    ...overrides,
+  }
+}
+
+function makeFilter(overrides: Partial<ResolvedFilter> = {}): ResolvedFilter {
+  return {
+    column: makeColumn(),
+    type: 'text',
+    operators: ['contains', 'eq'],
+    ...overrides,
+  }
+}
+
+describe('renderFilterSidebar', () => {
+  it('returns empty string without filters', () => {
+    expect(renderFilterSidebar({ filters: [], listParams: { page: 1 }, baseUrl: '/cards' })).toBe('')
+  })
+
+  it('renders a GET form targeting the index', () => {
+    const html = renderFilterSidebar({ filters: [makeFilter()], listParams: { page: 1 }, baseUrl: '/cards' })
+    expect(html).toContain('method="GET"')
+    expect(html).toContain('action="/cards"')
+    expect(html).toContain('Filters')
+  })
+
+  it('renders a text filter with a contains input by default', () => {
+    const html = renderFilterSidebar({ filters: [makeFilter()], listParams: { page: 1 }, baseUrl: '/cards' })
+    expect(html).toContain('name="filter[title][contains]"')
+    expect(html).toContain('Equals')
+  })
+
+  it('renders the equals input when an equals filter is active', () => {
+    const html = renderFilterSidebar({
+      filters: [makeFilter()],
+      listParams: { page: 1, filters: { title: { eq: 'Hello' } } },
+      baseUrl: '/cards',
+    })
+    expect(html).toContain('name="filter[title][eq]"')
+    expect(html).toContain('value="Hello"')
+  })
+
+  it('renders min and max inputs for number filters', () => {
+    const html = renderFilterSidebar({
+      filters: [makeFilter({ column: makeColumn({ name: 'price', dataType: 'integer' }), type: 'number', operators: ['eq', 'gte', 'lte'] })],
+      listParams: { page: 1 },
+      baseUrl: '/cards',
+    })
+    expect(html).toContain('name="filter[price][gte]"')
+    expect(html).toContain('name="filter[price][lte]"')
+    expect(html).toContain('type="number"')
+  })
+
+  it('renders a Yes/No select for boolean filters', () => {
+    const html = renderFilterSidebar({
+      filters: [makeFilter({ column: makeColumn({ name: 'active', dataType: 'boolean' }), type: 'boolean', operators: ['eq'] })],
+      listParams: { page: 1, filters: { active: { eq: 'true' } } },
+      baseUrl: '/cards',
+    })
+    expect(html).toContain('name="filter[active][eq]"')
+    expect(html).toContain('<option value="true" selected>Yes</option>')
+  })
+
+  it('renders enum values as options', () => {
+    const html = renderFilterSidebar({
+      filters: [makeFilter({ column: makeColumn({ name: 'status', dataType: 'enum', enumValues: ['draft', 'published'] }), type: 'enum', operators: ['eq'] })],
+      listParams: { page: 1 },
+      baseUrl: '/cards',
+    })
+    expect(html).toContain('<option value="draft" >draft</option>')
+    expect(html).toContain('published')
+  })
+
+  it('renders before/after inputs for timestamp filters', () => {
+    const html = renderFilterSidebar({
+      filters: [makeFilter({ column: makeColumn({ name: 'createdAt', dataType: 'timestamp' }), type: 'timestamp', operators: ['gte', 'lte'] })],
+      listParams: { page: 1 },
+      baseUrl: '/cards',
+    })
+    expect(html).toContain('type="datetime-local"')
+    expect(html).toContain('After')
+    expect(html).toContain('Before')
+  })
+
+  it('preserves the search term and offers a clear link when filters are active', () => {
+    const html = renderFilterSidebar({
+      filters: [makeFilter()],
+      listParams: { page: 1, q: 'abc', filters: { title: { contains: 'x' } } },
+      baseUrl: '/cards',
+    })
+    expect(html).toContain('<input type="hidden" name="q" value="abc">')
+    expect(html).toContain('href="/cards?q=abc"')
+  })
+
+  it('uses the configured label', () => {
+    const html = renderFilterSidebar({ filters: [makeFilter({ label: 'Headline' })], listParams: { page: 1 }, baseUrl: '/cards' })
+    expect(html).toContain('Headline')
+  })
+})
+
+describe('renderFilterSidebar preserved parameters', () => {
+  it('keeps the scope and sort when applying or clearing filters', () => {
+    const html = renderFilterSidebar({
+      filters: [makeFilter()],
+      listParams: { page: 2, scope: 'drafts', sort: { column: 'title', direction: 'desc' }, filters: { title: { contains: 'x' } } },
+      baseUrl: '/cards',
+    })
+    expect(html).toContain('<input type="hidden" name="scope" value="drafts">')
+    expect(html).toContain('<input type="hidden" name="sort" value="title">')
+    expect(html).toContain('href="/cards?scope=drafts&amp;sort=title&amp;dir=desc"')
+  })
+})
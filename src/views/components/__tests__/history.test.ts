@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { renderChanges, renderHistory } from '@/views/components/history.ts'
+import type { AuditEntry } from '@/audit/log.ts'
+
+function makeEntry(overrides: Partial<AuditEntry> = {}): AuditEntry {
+  return {
+    adminId: 1,
+    adminEmail: 'ada@example.com',
+    resource: 'posts',
+    recordId: '1',
+    action: 'update',
+    changes: { title: { from: 'Old', to: 'New' } },
+    ip: null,
+    createdAt: new Date('2024-01-01T00:00:00Z'),
+    ...overrides,
+  }
+}
+
+describe('renderHistory', () => {
+  it('lists each entry with its action, admin and changes', () => {
+    const html = renderHistory({ entries: [makeEntry()], auditLogUrl: '/audit-log?resource=posts&recordId=1' })
+    expect(html).toContain('aria-label="History"')
+    expect(html).toContain('update')
+    expect(html).toContain('by ada@example.com')
+    expect(html).toContain('Old')
+    expect(html).toContain('New')
+    expect(html).toContain('href="/audit-log?resource=posts&recordId=1"')
+  })
+
+  it('shows an empty state without entries', () => {
+    expect(renderHistory({ entries: [], auditLogUrl: '/audit-log' })).toContain('No changes recorded yet.')
+  })
+
+  it('escapes admin emails and actions', () => {
+    const html = renderHistory({
+      entries: [makeEntry({ adminEmail: '<b>x</b>', action: '<i>Publish</i>' })],
+      auditLogUrl: '/audit-log',
+    })
+    expect(html).not.toContain('<b>x</b>')
+    expect(html).not.toContain('<i>Publish</i>')
+  })
+})
+
+describe('renderChanges', () => {
+  it('renders nothing for actions without changes', () => {
+    expect(renderChanges(null)).toBe('')
+    expect(renderChanges({})).toBe('')
+  })
+
+  it('renders missing values as a dash and objects as JSON', () => {
+    const html = renderChanges({ meta: { from: null, to: { a: 1 } } })
+    expect(html).toContain('—')
+    expect(html).toContain('{&quot;a&quot;:1}')
+  })
+})
@@ -129,6 +129,22 @@ describe('modalTrigger', () => {
   })
 })
 
+describe('confirmModal with an external form', () => {
+  it('submits the given form instead of rendering its own', () => {
+    const html = confirmModal({
+      id: 'modal',
+      title: 'Archive',
+      message: 'Sure?',
+      formAction: '/cards/actions/batch/archive',
+      csrfToken: 'token',
+      form: 'batch-form',
+    })
+    expect(html).toContain('form="batch-form"')
+    expect(html).toContain('formaction="/cards/actions/batch/archive"')
+    expect(html).not.toContain('<form')
+  })
+})
+
 describe('modalScript', () => {
   it('contains openModal function', () => {
     expect(modalScript).toContain('function openModal')
@@ -35,3 +35,20 @@ describe('renderPagination', () => {
     expect(html).toContain('...')
   })
 })
+
+describe('renderPagination with params', () => {
+  it('preserves extra query parameters on page links', () => {
+    const html = renderPagination({ currentPage: 1, totalPages: 3, baseUrl: '/cards', params: { q: 'alice' } })
+    expect(html).toContain('href="/cards?page=2&amp;q=alice"')
+  })
+
+  it('escapes parameter values', () => {
+    const html = renderPagination({ currentPage: 1, totalPages: 2, baseUrl: '/cards', params: { q: '"><script>' } })
+    expect(html).not.toContain('<script>')
+  })
+
+  it('uses a custom page parameter', () => {
+    const html = renderPagination({ currentPage: 1, totalPages: 2, baseUrl: '/cards/1', pageParam: 'page[orders]' })
+    expect(html).toContain('href="/cards/1?page%5Borders%5D=2"')
+  })
+})
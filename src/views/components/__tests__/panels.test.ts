@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { renderRelationPanels } from '@/views/components/panels.ts'
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { RelationPanel } from '@/resources/relations.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { PgTable } from 'drizzle-orm/pg-core'
+
+function makeColumn(overrides: Partial<ColumnMeta> = {}): ColumnMeta {
+  return {
+    name: 'title',
+    sqlName: 'title',
+    dataType: 'text',
+    isNullable: false,
+    isPrimaryKey: false,
+    hasDefault: false,
+    ...overrides,
+  }
+}
+
+const orders: ResourceDefinition = {
+  table: {} as PgTable,
+  tableName: 'orders',
+  routePath: 'orders',
+  displayName: 'Order',
+  options: {},
+}
+
+function makePanel(overrides: Partial<RelationPanel> = {}): RelationPanel {
+  return {
+    relation: {
+      key: 'orders',
+      label: 'Orders',
+      resource: orders,
+      columns: [
+        makeColumn({ name: 'id', isPrimaryKey: true }),
+        makeColumn({ name: 'total' }),
+        makeColumn({ name: 'customerId', dataType: 'integer' }),
+      ],
+      foreignKey: 'customerId',
+      targetColumn: 'id',
+      perPage: 5,
+    },
+    records: [{ id: 10, total: '9.99', customerId: 1 }],
+    currentPage: 1,
+    totalPages: 1,
+    parentValue: 1,
+    ...overrides,
+  }
+}
+
+describe('renderRelationPanels', () => {
+  it('returns empty when there are no panels', () => {
+    expect(renderRelationPanels({ panels: [], showUrl: '/customers/1', basePath: '' })).toBe('')
+  })
+
+  it('renders child rows linked to their show pages without the foreign key column', () => {
+    const html = renderRelationPanels({ panels: [makePanel()], showUrl: '/admin/customers/1', basePath: '/admin' })
+    expect(html).toContain('Orders')
+    expect(html).toContain('9.99')
+    expect(html).toContain('href="/admin/orders/10"')
+    expect(html).not.toContain('Customer Id')
+  })
+
+  it('links to the child create form with the foreign key pre-filled', () => {
+    const html = renderRelationPanels({ panels: [makePanel()], showUrl: '/customers/1', basePath: '' })
+    expect(html).toContain('href="/orders/new?customerId=1"')
+  })
+
+  it('renders an empty message when there are no children', () => {
+    const html = renderRelationPanels({ panels: [makePanel({ records: [], totalPages: 0 })], showUrl: '/customers/1', basePath: '' })
+    expect(html).toContain('No orders yet.')
+  })
+
+  it('paginates each panel with its own parameter, keeping the other panel pages', () => {
+    const tickets = makePanel({ currentPage: 2, totalPages: 2 })
+    tickets.relation = { ...tickets.relation, key: 'tickets', label: 'Tickets' }
+    const html = renderRelationPanels({
+      panels: [makePanel({ totalPages: 3 }), tickets],
+      showUrl: '/customers/1',
+      basePath: '',
+    })
+    expect(html).toContain('href="/customers/1?page%5Borders%5D=2&amp;page%5Btickets%5D=2"')
+    expect(html).toContain('href="/customers/1?page%5Btickets%5D=1"')
+  })
+})
@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest'
+import { renderScopeTabs } from '@/views/components/scopes.ts'
+import type { ScopeConfig } from '@/resources/types.ts'
+
+const scopes: ScopeConfig[] = [
+  { name: 'All' },
+  { name: 'Pending Orders' },
+]
+
+describe('renderScopeTabs', () => {
+  it('returns empty string without scopes', () => {
+    expect(renderScopeTabs({ scopes: [], listParams: { page: 1 }, baseUrl: '/orders' })).toBe('')
+  })
+
+  it('renders a tab per scope linking to its slug', () => {
+    const html = renderScopeTabs({ scopes, listParams: { page: 1 }, baseUrl: '/orders' })
+    expect(html).toContain('href="/orders?scope=all"')
+    expect(html).toContain('href="/orders?scope=pending-orders"')
+    expect(html).toContain('Pending Orders')
+  })
+
+  it('marks the active scope', () => {
+    const html = renderScopeTabs({ scopes, activeScope: scopes[1], listParams: { page: 1 }, baseUrl: '/orders' })
+    expect(html).toContain('aria-current="page"')
+    expect(html.indexOf('aria-current')).toBeGreaterThan(html.indexOf('scope=pending-orders'))
+  })
+
+  it('renders counts when provided', () => {
+    const html = renderScopeTabs({ scopes, counts: { 'all': 42, 'pending-orders': 7 }, listParams: { page: 1 }, baseUrl: '/orders' })
+    expect(html).toContain('>42</span>')
+    expect(html).toContain('>7</span>')
+  })
+
+  it('keeps search, filters and sort but drops the page', () => {
+    const html = renderScopeTabs({
+      scopes,
+      listParams: { page: 3, q: 'bob', sort: { column: 'total', direction: 'desc' } },
+      baseUrl: '/orders',
+    })
+    expect(html).toContain('href="/orders?scope=all&amp;q=bob&amp;sort=total&amp;dir=desc"')
+    expect(html).not.toContain('page=3')
+  })
+})
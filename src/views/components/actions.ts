@@ -1,8 +1,10 @@
 import type { ResourceDefinition } from '@/resources/types.ts'
+import { getSelectAllLimit } from '@/resources/query.ts'
 import { confirmModal, modalTrigger } from '@/views/components/modal.ts'
 import { escapeHtml } from '@/views/components/flash.ts'
 import { styles } from '@/views/styles.ts'
 import { adminUrl } from '@/utils/url.ts'
+import { slugify } from '@/utils/slug.ts'
 
 export interface MemberActionsProps {
   resource: ResourceDefinition
@@ -24,8 +26,8 @@ export function renderMemberActions(props: MemberActionsProps): { buttons: strin
 
   for (const action of actions) {
     const actionSlug = slugify(action.name)
-    const actionUrl = adminUrl(basePath, `/${resource.routePath}/${recordId}/actions/${actionSlug}`)
-    const modalIdStr = `modal-${actionSlug}-${recordId}`
+    const actionUrl = adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(recordId)}/actions/${actionSlug}`)
+    const modalIdStr = `modal-${actionSlug}-${domId(String(recordId))}`
     const isDestructive = action.destructive !== false
 
     if (isDestructive) {
@@ -61,10 +63,12 @@ export interface CollectionActionsProps {
   resource: ResourceDefinition
   csrfToken: string
   basePath: string
+  /** Current list query string, so actions such as exports can follow the listing. */
+  query?: string
 }
 
 export function renderCollectionActions(props: CollectionActionsProps): string {
-  const { resource, csrfToken, basePath } = props
+  const { resource, csrfToken, basePath, query } = props
   const actions = resource.options.collectionActions ?? []
 
   if (actions.length === 0) {
@@ -78,6 +82,7 @@ export function renderCollectionActions(props: CollectionActionsProps): string {
     return `
       <form method="POST" action="${actionUrl}" class="inline">
         <input type="hidden" name="_csrf" value="${csrfToken}">
+        ${query ? `<input type="hidden" name="_query" value="${escapeHtml(query)}">` : ''}
         <button type="submit" class="${styles.btnSecondary}">
           ${escapeHtml(action.name)}
         </button>
@@ -86,6 +91,117 @@ export function renderCollectionActions(props: CollectionActionsProps): string {
   }).join('')
 }
 
-export function slugify(name: string): string {
-  return name.toLowerCase().replace(/\s+/g, '-').replace(/[^a-z0-9-]/g, '')
+/** Reduces a record ID to characters safe in an element ID and inline handlers. */
+export function domId(value: string): string {
+  return value.replace(/[^A-Za-z0-9_-]/g, '_')
 }
+
+export const BATCH_FORM_ID = 'batch-form'
+
+export interface BatchActionsProps {
+  resource: ResourceDefinition
+  csrfToken: string
+  basePath: string
+  /** Current list query string, so "all matching" resolves against the same listing. */
+  query: string
+  /** Number of records matching the current listing across all pages. */
+  totalCount: number
+  /** Number of records shown on the current page. */
+  pageCount: number
+}
+
+/**
+ * Renders the batch action toolbar, its confirmation modals and the hidden form
+ * the row checkboxes belong to. Returns empty strings when there are no batch actions.
+ */
+export function renderBatchActions(props: BatchActionsProps): { toolbar: string; modals: string } {
+  const { resource, csrfToken, basePath, query, totalCount, pageCount } = props
+  const actions = resource.options.batchActions ?? []
+
+  if (actions.length === 0) {
+    return { toolbar: '', modals: '' }
+  }
+
+  const triggers: string[] = []
+  const modals: string[] = []
+  const name = resource.displayName.toLowerCase()
+
+  for (const action of actions) {
+    const actionSlug = slugify(action.name)
+    const modalIdStr = `modal-batch-${actionSlug}`
+    const isDestructive = action.destructive !== false
+
+    triggers.push(modalTrigger(modalIdStr, action.name, isDestructive ? 'danger' : 'secondary'))
+    modals.push(confirmModal({
+      id: modalIdStr,
+      title: action.name,
+      message: `Are you sure you want to ${action.name.toLowerCase()} the selected ${name}s?`,
+      confirmLabel: action.name,
+      confirmVariant: isDestructive ? 'danger' : 'primary',
+      formAction: adminUrl(basePath, `/${resource.routePath}/actions/batch/${actionSlug}`),
+      csrfToken,
+      form: BATCH_FORM_ID,
+    }))
+  }
+
+  // Listings over the limit would be refused, so they offer only the page's rows
+  const selectAllMatching = totalCount > pageCount && totalCount <= getSelectAllLimit(resource) ? `
+    <label class="flex items-center gap-2 text-sm ${styles.textMuted}">
+      <input type="checkbox" name="all" value="true" form="${BATCH_FORM_ID}" class="${styles.checkbox}" data-batch-all>
+      Select all ${totalCount} matching
+    </label>
+  ` : ''
+
+  const toolbar = `
+    <form id="${BATCH_FORM_ID}" method="POST" class="hidden">
+      <input type="hidden" name="_csrf" value="${csrfToken}">
+      <input type="hidden" name="_query" value="${escapeHtml(query)}">
+    </form>
+    <div class="flex items-center gap-3 mb-3" data-batch-toolbar>
+      <span class="text-sm ${styles.textMuted}" data-batch-count>0 selected</span>
+      ${selectAllMatching}
+      ${triggers.join('')}
+    </div>
+    ${batchScript}
+  `
+
+  return { toolbar, modals: modals.join('') }
+}
+
+/** Checkbox cell for a single index row, bound to the batch form. */
+export function batchCheckbox(recordId: unknown): string {
+  return `<input type="checkbox" name="ids[]" value="${escapeHtml(String(recordId))}" form="${BATCH_FORM_ID}" class="${styles.checkbox}" aria-label="Select row" data-batch-item>`
+}
+
+/** Header checkbox that selects every row on the current page. */
+export function batchToggleCheckbox(): string {
+  return `<input type="checkbox" class="${styles.checkbox}" aria-label="Select all on page" data-batch-toggle>`
+}
+
+const batchScript = `
+<script>
+  (function () {
+    function items() { return document.querySelectorAll('[data-batch-item]'); }
+
+    function update() {
+      var all = document.querySelector('[data-batch-all]');
+      var checked = Array.prototype.filter.call(items(), function (cb) { return cb.checked; }).length;
+      var toggle = document.querySelector('[data-batch-toggle]');
+      if (toggle) toggle.checked = checked > 0 && checked === items().length;
+      if (all && checked !== items().length) all.checked = false;
+      var label = document.querySelector('[data-batch-count]');
+      if (label) label.textContent = (all && all.checked ? 'All matching' : checked) + ' selected';
+    }
+
+    document.addEventListener('change', function (e) {
+      var target = e.target;
+      if (target.matches('[data-batch-toggle]')) {
+        items().forEach(function (cb) { cb.checked = target.checked; });
+      } else if (target.matches('[data-batch-all]') && target.checked) {
+        items().forEach(function (cb) { cb.checked = true; });
+      }
+      update();
+    });
+  })();
+</script>
+`
@@ -1,18 +1,24 @@
 import type { ColumnMeta } from '@/dialects/types.ts'
 import { styles } from '@/views/styles.ts'
 import { escapeHtml } from '@/views/components/flash.ts'
+import { renderRelationInput } from '@/views/components/relation.ts'
+import type { RelationField } from '@/resources/relations.ts'
 
 export interface FieldProps {
   column: ColumnMeta
   value?: unknown
   error?: string
   disabled?: boolean
+  /** Choices for a foreign key column, rendered as a select or lookup. */
+  relation?: RelationField
 }
 
 export function renderField(props: FieldProps): string {
-  const { column, value, error, disabled } = props
+  const { column, value, error, disabled, relation } = props
 
-  const inputHtml = renderInput(column, value, disabled)
+  const inputHtml = relation
+    ? renderRelationInput({ column, value, relation, required: !disabled && !column.isNullable && !column.hasDefault, disabled })
+    : renderInput(column, value, disabled)
 
   return `
     <div class="space-y-1">
@@ -0,0 +1,136 @@
+import { listQuery, type FilterOperator, type ListParams, type ResolvedFilter } from '@/resources/query.ts'
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { button } from '@/views/components/button.ts'
+
+export interface FilterSidebarProps {
+  filters: ResolvedFilter[]
+  listParams: ListParams
+  baseUrl: string
+}
+
+export function renderFilterSidebar(props: FilterSidebarProps): string {
+  const { filters, listParams, baseUrl } = props
+
+  if (filters.length === 0) return ''
+
+  // Search, scope and sort survive applying or clearing filters
+  const preserved = listQuery({ ...listParams, filters: undefined })
+  const hiddenInputs = Object.entries(preserved)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('')
+  const hasActive = Object.keys(listParams.filters ?? {}).length > 0
+  const preservedQuery = new URLSearchParams(preserved).toString()
+  const clearUrl = preservedQuery ? `${baseUrl}?${preservedQuery}` : baseUrl
+
+  const widgets = filters.map(filter => {
+    const values = listParams.filters?.[filter.column.name] ?? {}
+    return `
+      <div class="space-y-1">
+        <label class="${styles.label}">${escapeHtml(filter.label ?? formatLabel(filter.column.name))}</label>
+        ${renderWidget(filter, values)}
+      </div>
+    `
+  }).join('')
+
+  return `
+    <aside class="w-64 shrink-0">
+      <form method="GET" action="${baseUrl}" class="${styles.cardPadded} space-y-4">
+        <h2 class="text-sm font-semibold uppercase tracking-wider ${styles.textMuted}">Filters</h2>
+        ${hiddenInputs}
+        ${widgets}
+        <div class="flex items-center gap-2 pt-2">
+          ${button({ label: 'Filter', type: 'submit', variant: 'primary', size: 'sm' })}
+          ${hasActive ? `<a href="${escapeHtml(clearUrl)}" class="${styles.btnGhost} text-sm">Clear</a>` : ''}
+        </div>
+      </form>
+    </aside>
+  `
+}
+
+function renderWidget(filter: ResolvedFilter, values: Partial<Record<FilterOperator, string>>): string {
+  const column = filter.column.name
+
+  switch (filter.type) {
+    case 'boolean':
+      return selectInput(paramName(column, 'eq'), values.eq, [['true', 'Yes'], ['false', 'No']])
+
+    case 'enum':
+      return selectInput(
+        paramName(column, 'eq'),
+        values.eq,
+        (filter.column.enumValues ?? []).map(v => [v, v]),
+      )
+
+    case 'number':
+      return `
+        <div class="flex items-center gap-2">
+          ${textInput(paramName(column, 'gte'), values.gte, 'number', 'Min')}
+          ${textInput(paramName(column, 'lte'), values.lte, 'number', 'Max')}
+        </div>
+      `
+
+    case 'timestamp':
+      return `
+        <div class="space-y-2">
+          ${textInput(paramName(column, 'gte'), values.gte, 'datetime-local', 'After')}
+          ${textInput(paramName(column, 'lte'), values.lte, 'datetime-local', 'Before')}
+        </div>
+      `
+
+    default: {
+      // The operator select renames the value input so the query stays `filter[col][op]=value`
+      const op: FilterOperator = values.eq !== undefined ? 'eq' : 'contains'
+      return `
+        <div class="flex items-center gap-2">
+          <select
+            aria-label="Match"
+            class="${styles.input} w-28"
+            onchange="this.nextElementSibling.name = 'filter[${escapeHtml(column)}][' + this.value + ']'"
+          >
+            <option value="contains" ${op === 'contains' ? 'selected' : ''}>Contains</option>
+            <option value="eq" ${op === 'eq' ? 'selected' : ''}>Equals</option>
+          </select>
+          ${textInput(paramName(column, op), values[op], 'text')}
+        </div>
+      `
+    }
+  }
+}
+
+function selectInput(name: string, value: string | undefined, options: string[][]): string {
+  const optionTags = options
+    .map(([optionValue, label]) => `<option value="${escapeHtml(optionValue)}" ${value === optionValue ? 'selected' : ''}>${escapeHtml(label)}</option>`)
+    .join('')
+
+  return `
+    <select name="${escapeHtml(name)}" class="${styles.input}">
+      <option value="">Any</option>
+      ${optionTags}
+    </select>
+  `
+}
+
+function textInput(name: string, value: string | undefined, type: string, placeholder?: string): string {
+  return `
+    <input
+      type="${type}"
+      name="${escapeHtml(name)}"
+      value="${escapeHtml(value ?? '')}"
+      ${placeholder ? `placeholder="${placeholder}" aria-label="${placeholder}"` : ''}
+      class="${styles.input}"
+    >
+  `
+}
+
+function paramName(column: string, op: FilterOperator): string {
+  return `filter[${column}][${op}]`
+}
+
+function formatLabel(name: string): string {
+  return name
+    .replace(/([A-Z])/g, ' $1')
+    .replace(/_/g, ' ')
+    .replace(/^\w/, c => c.toUpperCase())
+    .trim()
+}
@@ -0,0 +1,61 @@
+import type { AuditChanges, AuditEntry } from '@/audit/log.ts'
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+
+export interface HistoryProps {
+  entries: AuditEntry[]
+  /** Audit Log page filtered to the record, linked below the list. */
+  auditLogUrl: string
+}
+
+/** Renders the show page "History" card listing recent writes to the record. */
+export function renderHistory(props: HistoryProps): string {
+  const { entries, auditLogUrl } = props
+
+  const body = entries.length === 0
+    ? `<p class="text-sm ${styles.textMuted}">No changes recorded yet.</p>`
+    : `<ol class="space-y-4">${entries.map(entry => `
+        <li class="border-b border-zinc-800 pb-4 last:border-0 last:pb-0">
+          <div class="text-sm">
+            <span class="font-medium text-zinc-100">${escapeHtml(entry.action)}</span>
+            <span class="${styles.textMuted}">by ${escapeHtml(entry.adminEmail)} · ${formatAuditTime(entry.createdAt)}</span>
+          </div>
+          ${renderChanges(entry.changes)}
+        </li>
+      `).join('')}</ol>`
+
+  return `
+    <section class="${styles.cardPadded} mt-6" aria-label="History">
+      <div class="flex items-center justify-between mb-3">
+        <h2 class="text-lg font-semibold text-zinc-100">History</h2>
+        <a href="${auditLogUrl}" class="text-sm ${styles.link}">View in audit log</a>
+      </div>
+      ${body}
+    </section>
+  `
+}
+
+/** Renders field-level changes as a from/to table. Renders nothing for actions. */
+export function renderChanges(changes: AuditChanges | null): string {
+  const fields = Object.entries(changes ?? {})
+  if (fields.length === 0) return ''
+
+  const rows = fields.map(([field, { from, to }]) => `
+    <tr>
+      <td class="pr-4 py-1 ${styles.textMuted}">${escapeHtml(field)}</td>
+      <td class="pr-4 py-1 text-red-400 line-through">${formatAuditValue(from)}</td>
+      <td class="py-1 text-emerald-400">${formatAuditValue(to)}</td>
+    </tr>
+  `).join('')
+
+  return `<table class="mt-2 text-xs font-mono">${rows}</table>`
+}
+
+export function formatAuditTime(value: Date | string): string {
+  return escapeHtml(new Date(value).toLocaleString())
+}
+
+function formatAuditValue(value: unknown): string {
+  if (value === null || value === undefined) return '—'
+  return escapeHtml(typeof value === 'string' ? value : JSON.stringify(value))
+}
@@ -11,6 +11,11 @@ export interface ConfirmModalProps {
   confirmVariant?: 'danger' | 'primary'
   formAction: string
   csrfToken: string
+  /**
+   * ID of an existing form the confirm button submits (to `formAction`)
+   * instead of rendering its own form. The CSRF token must live in that form.
+   */
+  form?: string
 }
 
 export function confirmModal(props: ConfirmModalProps): string {
@@ -21,6 +26,7 @@ export function confirmModal(props: ConfirmModalProps): string {
     confirmVariant = 'danger',
     formAction,
     csrfToken,
+    form,
   } = props
 
   const id = props.id ?? `modal-${++modalId}`
@@ -37,12 +43,18 @@ export function confirmModal(props: ConfirmModalProps): string {
             <button type="button" onclick="closeModal('${id}')" class="${styles.btnGhost}">
               Cancel
             </button>
-            <form method="POST" action="${formAction}" class="inline">
-              <input type="hidden" name="_csrf" value="${csrfToken}">
-              <button type="submit" class="${confirmClass}">
+            ${form ? `
+              <button type="submit" form="${form}" formaction="${formAction}" class="${confirmClass}">
                 ${escapeHtml(confirmLabel)}
               </button>
-            </form>
+            ` : `
+              <form method="POST" action="${formAction}" class="inline">
+                <input type="hidden" name="_csrf" value="${csrfToken}">
+                <button type="submit" class="${confirmClass}">
+                  ${escapeHtml(confirmLabel)}
+                </button>
+              </form>
+            `}
           </div>
         </div>
       </div>
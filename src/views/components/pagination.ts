@@ -1,14 +1,25 @@
+import { escapeHtml } from '@/views/components/flash.ts'
+
 export interface PaginationProps {
   currentPage: number
   totalPages: number
   baseUrl: string
+  /** Extra query parameters (search, filters, ...) preserved on every page link. */
+  params?: Record<string, string>
+  /** Query parameter carrying the page number. Defaults to `page`. */
+  pageParam?: string
 }
 
 export function renderPagination(props: PaginationProps): string {
-  const { currentPage, totalPages, baseUrl } = props
+  const { currentPage, totalPages, baseUrl, params, pageParam = 'page' } = props
 
   if (totalPages <= 1) return ''
 
+  const pageUrl = (page: number): string => {
+    const query = new URLSearchParams({ [pageParam]: String(page), ...params })
+    return escapeHtml(`${baseUrl}?${query}`)
+  }
+
   const pages: (number | '...')[] = []
 
   pages.push(1)
@@ -41,7 +52,7 @@ export function renderPagination(props: PaginationProps): string {
       ? 'px-3 py-1 rounded bg-zinc-700 text-zinc-100'
       : 'px-3 py-1 rounded hover:bg-zinc-800 text-zinc-400 hover:text-zinc-100'
 
-    return `<a href="${baseUrl}?page=${page}" class="${className}">${page}</a>`
+    return `<a href="${pageUrl(page)}" class="${className}">${page}</a>`
   }).join('')
 
   const prevDisabled = currentPage === 1
@@ -50,7 +61,7 @@ export function renderPagination(props: PaginationProps): string {
   return `
     <nav class="flex items-center justify-center gap-1 mt-6" aria-label="Pagination">
       <a
-        href="${baseUrl}?page=${currentPage - 1}"
+        href="${pageUrl(currentPage - 1)}"
         class="px-3 py-1 rounded ${prevDisabled ? 'text-zinc-600 pointer-events-none' : 'text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800'}"
         ${prevDisabled ? 'aria-disabled="true"' : ''}
       >
@@ -58,7 +69,7 @@ export function renderPagination(props: PaginationProps): string {
       </a>
       ${pageLinks}
       <a
-        href="${baseUrl}?page=${currentPage + 1}"
+        href="${pageUrl(currentPage + 1)}"
         class="px-3 py-1 rounded ${nextDisabled ? 'text-zinc-600 pointer-events-none' : 'text-zinc-400 hover:text-zinc-100 hover:bg-zinc-800'}"
         ${nextDisabled ? 'aria-disabled="true"' : ''}
       >
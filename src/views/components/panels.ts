@@ -0,0 +1,107 @@
+import type { RelationPanel } from '@/resources/relations.ts'
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { linkButton } from '@/views/components/button.ts'
+import { renderPagination } from '@/views/components/pagination.ts'
+import { formatCellValue, formatColumnHeader, getVisibleColumns } from '@/views/index.ts'
+import { getPrimaryKey, recordPath } from '@/resources/primaryKey.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+export interface RelationPanelsProps {
+  panels: RelationPanel[]
+  /** URL of the show page the panels are rendered on. */
+  showUrl: string
+  basePath: string
+}
+
+/**
+ * Renders one card per has-many relation with a paginated table of child
+ * records and a "Create New" link that pre-fills the child's foreign key.
+ */
+export function renderRelationPanels(props: RelationPanelsProps): string {
+  const { panels, showUrl, basePath } = props
+
+  // Each panel paginates independently, so its links keep the other panels' pages
+  const pageParams: Record<string, string> = {}
+  for (const panel of panels) {
+    if (panel.currentPage > 1) pageParams[`page[${panel.relation.key}]`] = String(panel.currentPage)
+  }
+
+  return panels.map(panel => {
+    const { relation, records, parentValue } = panel
+    const child = relation.resource
+    const pageParam = `page[${relation.key}]`
+    const otherPages = Object.fromEntries(Object.entries(pageParams).filter(([name]) => name !== pageParam))
+
+    const createLink = parentValue === null || parentValue === undefined
+      ? ''
+      : linkButton({
+        label: 'Create New',
+        href: adminUrl(basePath, `/${child.routePath}/new?${new URLSearchParams({ [relation.foreignKey]: String(parentValue) })}`),
+        variant: 'secondary',
+        size: 'sm',
+      })
+
+    const body = records.length === 0
+      ? `<p class="text-sm ${styles.textMuted}">No ${child.displayName.toLowerCase()}s yet.</p>`
+      : renderPanelTable(panel, basePath)
+
+    return `
+      <section class="${styles.cardPadded} mt-6" aria-label="${escapeHtml(relation.label)}">
+        <div class="flex items-center justify-between mb-3">
+          <h2 class="text-lg font-semibold text-zinc-100">${escapeHtml(relation.label)}</h2>
+          ${createLink}
+        </div>
+        ${body}
+        ${renderPagination({
+          currentPage: panel.currentPage,
+          totalPages: panel.totalPages,
+          baseUrl: showUrl,
+          params: otherPages,
+          pageParam,
+        })}
+      </section>
+    `
+  }).join('')
+}
+
+function renderPanelTable(panel: RelationPanel, basePath: string): string {
+  const { relation, records } = panel
+  const child = relation.resource
+  const config = relation.panelColumns ? { columns: relation.panelColumns } : child.options.index
+  const primaryKey = getPrimaryKey(relation.columns)
+
+  // The foreign key always points back at the shown record, so it is left out
+  const columns = getVisibleColumns(relation.columns, config)
+    .filter(col => col.name !== relation.foreignKey)
+
+  const headerCells = columns
+    .map(col => `<th class="${styles.tableHeader} px-4 py-2">${formatColumnHeader(col.name)}</th>`)
+    .join('')
+
+  const rows = records.map(record => {
+    const cells = columns
+      .map(col => `<td class="${styles.tableCell}">${formatCellValue(record[col.name], col)}</td>`)
+      .join('')
+
+    return `
+      <tr class="${styles.tableRow}">
+        ${cells}
+        <td class="${styles.tableCell} text-right">
+          <a href="${adminUrl(basePath, `/${child.routePath}/${recordPath(record, primaryKey)}`)}" class="${styles.btnGhost} text-sm">View</a>
+        </td>
+      </tr>
+    `
+  }).join('')
+
+  return `
+    <table class="${styles.table}">
+      <thead class="border-b border-zinc-800">
+        <tr>${headerCells}<th class="${styles.tableHeader} px-4 py-2"></th></tr>
+      </thead>
+      <tbody>
+        ${rows}
+      </tbody>
+    </table>
+  `
+}
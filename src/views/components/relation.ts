@@ -0,0 +1,107 @@
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { RelationField, RelationLink } from '@/resources/relations.ts'
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+/**
+ * Renders a foreign key value as its referenced record's label, linked to that
+ * record's show page. Falls back to `#id` when the label was not loaded.
+ */
+export function renderRelationLink(value: unknown, link: RelationLink, basePath: string): string {
+  if (value === null || value === undefined) {
+    return `<span class="${styles.textMuted}">—</span>`
+  }
+
+  const key = String(value)
+  const label = link.labels[key] ?? `#${key}`
+  const href = adminUrl(basePath, `/${link.routePath}/${encodeURIComponent(link.ids[key] ?? key)}`)
+
+  return `<a href="${escapeHtml(href)}" class="text-zinc-100 underline hover:text-zinc-300">${escapeHtml(label)}</a>`
+}
+
+export interface RelationInputProps {
+  column: ColumnMeta
+  value: unknown
+  relation: RelationField
+  required: boolean
+  disabled?: boolean
+}
+
+/**
+ * Renders a belongs-to input: a select of every referenced record, or a
+ * searchable lookup that fills a hidden input when the table is too large to list.
+ */
+export function renderRelationInput(props: RelationInputProps): string {
+  const { column, value, relation, required, disabled } = props
+  const name = column.name
+  const current = value === null || value === undefined ? '' : String(value)
+  const inputStyle = disabled ? styles.inputDisabled : styles.input
+
+  if (relation.options) {
+    const options = relation.options
+      .map(option => `<option value="${escapeHtml(option.value)}" ${option.value === current ? 'selected' : ''}>${escapeHtml(option.label)}</option>`)
+      .join('')
+
+    return `
+      <select id="${name}" name="${name}" class="${inputStyle}" ${required ? 'required' : ''} ${disabled ? 'disabled' : ''}>
+        <option value="">Select...</option>
+        ${options}
+      </select>
+    `
+  }
+
+  const label = relation.selectedLabel ?? (current ? `#${current}` : '')
+
+  return `
+    <div data-relation-lookup="${escapeHtml(relation.lookupUrl)}">
+      <input type="hidden" name="${name}" value="${escapeHtml(current)}" data-relation-value>
+      <input
+        type="text"
+        id="${name}"
+        value="${escapeHtml(label)}"
+        list="${name}-options"
+        autocomplete="off"
+        placeholder="Search..."
+        class="${inputStyle}"
+        data-relation-search
+        ${required ? 'required' : ''}
+        ${disabled ? 'disabled' : ''}
+      >
+      <datalist id="${name}-options"></datalist>
+    </div>
+  `
+}
+
+export const relationLookupScript = `
+<script>
+  document.querySelectorAll('[data-relation-lookup]').forEach(function (container) {
+    var url = container.getAttribute('data-relation-lookup');
+    var hidden = container.querySelector('[data-relation-value]');
+    var search = container.querySelector('[data-relation-search]');
+    var list = container.querySelector('datalist');
+    var timer;
+
+    search.addEventListener('input', function () {
+      var match = Array.prototype.find.call(list.options, function (o) { return o.value === search.value; });
+      hidden.value = match ? match.getAttribute('data-value') : '';
+      if (match) return;
+
+      clearTimeout(timer);
+      timer = setTimeout(function () {
+        fetch(url + '&q=' + encodeURIComponent(search.value), { credentials: 'same-origin' })
+          .then(function (res) { return res.json(); })
+          .then(function (options) {
+            list.innerHTML = '';
+            options.forEach(function (option) {
+              var el = document.createElement('option');
+              el.value = option.label;
+              el.setAttribute('data-value', option.value);
+              list.appendChild(el);
+            });
+          });
+      }, 200);
+    });
+  });
+</script>
+`
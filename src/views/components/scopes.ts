@@ -0,0 +1,42 @@
+import type { ScopeConfig } from '@/resources/types.ts'
+import { listQuery, type ListParams } from '@/resources/query.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { slugify } from '@/utils/slug.ts'
+
+export interface ScopeTabsProps {
+  scopes: ScopeConfig[]
+  activeScope?: ScopeConfig
+  counts?: Record<string, number>
+  listParams: ListParams
+  baseUrl: string
+}
+
+export function renderScopeTabs(props: ScopeTabsProps): string {
+  const { scopes, activeScope, counts, listParams, baseUrl } = props
+
+  if (scopes.length === 0) return ''
+
+  const tabs = scopes.map(scope => {
+    const slug = slugify(scope.name)
+    const isActive = scope === activeScope
+    // Switching scope keeps search, filters and sort but starts from the first page
+    const href = `${baseUrl}?${new URLSearchParams(listQuery({ ...listParams, scope: slug }))}`
+    const count = counts?.[slug]
+    const className = isActive
+      ? 'px-3 py-2 text-sm font-medium text-zinc-100 border-b-2 border-zinc-100'
+      : 'px-3 py-2 text-sm font-medium text-zinc-400 hover:text-zinc-100 border-b-2 border-transparent'
+
+    return `
+      <a href="${escapeHtml(href)}" class="${className}"${isActive ? ' aria-current="page"' : ''}>
+        ${escapeHtml(scope.name)}
+        ${count !== undefined ? `<span class="ml-1 px-2 py-0.5 rounded-full bg-zinc-800 text-xs text-zinc-300">${count}</span>` : ''}
+      </a>
+    `
+  }).join('')
+
+  return `
+    <nav class="flex items-center gap-1 border-b border-zinc-800 mt-4" aria-label="Scopes">
+      ${tabs}
+    </nav>
+  `
+}
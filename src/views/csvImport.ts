@@ -0,0 +1,202 @@
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ValidationErrors } from '@/resources/types.ts'
+import type { CsvImportRow, CsvImportSummary } from '@/actions/csv.ts'
+import { FORM_ERROR_KEY } from '@/resources/validation.ts'
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { linkButton } from '@/views/components/button.ts'
+import { formatColumnHeader } from '@/views/index.ts'
+
+interface StepProps {
+  actionUrl: string
+  csrfToken: string
+  /** The resource's index page. */
+  indexUrl: string
+}
+
+export interface CsvUploadViewProps extends StepProps {
+  /** Columns the file may set. */
+  columns: ColumnMeta[]
+  upsertKey?: string
+  error?: string
+}
+
+/** Renders the first import step: the file upload form. */
+export function csvUploadView(props: CsvUploadViewProps): string {
+  const { actionUrl, csrfToken, indexUrl, columns, upsertKey, error } = props
+  const upsertNote = upsertKey
+    ? ` Rows whose <code>${escapeHtml(upsertKey)}</code> matches an existing record update it; other rows create one.`
+    : ''
+
+  return `
+    <form method="POST" action="${actionUrl}" enctype="multipart/form-data" class="${styles.cardPadded} space-y-4 max-w-2xl">
+      <input type="hidden" name="_csrf" value="${escapeHtml(csrfToken)}">
+      <input type="hidden" name="step" value="preview">
+      <p class="${styles.textMuted} text-sm">
+        The first row must hold column headers. Recognized columns:
+        ${columns.map(col => `<code>${escapeHtml(col.name)}</code>`).join(', ')}.${upsertNote}
+      </p>
+      <div class="space-y-1">
+        <label for="file" class="${styles.label}">CSV file</label>
+        <input type="file" id="file" name="file" accept=".csv,text/csv" required class="${styles.input}">
+        ${error ? `<p class="text-sm ${styles.textError}">${escapeHtml(error)}</p>` : ''}
+      </div>
+      <div class="flex items-center gap-2">
+        <button type="submit" class="${styles.btnPrimary}">Preview</button>
+        ${linkButton({ label: 'Cancel', href: indexUrl, variant: 'ghost' })}
+      </div>
+    </form>
+  `
+}
+
+export interface CsvPreviewViewProps extends StepProps {
+  /** The uploaded file's contents, carried to the next step. */
+  csv: string
+  headers: string[]
+  /** Column each header is mapped to, by header index. */
+  mapping: (string | undefined)[]
+  columns: ColumnMeta[]
+  /** The first rows of the file. */
+  rows: CsvImportRow[]
+  /** Number of data rows in the file. */
+  total: number
+  /** Number of rows with errors in the whole file. */
+  invalid: number
+}
+
+/**
+ * Renders the preview step: a header-to-column mapping form, the first rows as
+ * they will be written with their errors, and Dry Run and Import buttons.
+ */
+export function csvPreviewView(props: CsvPreviewViewProps): string {
+  const { actionUrl, csrfToken, indexUrl, csv, headers, mapping, columns, rows, total, invalid } = props
+
+  const mappingRows = headers.map((header, index) => `
+    <tr class="${styles.tableRow}">
+      <td class="${styles.tableCell}">${escapeHtml(header)}</td>
+      <td class="${styles.tableCell}">
+        <select name="map.${index}" aria-label="Column for ${escapeHtml(header)}" class="${styles.input} w-64">
+          <option value="">— Ignore —</option>
+          ${columns.map(col => `<option value="${escapeHtml(col.name)}"${mapping[index] === col.name ? ' selected' : ''}>${formatColumnHeader(col.name)}</option>`).join('')}
+        </select>
+      </td>
+    </tr>
+  `).join('')
+
+  const mapped = columns.filter(col => mapping.includes(col.name))
+  const previewRows = rows.map(row => `
+    <tr class="${styles.tableRow} align-top${row.errors ? ' bg-red-500/10' : ''}"${row.errors ? ' data-invalid' : ''}>
+      <td class="${styles.tableCell} ${styles.textMuted}">${row.row}</td>
+      ${mapped.map(col => `<td class="${styles.tableCell}">${escapeHtml(row.cells[col.name] ?? '')}</td>`).join('')}
+      <td class="${styles.tableCell}">${row.existing ? 'Update' : 'Create'}</td>
+      <td class="${styles.tableCell} ${styles.textError}">${row.errors ? renderErrors(row.errors) : ''}</td>
+    </tr>
+  `).join('')
+
+  return `
+    <form method="POST" action="${actionUrl}" class="space-y-6">
+      ${hiddenFields(csrfToken, csv)}
+      <p class="${styles.textMuted}">${total} row${total === 1 ? '' : 's'} found, ${invalid} with errors.</p>
+      <section class="${styles.card} overflow-x-auto" aria-label="Column mapping">
+        <table class="${styles.table}">
+          <thead>
+            <tr class="border-b border-zinc-800">
+              <th class="px-4 py-3 ${styles.tableHeader}">CSV header</th>
+              <th class="px-4 py-3 ${styles.tableHeader}">Column</th>
+            </tr>
+          </thead>
+          <tbody>${mappingRows}</tbody>
+        </table>
+        <div class="p-4">
+          <button type="submit" name="step" value="preview" class="${styles.btnSecondary}">Update preview</button>
+        </div>
+      </section>
+      <section class="${styles.card} overflow-x-auto" aria-label="Preview">
+        <table class="${styles.table}">
+          <thead>
+            <tr class="border-b border-zinc-800">
+              <th class="px-4 py-3 ${styles.tableHeader}">Row</th>
+              ${mapped.map(col => `<th class="px-4 py-3 ${styles.tableHeader}">${formatColumnHeader(col.name)}</th>`).join('')}
+              <th class="px-4 py-3 ${styles.tableHeader}">Action</th>
+              <th class="px-4 py-3 ${styles.tableHeader}">Errors</th>
+            </tr>
+          </thead>
+          <tbody>${previewRows}</tbody>
+        </table>
+      </section>
+      <div class="flex items-center gap-2">
+        <button type="submit" name="step" value="import" class="${styles.btnPrimary}">Import</button>
+        <button type="submit" name="step" value="dry-run" class="${styles.btnSecondary}">Dry run</button>
+        ${linkButton({ label: 'Cancel', href: indexUrl, variant: 'ghost' })}
+      </div>
+    </form>
+  `
+}
+
+export interface CsvImportResultViewProps extends StepProps {
+  csv: string
+  mapping: (string | undefined)[]
+  summary: CsvImportSummary
+  dryRun: boolean
+}
+
+/** Renders the outcome of an import: counts, failed rows, and after a dry run an Import button. */
+export function csvImportResultView(props: CsvImportResultViewProps): string {
+  const { actionUrl, csrfToken, indexUrl, csv, mapping, summary, dryRun } = props
+  const { created, updated, failed } = summary
+
+  const failedRows = failed.map(({ row, errors }) => `
+    <tr class="${styles.tableRow} align-top">
+      <td class="${styles.tableCell} ${styles.textMuted}">${row}</td>
+      <td class="${styles.tableCell} ${styles.textError}">${renderErrors(errors)}</td>
+    </tr>
+  `).join('')
+
+  const importForm = `
+    <form method="POST" action="${actionUrl}">
+      ${hiddenFields(csrfToken, csv)}
+      ${mapping.map((name, index) => `<input type="hidden" name="map.${index}" value="${escapeHtml(name ?? '')}">`).join('')}
+      <input type="hidden" name="step" value="import">
+      <button type="submit" class="${styles.btnPrimary}">Import</button>
+    </form>
+  `
+
+  return `
+    ${dryRun ? `<p class="mb-4 ${styles.textMuted}">Dry run: no changes were saved.</p>` : ''}
+    <section class="${styles.cardPadded} flex gap-8" aria-label="Summary">
+      <div><p class="text-2xl font-semibold ${styles.text}">${created}</p><p class="${styles.textMuted} text-sm">${dryRun ? 'Would be created' : 'Created'}</p></div>
+      <div><p class="text-2xl font-semibold ${styles.text}">${updated}</p><p class="${styles.textMuted} text-sm">${dryRun ? 'Would be updated' : 'Updated'}</p></div>
+      <div><p class="text-2xl font-semibold ${failed.length > 0 ? styles.textError : styles.text}">${failed.length}</p><p class="${styles.textMuted} text-sm">Failed</p></div>
+    </section>
+    ${failed.length > 0 ? `
+      <section class="${styles.card} overflow-x-auto mt-6" aria-label="Failed rows">
+        <table class="${styles.table}">
+          <thead>
+            <tr class="border-b border-zinc-800">
+              <th class="px-4 py-3 ${styles.tableHeader}">Row</th>
+              <th class="px-4 py-3 ${styles.tableHeader}">Errors</th>
+            </tr>
+          </thead>
+          <tbody>${failedRows}</tbody>
+        </table>
+      </section>
+    ` : ''}
+    <div class="flex items-center gap-2 mt-6">
+      ${dryRun ? importForm : ''}
+      ${linkButton({ label: 'Back to list', href: indexUrl, variant: dryRun ? 'ghost' : 'secondary' })}
+    </div>
+  `
+}
+
+function hiddenFields(csrfToken: string, csv: string): string {
+  return `
+    <input type="hidden" name="_csrf" value="${escapeHtml(csrfToken)}">
+    <input type="hidden" name="csv" value="${escapeHtml(csv)}">
+  `
+}
+
+function renderErrors(errors: ValidationErrors): string {
+  return Object.entries(errors)
+    .map(([name, message]) => escapeHtml(name === FORM_ERROR_KEY ? message : `${formatColumnHeader(name)} ${message}`))
+    .join('<br>')
+}
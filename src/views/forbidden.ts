@@ -0,0 +1,41 @@
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { AdminTokenPayload } from '@/auth/jwt.ts'
+import { layout } from '@/views/layout.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+export interface ForbiddenPageProps {
+  /** The resource the request targeted; unset for pages outside any resource. */
+  resource?: ResourceDefinition
+  admin: AdminTokenPayload
+  resources: ResourceDefinition[]
+  basePath: string
+  /** Whether to link the Audit Log page in the sidebar. */
+  auditLog?: boolean
+}
+
+/**
+ * Rendered when role permissions or a record policy deny the request. The
+ * message never names the record, so a denial does not reveal its contents.
+ */
+export function forbiddenPage(props: ForbiddenPageProps): string {
+  const { resource, admin, resources, basePath, auditLog } = props
+  const subject = resource ? `do that with ${resource.displayName.toLowerCase()}s` : 'view this page'
+
+  const content = `
+    <div class="text-center py-12">
+      <h2 class="text-xl font-semibold text-zinc-100">Forbidden</h2>
+      <p class="text-zinc-400 mt-2">You do not have permission to ${subject}.</p>
+      <a href="${adminUrl(basePath, '/')}" class="text-zinc-100 underline mt-4 inline-block">Back to dashboard</a>
+    </div>
+  `
+
+  return layout({
+    title: 'Forbidden',
+    content,
+    admin,
+    resources,
+    currentPath: resource ? `/${resource.routePath}` : '',
+    basePath,
+    auditLog,
+  })
+}
@@ -5,6 +5,9 @@ import { renderField } from '@/views/components/field.ts'
 import { button, linkButton } from '@/views/components/button.ts'
 import { csrfInput } from '@/auth/csrf.ts'
 import { adminUrl } from '@/utils/url.ts'
+import { relationLookupScript } from '@/views/components/relation.ts'
+import type { RelationField } from '@/resources/relations.ts'
+import { encodeRecordId, getPrimaryKey } from '@/resources/primaryKey.ts'
 
 export interface FormViewProps {
   resource: ResourceDefinition
@@ -13,16 +16,20 @@ export interface FormViewProps {
   csrfToken: string
   basePath: string
   errors?: Record<string, string>
+  /** Choices for foreign key columns, keyed by column name. */
+  relations?: Record<string, RelationField>
+  /** Initial values for a create form, e.g. a foreign key pre-filled from a show page panel. */
+  values?: Record<string, unknown>
 }
 
 export function formView(props: FormViewProps): string {
-  const { resource, columns, record, csrfToken, basePath, errors } = props
+  const { resource, columns, record, csrfToken, basePath, errors, relations, values } = props
 
   const isEdit = !!record
-  const id = record?.id
+  const path = record ? encodeURIComponent(encodeRecordId(record, getPrimaryKey(columns))) : undefined
 
   const actionUrl = isEdit
-    ? adminUrl(basePath, `/${resource.routePath}/${id}?_method=PUT`)
+    ? adminUrl(basePath, `/${resource.routePath}/${path}?_method=PUT`)
     : adminUrl(basePath, `/${resource.routePath}`)
 
   let fields: string
@@ -46,26 +53,28 @@ export function formView(props: FormViewProps): string {
       column: col,
       value: record[col.name],
       error: errors?.[col.name],
+      relation: relations?.[col.name],
     })).join('')
 
     fields = disabledFields + editableFields
   } else {
-    // Create: hide auto-managed columns entirely
-    let editableColumns = columns.filter(col => !isAutoManaged(col))
+    // Create: hide auto-managed columns entirely, except keys the database cannot generate
+    let editableColumns = columns.filter(col => !isAutoManaged(col) || isNaturalKey(col))
     if (resource.options.permitParams) {
       const permitted = new Set(resource.options.permitParams)
       editableColumns = editableColumns.filter(col => permitted.has(col.name))
     }
     fields = editableColumns.map(col => renderField({
       column: col,
-      value: record?.[col.name],
+      value: values?.[col.name],
       error: errors?.[col.name],
+      relation: relations?.[col.name],
     })).join('')
   }
 
   const actionBar = isEdit ? `
     <div class="flex items-center gap-2">
-      ${linkButton({ label: 'View', href: adminUrl(basePath, `/${resource.routePath}/${id}`), variant: 'ghost' })}
+      ${linkButton({ label: 'View', href: adminUrl(basePath, `/${resource.routePath}/${path}`), variant: 'ghost' })}
       ${linkButton({ label: 'Back to list', href: adminUrl(basePath, `/${resource.routePath}`), variant: 'ghost' })}
     </div>
   ` : `
@@ -88,9 +97,15 @@ export function formView(props: FormViewProps): string {
         </div>
       </form>
     </div>
+    ${Object.values(relations ?? {}).some(relation => !relation.options) ? relationLookupScript : ''}
   `
 }
 
+/** Whether a column is a primary key without a default, which must be entered on create. */
+export function isNaturalKey(column: ColumnMeta): boolean {
+  return column.isPrimaryKey && !column.hasDefault
+}
+
 export function isAutoManaged(column: ColumnMeta): boolean {
   if (column.isPrimaryKey) return true
   if (['createdAt', 'created_at', 'updatedAt', 'updated_at'].includes(column.name)) {
@@ -4,8 +4,33 @@ import { styles } from '@/views/styles.ts'
 import { escapeHtml } from '@/views/components/flash.ts'
 import { renderPagination, PaginationProps } from '@/views/components/pagination.ts'
 import { linkButton } from '@/views/components/button.ts'
-import { renderCollectionActions } from '@/views/components/actions.ts'
+import {
+  batchCheckbox,
+  batchToggleCheckbox,
+  domId,
+  renderBatchActions,
+  renderCollectionActions,
+} from '@/views/components/actions.ts'
+import { confirmModal, modalTrigger } from '@/views/components/modal.ts'
 import { adminUrl } from '@/utils/url.ts'
+import { renderFilterSidebar } from '@/views/components/filters.ts'
+import { renderScopeTabs } from '@/views/components/scopes.ts'
+import { renderRelationLink } from '@/views/components/relation.ts'
+import type { RelationLink } from '@/resources/relations.ts'
+import { encodeRecordId, getPrimaryKey } from '@/resources/primaryKey.ts'
+import { ALL_ABILITIES, type Abilities } from '@/auth/permissions.ts'
+import { TRASH_SCOPE } from '@/resources/softDelete.ts'
+import {
+  getActiveScope,
+  getActiveSort,
+  isSortable,
+  getScopes,
+  getFilterDefinitions,
+  getSearchConfig,
+  listQuery,
+  type ListParams,
+  type ListSort,
+} from '@/resources/query.ts'
 
 export interface IndexViewProps {
   resource: ResourceDefinition
@@ -14,69 +39,269 @@ export interface IndexViewProps {
   pagination: PaginationProps
   csrfToken: string
   basePath: string
+  listParams?: ListParams
+  /** Live record counts per scope, keyed by scope slug. */
+  scopeCounts?: Record<string, number>
+  /** Number of records matching the listing across all pages. Defaults to the page's record count. */
+  totalCount?: number
+  /** Labels of referenced records for foreign key columns, keyed by column name. */
+  relations?: Record<string, RelationLink>
+  /** Operations the admin may perform; buttons for the others are hidden. Defaults to all. */
+  abilities?: Abilities
+  /** Abilities narrowed by the resource's policy, keyed by encoded record ID. */
+  rowAbilities?: Record<string, Abilities>
 }
 
 export function indexView(props: IndexViewProps): string {
   const { resource, columns, records, pagination, csrfToken, basePath } = props
+  const listParams = props.listParams ?? { page: pagination.currentPage }
+  const abilities = props.abilities ?? ALL_ABILITIES
 
   const visibleColumns = getVisibleColumns(columns, resource.options.index)
 
-  const collectionActions = renderCollectionActions({ resource, csrfToken, basePath })
+  const query = new URLSearchParams(listQuery(listParams)).toString()
+  const collectionActions = renderCollectionActions({ resource, csrfToken, basePath, query })
 
   const actionBar = `
-    <div class="flex items-center justify-between">
+    <div class="flex items-center justify-between gap-4">
       <div class="flex items-center gap-2">
-        ${linkButton({ label: 'Create New', href: adminUrl(basePath, `/${resource.routePath}/new`), variant: 'primary' })}
+        ${abilities.create ? linkButton({ label: 'Create New', href: adminUrl(basePath, `/${resource.routePath}/new`), variant: 'primary' }) : ''}
         ${collectionActions}
       </div>
+      ${renderSearchForm(resource, listParams, basePath)}
     </div>
   `
 
-  if (records.length === 0) {
+  const activeScope = getActiveScope(resource, listParams)
+  const trash = activeScope === TRASH_SCOPE
+
+  const scopeTabs = renderScopeTabs({
+    scopes: getScopes(resource),
+    activeScope,
+    counts: props.scopeCounts,
+    listParams,
+    baseUrl: adminUrl(basePath, `/${resource.routePath}`),
+  })
+
+  const filterSidebar = renderFilterSidebar({
+    filters: getFilterDefinitions(resource, columns),
+    listParams,
+    baseUrl: adminUrl(basePath, `/${resource.routePath}`),
+  })
+
+  // Trashed records only offer Restore and Delete Permanently
+  const batch = trash ? { toolbar: '', modals: '' } : renderBatchActions({
+    resource,
+    csrfToken,
+    basePath,
+    query,
+    totalCount: props.totalCount ?? records.length,
+    pageCount: records.length,
+  })
+  const primaryKey = getPrimaryKey(columns)
+  const trashModals = trash
+    ? records
+      .map(record => encodeRecordId(record, primaryKey))
+      .filter(id => (props.rowAbilities?.[id] ?? abilities).delete)
+      .map(id => renderPurgeModal(resource, id, csrfToken, basePath))
+      .join('')
+    : ''
+
+  const listing = records.length === 0
+    ? renderEmptyState(resource, listParams)
+    : `
+      ${batch.toolbar}
+      <div class="${styles.card} overflow-hidden">
+        ${renderTable({
+          resource,
+          visibleColumns,
+          records,
+          basePath,
+          listParams,
+          sort: getActiveSort(resource, columns, listParams),
+          selectable: !!batch.toolbar,
+          relations: props.relations,
+          primaryKey,
+          abilities,
+          rowAbilities: props.rowAbilities,
+          trash,
+          csrfToken,
+        })}
+      </div>
+      ${renderPagination({ ...pagination, params: pagination.params ?? listQuery(listParams) })}
+      ${batch.modals}
+      ${trashModals}
+    `
+
+  if (!filterSidebar) {
     return `
       ${actionBar}
-      <div class="${styles.cardPadded} text-center ${styles.textMuted} mt-4">
-        No ${resource.displayName.toLowerCase()}s found.
-      </div>
+      ${scopeTabs}
+      <div class="mt-4">${listing}</div>
     `
   }
 
-  const headerCells = visibleColumns
-    .map(col => `<th class="${styles.tableHeader} px-4 py-3">${formatColumnHeader(col.name)}</th>`)
+  return `
+    ${actionBar}
+    ${scopeTabs}
+    <div class="flex items-start gap-6 mt-4">
+      <div class="flex-1 min-w-0">${listing}</div>
+      ${filterSidebar}
+    </div>
+  `
+}
+
+function renderEmptyState(resource: ResourceDefinition, listParams: ListParams): string {
+  const name = resource.displayName.toLowerCase()
+  let message = `No ${name}s found.`
+  if (listParams.q) {
+    message = `No ${name}s match “${escapeHtml(listParams.q)}”.`
+  } else if (listParams.filters) {
+    message = `No ${name}s match the current filters.`
+  }
+
+  return `
+    <div class="${styles.cardPadded} text-center ${styles.textMuted}">
+      ${message}
+    </div>
+  `
+}
+
+interface TableProps {
+  resource: ResourceDefinition
+  visibleColumns: ColumnMeta[]
+  records: Record<string, unknown>[]
+  basePath: string
+  listParams: ListParams
+  sort?: ListSort
+  /** Adds a checkbox column bound to the batch actions form. */
+  selectable: boolean
+  relations?: Record<string, RelationLink>
+  primaryKey: ColumnMeta[]
+  abilities: Abilities
+  rowAbilities?: Record<string, Abilities>
+  /** Whether the rows are soft-deleted records listed in the Trash tab. */
+  trash: boolean
+  csrfToken: string
+}
+
+function renderTable(props: TableProps): string {
+  const { resource, visibleColumns, records, basePath, listParams, sort, selectable, relations, primaryKey, trash, csrfToken } = props
+  const baseUrl = adminUrl(basePath, `/${resource.routePath}`)
+
+  const headerCells = (selectable ? `<th class="px-4 py-3 w-8">${batchToggleCheckbox()}</th>` : '') + visibleColumns
+    .map(col => `<th class="${styles.tableHeader} px-4 py-3">${isSortable(col) ? renderSortLink(col, baseUrl, listParams, sort) : formatColumnHeader(col.name)}</th>`)
     .join('')
 
   const rows = records.map(record => {
-    const cells = visibleColumns
-      .map(col => `<td class="${styles.tableCell}">${formatCellValue(record[col.name], col)}</td>`)
+    const id = encodeRecordId(record, primaryKey)
+    const path = encodeURIComponent(id)
+    const cells = (selectable ? `<td class="${styles.tableCell} w-8">${batchCheckbox(id)}</td>` : '') + visibleColumns
+      .map(col => {
+        const link = relations?.[col.name]
+        const value = link ? renderRelationLink(record[col.name], link, basePath) : formatCellValue(record[col.name], col)
+        return `<td class="${styles.tableCell}">${value}</td>`
+      })
       .join('')
 
-    const id = record.id
-    const actions = `
-      <td class="${styles.tableCell} text-right">
-        <a href="${adminUrl(basePath, `/${resource.routePath}/${id}`)}" class="${styles.btnGhost} text-sm">View</a>
-        <a href="${adminUrl(basePath, `/${resource.routePath}/${id}/edit`)}" class="${styles.btnGhost} text-sm">Edit</a>
-      </td>
-    `
+    const abilities = props.rowAbilities?.[id] ?? props.abilities
+    const recordUrl = adminUrl(basePath, `/${resource.routePath}/${path}`)
+    const actions = trash
+      ? `
+        <td class="${styles.tableCell} text-right">
+          ${abilities.update ? `
+            <form method="POST" action="${recordUrl}/restore" class="inline">
+              <input type="hidden" name="_csrf" value="${csrfToken}">
+              <button type="submit" class="${styles.btnGhost} text-sm">Restore</button>
+            </form>
+          ` : ''}
+          ${abilities.delete ? modalTrigger(`purge-${domId(id)}`, 'Delete Permanently', 'danger') : ''}
+        </td>
+      `
+      : `
+        <td class="${styles.tableCell} text-right">
+          <a href="${recordUrl}" class="${styles.btnGhost} text-sm">View</a>
+          ${abilities.update ? `<a href="${recordUrl}/edit" class="${styles.btnGhost} text-sm">Edit</a>` : ''}
+        </td>
+      `
 
     return `<tr class="${styles.tableRow}">${cells}${actions}</tr>`
   }).join('')
 
   return `
-    ${actionBar}
-    <div class="${styles.card} overflow-hidden mt-4">
-      <table class="${styles.table}">
-        <thead class="border-b border-zinc-800">
-          <tr>${headerCells}<th class="${styles.tableHeader} px-4 py-3 text-right">Actions</th></tr>
-        </thead>
-        <tbody>
-          ${rows}
-        </tbody>
-      </table>
-    </div>
-    ${renderPagination(pagination)}
+    <table class="${styles.table}">
+      <thead class="border-b border-zinc-800">
+        <tr>${headerCells}<th class="${styles.tableHeader} px-4 py-3 text-right">Actions</th></tr>
+      </thead>
+      <tbody>
+        ${rows}
+      </tbody>
+    </table>
   `
 }
 
+function renderPurgeModal(resource: ResourceDefinition, id: string, csrfToken: string, basePath: string): string {
+  return confirmModal({
+    id: `purge-${domId(id)}`,
+    title: `Delete ${resource.displayName} Permanently`,
+    message: `Are you sure you want to permanently delete this ${resource.displayName.toLowerCase()}? This action cannot be undone.`,
+    confirmLabel: 'Delete Permanently',
+    confirmVariant: 'danger',
+    formAction: adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(id)}/purge`),
+    csrfToken,
+  })
+}
+
+/**
+ * Renders a column header as a link that sorts by that column. Clicking the
+ * active column flips the direction; sorting always returns to the first page.
+ */
+export function renderSortLink(column: ColumnMeta, baseUrl: string, listParams: ListParams, sort?: ListSort): string {
+  const isActive = sort?.column === column.name
+  const direction = isActive && sort.direction === 'asc' ? 'desc' : 'asc'
+  const query = listQuery({ ...listParams, sort: { column: column.name, direction } })
+  const indicator = isActive ? (sort.direction === 'asc' ? ' ▲' : ' ▼') : ''
+  const ariaSort = isActive ? ` aria-sort="${sort.direction === 'asc' ? 'ascending' : 'descending'}"` : ''
+
+  return `<a href="${escapeHtml(withQuery(baseUrl, query))}" class="hover:text-zinc-100"${ariaSort}>${formatColumnHeader(column.name)}${indicator}</a>`
+}
+
+/**
+ * Renders the search box for resources with `index.search` configured.
+ * Submitting a search always returns to the first page.
+ */
+export function renderSearchForm(resource: ResourceDefinition, listParams: ListParams, basePath: string): string {
+  const search = getSearchConfig(resource)
+  if (!search) return ''
+
+  const baseUrl = adminUrl(basePath, `/${resource.routePath}`)
+  const preserved = listQuery({ ...listParams, q: undefined })
+  const hiddenInputs = Object.entries(preserved)
+    .map(([name, value]) => `<input type="hidden" name="${escapeHtml(name)}" value="${escapeHtml(value)}">`)
+    .join('')
+  const placeholder = search.placeholder ?? `Search ${resource.displayName.toLowerCase()}s...`
+
+  return `
+    <form method="GET" action="${baseUrl}" class="flex items-center gap-2" role="search">
+      ${hiddenInputs}
+      <input
+        type="search"
+        name="q"
+        value="${escapeHtml(listParams.q ?? '')}"
+        placeholder="${escapeHtml(placeholder)}"
+        aria-label="Search"
+        class="${styles.input} w-64"
+      >
+      ${listParams.q ? `<a href="${escapeHtml(withQuery(baseUrl, preserved))}" class="${styles.btnGhost} text-sm">Clear</a>` : ''}
+    </form>
+  `
+}
+
+function withQuery(url: string, query: Record<string, string>): string {
+  const search = new URLSearchParams(query).toString()
+  return search ? `${url}?${search}` : url
+}
+
 export function getVisibleColumns(columns: ColumnMeta[], config?: { columns?: string[]; exclude?: string[] }): ColumnMeta[] {
   let result = columns
 
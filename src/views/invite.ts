@@ -0,0 +1,49 @@
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { linkButton } from '@/views/components/button.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+export interface InviteViewProps {
+  /** Email of a rejected invitation, shown again. */
+  email?: string
+  /** Roles the new admin may be given: those of the inviter. */
+  roleOptions: string[]
+  /** Roles of a rejected invitation, checked again. */
+  selectedRoles: string[]
+  /** Whether the new admin may have several roles, or just one. */
+  multipleRoles: boolean
+  error?: string
+  csrfToken: string
+  basePath: string
+}
+
+/** Renders the Invite Admin form, which emails a new admin a link to set their password. */
+export function inviteView(props: InviteViewProps): string {
+  const { email, roleOptions, selectedRoles, multipleRoles, error, csrfToken, basePath } = props
+  const roleInputs = roleOptions.map(role => `
+    <label class="flex items-center gap-2 text-sm">
+      <input type="${multipleRoles ? 'checkbox' : 'radio'}" name="roles[]" value="${escapeHtml(role)}"${selectedRoles.includes(role) ? ' checked' : ''} class="${styles.checkbox}">
+      ${escapeHtml(role)}
+    </label>
+  `).join('')
+
+  return `
+    <form method="POST" action="${adminUrl(basePath, '/invite')}" class="${styles.cardPadded} space-y-4 max-w-xl" aria-label="Invite admin">
+      <input type="hidden" name="_csrf" value="${csrfToken}">
+      <p class="${styles.textMuted} text-sm">The new admin gets an email with a link to set their password. The link expires in 7 days.</p>
+      ${error ? `<p class="${styles.textError} text-sm">${escapeHtml(error)}</p>` : ''}
+      <div>
+        <label for="email" class="${styles.label}">Email</label>
+        <input id="email" type="email" name="email" required value="${escapeHtml(email ?? '')}" class="${styles.input}" placeholder="colleague@example.com">
+      </div>
+      <fieldset class="space-y-1">
+        <legend class="${styles.label}">${multipleRoles ? 'Roles' : 'Role'}</legend>
+        ${roleInputs}
+      </fieldset>
+      <div class="flex gap-2">
+        <button type="submit" class="${styles.btnPrimary}">Send invitation</button>
+        ${linkButton({ label: 'Cancel', href: adminUrl(basePath, '/account'), variant: 'secondary' })}
+      </div>
+    </form>
+  `
+}
@@ -4,6 +4,7 @@ import type { FlashMessage } from '@/utils/flash.ts'
 import { styles, tailwindScript } from '@/views/styles.ts'
 import { renderFlash, escapeHtml } from '@/views/components/flash.ts'
 import { modalScript } from '@/views/components/modal.ts'
+import { can } from '@/auth/permissions.ts'
 import { adminUrl } from '@/utils/url.ts'
 
 export interface LayoutProps {
@@ -15,10 +16,12 @@ export interface LayoutProps {
   basePath: string
   flash?: FlashMessage | null
   modals?: string
+  /** Whether to link the Audit Log page in the sidebar. */
+  auditLog?: boolean
 }
 
 export function layout(props: LayoutProps): string {
-  const { title, content, admin, resources, currentPath, basePath, flash, modals } = props
+  const { title, content, admin, resources, currentPath, basePath, flash, modals, auditLog } = props
 
   return `
 <!DOCTYPE html>
@@ -42,10 +45,11 @@ export function layout(props: LayoutProps): string {
         <a href="${adminUrl(basePath, '/')}" class="text-xl font-bold text-zinc-100">DrizzleAdmin</a>
       </div>
       <nav class="flex-1 p-4 space-y-1">
-        ${renderSidebar(resources, currentPath, basePath)}
+        ${renderSidebar(resources.filter(resource => can(admin, resource, 'read')), currentPath, basePath)}
+        ${auditLog ? renderAuditLogLink(currentPath, basePath) : ''}
       </nav>
       <div class="p-4 border-t border-zinc-800">
-        <div class="${styles.textMuted} text-sm truncate">${escapeHtml(admin.email)}</div>
+        <a href="${adminUrl(basePath, '/account')}" class="block ${styles.textMuted} text-sm truncate hover:text-zinc-100">${escapeHtml(admin.email)}</a>
         <a href="${adminUrl(basePath, '/logout')}" class="${styles.textMuted} text-sm hover:text-zinc-100">Sign out</a>
       </div>
     </aside>
@@ -88,6 +92,20 @@ function renderNavItem(resource: ResourceDefinition, currentPath: string, basePa
   `
 }
 
+function renderAuditLogLink(currentPath: string, basePath: string): string {
+  const className = currentPath.startsWith('/audit-log') ? styles.navLinkActive : styles.navLink
+
+  return `
+    <a href="${adminUrl(basePath, '/audit-log')}" class="${className}">
+      <svg class="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path stroke-linecap="round" stroke-linejoin="round" stroke-width="2"
+          d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/>
+      </svg>
+      Audit Log
+    </a>
+  `
+}
+
 export interface SidebarGroup {
   folder: string | null
   resources: ResourceDefinition[]
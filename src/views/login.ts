@@ -2,42 +2,22 @@ import { styles, tailwindScript } from '@/views/styles.ts'
 import { escapeHtml } from '@/views/components/flash.ts'
 import { csrfInput } from '@/auth/csrf.ts'
 import { adminUrl } from '@/utils/url.ts'
+import type { PasswordTokenPurpose } from '@/auth/passwordTokens.ts'
 
 export interface LoginProps {
   csrfToken: string
   basePath: string
   error?: string
+  /** A success message, such as after a password was set. */
+  notice?: string
+  /** Whether to link the Forgot Password page. */
+  canResetPassword?: boolean
 }
 
 export function loginPage(props: LoginProps): string {
-  const { csrfToken, basePath, error } = props
-
-  return `
-<!DOCTYPE html>
-<html lang="en" class="dark">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Sign In | DrizzleAdmin</title>
-  ${tailwindScript}
-  <style>
-    body { font-family: system-ui, -apple-system, sans-serif; }
-  </style>
-</head>
-<body class="${styles.bg} ${styles.text} min-h-screen flex items-center justify-center p-4">
-  <div class="w-full max-w-sm">
-    <div class="text-center mb-8">
-      <h1 class="text-2xl font-bold">DrizzleAdmin</h1>
-      <p class="${styles.textMuted}">Sign in to continue</p>
-    </div>
-
-    <div class="${styles.cardPadded}">
-      ${error ? `
-        <div class="mb-4 p-3 rounded-lg bg-red-900/50 border border-red-700 text-red-200 text-sm">
-          ${escapeHtml(error)}
-        </div>
-      ` : ''}
+  const { csrfToken, basePath, canResetPassword } = props
 
+  return authPage('Sign In', 'Sign in to continue', props, `
       <form method="POST" action="${adminUrl(basePath, '/login')}" class="space-y-4">
         ${csrfInput(csrfToken)}
 
@@ -70,6 +50,158 @@ export function loginPage(props: LoginProps): string {
           Sign in
         </button>
       </form>
+      ${canResetPassword ? `<a href="${adminUrl(basePath, '/forgot-password')}" class="block mt-4 text-center ${styles.textMuted} text-sm hover:text-zinc-100">Forgot password?</a>` : ''}
+  `)
+}
+
+/** The second sign-in step, asking for a code from an authenticator app or a recovery code. */
+export function twoFactorLoginPage(props: LoginProps): string {
+  const { csrfToken, basePath } = props
+
+  return authPage('Two-Factor Authentication', 'Enter the code from your authenticator app', props, `
+      <form method="POST" action="${adminUrl(basePath, '/login/two-factor')}" class="space-y-4">
+        ${csrfInput(csrfToken)}
+
+        <div>
+          <label for="code" class="${styles.label}">Code</label>
+          <input
+            type="text"
+            id="code"
+            name="code"
+            required
+            autofocus
+            autocomplete="one-time-code"
+            class="${styles.input} font-mono"
+            placeholder="123456"
+          >
+          <p class="${styles.textMuted} text-xs mt-1">Lost your device? Enter one of your recovery codes instead.</p>
+        </div>
+
+        <button type="submit" class="${styles.btnPrimary} w-full">
+          Verify
+        </button>
+      </form>
+      <a href="${adminUrl(basePath, '/logout')}" class="block mt-4 text-center ${styles.textMuted} text-sm hover:text-zinc-100">Cancel</a>
+  `)
+}
+
+/** Asks for the email to send a password reset link to. */
+export function forgotPasswordPage(props: LoginProps): string {
+  const { csrfToken, basePath } = props
+
+  return authPage('Forgot Password', 'We will email you a link to choose a new password', props, `
+      <form method="POST" action="${adminUrl(basePath, '/forgot-password')}" class="space-y-4">
+        ${csrfInput(csrfToken)}
+
+        <div>
+          <label for="email" class="${styles.label}">Email</label>
+          <input
+            type="email"
+            id="email"
+            name="email"
+            required
+            autocomplete="email"
+            class="${styles.input}"
+            placeholder="admin@example.com"
+          >
+        </div>
+
+        <button type="submit" class="${styles.btnPrimary} w-full">
+          Send link
+        </button>
+      </form>
+      <a href="${adminUrl(basePath, '/login')}" class="block mt-4 text-center ${styles.textMuted} text-sm hover:text-zinc-100">Back to sign in</a>
+  `)
+}
+
+export interface SetPasswordProps {
+  csrfToken: string
+  basePath: string
+  /** The token from the emailed link, posted back with the form. */
+  token: string
+  purpose: PasswordTokenPurpose
+  /** Email of the admin whose password is set. */
+  email: string
+  error?: string
+}
+
+/** Lets an invited admin choose their password, or any admin reset a forgotten one. */
+export function setPasswordPage(props: SetPasswordProps): string {
+  const { csrfToken, basePath, token, purpose, email, error } = props
+  const title = purpose === 'invite' ? 'Set Password' : 'Reset Password'
+  const subtitle = `Choose ${purpose === 'invite' ? 'a' : 'a new'} password for ${email}`
+
+  return authPage(title, subtitle, { error }, `
+      <form method="POST" action="${adminUrl(basePath, '/set-password')}" class="space-y-4">
+        ${csrfInput(csrfToken)}
+        <input type="hidden" name="token" value="${escapeHtml(token)}">
+
+        <div>
+          <label for="newPassword" class="${styles.label}">New password</label>
+          <input
+            type="password"
+            id="newPassword"
+            name="newPassword"
+            required
+            autocomplete="new-password"
+            class="${styles.input}"
+          >
+        </div>
+
+        <div>
+          <label for="confirmPassword" class="${styles.label}">Confirm new password</label>
+          <input
+            type="password"
+            id="confirmPassword"
+            name="confirmPassword"
+            required
+            autocomplete="new-password"
+            class="${styles.input}"
+          >
+        </div>
+
+        <button type="submit" class="${styles.btnPrimary} w-full">
+          Set password
+        </button>
+      </form>
+  `)
+}
+
+function authPage(title: string, subtitle: string, messages: { error?: string; notice?: string }, form: string): string {
+  const { error, notice } = messages
+
+  return `
+<!DOCTYPE html>
+<html lang="en" class="dark">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${escapeHtml(title)} | DrizzleAdmin</title>
+  ${tailwindScript}
+  <style>
+    body { font-family: system-ui, -apple-system, sans-serif; }
+  </style>
+</head>
+<body class="${styles.bg} ${styles.text} min-h-screen flex items-center justify-center p-4">
+  <div class="w-full max-w-sm">
+    <div class="text-center mb-8">
+      <h1 class="text-2xl font-bold">DrizzleAdmin</h1>
+      <p class="${styles.textMuted}">${escapeHtml(subtitle)}</p>
+    </div>
+
+    <div class="${styles.cardPadded}">
+      ${error ? `
+        <div class="mb-4 p-3 rounded-lg bg-red-900/50 border border-red-700 text-red-200 text-sm">
+          ${escapeHtml(error)}
+        </div>
+      ` : ''}
+      ${notice ? `
+        <div class="mb-4 p-3 rounded-lg bg-emerald-900/50 border border-emerald-700 text-emerald-200 text-sm">
+          ${escapeHtml(notice)}
+        </div>
+      ` : ''}
+
+      ${form}
     </div>
   </div>
 </body>
@@ -3,9 +3,16 @@ import type { ResourceDefinition } from '@/resources/types.ts'
 import { styles } from '@/views/styles.ts'
 import { escapeHtml } from '@/views/components/flash.ts'
 import { linkButton } from '@/views/components/button.ts'
-import { renderMemberActions } from '@/views/components/actions.ts'
+import { domId, renderMemberActions } from '@/views/components/actions.ts'
 import { confirmModal, modalTrigger } from '@/views/components/modal.ts'
 import { adminUrl } from '@/utils/url.ts'
+import { renderRelationLink } from '@/views/components/relation.ts'
+import { renderRelationPanels } from '@/views/components/panels.ts'
+import { renderHistory } from '@/views/components/history.ts'
+import type { RelationLink, RelationPanel } from '@/resources/relations.ts'
+import { encodeRecordId, getPrimaryKey } from '@/resources/primaryKey.ts'
+import { ALL_ABILITIES, type Abilities } from '@/auth/permissions.ts'
+import type { AuditEntry } from '@/audit/log.ts'
 
 export interface ShowViewProps {
   resource: ResourceDefinition
@@ -13,43 +20,57 @@ export interface ShowViewProps {
   record: Record<string, unknown>
   csrfToken: string
   basePath: string
+  /** Labels of referenced records for foreign key columns, keyed by column name. */
+  relations?: Record<string, RelationLink>
+  /** Has-many panels listing child records below the record. */
+  panels?: RelationPanel[]
+  /** Operations the admin may perform; buttons for the others are hidden. Defaults to all. */
+  abilities?: Abilities
+  /** Recent audit entries for the record. The History card is omitted when unset. */
+  history?: AuditEntry[]
 }
 
 export function showView(props: ShowViewProps): { content: string; modals: string } {
-  const { resource, columns, record, csrfToken, basePath } = props
-  const id = record.id
+  const { resource, columns, record, csrfToken, basePath, relations, panels, history } = props
+  const id = encodeRecordId(record, getPrimaryKey(columns))
+  const path = encodeURIComponent(id)
+  const abilities = props.abilities ?? ALL_ABILITIES
 
   const visibleColumns = getVisibleColumns(columns, resource.options.show)
 
   const { buttons: actionButtons, modals } = renderMemberActions({
     resource,
-    recordId: id as string | number,
+    recordId: id,
     csrfToken,
     basePath,
   })
 
-  const deleteModalId = `delete-${id}`
-  const deleteModal = confirmModal({
+  const deleteModalId = `delete-${domId(id)}`
+  const deleteModal = abilities.delete ? confirmModal({
     id: deleteModalId,
     title: 'Delete ' + resource.displayName,
     message: `Are you sure you want to delete this ${resource.displayName.toLowerCase()}? This action cannot be undone.`,
     confirmLabel: 'Delete',
     confirmVariant: 'danger',
-    formAction: adminUrl(basePath, `/${resource.routePath}/${id}?_method=DELETE`),
+    formAction: adminUrl(basePath, `/${resource.routePath}/${path}?_method=DELETE`),
     csrfToken,
-  })
+  }) : ''
 
   const actionBar = `
     <div class="flex items-center gap-2">
       ${actionButtons}
-      ${linkButton({ label: 'Edit', href: adminUrl(basePath, `/${resource.routePath}/${id}/edit`), variant: 'secondary' })}
-      ${modalTrigger(deleteModalId, 'Delete', 'danger')}
+      ${abilities.update ? linkButton({ label: 'Edit', href: adminUrl(basePath, `/${resource.routePath}/${path}/edit`), variant: 'secondary' }) : ''}
+      ${resource.options.versioning ? linkButton({ label: 'Versions', href: adminUrl(basePath, `/${resource.routePath}/${path}/versions`), variant: 'secondary' }) : ''}
+      ${abilities.delete ? modalTrigger(deleteModalId, 'Delete', 'danger') : ''}
       ${linkButton({ label: 'Back to list', href: adminUrl(basePath, `/${resource.routePath}`), variant: 'ghost' })}
     </div>
   `
 
   const rows = visibleColumns.map(col => {
-    const value = formatShowValue(record[col.name], col)
+    const link = relations?.[col.name]
+    const value = link
+      ? renderRelationLink(record[col.name], link, basePath)
+      : formatShowValue(record[col.name], col)
     return `
       <div class="py-3 border-b border-zinc-800 last:border-0">
         <dt class="text-sm ${styles.textMuted}">${formatColumnHeader(col.name)}</dt>
@@ -65,6 +86,15 @@ export function showView(props: ShowViewProps): { content: string; modals: strin
         ${rows}
       </dl>
     </div>
+    ${renderRelationPanels({
+      panels: panels ?? [],
+      showUrl: adminUrl(basePath, `/${resource.routePath}/${path}`),
+      basePath,
+    })}
+    ${history ? renderHistory({
+      entries: history,
+      auditLogUrl: adminUrl(basePath, `/audit-log?${new URLSearchParams({ resource: resource.tableName, recordId: id })}`),
+    }) : ''}
   `
 
   return {
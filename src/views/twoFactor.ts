@@ -0,0 +1,104 @@
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { linkButton } from '@/views/components/button.ts'
+import { qrSvg } from '@/utils/qr.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+export interface TwoFactorSetupViewProps {
+  /** Base32 secret, for typing into apps that cannot scan. */
+  secret: string
+  /** `otpauth://` URI encoded in the QR code. */
+  uri: string
+  /** Whether the admin must finish setup before using the panel. */
+  required: boolean
+  error?: string
+  csrfToken: string
+  basePath: string
+}
+
+/** Renders the enrollment page: the QR code to scan and a form confirming a first code. */
+export function twoFactorSetupView(props: TwoFactorSetupViewProps): string {
+  const { secret, uri, required, error, csrfToken, basePath } = props
+
+  return `
+    <div class="space-y-6 max-w-xl">
+      ${required ? `<p class="${styles.textMuted}">Two-factor authentication is required for your account. Set it up to continue.</p>` : ''}
+      <section class="${styles.cardPadded} space-y-4" aria-label="Set up two-factor authentication">
+        <p>Scan this QR code with an authenticator app such as 1Password, Google Authenticator or Authy.</p>
+        <div class="inline-block rounded-lg overflow-hidden">${qrSvg(uri)}</div>
+        <p class="${styles.textMuted} text-sm">Can't scan it? Enter this key instead: <code class="font-mono ${styles.text}">${escapeHtml(secret)}</code></p>
+      </section>
+      <form method="POST" action="${adminUrl(basePath, '/account/two-factor')}" class="${styles.cardPadded} space-y-4" aria-label="Confirm code">
+        <input type="hidden" name="_csrf" value="${csrfToken}">
+        ${error ? `<p class="${styles.textError} text-sm">${escapeHtml(error)}</p>` : ''}
+        <div>
+          <label for="code" class="${styles.label}">Code from the app</label>
+          <input id="code" type="text" name="code" required autocomplete="one-time-code" inputmode="numeric" class="${styles.input} font-mono w-40" placeholder="123456">
+        </div>
+        <button type="submit" class="${styles.btnPrimary}">Turn on</button>
+      </form>
+    </div>
+  `
+}
+
+export interface TwoFactorManageViewProps {
+  /** How many unused recovery codes are left. */
+  recoveryCodesLeft: number
+  /** Whether the admin may turn two-factor authentication off. */
+  canDisable: boolean
+  csrfToken: string
+  basePath: string
+}
+
+/** Renders the page of an admin with two-factor authentication on. */
+export function twoFactorManageView(props: TwoFactorManageViewProps): string {
+  const { recoveryCodesLeft, canDisable, csrfToken, basePath } = props
+  const pageUrl = adminUrl(basePath, '/account/two-factor')
+
+  const codeForm = (action: string, label: string, buttonClass: string) => `
+    <form method="POST" action="${pageUrl}/${action}" class="flex items-end gap-2">
+      <input type="hidden" name="_csrf" value="${csrfToken}">
+      <div>
+        <label for="${action}-code" class="${styles.label}">Current code</label>
+        <input id="${action}-code" type="text" name="code" required autocomplete="one-time-code" class="${styles.input} font-mono w-40">
+      </div>
+      <button type="submit" class="${buttonClass}">${label}</button>
+    </form>
+  `
+
+  return `
+    <div class="space-y-6 max-w-xl">
+      <section class="${styles.cardPadded} space-y-2" aria-label="Status">
+        <p class="${styles.textSuccess}">Two-factor authentication is on.</p>
+        <p class="${styles.textMuted} text-sm">${recoveryCodesLeft} recovery code${recoveryCodesLeft === 1 ? '' : 's'} left.</p>
+      </section>
+      <section class="${styles.cardPadded} space-y-3" aria-label="Recovery codes">
+        <p class="${styles.textMuted} text-sm">New recovery codes replace all of your current ones.</p>
+        ${codeForm('recovery-codes', 'New recovery codes', styles.btnSecondary)}
+      </section>
+      ${canDisable ? `
+        <section class="${styles.cardPadded} space-y-3" aria-label="Turn off">
+          <p class="${styles.textMuted} text-sm">Turning two-factor authentication off forgets your authenticator app and recovery codes.</p>
+          ${codeForm('disable', 'Turn off', styles.btnDanger)}
+        </section>
+      ` : ''}
+    </div>
+  `
+}
+
+/** Renders newly generated recovery codes, which are shown only once. */
+export function recoveryCodesView(props: { codes: string[]; basePath: string }): string {
+  const { codes, basePath } = props
+
+  return `
+    <div class="space-y-6 max-w-xl">
+      <section class="${styles.cardPadded} space-y-4" aria-label="Recovery codes">
+        <p>Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator app. They will not be shown again.</p>
+        <ul class="grid grid-cols-2 gap-2 font-mono">
+          ${codes.map(code => `<li>${escapeHtml(code)}</li>`).join('')}
+        </ul>
+      </section>
+      ${linkButton({ label: 'Done', href: adminUrl(basePath, '/account'), variant: 'primary' })}
+    </div>
+  `
+}
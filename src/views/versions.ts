@@ -0,0 +1,150 @@
+import type { ColumnMeta } from '@/dialects/types.ts'
+import type { ResourceDefinition } from '@/resources/types.ts'
+import type { RecordVersion } from '@/versions/store.ts'
+import { restoreSnapshot } from '@/versions/store.ts'
+import { styles } from '@/views/styles.ts'
+import { escapeHtml } from '@/views/components/flash.ts'
+import { linkButton } from '@/views/components/button.ts'
+import { confirmModal, modalTrigger } from '@/views/components/modal.ts'
+import { formatAuditTime } from '@/views/components/history.ts'
+import { formatColumnHeader, getVisibleColumns } from '@/views/index.ts'
+import { formatShowValue } from '@/views/show.ts'
+import { adminUrl } from '@/utils/url.ts'
+
+export interface VersionsViewProps {
+  resource: ResourceDefinition
+  columns: ColumnMeta[]
+  /** Encoded record ID. */
+  recordId: string
+  /** The record as it is now; unset when it was deleted. */
+  current?: Record<string, unknown>
+  /** Snapshots of the record, newest first. */
+  versions: RecordVersion[]
+  /** Requested sides of the comparison: a version ID or `current`. */
+  compare: { a?: string; b?: string }
+  /** Whether to show Revert buttons. */
+  canRevert: boolean
+  csrfToken: string
+  basePath: string
+}
+
+interface Choice {
+  key: string
+  label: string
+  values: Record<string, unknown>
+}
+
+/**
+ * Renders the Versions page: a side-by-side comparison of two snapshots (by
+ * default the current record against its latest snapshot) and the list of
+ * snapshots with their Revert buttons.
+ */
+export function versionsView(props: VersionsViewProps): { content: string; modals: string } {
+  const { resource, columns, recordId, current, versions, compare, canRevert, csrfToken, basePath } = props
+  const recordUrl = adminUrl(basePath, `/${resource.routePath}/${encodeURIComponent(recordId)}`)
+  const pageUrl = `${recordUrl}/versions`
+
+  const choices: Choice[] = []
+  if (current) choices.push({ key: 'current', label: 'Current', values: current })
+  for (const version of versions) {
+    choices.push({ key: String(version.id), label: versionLabel(version), values: restoreSnapshot(version.snapshot, columns) })
+  }
+
+  const right = choices.find(choice => choice.key === compare.b) ?? choices[0]!
+  const left = choices.find(choice => choice.key === compare.a) ?? choices.find(choice => choice !== right) ?? right
+
+  const select = (name: string, selected: Choice) => `
+    <select name="${name}" aria-label="Compare ${name === 'a' ? 'from' : 'to'}" class="${styles.input} w-72">
+      ${choices.map(choice => `<option value="${escapeHtml(choice.key)}"${choice === selected ? ' selected' : ''}>${escapeHtml(choice.label)}</option>`).join('')}
+    </select>
+  `
+
+  const compareForm = `
+    <form method="GET" action="${pageUrl}" class="flex items-center gap-2">
+      ${select('a', left)}
+      <span class="${styles.textMuted}">→</span>
+      ${select('b', right)}
+      <button type="submit" class="${styles.btnSecondary}">Compare</button>
+    </form>
+  `
+
+  const comparisonRows = getVisibleColumns(columns, resource.options.show).map(col => {
+    const before = formatShowValue(left.values[col.name], col)
+    const after = formatShowValue(right.values[col.name], col)
+    const changed = before !== after
+    return `
+      <tr class="${styles.tableRow}${changed ? ' bg-amber-500/10' : ''}"${changed ? ' data-changed' : ''}>
+        <td class="${styles.tableCell} ${styles.textMuted}">${formatColumnHeader(col.name)}</td>
+        <td class="${styles.tableCell}">${before}</td>
+        <td class="${styles.tableCell}">${after}</td>
+      </tr>
+    `
+  }).join('')
+
+  const comparison = `
+    <div class="${styles.card} overflow-x-auto mt-4">
+      <table class="${styles.table}">
+        <thead>
+          <tr class="border-b border-zinc-800">
+            <th class="px-4 py-3 ${styles.tableHeader}">Field</th>
+            <th class="px-4 py-3 ${styles.tableHeader}">${escapeHtml(left.label)}</th>
+            <th class="px-4 py-3 ${styles.tableHeader}">${escapeHtml(right.label)}</th>
+          </tr>
+        </thead>
+        <tbody>${comparisonRows}</tbody>
+      </table>
+    </div>
+  `
+
+  let modals = ''
+  const versionRows = versions.map(version => {
+    const modalId = `revert-${version.id}`
+    if (canRevert) {
+      modals += confirmModal({
+        id: modalId,
+        title: `Revert to version #${version.id}`,
+        message: current
+          ? `The ${resource.displayName.toLowerCase()} will be restored to this version. Its current values are kept as a new version.`
+          : `The deleted ${resource.displayName.toLowerCase()} will be restored from this version.`,
+        confirmLabel: 'Revert',
+        confirmVariant: 'primary',
+        formAction: `${pageUrl}/${version.id}/revert`,
+        csrfToken,
+      })
+    }
+    return `
+      <tr class="${styles.tableRow}">
+        <td class="${styles.tableCell}">#${version.id}</td>
+        <td class="${styles.tableCell}">Before ${escapeHtml(version.event)}</td>
+        <td class="${styles.tableCell}">${escapeHtml(version.adminEmail)}</td>
+        <td class="${styles.tableCell} whitespace-nowrap">${formatAuditTime(version.createdAt)}</td>
+        <td class="${styles.tableCell} text-right">${canRevert ? modalTrigger(modalId, 'Revert') : ''}</td>
+      </tr>
+    `
+  }).join('')
+
+  const versionList = versions.length === 0
+    ? `<p class="text-center py-12 ${styles.textMuted}">No versions recorded yet.</p>`
+    : `<table class="${styles.table}"><tbody>${versionRows}</tbody></table>`
+
+  const content = `
+    <div class="flex items-center gap-2">
+      ${current ? linkButton({ label: 'Back to record', href: recordUrl, variant: 'secondary' }) : ''}
+      ${linkButton({ label: 'Back to list', href: adminUrl(basePath, `/${resource.routePath}`), variant: 'ghost' })}
+    </div>
+    ${current ? '' : `<p class="mt-4 ${styles.textMuted}">This ${resource.displayName.toLowerCase()} has been deleted.</p>`}
+    <section class="${styles.cardPadded} mt-4" aria-label="Compare">
+      ${compareForm}
+      ${comparison}
+    </section>
+    <section class="${styles.card} overflow-x-auto mt-6" aria-label="Versions">
+      ${versionList}
+    </section>
+  `
+
+  return { content, modals }
+}
+
+function versionLabel(version: RecordVersion): string {
+  return `#${version.id} · before ${version.event} · ${new Date(version.createdAt).toLocaleString()}`
+}